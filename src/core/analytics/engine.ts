@@ -13,6 +13,8 @@ import type {
     ChallengeCategory,
     Challenge,
 } from '../../shared/types/index.js';
+import type { HumanEvalMetrics } from '../../shared/standards/index.js';
+import { aggregatePassAtK, passAtKValues } from './pass-at-k.js';
 
 // IEEE 2841 Performance Levels
 const IEEE_2841_LEVELS = [
@@ -87,6 +89,7 @@ export interface DetailedReport {
         totalTime: string;
     };
     metrics: PerformanceMetrics;
+    humanEval: HumanEvalMetrics;
     categoryBreakdown: CategoryAnalysis[];
     standardsCompliance: Record<string, { score: number; level: string }>;
     comparative: ComparativeAnalysis;
@@ -99,6 +102,8 @@ export interface DetailedReport {
         maxScore: number;
         passed: boolean;
         feedback: string;
+        /** Sampling sessions only */
+        passAtK?: Readonly<Record<number, number>>;
     }[];
 }
 
@@ -161,6 +166,34 @@ export class AnalyticsEngine {
         };
     }
 
+    /**
+     * HumanEval-style metrics of the submitted challenges; skipped challenges are not counted.
+     * Results without an attempt count were solved in a single submission, and results
+     * without samples count as one sample that passed only on the first attempt.
+     */
+    calculateHumanEvalMetrics(results: readonly ChallengeResult[]): HumanEvalMetrics {
+        const submitted = results.filter((r) => r.solution !== '');
+        if (submitted.length === 0) {
+            return { passAtK: {}, totalProblems: 0, solvedProblems: 0, avgAttempts: 0, firstAttemptRate: 0 };
+        }
+
+        const sampled = submitted.map((r) => {
+            const n = r.samples ?? 1;
+            const c = r.samplesPassed ?? (r.passed && (r.attempts ?? 1) === 1 ? 1 : 0);
+            return { rate: c / n, passAtK: r.passAtK ?? passAtKValues(n, c) };
+        });
+        const totalAttempts = submitted.reduce((sum, r) => sum + (r.attempts ?? 1), 0);
+        const firstAttemptRate = sampled.reduce((sum, s) => sum + s.rate, 0) / submitted.length;
+
+        return {
+            passAtK: aggregatePassAtK(sampled.map((s) => s.passAtK)),
+            totalProblems: submitted.length,
+            solvedProblems: submitted.filter((r) => r.passed).length,
+            avgAttempts: Math.round((totalAttempts / submitted.length) * 100) / 100,
+            firstAttemptRate: Math.round(firstAttemptRate * 10000) / 100,
+        };
+    }
+
     /**
      * Analyze performance by category
      */
@@ -297,6 +330,7 @@ export class AnalyticsEngine {
                 maxScore: r.maxScore,
                 passed: r.passed,
                 feedback: r.feedback || 'No feedback available',
+                ...(r.passAtK ? { passAtK: r.passAtK } : {}),
             };
         });
 
@@ -313,6 +347,7 @@ export class AnalyticsEngine {
                 totalTime: sessionResults.totalTime,
             },
             metrics,
+            humanEval: this.calculateHumanEvalMetrics(challengeResults),
             categoryBreakdown,
             standardsCompliance,
             comparative: {
@@ -554,6 +589,25 @@ export class AnalyticsEngine {
             md += `| ${key.charAt(0).toUpperCase() + key.slice(1)} | ${value}% |\n`;
         }
 
+        md += `\n## HumanEval Metrics\n\n`;
+        md += `| Metric | Value |\n|--------|-------|\n`;
+        md += `| Problems Solved | ${report.humanEval.solvedProblems}/${report.humanEval.totalProblems} |\n`;
+        md += `| First-Attempt Rate | ${report.humanEval.firstAttemptRate}% |\n`;
+        md += `| Average Attempts | ${report.humanEval.avgAttempts} |\n`;
+        for (const [k, value] of Object.entries(report.humanEval.passAtK)) {
+            md += `| pass@${k} | ${Math.round(value * 10000) / 100}% |\n`;
+        }
+
+        const sampled = report.detailedFeedback.filter((f) => f.passAtK);
+        if (sampled.length > 0) {
+            md += `\n### pass@k by Challenge\n\n`;
+            md += `| Challenge | pass@k |\n|-----------|--------|\n`;
+            for (const f of sampled) {
+                const values = Object.entries(f.passAtK!).map(([k, v]) => `@${k}: ${Math.round(v * 10000) / 100}%`);
+                md += `| ${f.title} | ${values.join(', ')} |\n`;
+            }
+        }
+
         md += `\n## Category Breakdown\n\n`;
         for (const cat of report.categoryBreakdown) {
             md += `### ${cat.category.replace('_', ' ').toUpperCase()}\n`;
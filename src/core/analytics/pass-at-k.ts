@@ -0,0 +1,75 @@
+/**
+ * @fileoverview pass@k - unbiased estimate from n samples per problem
+ * @module @mcp/intellibench/core/analytics/pass-at-k
+ * @version 1.0.0
+ *
+ * pass@k is the probability that at least one of k samples passes. Drawing k
+ * of n samples of which c passed, it is estimated without bias as
+ * 1 - C(n-c, k) / C(n, k) (Chen et al., 2021). The binomial ratio is computed
+ * as a running product so large n does not overflow.
+ * @see https://arxiv.org/abs/2107.03374
+ */
+
+import { DEFAULT_SAMPLING_CONFIG } from '../../shared/constants/index.js';
+
+// ============================================================================
+// Estimator
+// ============================================================================
+
+/**
+ * Unbiased pass@k of one problem
+ * @param n - Samples taken
+ * @param c - Samples that passed
+ * @param k - Samples drawn; at most n
+ */
+export function estimatePassAtK(n: number, c: number, k: number): number {
+    if (k < 1 || k > n) {
+        throw new Error(`pass@${k} needs between 1 and ${n} samples`);
+    }
+    // Every draw of k samples contains a passing one
+    if (n - c < k) return 1;
+
+    let allFail = 1;
+    for (let i = n - c + 1; i <= n; i++) {
+        allFail *= 1 - k / i;
+    }
+    return 1 - allFail;
+}
+
+/**
+ * pass@k of one problem for each reported k up to the sample count
+ */
+export function passAtKValues(
+    n: number,
+    c: number,
+    kValues: readonly number[] = DEFAULT_SAMPLING_CONFIG.K_VALUES
+): Record<number, number> {
+    const values: Record<number, number> = {};
+    for (const k of kValues) {
+        if (k <= n) values[k] = round(estimatePassAtK(n, c, k));
+    }
+    return values;
+}
+
+/**
+ * Mean pass@k over problems; each k averages the problems sampled at least k times
+ */
+export function aggregatePassAtK(problems: readonly Readonly<Record<number, number>>[]): Record<number, number> {
+    const sums = new Map<number, { total: number; count: number }>();
+    for (const values of problems) {
+        for (const [k, value] of Object.entries(values)) {
+            const sum = sums.get(Number(k)) ?? { total: 0, count: 0 };
+            sums.set(Number(k), { total: sum.total + value, count: sum.count + 1 });
+        }
+    }
+
+    const aggregated: Record<number, number> = {};
+    for (const [k, { total, count }] of [...sums].sort(([a], [b]) => a - b)) {
+        aggregated[k] = round(total / count);
+    }
+    return aggregated;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Adaptive Selection - picks an adaptive session's challenges one at a time
+ * @module @mcp/intellibench/core/benchmark/adaptive
+ * @version 1.0.0
+ *
+ * Computerized adaptive testing on the 2PL model: after each answer the model's
+ * ability is re-estimated from its answers so far, and the next challenge is
+ * the unanswered one carrying the most Fisher information at that estimate: a
+ * sharply discriminating challenge the model has close to an even chance of
+ * passing. Challenges use their stored IRT calibration when they have one and
+ * their hand-assigned difficulty otherwise. The session stops once the estimate
+ * is precise enough, the size cap is reached or the pool runs out.
+ */
+
+import type {
+    AdaptiveSelection,
+    AdaptiveState,
+    Calibration,
+    ChallengeResult,
+    ChallengeSummary,
+    ItemParameterSource,
+} from '../../shared/types/index.js';
+import { DEFAULT_ADAPTIVE_CONFIG, DEFAULT_CALIBRATION_CONFIG } from '../../shared/constants/index.js';
+import { getCurrentTimestamp, shuffleArray } from '../../shared/utils/index.js';
+import { estimateAbility, itemInformation, type ItemParameters } from '../calibration/irt.js';
+import { difficultyToLogit } from '../calibration/calibrate.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A challenge of the pool with the parameters it is selected by
+ */
+export interface AdaptiveCandidate {
+    challengeId: string;
+    parameters: ItemParameters;
+    source: ItemParameterSource;
+}
+
+export interface AdaptiveOptions {
+    /** Session size cap */
+    maxChallenges: number;
+    targetStandardError: number;
+    randomize?: boolean;
+}
+
+/**
+ * Outcome of one selection step
+ */
+export interface AdaptiveStep {
+    state: AdaptiveState;
+    /** Challenge to serve next; absent once the session has stopped */
+    challengeId?: string;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Item parameters of each challenge in the pool. Calibrated parameters are used
+ * once a challenge has enough results to be judged by the calibration.
+ */
+export function adaptiveCandidates(
+    pool: readonly ChallengeSummary[],
+    calibration: Calibration | null
+): AdaptiveCandidate[] {
+    const calibrated = new Map(
+        (calibration?.challenges ?? [])
+            .filter((c) => c.responses >= DEFAULT_CALIBRATION_CONFIG.MIN_RESPONSES)
+            .map((c) => [c.challengeId, c])
+    );
+
+    return pool.map((challenge) => {
+        const fitted = calibrated.get(challenge.id);
+        return fitted
+            ? {
+                  challengeId: challenge.id,
+                  parameters: { difficulty: fitted.difficulty, discrimination: fitted.discrimination },
+                  source: 'calibration' as const,
+              }
+            : {
+                  challengeId: challenge.id,
+                  parameters: {
+                      difficulty: difficultyToLogit(challenge.difficulty),
+                      discrimination: DEFAULT_ADAPTIVE_CONFIG.DEFAULT_DISCRIMINATION,
+                  },
+                  source: 'assigned' as const,
+              };
+    });
+}
+
+/**
+ * Re-estimate a session's ability from the challenges answered so far and pick
+ * the next one, or stop. Every challenge in the trace must have been answered.
+ * @param trace - Selections so far; empty when the session starts
+ * @param results - The session's results
+ */
+export function nextAdaptiveStep(
+    trace: readonly AdaptiveSelection[],
+    results: readonly ChallengeResult[],
+    candidates: readonly AdaptiveCandidate[],
+    options: AdaptiveOptions
+): AdaptiveStep {
+    const { ability, standardError } = estimateSessionAbility(trace, results);
+    const answered = trace.length;
+
+    const stop = (stopReason: AdaptiveState['stopReason']): AdaptiveStep => ({
+        state: { ability, standardError, trace, stopReason },
+    });
+
+    if (answered >= options.maxChallenges) {
+        return stop('max_challenges');
+    }
+    if (answered >= DEFAULT_ADAPTIVE_CONFIG.MIN_CHALLENGES && standardError <= options.targetStandardError) {
+        return stop('precision_reached');
+    }
+
+    const served = new Set(trace.map((s) => s.challengeId));
+    const remaining = candidates.filter((c) => !served.has(c.challengeId));
+    const ordered = options.randomize === false ? remaining : shuffleArray(remaining);
+
+    // Most informative first; among equally informative challenges the first in order wins
+    let best: { candidate: AdaptiveCandidate; information: number } | undefined;
+    for (const candidate of ordered) {
+        const information = itemInformation(ability, candidate.parameters);
+        if (!best || information > best.information) {
+            best = { candidate, information };
+        }
+    }
+
+    if (!best) {
+        return stop('pool_exhausted');
+    }
+
+    const selection: AdaptiveSelection = {
+        challengeId: best.candidate.challengeId,
+        ability,
+        standardError,
+        difficulty: best.candidate.parameters.difficulty,
+        discrimination: best.candidate.parameters.discrimination,
+        parameterSource: best.candidate.source,
+        information: best.information,
+        selectedAt: getCurrentTimestamp(),
+    };
+
+    return {
+        state: { ability, standardError, trace: [...trace, selection] },
+        challengeId: selection.challengeId,
+    };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Ability from the last result of each selected challenge, scored with the
+ * parameters it was selected by
+ */
+export function estimateSessionAbility(
+    trace: readonly AdaptiveSelection[],
+    results: readonly ChallengeResult[]
+): { ability: number; standardError: number } {
+    const passed = new Map(results.map((r) => [r.challengeId, r.passed]));
+
+    return estimateAbility(
+        trace
+            .filter((s) => passed.has(s.challengeId))
+            .map((s) => ({
+                item: { difficulty: s.difficulty, discrimination: s.discrimination },
+                correct: passed.get(s.challengeId)!,
+            }))
+    );
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Autorun - drives a whole session with a model in the loop
+ * @module @mcp/intellibench/core/benchmark/autorun
+ * @version 1.0.0
+ *
+ * Autorun poses each challenge of a session to a solution generator (on the MCP
+ * server, the client's model via sampling), extracts the code block from the
+ * reply and submits it, until the session is complete. A challenge whose reply
+ * cannot be obtained or holds no code is skipped, so a run always finishes the
+ * session unless it is cancelled. In a repair session, a failed submission is
+ * posed back with its test feedback until it passes or the attempts run out; in
+ * a sampling session, the challenge is posed afresh for each sample.
+ */
+
+import type { ChallengeView, ProgrammingLanguage, SubmissionResult } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import type { ExecutionProgress } from '../execution/engine.js';
+import type { BenchmarkEngine } from './engine.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Produces a model's reply to a challenge prompt
+ */
+export type SolutionGenerator = (prompt: string, challenge: ChallengeView) => Promise<string>;
+
+export interface AutorunOptions {
+    language: ProgrammingLanguage;
+    /** Stops the run and kills the tests in flight; the session stays resumable */
+    signal?: AbortSignal;
+    /** Called as each challenge starts and as its tests run */
+    onProgress?: (progress: AutorunProgress) => void;
+}
+
+/**
+ * Progress of a run through the remaining challenges of a session
+ */
+export interface AutorunProgress {
+    /** Challenges finished before the current one */
+    completed: number;
+    total: number;
+    challenge: ChallengeView;
+    /** Test progress of the current challenge's submission */
+    execution?: ExecutionProgress;
+}
+
+/**
+ * What happened to one challenge during a run
+ */
+export interface AutorunChallengeOutcome {
+    challengeId: string;
+    title: string;
+    submitted: boolean;
+    score: number;
+    maxScore: number;
+    passed: boolean;
+    /** Submissions made; above 1 only in repair and sampling sessions */
+    attempts: number;
+    /** Why the challenge was skipped */
+    skipReason?: string;
+}
+
+export interface AutorunSummary {
+    sessionId: string;
+    language: ProgrammingLanguage;
+    challenges: AutorunChallengeOutcome[];
+    submitted: number;
+    skipped: number;
+    passed: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * System prompt sent with every challenge
+ */
+export const AUTORUN_SYSTEM_PROMPT =
+    'You are taking a coding benchmark. Reply with your complete solution in a single fenced code block. ' +
+    'Do not include usage examples or tests in the code block.';
+
+/** Info strings accepted for a fenced block of each language */
+const LANGUAGE_ALIASES: Record<ProgrammingLanguage, readonly string[]> = {
+    typescript: ['typescript', 'ts'],
+    javascript: ['javascript', 'js'],
+    python: ['python', 'py', 'python3'],
+    java: ['java'],
+    csharp: ['csharp', 'cs', 'c#'],
+    go: ['go', 'golang'],
+    rust: ['rust', 'rs'],
+    cpp: ['cpp', 'c++', 'cxx'],
+};
+
+// ============================================================================
+// Autorun
+// ============================================================================
+
+/**
+ * Solve every remaining challenge of a session with the given generator
+ */
+export async function runAutorun(
+    engine: BenchmarkEngine,
+    sessionId: string,
+    generate: SolutionGenerator,
+    options: AutorunOptions
+): Promise<AutorunSummary> {
+    const challenges: AutorunChallengeOutcome[] = [];
+    const session = await engine.resumeSession(sessionId);
+    // Adaptive sessions pick challenges as they go, so their size cap bounds the total
+    const size = session.config.adaptive ? (session.config.maxChallenges ?? session.challengeIds.length) : session.challengeIds.length;
+    const total = size - session.currentChallengeIndex;
+
+    for (;;) {
+        options.signal?.throwIfAborted();
+
+        const challenge = await engine.getCurrentChallengeView(sessionId);
+        if (!challenge) break;
+
+        const completed = challenges.length;
+        options.onProgress?.({ completed, total, challenge });
+
+        const outcome = await solveChallenge(engine, sessionId, challenge, generate, options, (execution) =>
+            options.onProgress?.({ completed, total, challenge, execution })
+        );
+        challenges.push(outcome);
+
+        logger.info('Autorun challenge finished', 'Autorun', { sessionId, ...outcome });
+    }
+
+    return {
+        sessionId,
+        language: options.language,
+        challenges,
+        submitted: challenges.filter((c) => c.submitted).length,
+        skipped: challenges.filter((c) => !c.submitted).length,
+        passed: challenges.filter((c) => c.passed).length,
+    };
+}
+
+/**
+ * Prompt posing a challenge to the model
+ */
+export function buildChallengePrompt(challenge: ChallengeView, language: ProgrammingLanguage): string {
+    const sections = [`# ${challenge.title}`, challenge.description];
+
+    if (challenge.requirements.length > 0) {
+        sections.push(`## Requirements\n${challenge.requirements.map((r) => `- ${r}`).join('\n')}`);
+    }
+
+    if (challenge.template) {
+        sections.push(
+            `## Signature\n${challenge.template.signature}`,
+            `## Template (${challenge.template.language})\n\`\`\`${challenge.template.language}\n${challenge.template.template}\n\`\`\``
+        );
+    }
+
+    const examples = challenge.testCases.filter((tc) => 'expectedOutput' in tc);
+    if (examples.length > 0) {
+        sections.push(
+            `## Examples\n${examples
+                .map((tc) => `- ${tc.name}: input ${JSON.stringify(tc.input)} → ${JSON.stringify(tc.expectedOutput)}`)
+                .join('\n')}`
+        );
+    }
+
+    sections.push(`Write the solution in ${language}.`);
+    return sections.join('\n\n');
+}
+
+/**
+ * Prompt asking the model to fix its failed submission, from the feedback of the visible tests
+ */
+export function buildRepairPrompt(
+    challenge: ChallengeView,
+    language: ProgrammingLanguage,
+    code: string,
+    result: SubmissionResult
+): string {
+    const failures = result.testReports
+        .filter((report) => !report.passed)
+        .map((report) => {
+            const detail = report.diff?.message ?? report.error ?? report.verdict ?? 'failed';
+            return `- ${report.name ?? report.testCaseId}${report.hidden ? ' (hidden)' : ''}: ${detail}`;
+        });
+
+    return [
+        buildChallengePrompt(challenge, language),
+        `## Your previous submission\n\`\`\`${language}\n${code}\n\`\`\``,
+        `## Feedback\n${result.feedback}`,
+        ...(failures.length > 0 ? [`## Failing tests\n${failures.join('\n')}`] : []),
+        `Fix the solution (${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} left) and reply with the complete corrected code.`,
+    ].join('\n\n');
+}
+
+/**
+ * Extract the solution from a reply: the longest fenced block in the requested
+ * language, else the longest fenced block of any language
+ */
+export function extractCodeBlock(reply: string, language: ProgrammingLanguage): string | null {
+    const blocks = [...reply.matchAll(/```([^\n`]*)\r?\n([\s\S]*?)```/g)].map(([, info, code]) => ({
+        info: (info ?? '').trim().toLowerCase(),
+        code: (code ?? '').trim(),
+    }));
+
+    const aliases = LANGUAGE_ALIASES[language];
+    const matching = blocks.filter((block) => aliases.includes(block.info));
+    const [longest] = (matching.length > 0 ? matching : blocks)
+        .filter((block) => block.code.length > 0)
+        .sort((a, b) => b.code.length - a.code.length);
+
+    return longest?.code ?? null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function solveChallenge(
+    engine: BenchmarkEngine,
+    sessionId: string,
+    challenge: ChallengeView,
+    generate: SolutionGenerator,
+    options: AutorunOptions,
+    onProgress: (execution: ExecutionProgress) => void
+): Promise<AutorunChallengeOutcome> {
+    const base = { challengeId: challenge.challengeId, title: challenge.title, maxScore: challenge.maxScore };
+    let prompt = buildChallengePrompt(challenge, options.language);
+
+    for (let attempts = 0; ; ) {
+        let reply: string;
+        try {
+            reply = await generate(prompt, challenge);
+        } catch (error) {
+            // A cancelled run leaves the current challenge unanswered
+            options.signal?.throwIfAborted();
+            const message = error instanceof Error ? error.message : String(error);
+            return skip(engine, sessionId, { ...base, attempts }, `Sampling failed: ${message}`);
+        }
+
+        // A reply that took too long finds its challenge skipped, or the session over
+        const expiry = await engine.enforceTimeLimits(sessionId);
+        if (expiry) {
+            const skipReason = expiry === 'session_time_limit' ? 'Session time limit exceeded' : 'Challenge time limit exceeded';
+            return { ...base, attempts, submitted: false, score: 0, passed: false, skipReason };
+        }
+
+        const code = extractCodeBlock(reply, options.language);
+        if (!code) {
+            return skip(engine, sessionId, { ...base, attempts }, 'Reply contained no code block');
+        }
+
+        const result = await engine.submitSolution(sessionId, challenge.challengeId, code, options.language, {
+            signal: options.signal,
+            onProgress,
+        });
+        attempts++;
+
+        // Samples are independent, so each is drawn from the original prompt
+        if (result.samplesRemaining) continue;
+
+        if (!result.attemptsRemaining) {
+            return { ...base, attempts, submitted: true, score: result.score, passed: result.passed };
+        }
+
+        logger.debug('Autorun repairing failed submission', 'Autorun', {
+            sessionId,
+            challengeId: challenge.challengeId,
+            attempts,
+            attemptsRemaining: result.attemptsRemaining,
+        });
+        prompt = buildRepairPrompt(challenge, options.language, code, result);
+    }
+}
+
+async function skip(
+    engine: BenchmarkEngine,
+    sessionId: string,
+    base: Pick<AutorunChallengeOutcome, 'challengeId' | 'title' | 'maxScore' | 'attempts'>,
+    skipReason: string
+): Promise<AutorunChallengeOutcome> {
+    // A sampling challenge skipped part-way is settled on the samples already drawn
+    const result = await engine.skipChallenge(sessionId, skipReason);
+    const settled = result?.samples !== undefined;
+    return {
+        ...base,
+        submitted: settled,
+        score: settled ? result.score : 0,
+        passed: settled ? result.passed : false,
+        skipReason,
+    };
+}
@@ -9,13 +9,29 @@ import type {
     SessionConfig,
     Challenge,
     ChallengeResult,
+    ChallengeTestReport,
+    ChallengeView,
     SessionResults,
+    SessionStatus,
+    SubmissionResult,
     Leaderboard,
+    LeaderboardRecord,
+    LeaderboardScope,
     LeaderboardTimeframe,
+    LeaderboardView,
     ChallengeCategory,
     Difficulty,
     ScoreBreakdown,
     ProgrammingLanguage,
+    ModelProfile,
+    SessionModel,
+    Calibration,
+    AdaptiveState,
+    ExpiryReason,
+    ISOTimestamp,
+    LateSubmissionPolicy,
+    SubmissionAttempt,
+    ChallengePassAtK,
 } from '../../shared/types/index.js';
 import {
     generateSessionId,
@@ -25,13 +41,29 @@ import {
     calculatePercentage,
     calculatePercentile,
     getRankLabel,
-    shuffleArray,
     average,
 } from '../../shared/utils/index.js';
 import { logger } from '../../shared/utils/logger.js';
-import { CATEGORY_DISPLAY_NAMES, LIMITS } from '../../shared/constants/index.js';
+import {
+    CATEGORY_DISPLAY_NAMES,
+    DEFAULT_ADAPTIVE_CONFIG,
+    DEFAULT_RATING_CONFIG,
+    DEFAULT_REPAIR_CONFIG,
+    LIMITS,
+} from '../../shared/constants/index.js';
 import type { ChallengeRepository } from '../challenges/repository.js';
 import type { ScoringEngine } from '../scoring/engine.js';
+import type { ExecutionHooks } from '../execution/engine.js';
+import { HiddenTestRedactor } from '../redaction/redactor.js';
+import { ModelRegistry } from '../models/registry.js';
+import { InMemoryLeaderboardStore, type LeaderboardStore } from '../leaderboard/store.js';
+import { InMemoryCalibrationStore, type CalibrationStore } from '../calibration/store.js';
+import { calibrate } from '../calibration/calibrate.js';
+import { AnalyticsEngine } from '../analytics/engine.js';
+import { passAtKValues } from '../analytics/pass-at-k.js';
+import { selectChallenges, type CategoryQuotas } from './selection.js';
+import { adaptiveCandidates, estimateSessionAbility, nextAdaptiveStep, type AdaptiveCandidate } from './adaptive.js';
+import { challengeClock, isSessionExpired, lastActivityAt } from './timing.js';
 import type { SessionManager } from '../sessions/manager.js';
 
 // ============================================================================
@@ -44,18 +76,41 @@ import type { SessionManager } from '../sessions/manager.js';
 export interface StartSessionOptions {
     name?: string;
     categories?: ChallengeCategory[];
+    /** Include challenges carrying any of these tags */
+    tags?: string[];
     difficulty?: Difficulty | 'all';
     maxChallenges?: number;
+    /** Exact number of challenges to draw from each category */
+    categoryQuotas?: CategoryQuotas;
+    /** Spread challenges evenly across difficulty tiers */
+    stratifyByDifficulty?: boolean;
     randomize?: boolean;
+    /** Pick challenges one at a time from the running ability estimate; maxChallenges caps the session */
+    adaptive?: boolean;
+    /** Standard error at which an adaptive session stops */
+    targetStandardError?: number;
+    /** Time budget of the whole session in seconds; the session completes when it runs out */
+    sessionTimeLimit?: number;
+    /** What happens to submissions after a challenge's time limit (default penalize) */
+    latePolicy?: LateSubmissionPolicy;
+    /** Submissions allowed per challenge; above 1, failed submissions can be repaired after feedback */
+    maxAttempts?: number;
+    /** Independent samples submitted per challenge; above 1, pass@k is estimated from them */
+    samples?: number;
+    /** Model taking the session; registered with the model registry */
+    model?: SessionModel;
 }
 
 /**
- * Options for leaderboard query
+ * Options for leaderboard query; set at most one of category, language and difficulty
  */
-export interface LeaderboardOptions {
-    category?: ChallengeCategory;
+export interface LeaderboardOptions extends LeaderboardScope {
     limit?: number;
     timeframe?: LeaderboardTimeframe;
+    /** Best run per model (default) or every run */
+    view?: LeaderboardView;
+    /** Also rank partial runs of abandoned sessions */
+    includeAbandoned?: boolean;
 }
 
 // ============================================================================
@@ -69,15 +124,28 @@ export class BenchmarkEngine {
     private readonly challengeRepository: ChallengeRepository;
     private readonly scoringEngine: ScoringEngine;
     private readonly sessionManager: SessionManager;
+    private readonly redactor: HiddenTestRedactor;
+    private readonly modelRegistry: ModelRegistry;
+    private readonly leaderboardStore: LeaderboardStore;
+    private readonly calibrationStore: CalibrationStore;
+    private readonly analytics = new AnalyticsEngine();
 
     constructor(
         challengeRepository: ChallengeRepository,
         scoringEngine: ScoringEngine,
-        sessionManager: SessionManager
+        sessionManager: SessionManager,
+        redactor: HiddenTestRedactor = new HiddenTestRedactor(),
+        modelRegistry: ModelRegistry = new ModelRegistry(),
+        leaderboardStore: LeaderboardStore = new InMemoryLeaderboardStore(),
+        calibrationStore: CalibrationStore = new InMemoryCalibrationStore()
     ) {
         this.challengeRepository = challengeRepository;
         this.scoringEngine = scoringEngine;
         this.sessionManager = sessionManager;
+        this.redactor = redactor;
+        this.modelRegistry = modelRegistry;
+        this.leaderboardStore = leaderboardStore;
+        this.calibrationStore = calibrationStore;
     }
 
     // ==========================================================================
@@ -92,17 +160,26 @@ export class BenchmarkEngine {
     async startSession(options: StartSessionOptions = {}): Promise<Session> {
         logger.info('Starting new benchmark session', 'BenchmarkEngine', { options });
 
+        if ((options.samples ?? 1) > 1 && (options.maxAttempts ?? 1) > 1) {
+            throw new Error('Sampling sessions do not support maxAttempts; each sample is scored as submitted');
+        }
+
+        // Quota categories are included even when not listed in categories
+        const categories = options.categories?.length
+            ? [...new Set([...options.categories, ...Object.keys(options.categoryQuotas ?? {}) as ChallengeCategory[]])]
+            : undefined;
+
         // Get challenges based on filters
         logger.debug('Fetching challenges with filters', 'BenchmarkEngine', {
-            category: options.categories?.[0],
+            categories,
+            tags: options.tags,
             difficulty: options.difficulty,
-            limit: options.maxChallenges ?? LIMITS.DEFAULT_CHALLENGES_PER_SESSION,
         });
 
         const challenges = await this.challengeRepository.listChallenges({
-            category: options.categories?.[0],
+            categories,
+            tags: options.tags,
             difficulty: options.difficulty,
-            limit: options.maxChallenges ?? LIMITS.DEFAULT_CHALLENGES_PER_SESSION,
         });
 
         logger.debug('Challenges fetched', 'BenchmarkEngine', { count: challenges.length });
@@ -112,43 +189,79 @@ export class BenchmarkEngine {
             throw new Error('No challenges match the specified criteria');
         }
 
-        // Optionally shuffle challenges
-        const orderedChallenges =
-            options.randomize !== false ? shuffleArray(challenges) : challenges;
+        let challengeIds: string[];
+        let adaptive: AdaptiveState | undefined;
+        let maxChallenges: number;
 
-        // Apply max limit
-        const maxChallenges = Math.min(
-            options.maxChallenges ?? LIMITS.DEFAULT_CHALLENGES_PER_SESSION,
-            orderedChallenges.length
-        );
+        if (options.adaptive) {
+            if (options.categoryQuotas || options.stratifyByDifficulty) {
+                throw new Error('Adaptive sessions do not support categoryQuotas or stratifyByDifficulty');
+            }
 
-        const selectedChallenges = orderedChallenges.slice(0, maxChallenges);
+            // The first challenge is picked for the prior ability estimate
+            maxChallenges = Math.min(options.maxChallenges ?? DEFAULT_ADAPTIVE_CONFIG.MAX_CHALLENGES, challenges.length);
+            const step = nextAdaptiveStep([], [], adaptiveCandidates(challenges, await this.calibrationStore.load()), {
+                maxChallenges,
+                targetStandardError: options.targetStandardError ?? DEFAULT_ADAPTIVE_CONFIG.TARGET_STANDARD_ERROR,
+                randomize: options.randomize,
+            });
+            challengeIds = step.challengeId ? [step.challengeId] : [];
+            adaptive = step.state;
+        } else {
+            const selectedChallenges = selectChallenges(challenges, {
+                maxChallenges: options.maxChallenges,
+                categoryQuotas: options.categoryQuotas,
+                stratifyByDifficulty: options.stratifyByDifficulty,
+                randomize: options.randomize,
+            });
+            challengeIds = selectedChallenges.map((c) => c.id);
+            maxChallenges = challengeIds.length;
+        }
 
         logger.debug('Challenges selected', 'BenchmarkEngine', {
             total: challenges.length,
-            selected: selectedChallenges.length,
+            selected: challengeIds.length,
+            adaptive: options.adaptive ?? false,
+            categoryQuotas: options.categoryQuotas,
+            stratifyByDifficulty: options.stratifyByDifficulty ?? false,
             randomized: options.randomize !== false,
         });
 
         // Create session config
         const config: SessionConfig = {
             name: options.name,
-            categories: options.categories,
+            categories,
+            tags: options.tags,
             difficulty: options.difficulty,
             maxChallenges,
+            categoryQuotas: options.categoryQuotas,
+            stratifyByDifficulty: options.stratifyByDifficulty,
             randomize: options.randomize !== false,
+            ...(options.adaptive
+                ? {
+                      adaptive: true,
+                      targetStandardError: options.targetStandardError ?? DEFAULT_ADAPTIVE_CONFIG.TARGET_STANDARD_ERROR,
+                  }
+                : {}),
+            sessionTimeLimit: options.sessionTimeLimit,
+            latePolicy: options.latePolicy,
+            ...(options.maxAttempts && options.maxAttempts > 1 ? { maxAttempts: options.maxAttempts } : {}),
+            ...(options.samples && options.samples > 1 ? { samples: options.samples } : {}),
         };
 
         // Create and save session
         const session: Session = {
             id: generateSessionId(),
             name: options.name ?? `Benchmark Session ${new Date().toLocaleDateString()}`,
+            aiModel: options.model?.id,
+            model: options.model,
             status: 'in_progress',
             config,
-            challengeIds: selectedChallenges.map((c) => c.id),
+            challengeIds,
             currentChallengeIndex: 0,
             results: [],
             startedAt: getCurrentTimestamp(),
+            adaptive,
         };
 
         logger.info('Session created', 'BenchmarkEngine', {
@@ -156,18 +269,49 @@ export class BenchmarkEngine {
             sessionName: session.name,
             challengeCount: session.challengeIds.length,
             challengeIds: session.challengeIds,
+            aiModel: session.aiModel,
         });
 
+        if (options.model) {
+            await this.modelRegistry.register(options.model);
+        }
+
         await this.sessionManager.saveSession(session);
         logger.debug('Session saved to manager', 'BenchmarkEngine', { sessionId: session.id });
 
         return session;
     }
 
+    /**
+     * Resume a previously started session by ID
+     * @param sessionId - Session identifier
+     * @returns The stored session, including results submitted so far
+     */
+    async resumeSession(sessionId: string): Promise<Session> {
+        logger.info('Resuming session', 'BenchmarkEngine', { sessionId });
+
+        const session = await this.sessionManager.getSession(sessionId);
+
+        if (!session) {
+            logger.error('Session not found for resume', 'BenchmarkEngine', undefined, { sessionId });
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        logger.info('Session resumed', 'BenchmarkEngine', {
+            sessionId,
+            status: session.status,
+            currentIndex: session.currentChallengeIndex,
+            totalChallenges: session.challengeIds.length,
+            resultsCount: session.results.length,
+        });
+
+        return session;
+    }
+
     /**
      * Get the current challenge for a session
      * @param sessionId - Session identifier
-     * @returns Current challenge or null if session is complete
+     * @returns Current challenge or null once the session is no longer in progress
      */
     async getCurrentChallenge(sessionId: string): Promise<Challenge | null> {
         logger.debug('Getting current challenge', 'BenchmarkEngine', { sessionId });
@@ -186,11 +330,18 @@ export class BenchmarkEngine {
             totalChallenges: session.challengeIds.length,
         });
 
-        if (session.status === 'completed') {
-            logger.info('Session already completed', 'BenchmarkEngine', { sessionId });
+        // Nor is an abandoned session served, or completed by the checks below
+        if (session.status !== 'in_progress') {
+            logger.info('Session is not in progress', 'BenchmarkEngine', { sessionId, status: session.status });
             return null;
         }
 
+        // An expired challenge is skipped and the next one served; an expired session completes
+        const now = getCurrentTimestamp();
+        if (await this.applyTimeLimits(session, now)) {
+            return this.getCurrentChallenge(sessionId);
+        }
+
         if (session.currentChallengeIndex >= session.challengeIds.length) {
             logger.info('All challenges completed, marking session complete', 'BenchmarkEngine', { sessionId });
             // Mark session as completed
@@ -211,6 +362,9 @@ export class BenchmarkEngine {
         const challenge = await this.challengeRepository.getChallenge(challengeId);
 
         if (challenge) {
+            if (session.status === 'in_progress') {
+                await this.sessionManager.markChallengeServed(sessionId, challenge.id, now);
+            }
             logger.info('Current challenge retrieved', 'BenchmarkEngine', {
                 sessionId,
                 challengeId: challenge.id,
@@ -225,20 +379,32 @@ export class BenchmarkEngine {
         return challenge;
     }
 
+    /**
+     * Get the current challenge as shown to clients, with hidden tests redacted
+     * @param sessionId - Session identifier
+     * @returns Challenge view or null once the session is no longer in progress
+     */
+    async getCurrentChallengeView(sessionId: string): Promise<ChallengeView | null> {
+        const challenge = await this.getCurrentChallenge(sessionId);
+        return challenge && this.redactor.challenge(challenge);
+    }
+
     /**
      * Submit a solution for scoring
      * @param sessionId - Session identifier
      * @param challengeId - Challenge identifier
      * @param solution - Solution code
      * @param language - Programming language
+     * @param hooks - Test progress and cancellation; a cancelled submission is not recorded
      * @returns Challenge result with scores
      */
     async submitSolution(
         sessionId: string,
         challengeId: string,
         solution: string,
-        language: string
-    ): Promise<ChallengeResult> {
+        language: string,
+        hooks: ExecutionHooks = {}
+    ): Promise<SubmissionResult> {
         logger.info('Submitting solution', 'BenchmarkEngine', {
             sessionId,
             challengeId,
@@ -293,17 +459,46 @@ export class BenchmarkEngine {
             timeLimit: challenge.timeLimit,
         });
 
-        // Calculate time taken
+        // Enforce time limits before scoring
         const submissionTime = getCurrentTimestamp();
-        const timeTaken = this.calculateTimeTaken(session, challenge);
+        const expiry = await this.applyTimeLimits(session, submissionTime);
+        if (expiry) {
+            logger.warn('Submission after time limit', 'BenchmarkEngine', { sessionId, challengeId, expiry });
+            throw new Error(
+                expiry === 'session_time_limit'
+                    ? `Session time limit of ${session.config.sessionTimeLimit}s exceeded; the session was completed`
+                    : `Time limit of ${challenge.timeLimit}s exceeded for challenge ${challengeId}; it was skipped`
+            );
+        }
+
+        // Efficiency is scored within the time limit; overtime is penalized separately
+        const clock = challengeClock(session, challenge, submissionTime);
+        const timeTaken = clock.elapsed;
 
         logger.debug('Time calculation', 'BenchmarkEngine', {
             sessionId,
             challengeId,
             timeTaken,
+            overtime: clock.overtime,
             submissionTime,
         });
 
+        // Repair mode keeps the challenge open until it passes or runs out of attempts,
+        // sampling mode until all its samples are in
+        const maxAttempts = session.config.maxAttempts ?? 1;
+        const samples = session.config.samples ?? 1;
+        const repair = maxAttempts > 1;
+        const sampling = samples > 1;
+        const previous = (session.attempts ?? []).filter((a) => a.challengeId === challengeId);
+        const attempt = previous.length + 1;
+
+        // Samples are independent draws; a verdict on one before the last is in would let the model iterate
+        const withholdSample = sampling && attempt < samples;
+        const onProgress = hooks.onProgress;
+        const scoringHooks: ExecutionHooks = withholdSample && onProgress
+            ? { ...hooks, onProgress: ({ passed: _passed, ...progress }) => onProgress(progress) }
+            : hooks;
+
         // Score the solution
         logger.info('Scoring solution', 'BenchmarkEngine', { sessionId, challengeId, language });
 
@@ -311,7 +506,8 @@ export class BenchmarkEngine {
             challenge,
             solution,
             language: language as ProgrammingLanguage,
-            timeTaken,
+            timeTaken: Math.min(timeTaken, challenge.timeLimit),
+            hooks: scoringHooks,
         });
 
         logger.info('Scoring complete', 'BenchmarkEngine', {
@@ -320,37 +516,113 @@ export class BenchmarkEngine {
             totalScore: scoringResult.totalScore,
             maxScore: challenge.maxScore,
             passed: scoringResult.passed,
+            gradingMode: scoringResult.gradingMode,
             breakdown: scoringResult.breakdown,
             testsPassed: scoringResult.testResults.filter(t => t.passed).length,
             testsTotal: scoringResult.testResults.length,
         });
 
+        const attemptDiscount = repair ? Math.min(1, DEFAULT_REPAIR_CONFIG.ATTEMPT_DISCOUNT * (attempt - 1)) : 0;
+        const final = sampling ? attempt >= samples : !repair || scoringResult.passed || attempt >= maxAttempts;
+
+        // The last sample settles the challenge: it scores the mean sample and passes when half the samples do
+        const drawn = [...previous, { score: scoringResult.totalScore, passed: scoringResult.passed }];
+        const samplesPassed = drawn.filter((s) => s.passed).length;
+        const settlesSamples = sampling && final;
+        const rawScore = settlesSamples ? average(drawn.map((s) => s.score)) : scoringResult.totalScore;
+        const passed = settlesSamples ? samplesPassed * 2 >= samples : scoringResult.passed;
+
         // Create challenge result
+        const late = clock.overtime > 0;
+        const notes = [
+            ...(late
+                ? [`Submitted ${clock.overtime}s after the ${challenge.timeLimit}s time limit: ${Math.round(clock.penalty * 100)}% late penalty applied.`]
+                : []),
+            ...(attemptDiscount > 0
+                ? [`Attempt ${attempt} of ${maxAttempts}: ${Math.round(attemptDiscount * 100)}% repair discount applied.`]
+                : []),
+            ...(settlesSamples ? [`${samplesPassed} of ${samples} samples passed; the score is their mean.`] : []),
+        ];
         const result: ChallengeResult = {
             challengeId,
             sessionId,
             solution,
             language: language as ProgrammingLanguage,
-            score: scoringResult.totalScore,
+            score: Math.round(rawScore * (1 - (late ? clock.penalty : 0)) * (1 - attemptDiscount)),
             maxScore: challenge.maxScore,
             breakdown: scoringResult.breakdown,
             testResults: scoringResult.testResults,
-            feedback: scoringResult.feedback,
+            feedback: [scoringResult.feedback, ...notes].join(' '),
             suggestions: scoringResult.suggestions,
-            passed: scoringResult.passed,
+            passed,
             timeTaken,
             submittedAt: submissionTime,
+            gradingMode: scoringResult.gradingMode,
+            ...(late ? { overtime: clock.overtime, latePenalty: clock.penalty } : {}),
+            ...(repair ? { attempts: attempt, attemptDiscount } : {}),
+            ...(settlesSamples ? { samples, samplesPassed, passAtK: passAtKValues(samples, samplesPassed) } : {}),
         };
 
+        if (repair || sampling) {
+            const record: SubmissionAttempt = {
+                challengeId,
+                sessionId,
+                attempt,
+                solution,
+                language: result.language,
+                score: scoringResult.totalScore,
+                maxScore: challenge.maxScore,
+                breakdown: scoringResult.breakdown,
+                testResults: scoringResult.testResults,
+                feedback: scoringResult.feedback,
+                passed: scoringResult.passed,
+                submittedAt: submissionTime,
+                gradingMode: scoringResult.gradingMode,
+            };
+            await this.sessionManager.addAttempt(sessionId, record);
+        }
+
+        if (!final) {
+            logger.info('Submission recorded; challenge stays open', 'BenchmarkEngine', {
+                sessionId,
+                challengeId,
+                attempt,
+                mode: sampling ? 'sampling' : 'repair',
+            });
+
+            if (withholdSample) {
+                return {
+                    ...result,
+                    score: 0,
+                    breakdown: { correctness: 0, efficiency: 0, codeQuality: 0, completeness: 0, creativity: 0 },
+                    testResults: [],
+                    testReports: [],
+                    feedback: `Sample ${attempt} of ${samples} recorded; its score and test results are withheld until the last sample is in.`,
+                    suggestions: [],
+                    passed: false,
+                    samplesRemaining: samples - attempt,
+                };
+            }
+
+            return {
+                ...result,
+                testResults: this.redactor.testResults(challenge, result.testResults, session.status),
+                testReports: this.redactor.testReports(challenge, result.testResults, session.status),
+                ...(sampling ? { samplesRemaining: samples - attempt } : { attemptsRemaining: maxAttempts - attempt }),
+            };
+        }
+
         // Update session
         logger.debug('Saving result to session', 'BenchmarkEngine', { sessionId, challengeId });
         await this.sessionManager.addResult(sessionId, result);
         await this.sessionManager.advanceChallenge(sessionId);
 
         // Check if session is complete
-        if (session.currentChallengeIndex + 1 >= session.challengeIds.length) {
+        let status: SessionStatus = session.status;
+        if (!(await this.hasNextChallenge(session))) {
             logger.info('Session complete after this submission', 'BenchmarkEngine', { sessionId });
             await this.completeSession(sessionId);
+            status = 'completed';
         }
 
         logger.info('Solution submission complete', 'BenchmarkEngine', {
@@ -360,15 +632,22 @@ export class BenchmarkEngine {
             passed: result.passed,
         });
 
-        return result;
+        return {
+            ...result,
+            testResults: this.redactor.testResults(challenge, result.testResults, status),
+            testReports: this.redactor.testReports(challenge, result.testResults, status),
+            ...(repair ? { attemptsRemaining: 0 } : {}),
+            ...(sampling ? { samplesRemaining: 0 } : {}),
+        };
     }
 
     /**
-     * Skip the current challenge
+     * Skip the current challenge. A sampling challenge keeps the samples already drawn.
      * @param sessionId - Session identifier
      * @param reason - Optional reason for skipping
+     * @returns The recorded result, or null when the challenge's time had run out and it was skipped for that
      */
-    async skipChallenge(sessionId: string, reason?: string): Promise<void> {
+    async skipChallenge(sessionId: string, reason?: string): Promise<ChallengeResult | null> {
         const session = await this.sessionManager.getSession(sessionId);
 
         if (!session) {
@@ -379,6 +658,12 @@ export class BenchmarkEngine {
             throw new Error(`Session is not in progress: ${session.status}`);
         }
 
+        // A challenge whose time ran out is skipped already
+        const now = getCurrentTimestamp();
+        if (await this.applyTimeLimits(session, now)) {
+            return null;
+        }
+
         const challengeId = session.challengeIds[session.currentChallengeIndex];
         if (!challengeId) {
             throw new Error('No current challenge to skip');
@@ -389,36 +674,89 @@ export class BenchmarkEngine {
             throw new Error(`Challenge not found: ${challengeId}`);
         }
 
-        // Create a zero-score result for skipped challenge
-        const result: ChallengeResult = {
-            challengeId,
+        return this.recordSkip(
+            session,
+            this.buildSkippedResult(session.id, challenge, `Challenge skipped${reason ? `: ${reason}` : ''}`, 0, now)
+        );
+    }
+
+    /**
+     * Apply a session's time limits now: skip its current challenge if that
+     * challenge's time ran out, or complete the session if its budget ran out
+     * @param sessionId - Session identifier
+     * @returns Which limit ran out, or null when none did
+     */
+    async enforceTimeLimits(sessionId: string): Promise<ExpiryReason | null> {
+        const session = await this.sessionManager.getSession(sessionId);
+
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        return this.applyTimeLimits(session, getCurrentTimestamp());
+    }
+
+    /**
+     * Abandon an in-progress session. Its partial results are ranked on the
+     * leaderboards as abandoned runs, which are only listed on request.
+     * @param sessionId - Session identifier
+     * @returns Results of the challenges answered before it was abandoned
+     */
+    async abandonSession(sessionId: string): Promise<SessionResults> {
+        const session = await this.sessionManager.getSession(sessionId);
+
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        if (session.status !== 'in_progress') {
+            throw new Error(`Session is not in progress: ${session.status}`);
+        }
+
+        await this.sessionManager.updateSessionStatus(sessionId, 'abandoned');
+
+        const abandoned = await this.sessionManager.getSession(sessionId);
+        if (abandoned && abandoned.results.length > 0) {
+            const records = await this.buildLeaderboardRecords(abandoned);
+            await this.leaderboardStore.add(records.map((record) => ({ ...record, abandoned: true })));
+        }
+
+        const results = await this.getSessionResults(sessionId);
+
+        logger.info('Session abandoned', 'BenchmarkEngine', {
             sessionId,
-            solution: '',
-            language: 'typescript',
-            score: 0,
-            maxScore: challenge.maxScore,
-            breakdown: {
-                correctness: 0,
-                efficiency: 0,
-                codeQuality: 0,
-                completeness: 0,
-                creativity: 0,
-            },
-            testResults: [],
-            feedback: `Challenge skipped${reason ? `: ${reason}` : ''}`,
-            suggestions: ['Consider attempting this challenge type in future sessions'],
-            passed: false,
-            timeTaken: 0,
-            submittedAt: getCurrentTimestamp(),
-        };
+            completedChallenges: results.completedChallenges,
+            totalChallenges: results.totalChallenges,
+            percentage: results.percentage,
+        });
 
-        await this.sessionManager.addResult(sessionId, result);
-        await this.sessionManager.advanceChallenge(sessionId);
+        return results;
+    }
 
-        // Check if session is complete
-        if (session.currentChallengeIndex + 1 >= session.challengeIds.length) {
-            await this.completeSession(sessionId);
+    /**
+     * Abandon every in-progress session idle for longer than the timeout, and
+     * apply the time limits of the others
+     * @param inactivityTimeout - Seconds without activity
+     * @returns IDs of the abandoned sessions
+     */
+    async abandonStaleSessions(inactivityTimeout: number): Promise<string[]> {
+        const now = getCurrentTimestamp();
+        const abandoned: string[] = [];
+
+        for (const session of await this.sessionManager.listSessions(['in_progress'])) {
+            if (calculateDuration(lastActivityAt(session), now) > inactivityTimeout) {
+                await this.abandonSession(session.id);
+                abandoned.push(session.id);
+            } else {
+                await this.applyTimeLimits(session, now);
+            }
         }
+
+        if (abandoned.length > 0) {
+            logger.info('Stale sessions abandoned', 'BenchmarkEngine', { inactivityTimeout, sessionIds: abandoned });
+        }
+
+        return abandoned;
     }
 
     // ==========================================================================
@@ -465,6 +803,8 @@ export class BenchmarkEngine {
         const passedCount = session.results.filter((r) => r.passed).length;
         const passRate = calculatePercentage(passedCount, session.results.length);
 
+        const testReports = await this.buildSessionTestReports(session.results, session.status);
+
         return {
             sessionId,
             overallScore: totalScore,
@@ -480,7 +820,12 @@ export class BenchmarkEngine {
             passRate,
             totalTime,
             averageTime,
-            completedAt: session.completedAt ?? getCurrentTimestamp(),
+            completedAt: session.completedAt ?? session.abandonedAt ?? getCurrentTimestamp(),
+            abandonedAt: session.abandonedAt,
+            testReports,
+            adaptive: session.adaptive,
+            humanEval: this.analytics.calculateHumanEvalMetrics(session.results),
+            ...(session.config.samples ? { passAtK: this.collectPassAtK(session.results) } : {}),
         };
     }
 
@@ -490,66 +835,417 @@ export class BenchmarkEngine {
      * @returns Leaderboard data
      */
     async getLeaderboard(options: LeaderboardOptions = {}): Promise<Leaderboard> {
-        const limit = options.limit ?? LIMITS.LEADERBOARD_DEFAULT_LIMIT;
+        const scope: LeaderboardScope = {
+            category: options.category,
+            language: options.language,
+            difficulty: options.difficulty,
+        };
+        if (Object.values(scope).filter((value) => value !== undefined).length > 1) {
+            throw new Error('Filter the leaderboard by only one of category, language or difficulty');
+        }
+
         const timeframe = options.timeframe ?? 'all';
+        const view = options.view ?? 'best';
+        const limit = options.limit ?? LIMITS.LEADERBOARD_DEFAULT_LIMIT;
+        const includeAbandoned = options.includeAbandoned ?? false;
+        const { entries, totalEntries } = await this.leaderboardStore.query({
+            ...scope,
+            timeframe,
+            view,
+            limit,
+            includeAbandoned,
+        });
 
-        // Get completed sessions
-        const sessions = await this.sessionManager.getCompletedSessions(timeframe);
+        return {
+            ...scope,
+            timeframe,
+            view,
+            includeAbandoned,
+            entries,
+            totalEntries,
+            ratings: await this.modelRegistry.listRatings(limit),
+            updatedAt: getCurrentTimestamp(),
+        };
+    }
 
-        // Calculate scores and sort
-        const entries = await Promise.all(
-            sessions.map(async (session) => {
-                const totalScore = session.results.reduce((sum, r) => sum + r.score, 0);
-                const maxScore = session.results.reduce((sum, r) => sum + r.maxScore, 0);
+    /**
+     * Get model profiles, best average score first
+     * @param provider - Only profiles of this provider
+     */
+    async getModelProfiles(provider?: string): Promise<ModelProfile[]> {
+        return this.modelRegistry.listProfiles(provider);
+    }
 
-                return {
-                    rank: 0, // Will be set after sorting
-                    aiModel: session.aiModel ?? 'Unknown',
-                    score: totalScore,
-                    maxScore,
-                    percentage: calculatePercentage(totalScore, maxScore),
-                    challengesCompleted: session.results.length,
-                    completedAt: session.completedAt ?? session.startedAt,
-                };
-            })
-        );
+    /**
+     * Get the profile of one model
+     * @param modelId - Registry key, as shown in `aiModel`
+     */
+    async getModelProfile(modelId: string): Promise<ModelProfile> {
+        const profile = await this.modelRegistry.getProfile(modelId);
 
-        // Sort by percentage descending
-        entries.sort((a, b) => b.percentage - a.percentage);
+        if (!profile) {
+            throw new Error(`Model not found: ${modelId}`);
+        }
 
-        // Assign ranks and limit
-        const rankedEntries = entries.slice(0, limit).map((entry, index) => ({
-            ...entry,
-            rank: index + 1,
-        }));
+        return profile;
+    }
 
-        return {
-            category: options.category,
-            timeframe,
-            entries: rankedEntries,
-            totalEntries: entries.length,
-            updatedAt: getCurrentTimestamp(),
-        };
+    // ==========================================================================
+    // Calibration
+    // ==========================================================================
+
+    /**
+     * Fit the 2PL IRT model to every stored challenge result and store the
+     * challenge parameters, model abilities and difficulty flags
+     * @returns The new calibration
+     */
+    async calibrate(): Promise<Calibration> {
+        const sessions = await this.sessionManager.listSessions(['in_progress', 'completed', 'abandoned']);
+        const challenges = await this.challengeRepository.listChallenges({});
+
+        const calibration = calibrate(sessions, new Map(challenges.map((c) => [c.id, c])));
+        await this.calibrationStore.save(calibration);
+
+        logger.info('Calibration completed', 'BenchmarkEngine', {
+            responses: calibration.responses,
+            challenges: calibration.challenges.length,
+            models: calibration.abilities.length,
+            flagged: calibration.challenges.filter((c) => c.flag).length,
+            converged: calibration.converged,
+        });
+
+        return calibration;
+    }
+
+    /**
+     * Get the latest stored calibration
+     */
+    async getCalibration(): Promise<Calibration> {
+        const calibration = await this.calibrationStore.load();
+
+        if (!calibration) {
+            throw new Error('No calibration has been run yet');
+        }
+
+        return calibration;
     }
 
     // ==========================================================================
     // Private Helpers
     // ==========================================================================
 
+    /**
+     * Whether a session has a challenge after the one just answered. Adaptive
+     * sessions pick that challenge now, from the answers so far.
+     * @param session - The session as it was before the answer
+     */
+    private async hasNextChallenge(session: Session): Promise<boolean> {
+        if (session.config.adaptive) {
+            return this.selectAdaptiveChallenge(session.id);
+        }
+        return session.currentChallengeIndex + 1 < session.challengeIds.length;
+    }
+
+    /**
+     * Re-estimate an adaptive session's ability and append its next challenge
+     * @returns Whether a challenge was picked; false once the session stops
+     */
+    private async selectAdaptiveChallenge(sessionId: string): Promise<boolean> {
+        const session = await this.sessionManager.getSession(sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        const step = nextAdaptiveStep(
+            session.adaptive?.trace ?? [],
+            session.results,
+            await this.getAdaptiveCandidates(session.config),
+            {
+                maxChallenges: session.config.maxChallenges ?? DEFAULT_ADAPTIVE_CONFIG.MAX_CHALLENGES,
+                targetStandardError: session.config.targetStandardError ?? DEFAULT_ADAPTIVE_CONFIG.TARGET_STANDARD_ERROR,
+                randomize: session.config.randomize,
+            }
+        );
+        await this.sessionManager.recordAdaptiveStep(sessionId, step.state, step.challengeId);
+
+        logger.info('Adaptive step', 'BenchmarkEngine', {
+            sessionId,
+            ability: step.state.ability,
+            standardError: step.state.standardError,
+            nextChallengeId: step.challengeId,
+            stopReason: step.state.stopReason,
+        });
+
+        return step.challengeId !== undefined;
+    }
+
+    /**
+     * Challenges matching a session's filters, with the parameters adaptive selection uses
+     */
+    private async getAdaptiveCandidates(config: SessionConfig): Promise<AdaptiveCandidate[]> {
+        const pool = await this.challengeRepository.listChallenges({
+            categories: config.categories,
+            tags: config.tags ? [...config.tags] : undefined,
+            difficulty: config.difficulty,
+        });
+        return adaptiveCandidates(pool, await this.calibrationStore.load());
+    }
+
+    /**
+     * Time limit enforcement at the given time; see enforceTimeLimits
+     */
+    private async applyTimeLimits(session: Session, now: ISOTimestamp): Promise<ExpiryReason | null> {
+        if (session.status !== 'in_progress') return null;
+
+        if (isSessionExpired(session, now)) {
+            await this.expireSession(session, now);
+            return 'session_time_limit';
+        }
+
+        const challengeId = session.challengeIds[session.currentChallengeIndex];
+        const challenge = challengeId ? await this.challengeRepository.getChallenge(challengeId) : null;
+        if (!challenge) return null;
+
+        const clock = challengeClock(session, challenge, now);
+        if (!clock.expired) return null;
+
+        logger.info('Challenge time limit exceeded', 'BenchmarkEngine', {
+            sessionId: session.id,
+            challengeId: challenge.id,
+            timeLimit: challenge.timeLimit,
+            elapsed: clock.elapsed,
+        });
+
+        await this.recordSkip(
+            session,
+            this.buildSkippedResult(
+                session.id,
+                challenge,
+                `Time limit of ${challenge.timeLimit}s exceeded`,
+                clock.elapsed,
+                now,
+                'challenge_time_limit'
+            )
+        );
+        return 'challenge_time_limit';
+    }
+
+    /**
+     * Complete a session whose time budget ran out. Fixed sessions get a zero
+     * result for every challenge left; adaptive sessions only for the one being
+     * answered, as the rest were never picked.
+     */
+    private async expireSession(session: Session, now: ISOTimestamp): Promise<void> {
+        logger.info('Session time limit exceeded', 'BenchmarkEngine', {
+            sessionId: session.id,
+            sessionTimeLimit: session.config.sessionTimeLimit,
+        });
+
+        const remaining = session.config.adaptive
+            ? session.challengeIds.slice(session.currentChallengeIndex, session.currentChallengeIndex + 1)
+            : session.challengeIds.slice(session.currentChallengeIndex);
+
+        for (const [index, challengeId] of remaining.entries()) {
+            const challenge = await this.challengeRepository.getChallenge(challengeId);
+            if (!challenge) continue;
+
+            const timeTaken = index === 0 ? challengeClock(session, challenge, now).elapsed : 0;
+            await this.sessionManager.addResult(
+                session.id,
+                this.buildSkippedResult(session.id, challenge, 'Session time limit exceeded', timeTaken, now, 'session_time_limit')
+            );
+            await this.sessionManager.advanceChallenge(session.id);
+        }
+
+        if (session.adaptive) {
+            const expired = await this.sessionManager.getSession(session.id);
+            const trace = session.adaptive.trace;
+            await this.sessionManager.recordAdaptiveStep(session.id, {
+                ...estimateSessionAbility(trace, expired?.results ?? session.results),
+                trace,
+                stopReason: 'session_expired',
+            });
+        }
+
+        await this.completeSession(session.id);
+    }
+
+    /**
+     * Zero-score result for a challenge that was skipped or ran out of time
+     */
+    private buildSkippedResult(
+        sessionId: string,
+        challenge: Challenge,
+        feedback: string,
+        timeTaken: number,
+        submittedAt: ISOTimestamp,
+        expired?: ExpiryReason
+    ): ChallengeResult {
+        return {
+            challengeId: challenge.id,
+            sessionId,
+            solution: '',
+            language: 'typescript',
+            score: 0,
+            maxScore: challenge.maxScore,
+            breakdown: {
+                correctness: 0,
+                efficiency: 0,
+                codeQuality: 0,
+                completeness: 0,
+                creativity: 0,
+            },
+            testResults: [],
+            feedback,
+            suggestions: ['Consider attempting this challenge type in future sessions'],
+            passed: false,
+            timeTaken,
+            submittedAt,
+            ...(expired ? { expired } : {}),
+        };
+    }
+
+    /**
+     * Store a skipped challenge's result and move on, completing the session after the last
+     * @returns The stored result
+     */
+    private async recordSkip(session: Session, skipped: ChallengeResult): Promise<ChallengeResult> {
+        const result = this.settleDrawnSamples(session, skipped);
+        await this.sessionManager.addResult(session.id, result);
+        await this.sessionManager.advanceChallenge(session.id);
+
+        if (!(await this.hasNextChallenge(session))) {
+            await this.completeSession(session.id);
+        }
+        return result;
+    }
+
+    /**
+     * Settle a sampling challenge skipped part-way on the samples already drawn.
+     * The samples never drawn count as failed and score 0, so the mean and pass@k
+     * cover every sample the session asked for.
+     */
+    private settleDrawnSamples(session: Session, skipped: ChallengeResult): ChallengeResult {
+        const samples = session.config.samples ?? 1;
+        const drawn = (session.attempts ?? []).filter((a) => a.challengeId === skipped.challengeId);
+        const last = drawn[drawn.length - 1];
+        if (samples <= 1 || !last) return skipped;
+
+        const samplesPassed = drawn.filter((a) => a.passed).length;
+        return {
+            ...skipped,
+            solution: last.solution,
+            language: last.language,
+            score: Math.round(drawn.reduce((sum, a) => sum + a.score, 0) / samples),
+            passed: samplesPassed * 2 >= samples,
+            feedback: `${skipped.feedback}. ${samplesPassed} of ${drawn.length} samples drawn passed; the ${samples - drawn.length} not drawn count as failed.`,
+            samples,
+            samplesPassed,
+            passAtK: passAtKValues(samples, samplesPassed),
+        };
+    }
+
     private async completeSession(sessionId: string): Promise<void> {
         await this.sessionManager.updateSessionStatus(sessionId, 'completed');
+
+        const session = await this.sessionManager.getSession(sessionId);
+        if (!session) return;
+
+        const records = await this.buildLeaderboardRecords(session);
+        await this.leaderboardStore.add(records);
+        logger.debug('Leaderboard entries added', 'BenchmarkEngine', { sessionId, count: records.length });
+
+        const [overall] = records;
+        if (session.aiModel && overall) {
+            await this.modelRegistry.recordSession(session.aiModel, overall.percentage, overall.challengesCompleted);
+            await this.modelRegistry.rateSession(
+                session,
+                await this.sessionManager.listSessions(['completed'], DEFAULT_RATING_CONFIG.OPPONENT_SESSIONS)
+            );
+        }
     }
 
-    private calculateTimeTaken(session: Session, challenge: Challenge): number {
-        // Calculate time from last activity
-        const lastResult = session.results[session.results.length - 1];
-        const startTime = lastResult?.submittedAt ?? session.startedAt;
-        const now = getCurrentTimestamp();
+    /**
+     * Leaderboard rows of a finished session: the whole session, then one per
+     * category, language and difficulty tier it covered. Skipped challenges
+     * count against every language the session submitted in.
+     */
+    private async buildLeaderboardRecords(session: Session): Promise<LeaderboardRecord[]> {
+        const base = {
+            sessionId: session.id,
+            aiModel: session.aiModel ?? 'Unknown',
+            completedAt: session.completedAt ?? session.abandonedAt ?? getCurrentTimestamp(),
+        };
+        const toRecord = (scope: LeaderboardScope, results: readonly ChallengeResult[]): LeaderboardRecord => {
+            const score = results.reduce((sum, r) => sum + r.score, 0);
+            const maxScore = results.reduce((sum, r) => sum + r.maxScore, 0);
+            return {
+                ...base,
+                ...scope,
+                score,
+                maxScore,
+                percentage: calculatePercentage(score, maxScore),
+                challengesCompleted: results.length,
+            };
+        };
 
-        const seconds = calculateDuration(startTime, now);
+        const byCategory = new Map<ChallengeCategory, ChallengeResult[]>();
+        const byDifficulty = new Map<Difficulty, ChallengeResult[]>();
+        for (const result of session.results) {
+            const challenge = await this.challengeRepository.getChallenge(result.challengeId);
+            if (!challenge) continue;
+
+            byCategory.set(challenge.category, [...(byCategory.get(challenge.category) ?? []), result]);
+            byDifficulty.set(challenge.difficultyTier, [...(byDifficulty.get(challenge.difficultyTier) ?? []), result]);
+        }
 
-        // Cap at challenge time limit
-        return Math.min(seconds, challenge.timeLimit);
+        const skipped = session.results.filter((r) => r.solution === '');
+        const languages = [...new Set(session.results.filter((r) => r.solution !== '').map((r) => r.language))];
+
+        return [
+            toRecord({}, session.results),
+            ...[...byCategory].map(([category, results]) => toRecord({ category }, results)),
+            ...languages.map((language) =>
+                toRecord({ language }, [...session.results.filter((r) => r.solution !== '' && r.language === language), ...skipped])
+            ),
+            ...[...byDifficulty].map(([difficulty, results]) => toRecord({ difficulty }, results)),
+        ];
+    }
+
+    /**
+     * Client-safe test reports for every result that ran tests
+     */
+    private async buildSessionTestReports(
+        results: readonly ChallengeResult[],
+        status: SessionStatus
+    ): Promise<ChallengeTestReport[]> {
+        const reports: ChallengeTestReport[] = [];
+
+        for (const result of results) {
+            if (result.testResults.length === 0) continue;
+
+            const challenge = await this.challengeRepository.getChallenge(result.challengeId);
+            if (!challenge) continue;
+
+            reports.push({
+                challengeId: result.challengeId,
+                tests: this.redactor.testReports(challenge, result.testResults, status),
+            });
+        }
+
+        return reports;
+    }
+
+    /**
+     * pass@k of each challenge with samples recorded: every one that was answered, and
+     * any skipped after a sample was drawn, with the undrawn samples counted as failed
+     */
+    private collectPassAtK(results: readonly ChallengeResult[]): ChallengePassAtK[] {
+        return results.flatMap((r) =>
+            r.passAtK && r.samples !== undefined && r.samplesPassed !== undefined
+                ? [{ challengeId: r.challengeId, samples: r.samples, samplesPassed: r.samplesPassed, passAtK: r.passAtK }]
+                : []
+        );
     }
 
     private calculateCategoryScores(
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Session Reaper - periodically abandons idle sessions
+ * @module @mcp/intellibench/core/benchmark/reaper
+ * @version 1.0.0
+ *
+ * Clients that disconnect mid-session leave it in progress forever. The reaper
+ * sweeps in-progress sessions on a timer and abandons those idle for longer
+ * than the inactivity timeout; the sweep also applies the time limits of the
+ * sessions still active, so challenges and sessions expire without a client
+ * touching them.
+ */
+
+import { DEFAULT_REAPER_CONFIG } from '../../shared/constants/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import type { BenchmarkEngine } from './engine.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionReaperOptions {
+    /** Seconds without activity after which a session is abandoned; 0 disables the reaper */
+    inactivityTimeout: number;
+    /** Seconds between sweeps */
+    interval: number;
+}
+
+// ============================================================================
+// Session Reaper
+// ============================================================================
+
+export class SessionReaper {
+    private timer?: NodeJS.Timeout;
+    private sweeping = false;
+
+    constructor(
+        private readonly engine: BenchmarkEngine,
+        private readonly options: SessionReaperOptions
+    ) {}
+
+    /**
+     * Start sweeping. Does nothing when the reaper is disabled or already running.
+     */
+    start(): void {
+        if (this.options.inactivityTimeout <= 0 || this.timer) return;
+
+        this.timer = setInterval(() => void this.sweep(), this.options.interval * 1000);
+        this.timer.unref();
+
+        logger.info('Session reaper started', 'SessionReaper', { ...this.options });
+    }
+
+    /**
+     * Stop sweeping
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Abandon idle sessions now
+     * @returns IDs of the abandoned sessions; empty while another sweep is running
+     */
+    async sweep(): Promise<string[]> {
+        // Skip ticks while a slow sweep is still running
+        if (this.sweeping) return [];
+        this.sweeping = true;
+
+        try {
+            return await this.engine.abandonStaleSessions(this.options.inactivityTimeout);
+        } catch (err) {
+            logger.error('Session sweep failed', 'SessionReaper', err instanceof Error ? err : undefined);
+            return [];
+        } finally {
+            this.sweeping = false;
+        }
+    }
+}
+
+/**
+ * Reaper options from `SESSION_INACTIVITY_TIMEOUT` and `SESSION_REAPER_INTERVAL`, in seconds
+ */
+export function resolveReaperOptions(env: NodeJS.ProcessEnv = process.env): SessionReaperOptions {
+    const seconds = (name: string, fallback: number, min: number): number => {
+        const value = env[name];
+        if (value === undefined || value === '') return fallback;
+
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < min) {
+            throw new Error(`Invalid ${name}: ${value} (expected seconds, at least ${min})`);
+        }
+        return parsed;
+    };
+
+    return {
+        inactivityTimeout: seconds('SESSION_INACTIVITY_TIMEOUT', DEFAULT_REAPER_CONFIG.INACTIVITY_TIMEOUT, 0),
+        interval: seconds('SESSION_REAPER_INTERVAL', DEFAULT_REAPER_CONFIG.INTERVAL, 1),
+    };
+}
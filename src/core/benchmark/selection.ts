@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Challenge Selection - picks the challenges of a new session
+ * @module @mcp/intellibench/core/benchmark/selection
+ * @version 1.0.0
+ *
+ * Selection works on the pool of challenges matching a session's filters.
+ * Per-category quotas reserve an exact number of challenges for their category;
+ * remaining slots are filled from the other categories in the pool. Stratified
+ * sampling spreads each pick evenly across difficulty tiers instead of taking
+ * the first challenges in the pool.
+ */
+
+import type { ChallengeCategory, ChallengeSummary, Difficulty } from '../../shared/types/index.js';
+import { LIMITS } from '../../shared/constants/index.js';
+import { shuffleArray } from '../../shared/utils/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Number of challenges to draw from each category
+ */
+export type CategoryQuotas = Partial<Record<ChallengeCategory, number>>;
+
+export interface SelectionOptions {
+    /** Session size; defaults to the quota total, or the default session size without quotas */
+    maxChallenges?: number;
+    categoryQuotas?: CategoryQuotas;
+    /** Spread picks evenly across difficulty tiers */
+    stratifyByDifficulty?: boolean;
+    randomize?: boolean;
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Select a session's challenges from the pool of matching challenges
+ */
+export function selectChallenges(
+    pool: readonly ChallengeSummary[],
+    options: SelectionOptions = {}
+): ChallengeSummary[] {
+    const quotas = Object.entries(options.categoryQuotas ?? {}) as Array<[ChallengeCategory, number]>;
+    const quotaTotal = quotas.reduce((sum, [, count]) => sum + count, 0);
+    const size = options.maxChallenges
+        ?? (quotas.length > 0 ? quotaTotal : LIMITS.DEFAULT_CHALLENGES_PER_SESSION);
+
+    if (quotaTotal > size) {
+        throw new Error(`Category quotas total ${quotaTotal} but the session allows at most ${size} challenges`);
+    }
+
+    const selected: ChallengeSummary[] = [];
+
+    for (const [category, count] of quotas) {
+        const candidates = pool.filter((c) => c.category === category);
+        if (candidates.length < count) {
+            throw new Error(`Not enough challenges for category ${category}: requested ${count}, found ${candidates.length}`);
+        }
+        selected.push(...pick(candidates, count, options));
+    }
+
+    const quotaCategories = new Set(quotas.map(([category]) => category));
+    const rest = pool.filter((c) => !quotaCategories.has(c.category));
+    selected.push(...pick(rest, size - selected.length, options));
+
+    return options.randomize !== false ? shuffleArray(selected) : selected;
+}
+
+/**
+ * Pick up to `count` challenges, taking one from each difficulty tier in turn when stratifying
+ */
+function pick(
+    candidates: readonly ChallengeSummary[],
+    count: number,
+    options: SelectionOptions
+): ChallengeSummary[] {
+    const ordered = options.randomize !== false ? shuffleArray(candidates) : [...candidates];
+
+    if (!options.stratifyByDifficulty) {
+        return ordered.slice(0, count);
+    }
+
+    const tiers = new Map<Difficulty, ChallengeSummary[]>();
+    for (const challenge of ordered) {
+        const tier = tiers.get(challenge.difficultyTier) ?? [];
+        tier.push(challenge);
+        tiers.set(challenge.difficultyTier, tier);
+    }
+
+    const queues = [...tiers.entries()].sort(([a], [b]) => a - b).map(([, tier]) => tier);
+    const picked: ChallengeSummary[] = [];
+
+    while (picked.length < count && queues.some((queue) => queue.length > 0)) {
+        for (const queue of queues) {
+            const next = queue.shift();
+            if (next && picked.length < count) picked.push(next);
+        }
+    }
+
+    return picked;
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Time Limits - clocks of a session's challenges and of the session itself
+ * @module @mcp/intellibench/core/benchmark/timing
+ * @version 1.0.0
+ *
+ * A challenge's time limit runs from when it was first served. A challenge the
+ * client never fetched counts as served when the previous one was answered, or
+ * when the session started. Past the limit the session's late policy applies:
+ * `reject` expires the challenge at once, while `penalize` accepts submissions
+ * for a further window, deducting a growing share of the score, and expires
+ * the challenge at its end.
+ */
+
+import type { Challenge, ISOTimestamp, Session } from '../../shared/types/index.js';
+import { DEFAULT_TIME_LIMIT_CONFIG } from '../../shared/constants/index.js';
+import { calculateDuration } from '../../shared/utils/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Time spent on a session's current challenge
+ */
+export interface ChallengeClock {
+    /** When the time limit started running */
+    startedAt: ISOTimestamp;
+    /** Seconds since then */
+    elapsed: number;
+    /** Seconds past the time limit; 0 within it */
+    overtime: number;
+    /** Fraction of the score a submission now loses */
+    penalty: number;
+    /** Whether submissions are no longer accepted */
+    expired: boolean;
+}
+
+// ============================================================================
+// Clocks
+// ============================================================================
+
+/**
+ * Clock of the session's current challenge at the given time
+ */
+export function challengeClock(
+    session: Session,
+    challenge: Pick<Challenge, 'id' | 'timeLimit'>,
+    now: ISOTimestamp
+): ChallengeClock {
+    const lastResult = session.results[session.results.length - 1];
+    const startedAt = session.servedAt?.[challenge.id] ?? lastResult?.submittedAt ?? session.startedAt;
+    const elapsed = Math.max(0, calculateDuration(startedAt, now));
+    const overtime = Math.max(0, elapsed - challenge.timeLimit);
+
+    if ((session.config.latePolicy ?? DEFAULT_TIME_LIMIT_CONFIG.LATE_POLICY) === 'reject') {
+        return { startedAt, elapsed, overtime, penalty: overtime > 0 ? 1 : 0, expired: overtime > 0 };
+    }
+
+    const window = challenge.timeLimit * DEFAULT_TIME_LIMIT_CONFIG.LATE_WINDOW_FACTOR;
+    const penalty = window > 0 ? Math.min(1, overtime / window) : overtime > 0 ? 1 : 0;
+    return { startedAt, elapsed, overtime, penalty, expired: penalty >= 1 };
+}
+
+/**
+ * When the session's client was last active: the start, a challenge being
+ * served, an attempt still open to repair, or an answer. Results recorded
+ * because a time limit ran out do not count.
+ */
+export function lastActivityAt(session: Session): ISOTimestamp {
+    return [
+        session.startedAt,
+        ...Object.values(session.servedAt ?? {}),
+        ...(session.attempts ?? []).map((a) => a.submittedAt),
+        ...session.results.filter((r) => !r.expired).map((r) => r.submittedAt),
+    ].reduce((latest, at) => (at > latest ? at : latest));
+}
+
+/**
+ * Whether the session has used up its time budget
+ */
+export function isSessionExpired(session: Session, now: ISOTimestamp): boolean {
+    const limit = session.config.sessionTimeLimit;
+    return limit !== undefined && calculateDuration(session.startedAt, now) > limit;
+}
@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Calibration job - Fits the 2PL model to stored challenge results
+ * @module @mcp/intellibench/core/calibration/calibrate
+ * @version 1.0.0
+ *
+ * Every stored result is one pass/fail response of a model on a challenge.
+ * Sessions without a model identity answer as their own anonymous subject, so
+ * their results still inform the challenge parameters without producing an
+ * ability. The hand-assigned 1-10 difficulty is mapped linearly onto the logit
+ * scale and compared with the fitted difficulty to flag mislabelled challenges.
+ */
+
+import type {
+    Calibration,
+    CalibrationFlag,
+    ChallengeCalibration,
+    ChallengeResult,
+    ChallengeSummary,
+    ModelAbility,
+    Session,
+} from '../../shared/types/index.js';
+import { DEFAULT_CALIBRATION_CONFIG } from '../../shared/constants/index.js';
+import { getCurrentTimestamp } from '../../shared/utils/index.js';
+import { fit2PL, type IrtFitOptions, type ItemResponse } from './irt.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Subject prefix of sessions without a model identity */
+const ANONYMOUS_SUBJECT = 'session:';
+
+/** Ends and midpoint of the hand-assigned difficulty scale */
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MID_DIFFICULTY = (MIN_DIFFICULTY + MAX_DIFFICULTY) / 2;
+const HALF_SPAN = (MAX_DIFFICULTY - MIN_DIFFICULTY) / 2;
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+/**
+ * Fit challenge parameters and model abilities to the results of the given sessions.
+ * Results for challenges missing from `challenges` are ignored.
+ */
+export function calibrate(
+    sessions: readonly Session[],
+    challenges: ReadonlyMap<string, ChallengeSummary>,
+    options: IrtFitOptions = {}
+): Calibration {
+    const responses: ItemResponse[] = [];
+    for (const session of sessions) {
+        const subject = session.aiModel ?? `${ANONYMOUS_SUBJECT}${session.id}`;
+        for (const result of latestResults(session.results)) {
+            if (challenges.has(result.challengeId)) {
+                responses.push({ subject, item: result.challengeId, correct: result.passed });
+            }
+        }
+    }
+
+    const fit = fit2PL(responses, options);
+
+    const calibrations: ChallengeCalibration[] = [...fit.items].map(([challengeId, item]) => {
+        const assignedDifficulty = challenges.get(challengeId)!.difficulty;
+        const expectedDifficulty = difficultyToLogit(assignedDifficulty);
+        const flag = flagDisagreement(item.difficulty, expectedDifficulty, item.responses);
+        return {
+            challengeId,
+            difficulty: round(item.difficulty),
+            discrimination: round(item.discrimination),
+            responses: item.responses,
+            passRate: round(item.passRate),
+            assignedDifficulty,
+            expectedDifficulty: round(expectedDifficulty),
+            suggestedDifficulty: logitToDifficulty(item.difficulty),
+            ...(flag ? { flag } : {}),
+        };
+    });
+
+    const abilities: ModelAbility[] = [...fit.abilities]
+        .filter(([subject]) => !subject.startsWith(ANONYMOUS_SUBJECT))
+        .map(([aiModel, fitted]) => ({
+            aiModel,
+            ability: round(fitted.ability),
+            standardError: round(fitted.standardError),
+            responses: fitted.responses,
+        }))
+        .sort((a, b) => b.ability - a.ability || a.aiModel.localeCompare(b.aiModel));
+
+    return {
+        challenges: calibrations.sort((a, b) => a.challengeId.localeCompare(b.challengeId)),
+        abilities,
+        responses: responses.length,
+        iterations: fit.iterations,
+        converged: fit.converged,
+        calibratedAt: getCurrentTimestamp(),
+    };
+}
+
+/**
+ * Map a hand-assigned 1-10 difficulty onto the logit scale
+ */
+export function difficultyToLogit(difficulty: number): number {
+    return ((difficulty - MID_DIFFICULTY) / HALF_SPAN) * DEFAULT_CALIBRATION_CONFIG.DIFFICULTY_LOGIT_RANGE;
+}
+
+/**
+ * Map a logit difficulty back onto the 1-10 scale, rounded and clamped
+ */
+export function logitToDifficulty(logit: number): number {
+    const difficulty = Math.round(MID_DIFFICULTY + (logit / DEFAULT_CALIBRATION_CONFIG.DIFFICULTY_LOGIT_RANGE) * HALF_SPAN);
+    return Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, difficulty));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function flagDisagreement(fitted: number, expected: number, responses: number): CalibrationFlag | undefined {
+    if (responses < DEFAULT_CALIBRATION_CONFIG.MIN_RESPONSES) return undefined;
+    if (fitted - expected > DEFAULT_CALIBRATION_CONFIG.FLAG_THRESHOLD) return 'harder_than_assigned';
+    if (expected - fitted > DEFAULT_CALIBRATION_CONFIG.FLAG_THRESHOLD) return 'easier_than_assigned';
+    return undefined;
+}
+
+/**
+ * Last result for each challenge of a session
+ */
+function latestResults(results: readonly ChallengeResult[]): ChallengeResult[] {
+    return [...new Map(results.map((r) => [r.challengeId, r])).values()];
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Two-parameter logistic (2PL) item response model
+ * @module @mcp/intellibench/core/calibration/irt
+ * @version 1.0.0
+ *
+ * A subject of ability θ passes an item of difficulty b and discrimination a
+ * with probability 1 / (1 + e^(-a(θ - b))). Abilities and item parameters are
+ * fitted jointly by Fisher scoring with normal priors on θ, b and log a; the
+ * priors keep estimates finite for subjects that pass or fail everything and
+ * pin down the scale, which the likelihood alone leaves free.
+ */
+
+import { DEFAULT_CALIBRATION_CONFIG } from '../../shared/constants/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One pass/fail observation of a subject on an item
+ */
+export interface ItemResponse {
+    subject: string;
+    item: string;
+    correct: boolean;
+}
+
+/**
+ * 2PL parameters of an item
+ */
+export interface ItemParameters {
+    difficulty: number;
+    discrimination: number;
+}
+
+/**
+ * Fitted item parameters with the observations behind them
+ */
+export interface FittedItem extends ItemParameters {
+    responses: number;
+    passRate: number;
+}
+
+/**
+ * Fitted ability of a subject
+ */
+export interface FittedAbility {
+    ability: number;
+    standardError: number;
+    responses: number;
+}
+
+/**
+ * Result of a 2PL fit
+ */
+export interface IrtFit {
+    items: Map<string, FittedItem>;
+    abilities: Map<string, FittedAbility>;
+    iterations: number;
+    converged: boolean;
+}
+
+/**
+ * Answer to an item whose parameters are known
+ */
+export interface ScoredResponse {
+    item: ItemParameters;
+    correct: boolean;
+}
+
+/**
+ * Fitting options
+ */
+export interface IrtFitOptions {
+    maxIterations?: number;
+    tolerance?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Largest change applied to a parameter in one step, in logits */
+const MAX_STEP = 1;
+
+const ABILITY_PRECISION = 1 / DEFAULT_CALIBRATION_CONFIG.ABILITY_PRIOR_SD ** 2;
+const DIFFICULTY_PRECISION = 1 / DEFAULT_CALIBRATION_CONFIG.DIFFICULTY_PRIOR_SD ** 2;
+const LOG_DISCRIMINATION_PRECISION = 1 / DEFAULT_CALIBRATION_CONFIG.LOG_DISCRIMINATION_PRIOR_SD ** 2;
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Probability that a subject of the given ability passes the item
+ */
+export function passProbability(ability: number, item: ItemParameters): number {
+    return 1 / (1 + Math.exp(-item.discrimination * (ability - item.difficulty)));
+}
+
+/**
+ * Fisher information the item carries about an ability; highest near its difficulty
+ */
+export function itemInformation(ability: number, item: ItemParameters): number {
+    const p = passProbability(ability, item);
+    return item.discrimination ** 2 * p * (1 - p);
+}
+
+/**
+ * Standard error of an ability estimate from the items a subject answered
+ */
+export function abilityStandardError(ability: number, items: readonly ItemParameters[]): number {
+    const information = items.reduce((sum, item) => sum + itemInformation(ability, item), ABILITY_PRECISION);
+    return 1 / Math.sqrt(information);
+}
+
+/**
+ * Maximum a posteriori ability from answers to items with known parameters,
+ * with the same standard normal prior the joint fit uses
+ */
+export function estimateAbility(
+    responses: readonly ScoredResponse[],
+    options: IrtFitOptions = {}
+): Pick<FittedAbility, 'ability' | 'standardError'> {
+    const maxIterations = options.maxIterations ?? DEFAULT_CALIBRATION_CONFIG.MAX_ITERATIONS;
+    const tolerance = options.tolerance ?? DEFAULT_CALIBRATION_CONFIG.TOLERANCE;
+
+    let ability = 0;
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+        let gradient = -ability * ABILITY_PRECISION;
+        let information = ABILITY_PRECISION;
+        for (const { item, correct } of responses) {
+            const p = passProbability(ability, item);
+            gradient += item.discrimination * ((correct ? 1 : 0) - p);
+            information += item.discrimination ** 2 * p * (1 - p);
+        }
+
+        const change = clampStep(gradient / information);
+        ability += change;
+        if (Math.abs(change) < tolerance) break;
+    }
+
+    return {
+        ability,
+        standardError: abilityStandardError(ability, responses.map((r) => r.item)),
+    };
+}
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+/**
+ * Fit abilities and item parameters to pass/fail responses. Each iteration
+ * takes one Fisher scoring step for every ability with the items held fixed,
+ * then one for every item with the abilities held fixed.
+ */
+export function fit2PL(responses: readonly ItemResponse[], options: IrtFitOptions = {}): IrtFit {
+    const maxIterations = options.maxIterations ?? DEFAULT_CALIBRATION_CONFIG.MAX_ITERATIONS;
+    const tolerance = options.tolerance ?? DEFAULT_CALIBRATION_CONFIG.TOLERANCE;
+
+    const subjects = [...new Set(responses.map((r) => r.subject))];
+    const items = [...new Set(responses.map((r) => r.item))];
+    const subjectIndex = new Map(subjects.map((id, index) => [id, index]));
+    const itemIndex = new Map(items.map((id, index) => [id, index]));
+    const observations = responses.map((r) => ({
+        subject: subjectIndex.get(r.subject)!,
+        item: itemIndex.get(r.item)!,
+        correct: r.correct ? 1 : 0,
+    }));
+
+    const theta = new Array<number>(subjects.length).fill(0);
+    const difficulty = new Array<number>(items.length).fill(0);
+    const logDiscrimination = new Array<number>(items.length).fill(0);
+
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations && !converged) {
+        iterations++;
+
+        // Abilities: gradient and information of the log posterior
+        const thetaGradient = theta.map((t) => -t * ABILITY_PRECISION);
+        const thetaInformation = new Array<number>(subjects.length).fill(ABILITY_PRECISION);
+        for (const { subject, item, correct } of observations) {
+            const a = Math.exp(logDiscrimination[item]!);
+            const p = passProbability(theta[subject]!, { difficulty: difficulty[item]!, discrimination: a });
+            thetaGradient[subject]! += a * (correct - p);
+            thetaInformation[subject]! += a ** 2 * p * (1 - p);
+        }
+        let largestChange = 0;
+        for (let s = 0; s < subjects.length; s++) {
+            const change = clampStep(thetaGradient[s]! / thetaInformation[s]!);
+            theta[s]! += change;
+            largestChange = Math.max(largestChange, Math.abs(change));
+        }
+
+        // Items: difficulty and log discrimination
+        const bGradient = difficulty.map((b) => -b * DIFFICULTY_PRECISION);
+        const bInformation = new Array<number>(items.length).fill(DIFFICULTY_PRECISION);
+        const alphaGradient = logDiscrimination.map((alpha) => -alpha * LOG_DISCRIMINATION_PRECISION);
+        const alphaInformation = new Array<number>(items.length).fill(LOG_DISCRIMINATION_PRECISION);
+        for (const { subject, item, correct } of observations) {
+            const a = Math.exp(logDiscrimination[item]!);
+            const distance = theta[subject]! - difficulty[item]!;
+            const p = passProbability(theta[subject]!, { difficulty: difficulty[item]!, discrimination: a });
+            const weight = p * (1 - p);
+            bGradient[item]! -= a * (correct - p);
+            bInformation[item]! += a ** 2 * weight;
+            alphaGradient[item]! += a * distance * (correct - p);
+            alphaInformation[item]! += (a * distance) ** 2 * weight;
+        }
+        for (let i = 0; i < items.length; i++) {
+            const bChange = clampStep(bGradient[i]! / bInformation[i]!);
+            const alphaChange = clampStep(alphaGradient[i]! / alphaInformation[i]!);
+            difficulty[i]! += bChange;
+            logDiscrimination[i]! += alphaChange;
+            largestChange = Math.max(largestChange, Math.abs(bChange), Math.abs(alphaChange));
+        }
+
+        converged = largestChange < tolerance;
+    }
+
+    const fittedItems = new Map<string, FittedItem>();
+    items.forEach((id, i) => {
+        const answers = observations.filter((o) => o.item === i);
+        fittedItems.set(id, {
+            difficulty: difficulty[i]!,
+            discrimination: Math.exp(logDiscrimination[i]!),
+            responses: answers.length,
+            passRate: answers.reduce((sum, o) => sum + o.correct, 0) / answers.length,
+        });
+    });
+
+    const abilities = new Map<string, FittedAbility>();
+    subjects.forEach((id, s) => {
+        const answered = observations
+            .filter((o) => o.subject === s)
+            .map((o) => ({ difficulty: difficulty[o.item]!, discrimination: Math.exp(logDiscrimination[o.item]!) }));
+        abilities.set(id, {
+            ability: theta[s]!,
+            standardError: abilityStandardError(theta[s]!, answered),
+            responses: answered.length,
+        });
+    });
+
+    return { items: fittedItems, abilities, iterations, converged };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function clampStep(step: number): number {
+    return Math.max(-MAX_STEP, Math.min(MAX_STEP, step));
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Calibration Stores - Pluggable persistence backends for IRT calibrations
+ * @module @mcp/intellibench/core/calibration/store
+ * @version 1.0.0
+ *
+ * Only the latest calibration is kept: each run refits every challenge and
+ * model from all stored results, so it supersedes the one before.
+ */
+
+import type { Calibration } from '../../shared/types/index.js';
+import { DatabaseManager } from '../persistence/database.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available calibration store backends
+ */
+export type CalibrationStoreKind = 'memory' | 'sqlite';
+
+/**
+ * Storage backend for the latest calibration
+ */
+export interface CalibrationStore {
+    /** Backend identifier, used for logging */
+    readonly kind: CalibrationStoreKind;
+    /** Replace the stored calibration */
+    save(calibration: Calibration): Promise<void>;
+    /** The stored calibration, or null before the first run */
+    load(): Promise<Calibration | null>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Keeps the calibration in process memory; it is lost on restart
+ */
+export class InMemoryCalibrationStore implements CalibrationStore {
+    readonly kind = 'memory' as const;
+    private calibration: Calibration | null = null;
+
+    async save(calibration: Calibration): Promise<void> {
+        this.calibration = calibration;
+    }
+
+    async load(): Promise<Calibration | null> {
+        return this.calibration;
+    }
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+/**
+ * Persists the calibration in the `calibration_runs`, `challenge_calibrations`
+ * and `model_abilities` tables through DatabaseManager
+ */
+export class SqliteCalibrationStore implements CalibrationStore {
+    readonly kind = 'sqlite' as const;
+    private readonly db: DatabaseManager;
+
+    constructor(db: DatabaseManager) {
+        this.db = db;
+    }
+
+    async save(calibration: Calibration): Promise<void> {
+        this.db.saveCalibration(calibration);
+    }
+
+    async load(): Promise<Calibration | null> {
+        return this.db.getCalibration();
+    }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a calibration store: SQLite-backed on the shared database, in memory without one
+ * @param db - Database shared by every store, from openDatabase
+ */
+export function createCalibrationStore(db?: DatabaseManager): CalibrationStore {
+    return db ? new SqliteCalibrationStore(db) : new InMemoryCalibrationStore();
+}
@@ -10,6 +10,8 @@ import { logger } from '../../shared/utils/logger.js';
 
 export interface ChallengeFilter {
     category?: ChallengeCategory;
+    /** Match any of these categories, in addition to `category` */
+    categories?: readonly ChallengeCategory[];
     difficulty?: Difficulty | 'all';
     tags?: string[];
     limit?: number;
@@ -75,10 +77,11 @@ export class ChallengeRepository {
         let result = Array.from(this.challenges.values());
         const initialCount = result.length;
 
-        if (filter.category) {
-            result = result.filter((c) => c.category === filter.category);
+        const categories = [...(filter.category ? [filter.category] : []), ...(filter.categories ?? [])];
+        if (categories.length > 0) {
+            result = result.filter((c) => categories.includes(c.category));
             logger.debug('Filtered by category', 'ChallengeRepository', {
-                category: filter.category,
+                categories,
                 beforeCount: initialCount,
                 afterCount: result.length,
             });
@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Output Comparison - tolerant comparison of test outputs
+ * @module @mcp/intellibench/core/execution/compare
+ * @version 1.0.0
+ *
+ * Walks actual and expected outputs together and reports the first place they
+ * differ, plus a summary of added/removed keys and differing array positions.
+ * Options relax the comparison: numeric tolerances, unordered arrays,
+ * unordered object keys, regular expressions for strings and subset matching.
+ * Both sides are normalized through JSON first, since that is all a
+ * submission's output can carry.
+ */
+
+import type { OutputComparisonOptions, OutputDiff } from '../../shared/types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most paths listed per change kind in a diff */
+const MAX_LISTED_PATHS = 20;
+
+interface StructuralChanges {
+    addedKeys: string[];
+    removedKeys: string[];
+    changedIndices: string[];
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Whether the actual output matches the expected output
+ */
+export function outputsMatch(actual: unknown, expected: unknown, options: OutputComparisonOptions = {}): boolean {
+    return findMismatch(actual, expected, options) === undefined;
+}
+
+/**
+ * Find the first difference between actual and expected output
+ * @returns undefined when the outputs match
+ */
+export function findMismatch(
+    actual: unknown,
+    expected: unknown,
+    options: OutputComparisonOptions = {}
+): OutputDiff | undefined {
+    return compareAt(normalize(actual), normalize(expected), options, '$');
+}
+
+/**
+ * Structural diff of actual against expected output: the first mismatch along
+ * with every added and removed key and every differing array position
+ * @returns undefined when the outputs match
+ */
+export function diffOutputs(
+    actual: unknown,
+    expected: unknown,
+    options: OutputComparisonOptions = {}
+): OutputDiff | undefined {
+    const normalizedActual = normalize(actual);
+    const normalizedExpected = normalize(expected);
+
+    const first = compareAt(normalizedActual, normalizedExpected, options, '$');
+    if (!first) return undefined;
+
+    const changes: StructuralChanges = { addedKeys: [], removedKeys: [], changedIndices: [] };
+    collectChanges(normalizedActual, normalizedExpected, options, '$', changes);
+
+    return {
+        ...first,
+        ...(changes.addedKeys.length > 0 && { addedKeys: changes.addedKeys }),
+        ...(changes.removedKeys.length > 0 && { removedKeys: changes.removedKeys }),
+        ...(changes.changedIndices.length > 0 && { changedIndices: changes.changedIndices }),
+    };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function compareAt(
+    actual: unknown,
+    expected: unknown,
+    options: OutputComparisonOptions,
+    path: string
+): OutputDiff | undefined {
+    if (typeof expected === 'number' && typeof actual === 'number') {
+        return numbersMatch(actual, expected, options)
+            ? undefined
+            : { path, message: describeNumberMismatch(options), expected, actual };
+    }
+
+    if (typeof expected === 'string' && typeof actual === 'string' && options.regex) {
+        return matchesPattern(actual, expected)
+            ? undefined
+            : { path, message: 'String does not match the expected pattern', expected, actual };
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        return options.ignoreArrayOrder
+            ? compareUnorderedArrays(actual, expected, options, path)
+            : compareOrderedArrays(actual, expected, options, path);
+    }
+
+    if (isPlainObject(expected) && isPlainObject(actual)) {
+        return compareObjects(actual, expected, options, path);
+    }
+
+    if (typeOf(actual) !== typeOf(expected)) {
+        return { path, message: `Type differs: got ${typeOf(actual)}`, expected, actual };
+    }
+
+    return actual === expected ? undefined : { path, message: 'Values differ', expected, actual };
+}
+
+function compareOrderedArrays(
+    actual: unknown[],
+    expected: unknown[],
+    options: OutputComparisonOptions,
+    path: string
+): OutputDiff | undefined {
+    if (options.subset) {
+        // Expected elements must appear in order, with anything in between
+        let next = 0;
+        for (const item of actual) {
+            if (next < expected.length && compareAt(item, expected[next], options, path) === undefined) {
+                next++;
+            }
+        }
+        return next === expected.length
+            ? undefined
+            : { path: `${path}[${next}]`, message: 'Expected element not found in order', expected: expected[next] };
+    }
+
+    for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+        const diff = compareAt(actual[i], expected[i], options, `${path}[${i}]`);
+        if (diff) return diff;
+    }
+
+    return actual.length === expected.length
+        ? undefined
+        : { path, message: 'Array lengths differ', expected: expected.length, actual: actual.length };
+}
+
+function compareUnorderedArrays(
+    actual: unknown[],
+    expected: unknown[],
+    options: OutputComparisonOptions,
+    path: string
+): OutputDiff | undefined {
+    if (!options.subset && actual.length !== expected.length) {
+        return { path, message: 'Array lengths differ', expected: expected.length, actual: actual.length };
+    }
+
+    const unused = actual.map((_, i) => i);
+    for (let i = 0; i < expected.length; i++) {
+        const match = unused.findIndex((j) => compareAt(actual[j], expected[i], options, path) === undefined);
+        if (match === -1) {
+            return { path: `${path}[${i}]`, message: 'No matching element in actual output', expected: expected[i] };
+        }
+        unused.splice(match, 1);
+    }
+
+    return undefined;
+}
+
+function compareObjects(
+    actual: Record<string, unknown>,
+    expected: Record<string, unknown>,
+    options: OutputComparisonOptions,
+    path: string
+): OutputDiff | undefined {
+    const expectedKeys = Object.keys(expected);
+    const actualKeys = Object.keys(actual);
+
+    const missing = expectedKeys.find((key) => !(key in actual));
+    if (missing !== undefined) {
+        return { path: childPath(path, missing), message: 'Missing key', expected: expected[missing] };
+    }
+
+    if (!options.subset) {
+        const extra = actualKeys.find((key) => !(key in expected));
+        if (extra !== undefined) {
+            return { path: childPath(path, extra), message: 'Unexpected key', actual: actual[extra] };
+        }
+    }
+
+    for (const key of expectedKeys) {
+        const diff = compareAt(actual[key], expected[key], options, childPath(path, key));
+        if (diff) return diff;
+    }
+
+    if (!options.ignoreKeyOrder && !options.subset && actualKeys.join('\u0000') !== expectedKeys.join('\u0000')) {
+        return { path, message: 'Keys are in a different order', expected: expectedKeys, actual: actualKeys };
+    }
+
+    return undefined;
+}
+
+/**
+ * Record added/removed keys and differing array positions throughout the structure.
+ * Positions are not meaningful for unordered or subset array comparisons, so those
+ * arrays are not descended into.
+ */
+function collectChanges(
+    actual: unknown,
+    expected: unknown,
+    options: OutputComparisonOptions,
+    path: string,
+    changes: StructuralChanges
+): void {
+    if (isPlainObject(expected) && isPlainObject(actual)) {
+        for (const key of Object.keys(actual)) {
+            if (!(key in expected) && !options.subset) list(changes.addedKeys, childPath(path, key));
+        }
+        for (const key of Object.keys(expected)) {
+            if (!(key in actual)) {
+                list(changes.removedKeys, childPath(path, key));
+            } else {
+                collectChanges(actual[key], expected[key], options, childPath(path, key), changes);
+            }
+        }
+        return;
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual) && !options.ignoreArrayOrder && !options.subset) {
+        for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+            const itemPath = `${path}[${i}]`;
+            if (i >= actual.length || i >= expected.length) {
+                list(changes.changedIndices, itemPath);
+            } else if (compareAt(actual[i], expected[i], options, itemPath)) {
+                list(changes.changedIndices, itemPath);
+                collectChanges(actual[i], expected[i], options, itemPath, changes);
+            }
+        }
+    }
+}
+
+function list(paths: string[], path: string): void {
+    if (paths.length < MAX_LISTED_PATHS) paths.push(path);
+}
+
+function numbersMatch(actual: number, expected: number, options: OutputComparisonOptions): boolean {
+    if (actual === expected) return true;
+
+    const difference = Math.abs(actual - expected);
+    if (options.absoluteTolerance !== undefined && difference <= options.absoluteTolerance) return true;
+    if (options.relativeTolerance !== undefined && difference <= options.relativeTolerance * Math.abs(expected)) return true;
+
+    return false;
+}
+
+function describeNumberMismatch(options: OutputComparisonOptions): string {
+    const tolerances = [
+        options.absoluteTolerance !== undefined ? `absolute ${options.absoluteTolerance}` : undefined,
+        options.relativeTolerance !== undefined ? `relative ${options.relativeTolerance}` : undefined,
+    ].filter(Boolean);
+
+    return tolerances.length > 0
+        ? `Number outside tolerance (${tolerances.join(', ')})`
+        : 'Numbers differ';
+}
+
+function matchesPattern(actual: string, pattern: string): boolean {
+    try {
+        return new RegExp(pattern).test(actual);
+    } catch {
+        return actual === pattern;
+    }
+}
+
+/**
+ * Round-trip through JSON so both sides look like parsed program output
+ */
+function normalize(value: unknown): unknown {
+    if (value === undefined) return undefined;
+    const json = JSON.stringify(value);
+    return json === undefined ? undefined : JSON.parse(json);
+}
+
+function childPath(path: string, key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
@@ -8,12 +8,36 @@
  */
 
 import { spawn, ChildProcess } from 'child_process';
-import { writeFile, unlink, mkdir } from 'fs/promises';
+import { writeFile, rm, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
+import { createRequire } from 'module';
 import { join } from 'path';
+import { pathToFileURL } from 'url';
 import { randomUUID } from 'crypto';
-import type { ProgrammingLanguage, TestCase, TestCaseResult } from '../../shared/types/index.js';
+import type {
+    OutputComparisonOptions,
+    OutputDiff,
+    ProgrammingLanguage,
+    TestCase,
+    TestCaseResult,
+    TestVerdict,
+} from '../../shared/types/index.js';
 import { TIMEOUTS } from '../../shared/constants/index.js';
+import {
+    resolveSandboxBackend,
+    type SandboxBackend,
+    type SandboxBackendName,
+    type SandboxLimits,
+} from './sandbox.js';
+import { MemoryMonitor } from './monitor.js';
+import { diffOutputs, outputsMatch } from './compare.js';
+import {
+    buildSuiteFiles,
+    parseSuiteReports,
+    SUITE_HARNESS_FILE,
+    type SuiteImplementation,
+    type SuiteRunReport,
+} from './test-suite.js';
 
 // ============================================================================
 // Types
@@ -26,8 +50,24 @@ export interface ExecutionConfig {
     memoryLimit: number;
     /** Working directory for execution */
     workDir: string;
-    /** Enable sandboxing (docker) if available */
+    /** Run compiled and interpreted non-JavaScript submissions inside a sandbox backend */
     useSandbox: boolean;
+    /** Sandbox backend to use ('auto' picks the strongest available) */
+    sandboxBackend: SandboxBackendName | 'auto';
+    /** Maximum number of processes/threads inside the sandbox */
+    maxProcesses: number;
+    /** Maximum size of a file written inside the sandbox, in bytes */
+    maxFileSize: number;
+}
+
+/**
+ * Per-call overrides, usually derived from the challenge being scored
+ */
+export interface ExecutionLimits {
+    /** Maximum execution time in milliseconds */
+    timeout?: number;
+    /** Maximum memory in bytes */
+    memoryLimit?: number;
 }
 
 export interface ExecutionResult {
@@ -41,12 +81,52 @@ export interface ExecutionResult {
     exitCode: number;
     /** Execution time in milliseconds */
     executionTime: number;
-    /** Memory usage in bytes (if available) */
+    /** Peak memory usage (resident set size) in bytes, if it could be measured */
     memoryUsage?: number;
+    /** Whether the process was killed or failed for exceeding the memory limit */
+    memoryLimitExceeded?: boolean;
     /** Error message if execution failed */
     error?: string;
     /** Whether execution timed out */
     timedOut: boolean;
+    /** Sandbox backend the command ran under */
+    sandbox?: SandboxBackendName;
+}
+
+/**
+ * Outcome of checking a test case's output
+ */
+export interface OutputCheck {
+    passed: boolean;
+    /** Where the output differs, when it can be located */
+    diff?: OutputDiff;
+}
+
+/**
+ * Decides whether a test case's output is correct
+ */
+export type OutputComparator = (actual: unknown, expected: unknown, testCase: TestCase) => OutputCheck;
+
+/**
+ * Progress of a test run, reported after each compiled and executed test case
+ */
+export interface ExecutionProgress {
+    testCaseId: string;
+    stage: 'compiled' | 'executed';
+    /** Test cases finished, counting this one once it has executed */
+    completed: number;
+    total: number;
+    /** Outcome of the test case, once executed; withheld for a sample that is not the last */
+    passed?: boolean;
+}
+
+/**
+ * Caller hooks into a run: progress reporting and cancellation.
+ * Aborting the signal kills in-flight processes and rejects with the abort reason.
+ */
+export interface ExecutionHooks {
+    signal?: AbortSignal;
+    onProgress?: (progress: ExecutionProgress) => void;
 }
 
 export interface TestExecutionResult {
@@ -55,13 +135,42 @@ export interface TestExecutionResult {
     executionResult: ExecutionResult;
 }
 
+export interface TestSuiteExecutionResult {
+    /** One report per implementation, in the order given; undefined if the harness produced none */
+    reports?: SuiteRunReport[];
+    executionResult: ExecutionResult;
+}
+
 // ============================================================================
 // Language Configurations
 // ============================================================================
 
+/**
+ * URL of the tsx loader, resolved from this package so it is found from any
+ * working directory. TypeScript runs as `node --import <loader>`: launching it
+ * through npx and the tsx CLI adds two node processes whose memory would be
+ * counted against the submission.
+ */
+function resolveTsxLoader(): string {
+    try {
+        return pathToFileURL(createRequire(import.meta.url).resolve('tsx')).href;
+    } catch {
+        return 'tsx';
+    }
+}
+
 interface LanguageConfig {
     extension: string;
+    /** Whether the run step goes through the sandbox backend */
+    sandboxed: boolean;
+    /**
+     * Whether the sandbox may cap the address space at the memory limit. Runtimes
+     * that reserve their heap up front fail to start under it; RSS monitoring
+     * still enforces the limit for them.
+     */
+    limitAddressSpace: boolean;
     compileCommand?: (filePath: string, outputPath: string) => string[];
+    /** Receives the compiled output path for compiled languages, the source path otherwise */
     runCommand: (filePath: string) => string[];
     wrapperTemplate: (code: string, testInput: string) => string;
 }
@@ -69,7 +178,10 @@ interface LanguageConfig {
 const LANGUAGE_CONFIGS: Record<ProgrammingLanguage, LanguageConfig> = {
     typescript: {
         extension: '.ts',
-        runCommand: (filePath) => ['npx', 'tsx', filePath],
+        // V8 reserves far more address space than the memory limit allows
+        sandboxed: false,
+        limitAddressSpace: false,
+        runCommand: (filePath) => ['node', '--import', resolveTsxLoader(), filePath],
         wrapperTemplate: (code, testInput) => `
 ${code}
 
@@ -85,6 +197,8 @@ try {
     },
     javascript: {
         extension: '.js',
+        sandboxed: false,
+        limitAddressSpace: false,
         runCommand: (filePath) => ['node', filePath],
         wrapperTemplate: (code, testInput) => `
 ${code}
@@ -101,6 +215,8 @@ try {
     },
     python: {
         extension: '.py',
+        sandboxed: true,
+        limitAddressSpace: true,
         runCommand: (filePath) => ['python3', filePath],
         wrapperTemplate: (code, testInput) => `
 import json
@@ -114,11 +230,14 @@ try:
     result = main(test_input)
     print(json.dumps({"success": True, "result": result}))
 except Exception as e:
-    print(json.dumps({"success": False, "error": str(e)}))
+    print(json.dumps({"success": False, "error": str(e) or type(e).__name__}))
 `,
     },
     java: {
         extension: '.java',
+        sandboxed: true,
+        // The JVM reserves its heap, metaspace and code cache at startup
+        limitAddressSpace: false,
         compileCommand: (filePath, outputPath) => ['javac', '-d', outputPath, filePath],
         runCommand: (filePath) => ['java', '-cp', filePath, 'Solution'],
         wrapperTemplate: (code, testInput) => `
@@ -143,7 +262,11 @@ public class Solution {
     },
     go: {
         extension: '.go',
-        runCommand: (filePath) => ['go', 'run', filePath],
+        sandboxed: true,
+        // The Go runtime reserves heap arenas well beyond what it commits
+        limitAddressSpace: false,
+        compileCommand: (filePath, outputPath) => ['go', 'build', '-o', outputPath, filePath],
+        runCommand: (filePath) => [filePath],
         wrapperTemplate: (code, testInput) => `
 package main
 
@@ -171,6 +294,8 @@ func main() {
     },
     rust: {
         extension: '.rs',
+        sandboxed: true,
+        limitAddressSpace: true,
         compileCommand: (filePath, outputPath) => ['rustc', '-o', outputPath, filePath],
         runCommand: (filePath) => [filePath],
         wrapperTemplate: (code, testInput) => `
@@ -189,6 +314,9 @@ fn main() {
     },
     csharp: {
         extension: '.cs',
+        sandboxed: true,
+        // The .NET runtime reserves its GC regions at startup
+        limitAddressSpace: false,
         compileCommand: (filePath, outputPath) => ['dotnet', 'build', '-o', outputPath],
         runCommand: (filePath) => ['dotnet', 'run', '--project', filePath],
         wrapperTemplate: (code, testInput) => `
@@ -212,6 +340,8 @@ public class Program {
     },
     cpp: {
         extension: '.cpp',
+        sandboxed: true,
+        limitAddressSpace: true,
         compileCommand: (filePath, outputPath) => ['g++', '-std=c++17', '-o', outputPath, filePath],
         runCommand: (filePath) => [filePath],
         wrapperTemplate: (code, testInput) => `
@@ -235,6 +365,17 @@ int main() {
     },
 };
 
+/** Error reported for the memory limit verdict */
+const MEMORY_LIMIT_EXCEEDED = 'Memory limit exceeded';
+
+/** Messages the supported runtimes print when an allocation fails */
+const OUT_OF_MEMORY_PATTERN =
+    /MemoryError|std::bad_alloc|out of memory|memory allocation of \d+ bytes failed|Cannot allocate memory|OutOfMemoryError/i;
+
+function isOutOfMemoryError(message: string): boolean {
+    return OUT_OF_MEMORY_PATTERN.test(message);
+}
+
 // ============================================================================
 // Code Execution Engine
 // ============================================================================
@@ -242,13 +383,20 @@ int main() {
 export class CodeExecutionEngine {
     private readonly config: ExecutionConfig;
     private readonly tempDir: string;
+    private sandbox?: SandboxBackend;
 
     constructor(config: Partial<ExecutionConfig> = {}) {
         this.config = {
             timeout: config.timeout ?? TIMEOUTS.CODE_EXECUTION,
             memoryLimit: config.memoryLimit ?? 256 * 1024 * 1024, // 256MB
             workDir: config.workDir ?? join(process.cwd(), '.intellibench', 'execution'),
-            useSandbox: config.useSandbox ?? false,
+            useSandbox: config.useSandbox ?? true,
+            sandboxBackend:
+                config.sandboxBackend ??
+                (process.env['SANDBOX_BACKEND'] as SandboxBackendName | 'auto' | undefined) ??
+                'auto',
+            maxProcesses: config.maxProcesses ?? 256,
+            maxFileSize: config.maxFileSize ?? 16 * 1024 * 1024, // 16MB
         };
         this.tempDir = join(this.config.workDir, 'temp');
     }
@@ -264,16 +412,25 @@ export class CodeExecutionEngine {
 
     /**
      * Execute code and run test cases
+     * @param compare - Output comparison; the test case's `comparison` options by default
      */
     async executeWithTests(
         code: string,
         language: ProgrammingLanguage,
-        testCases: readonly TestCase[]
+        testCases: readonly TestCase[],
+        limits: ExecutionLimits = {},
+        compare?: OutputComparator,
+        hooks: ExecutionHooks = {}
     ): Promise<TestExecutionResult[]> {
         const results: TestExecutionResult[] = [];
 
-        for (const testCase of testCases) {
-            const result = await this.executeTestCase(code, language, testCase);
+        for (const [index, testCase] of testCases.entries()) {
+            // Progress of a single test case counts towards the whole run
+            const result = await this.executeTestCase(code, language, testCase, limits, compare, {
+                signal: hooks.signal,
+                onProgress: (progress) =>
+                    hooks.onProgress?.({ ...progress, completed: index + progress.completed, total: testCases.length }),
+            });
             results.push(result);
         }
 
@@ -286,17 +443,26 @@ export class CodeExecutionEngine {
     async executeTestCase(
         code: string,
         language: ProgrammingLanguage,
-        testCase: TestCase
+        testCase: TestCase,
+        limits: ExecutionLimits = {},
+        compare?: OutputComparator,
+        hooks: ExecutionHooks = {}
     ): Promise<TestExecutionResult> {
+        hooks.signal?.throwIfAborted();
+
         const langConfig = LANGUAGE_CONFIGS[language];
         if (!langConfig) {
             return this.createFailedResult(testCase, `Unsupported language: ${language}`);
         }
 
-        const executionId = randomUUID();
-        const filePath = join(this.tempDir, `${executionId}${langConfig.extension}`);
+        // Each execution gets its own directory, which is all the sandbox may write to
+        const executionDir = join(this.tempDir, randomUUID());
+        const filePath = join(executionDir, `Solution${langConfig.extension}`);
+        const outputPath = join(executionDir, 'solution');
 
         try {
+            await mkdir(executionDir, { recursive: true });
+
             // Prepare code with test wrapper
             const wrappedCode = langConfig.wrapperTemplate(
                 code,
@@ -306,30 +472,60 @@ export class CodeExecutionEngine {
             // Write code to file
             await writeFile(filePath, wrappedCode, 'utf-8');
 
-            // Compile if needed
+            // Compile if needed. The toolchain runs on the host; only the produced program is sandboxed.
             if (langConfig.compileCommand) {
-                const outputPath = join(this.tempDir, executionId);
                 const compileResult = await this.executeCommand(
                     langConfig.compileCommand(filePath, outputPath),
-                    this.config.timeout
+                    this.config.timeout,
+                    executionDir,
+                    undefined,
+                    hooks.signal
                 );
+                hooks.signal?.throwIfAborted();
 
                 if (!compileResult.success) {
-                    return this.createFailedResult(testCase, `Compilation failed: ${compileResult.stderr}`);
+                    hooks.onProgress?.({ testCaseId: testCase.id, stage: 'executed', completed: 1, total: 1, passed: false });
+                    return this.createFailedResult(
+                        testCase,
+                        `Compilation failed: ${compileResult.stderr}`,
+                        'compilation_error'
+                    );
                 }
+                hooks.onProgress?.({ testCaseId: testCase.id, stage: 'compiled', completed: 0, total: 1 });
             }
 
             // Execute
-            const executionResult = await this.executeCommand(
-                langConfig.runCommand(filePath),
-                testCase.timeout ?? this.config.timeout
-            );
+            const timeout = testCase.timeout ?? limits.timeout ?? this.config.timeout;
+            const runCommand = langConfig.runCommand(langConfig.compileCommand ? outputPath : filePath);
+            const memoryLimit = limits.memoryLimit ?? this.config.memoryLimit;
+            const sandbox = langConfig.sandboxed ? this.getSandbox() : undefined;
+
+            const sandboxLimits: SandboxLimits = {
+                timeout,
+                memoryLimit: langConfig.limitAddressSpace ? memoryLimit : undefined,
+                maxProcesses: this.config.maxProcesses,
+                maxFileSize: this.config.maxFileSize,
+            };
+
+            const executionResult: ExecutionResult = {
+                ...(await this.executeCommand(
+                    sandbox ? sandbox.wrap(runCommand, executionDir, sandboxLimits) : runCommand,
+                    timeout,
+                    executionDir,
+                    memoryLimit,
+                    hooks.signal
+                )),
+                sandbox: sandbox?.name,
+            };
+            hooks.signal?.throwIfAborted();
 
             // Parse result
             const testResult = this.parseExecutionResult(
                 executionResult,
-                testCase
+                testCase,
+                compare
             );
+            hooks.onProgress?.({ testCaseId: testCase.id, stage: 'executed', completed: 1, total: 1, passed: testResult.passed });
 
             return {
                 testCase,
@@ -337,22 +533,114 @@ export class CodeExecutionEngine {
                 executionResult,
             };
         } catch (error) {
+            hooks.signal?.throwIfAborted();
             return this.createFailedResult(
                 testCase,
                 error instanceof Error ? error.message : 'Unknown execution error'
             );
         } finally {
             // Cleanup
-            await this.cleanup(filePath);
+            await this.cleanup(executionDir);
+        }
+    }
+
+    /**
+     * Run a submitted test suite against a reference implementation and its mutants.
+     * The suite runs once per implementation, each in a worker of one node process,
+     * inside the sandbox backend like any other untrusted code.
+     * @param testCode - Submitted Jest/Vitest-style suite (TypeScript or JavaScript)
+     * @param implementations - Reference first, then mutants (plain JavaScript)
+     * @param exportNames - Names each implementation exposes to the suite
+     */
+    async executeTestSuite(
+        testCode: string,
+        implementations: readonly SuiteImplementation[],
+        exportNames: readonly string[],
+        limits: ExecutionLimits = {},
+        hooks: Pick<ExecutionHooks, 'signal'> = {}
+    ): Promise<TestSuiteExecutionResult> {
+        hooks.signal?.throwIfAborted();
+
+        const executionDir = join(this.tempDir, randomUUID());
+        const nonce = randomUUID();
+        const runTimeout = limits.timeout ?? this.config.timeout;
+
+        try {
+            await mkdir(executionDir, { recursive: true });
+            const files = buildSuiteFiles(testCode, implementations, exportNames, { nonce, timeout: runTimeout });
+            for (const [name, content] of Object.entries(files)) {
+                await writeFile(join(executionDir, name), content, 'utf-8');
+            }
+
+            // The suite runs once per implementation, so allow a multiple of the per-run timeout
+            const timeout = runTimeout * 3;
+            const runCommand = LANGUAGE_CONFIGS.javascript.runCommand(join(executionDir, SUITE_HARNESS_FILE));
+            const sandbox = this.getSandbox();
+            const sandboxLimits: SandboxLimits = {
+                timeout,
+                // V8 reserves far more address space than the memory limit allows
+                memoryLimit: undefined,
+                maxProcesses: this.config.maxProcesses,
+                maxFileSize: this.config.maxFileSize,
+            };
+
+            const executionResult: ExecutionResult = {
+                ...(await this.executeCommand(
+                    sandbox ? sandbox.wrap(runCommand, executionDir, sandboxLimits) : runCommand,
+                    timeout,
+                    executionDir,
+                    limits.memoryLimit ?? this.config.memoryLimit,
+                    hooks.signal
+                )),
+                sandbox: sandbox?.name,
+            };
+            hooks.signal?.throwIfAborted();
+
+            return { reports: parseSuiteReports(executionResult.stdout, nonce), executionResult };
+        } catch (error) {
+            hooks.signal?.throwIfAborted();
+            const message = error instanceof Error ? error.message : 'Unknown execution error';
+            return {
+                executionResult: {
+                    success: false,
+                    stdout: '',
+                    stderr: message,
+                    exitCode: 1,
+                    executionTime: 0,
+                    timedOut: false,
+                    error: message,
+                },
+            };
+        } finally {
+            await this.cleanup(executionDir);
         }
     }
 
     /**
-     * Execute a command with timeout
+     * Get the sandbox backend, resolving it on first use
+     */
+    private getSandbox(): SandboxBackend | undefined {
+        if (!this.config.useSandbox) return undefined;
+
+        this.sandbox ??= resolveSandboxBackend(this.config.sandboxBackend);
+        return this.sandbox;
+    }
+
+    /**
+     * Execute a command with timeout.
+     * When a memory limit is given, the peak RSS of the process tree is sampled
+     * and the process is killed as soon as it crosses the limit. Aborting the
+     * signal kills the process; callers check the signal after it resolves.
+     * The command runs in its own process group and every kill targets the whole
+     * group: a process it started would otherwise keep running and hold the
+     * output pipes open, so the command would never be seen to close.
      */
     private executeCommand(
         command: string[],
-        timeout: number
+        timeout: number,
+        cwd: string = this.tempDir,
+        memoryLimit?: number,
+        signal?: AbortSignal
     ): Promise<ExecutionResult> {
         return new Promise((resolve) => {
             const startTime = Date.now();
@@ -372,15 +660,32 @@ export class CodeExecutionEngine {
             }
 
             const proc: ChildProcess = spawn(cmd, args, {
-                cwd: this.tempDir,
-                timeout,
-                killSignal: 'SIGKILL',
+                cwd,
+                detached: true,
             });
 
+            const kill = (): void => {
+                if (proc.pid === undefined) return;
+                try {
+                    process.kill(-proc.pid, 'SIGKILL');
+                } catch {
+                    // The group has already exited
+                }
+            };
+
             let stdout = '';
             let stderr = '';
             let timedOut = false;
 
+            const monitor =
+                memoryLimit !== undefined && proc.pid !== undefined
+                    ? new MemoryMonitor(proc.pid, {
+                        memoryLimit,
+                        onLimitExceeded: kill,
+                    })
+                    : undefined;
+            monitor?.start();
+
             proc.stdout?.on('data', (data: Buffer) => {
                 stdout += data.toString();
             });
@@ -391,26 +696,44 @@ export class CodeExecutionEngine {
 
             const timeoutHandle = setTimeout(() => {
                 timedOut = true;
-                proc.kill('SIGKILL');
+                kill();
             }, timeout);
 
-            proc.on('close', (exitCode) => {
+            const abort = (): void => {
+                kill();
+            };
+            if (signal?.aborted) abort();
+            signal?.addEventListener('abort', abort, { once: true });
+
+            // Processes left behind by the command still hold its pipes
+            proc.on('exit', kill);
+
+            proc.on('close', async (exitCode) => {
                 clearTimeout(timeoutHandle);
+                signal?.removeEventListener('abort', abort);
+                await monitor?.stop();
                 const executionTime = Date.now() - startTime;
+                const memoryLimitExceeded = monitor?.limitExceeded ?? false;
 
                 resolve({
-                    success: exitCode === 0 && !timedOut,
+                    success: exitCode === 0 && !timedOut && !memoryLimitExceeded,
                     stdout: stdout.trim(),
                     stderr: stderr.trim(),
                     exitCode: exitCode ?? 1,
                     executionTime,
+                    memoryUsage: monitor?.peakBytes,
+                    memoryLimitExceeded,
                     timedOut,
-                    error: timedOut ? 'Execution timed out' : undefined,
+                    error: memoryLimitExceeded
+                        ? MEMORY_LIMIT_EXCEEDED
+                        : timedOut ? 'Execution timed out' : undefined,
                 });
             });
 
             proc.on('error', (error) => {
                 clearTimeout(timeoutHandle);
+                signal?.removeEventListener('abort', abort);
+                void monitor?.stop();
                 const executionTime = Date.now() - startTime;
 
                 resolve({
@@ -431,14 +754,24 @@ export class CodeExecutionEngine {
      */
     private parseExecutionResult(
         executionResult: ExecutionResult,
-        testCase: TestCase
+        testCase: TestCase,
+        compare?: OutputComparator
     ): TestCaseResult {
+        const { executionTime, memoryUsage } = executionResult;
+
         if (!executionResult.success) {
+            const error = executionResult.error ?? executionResult.stderr;
+            const memoryExceeded = executionResult.memoryLimitExceeded || isOutOfMemoryError(executionResult.stderr);
+
             return {
                 testCaseId: testCase.id,
                 passed: false,
-                error: executionResult.error ?? executionResult.stderr,
-                executionTime: executionResult.executionTime,
+                error: memoryExceeded ? MEMORY_LIMIT_EXCEEDED : error,
+                executionTime,
+                memoryUsage,
+                verdict: memoryExceeded
+                    ? 'memory_limit_exceeded'
+                    : executionResult.timedOut ? 'time_limit_exceeded' : 'runtime_error',
             };
         }
 
@@ -446,22 +779,32 @@ export class CodeExecutionEngine {
             const output = JSON.parse(executionResult.stdout);
 
             if (!output.success) {
+                // Allocation failures under the sandbox rlimit surface as language exceptions
+                const memoryExceeded = isOutOfMemoryError(String(output.error ?? ''));
+
                 return {
                     testCaseId: testCase.id,
                     passed: false,
-                    error: output.error,
-                    executionTime: executionResult.executionTime,
+                    error: memoryExceeded ? MEMORY_LIMIT_EXCEEDED : output.error,
+                    executionTime,
+                    memoryUsage,
+                    verdict: memoryExceeded ? 'memory_limit_exceeded' : 'runtime_error',
                 };
             }
 
-            const passed = this.compareOutput(output.result, testCase.expectedOutput);
+            const { passed, diff } = compare
+                ? compare(output.result, testCase.expectedOutput, testCase)
+                : this.checkOutput(output.result, testCase);
 
             return {
                 testCaseId: testCase.id,
                 passed,
                 actualOutput: output.result,
                 expectedOutput: testCase.expectedOutput,
-                executionTime: executionResult.executionTime,
+                executionTime,
+                memoryUsage,
+                verdict: passed ? 'passed' : 'wrong_answer',
+                diff,
             };
         } catch {
             return {
@@ -470,28 +813,41 @@ export class CodeExecutionEngine {
                 error: 'Failed to parse execution output',
                 actualOutput: executionResult.stdout,
                 expectedOutput: testCase.expectedOutput,
-                executionTime: executionResult.executionTime,
+                executionTime,
+                memoryUsage,
+                verdict: 'runtime_error',
             };
         }
     }
 
+    /**
+     * Check a test case's output with its comparison options, diffing the outputs on failure
+     */
+    private checkOutput(actual: unknown, testCase: TestCase): OutputCheck {
+        if (this.compareOutput(actual, testCase.expectedOutput, testCase.comparison)) {
+            return { passed: true };
+        }
+
+        return { passed: false, diff: diffOutputs(actual, testCase.expectedOutput, testCase.comparison) };
+    }
+
     /**
      * Compare actual output with expected output
      */
-    private compareOutput(actual: unknown, expected: unknown): boolean {
+    private compareOutput(actual: unknown, expected: unknown, options?: OutputComparisonOptions): boolean {
         // Handle special case where expected is boolean true (any valid output)
         if (expected === true && actual !== undefined && actual !== null) {
             return true;
         }
 
-        // Deep equality comparison
-        return JSON.stringify(actual) === JSON.stringify(expected);
+        // Deep comparison, exact JSON equality unless the options relax it
+        return outputsMatch(actual, expected, options);
     }
 
     /**
      * Create a failed test result
      */
-    private createFailedResult(testCase: TestCase, error: string): TestExecutionResult {
+    private createFailedResult(testCase: TestCase, error: string, verdict?: TestVerdict): TestExecutionResult {
         return {
             testCase,
             result: {
@@ -499,6 +855,7 @@ export class CodeExecutionEngine {
                 passed: false,
                 error,
                 executionTime: 0,
+                verdict,
             },
             executionResult: {
                 success: false,
@@ -515,10 +872,10 @@ export class CodeExecutionEngine {
     /**
      * Cleanup temporary files
      */
-    private async cleanup(filePath: string): Promise<void> {
+    private async cleanup(executionDir: string): Promise<void> {
         try {
-            if (existsSync(filePath)) {
-                await unlink(filePath);
+            if (existsSync(executionDir)) {
+                await rm(executionDir, { recursive: true, force: true });
             }
         } catch {
             // Ignore cleanup errors
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Memory Monitor for executing child processes
+ * @module @mcp/intellibench/core/execution/monitor
+ * @version 1.0.0
+ *
+ * Samples the peak resident set size of a process tree from /proc while it runs
+ * and reports when it crosses a limit. Sampling only sees what is resident at
+ * sample time, so very short allocation spikes may be missed; VmHWM narrows the
+ * gap for processes that are still alive. The tree should be rooted at the
+ * submission itself: launchers such as npx would be counted against it.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MemoryMonitorOptions {
+    /** Limit in bytes; crossing it triggers onLimitExceeded */
+    memoryLimit: number;
+    /** Sampling interval in milliseconds */
+    interval?: number;
+    /** Called once when the sampled peak exceeds the limit */
+    onLimitExceeded: (peakBytes: number) => void;
+}
+
+// ============================================================================
+// /proc Helpers
+// ============================================================================
+
+/**
+ * Read the peak resident set size (VmHWM) of a single process in bytes
+ */
+export async function readPeakRss(pid: number): Promise<number | undefined> {
+    try {
+        const status = await readFile(`/proc/${pid}/status`, 'utf-8');
+        const match = /^VmHWM:\s+(\d+)\s+kB/m.exec(status);
+        return match?.[1] ? Number(match[1]) * 1024 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Parse the parent PID out of /proc/<pid>/stat. The command name may contain
+ * spaces and parentheses, so parse from the last ')'.
+ */
+export function parseParentPid(stat: string): number | undefined {
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const ppid = Number(fields[1]);
+    return Number.isInteger(ppid) ? ppid : undefined;
+}
+
+/**
+ * List the direct children of a process. Uses /proc/<pid>/task/<tid>/children
+ * when the kernel provides it, otherwise returns undefined.
+ */
+async function readChildren(pid: number): Promise<number[] | undefined> {
+    try {
+        const content = await readFile(`/proc/${pid}/task/${pid}/children`, 'utf-8');
+        return content.split(' ').filter(Boolean).map(Number);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * List the PIDs of a process and all of its descendants
+ */
+async function listProcessTree(rootPid: number): Promise<number[]> {
+    const direct = await readChildren(rootPid);
+    if (direct !== undefined) {
+        const tree = [rootPid];
+        for (let i = 0; i < tree.length; i++) {
+            const children = i === 0 ? direct : await readChildren(tree[i] as number);
+            tree.push(...(children ?? []));
+        }
+        return tree;
+    }
+
+    // Fall back to scanning every process for its parent
+    const entries = await readdir('/proc').catch(() => [] as string[]);
+    const parents = new Map<number, number>();
+
+    await Promise.all(
+        entries
+            .filter((entry) => /^\d+$/.test(entry))
+            .map(async (entry) => {
+                try {
+                    const ppid = parseParentPid(await readFile(`/proc/${entry}/stat`, 'utf-8'));
+                    if (ppid !== undefined) parents.set(Number(entry), ppid);
+                } catch {
+                    // Process exited while scanning
+                }
+            })
+    );
+
+    const tree = [rootPid];
+    for (let i = 0; i < tree.length; i++) {
+        for (const [pid, ppid] of parents) {
+            if (ppid === tree[i] && !tree.includes(pid)) tree.push(pid);
+        }
+    }
+
+    return tree;
+}
+
+// ============================================================================
+// Memory Monitor
+// ============================================================================
+
+/**
+ * Polls the memory of a running process tree.
+ * The tree is needed because sandbox wrappers such as bwrap fork the submission.
+ */
+export class MemoryMonitor {
+    private readonly interval: number;
+    private timer?: NodeJS.Timeout;
+    private sampling?: Promise<void>;
+    private exceeded = false;
+    private peak?: number;
+
+    constructor(
+        private readonly pid: number,
+        private readonly options: MemoryMonitorOptions
+    ) {
+        this.interval = options.interval ?? 10;
+    }
+
+    /** Peak resident set size seen so far, in bytes */
+    get peakBytes(): number | undefined {
+        return this.peak;
+    }
+
+    /** Whether the limit was crossed */
+    get limitExceeded(): boolean {
+        return this.exceeded;
+    }
+
+    /**
+     * Start sampling. Does nothing on platforms without /proc.
+     */
+    start(): void {
+        if (process.platform !== 'linux') return;
+
+        void this.sample();
+        this.timer = setInterval(() => void this.sample(), this.interval);
+        this.timer.unref();
+    }
+
+    /**
+     * Stop sampling. Resolves once a sample still in flight has settled, so a
+     * final sample over the limit is reported by limitExceeded.
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        await this.sampling;
+    }
+
+    private sample(): Promise<void> {
+        // Skip ticks while a slow /proc scan is still running
+        this.sampling ??= this.measure().finally(() => {
+            this.sampling = undefined;
+        });
+        return this.sampling;
+    }
+
+    private async measure(): Promise<void> {
+        const pids = await listProcessTree(this.pid);
+        const samples = await Promise.all(pids.map((pid) => readPeakRss(pid)));
+        const total = samples.reduce<number>((sum, rss) => sum + (rss ?? 0), 0);
+
+        if (total > 0 && total > (this.peak ?? 0)) {
+            this.peak = total;
+        }
+
+        if (!this.exceeded && total > this.options.memoryLimit) {
+            this.exceeded = true;
+            // A sample that settles after stop() has nothing left to kill
+            if (this.timer) this.options.onLimitExceeded(total);
+        }
+    }
+}
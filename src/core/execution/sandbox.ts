@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Sandbox Backends for untrusted code execution
+ * @module @mcp/intellibench/core/execution/sandbox
+ * @version 1.0.0
+ *
+ * Rootless alternatives to the Docker sandbox. Each backend wraps a command line
+ * so the spawned process runs with CPU, memory, process and filesystem limits:
+ * - nsjail: namespaces, seccomp and rlimits
+ * - bubblewrap: namespaces with a read-only root, rlimits via ulimit
+ * - ulimit: plain child process constrained by rlimits only
+ */
+
+import { spawnSync } from 'child_process';
+import { logger } from '../../shared/utils/logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SandboxBackendName = 'nsjail' | 'bubblewrap' | 'ulimit' | 'none';
+
+export interface SandboxLimits {
+    /** Wall-clock limit in milliseconds */
+    timeout: number;
+    /**
+     * Address space limit in bytes. Omitted for runtimes that reserve far more
+     * address space than they use; their memory is bounded by RSS monitoring.
+     */
+    memoryLimit?: number;
+    /** Maximum number of processes/threads */
+    maxProcesses: number;
+    /** Maximum size of a written file in bytes */
+    maxFileSize: number;
+}
+
+export interface SandboxBackend {
+    /** Backend identifier */
+    readonly name: SandboxBackendName;
+    /** Whether the backend works on this host */
+    isAvailable(): boolean;
+    /**
+     * Wrap a command so it runs inside the sandbox
+     * @param command - Command and arguments to run
+     * @param workDir - The only directory the command may write to
+     * @param limits - Resource limits to apply
+     */
+    wrap(command: string[], workDir: string, limits: SandboxLimits): string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PROBE_LIMITS: SandboxLimits = {
+    timeout: 5000,
+    memoryLimit: 512 * 1024 * 1024,
+    maxProcesses: 256,
+    maxFileSize: 1024 * 1024,
+};
+
+/**
+ * Run a wrapped `true` to check that a backend actually works here
+ * (e.g. unprivileged user namespaces may be disabled)
+ */
+function probe(backend: SandboxBackend): boolean {
+    if (process.platform === 'win32') return false;
+
+    const [cmd, ...args] = backend.wrap(['true'], process.cwd(), PROBE_LIMITS);
+    if (!cmd) return false;
+
+    try {
+        const result = spawnSync(cmd, args, { stdio: 'ignore', timeout: PROBE_LIMITS.timeout });
+        return result.status === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Prefix that applies rlimits through bash's ulimit builtin, then execs the command.
+ * RLIMIT_NPROC counts every process of the user, so the process limit is applied only
+ * where the command runs in a user namespace of its own; on the host it would be shared
+ * with concurrent runs and the server itself.
+ */
+function ulimitPrefix(limits: SandboxLimits, ownUserNamespace: boolean): string[] {
+    const cpuSeconds = Math.ceil(limits.timeout / 1000) + 1;
+    const fileBlocks = Math.ceil(limits.maxFileSize / 1024);
+
+    const script = [
+        ...(limits.memoryLimit !== undefined ? [`ulimit -v ${Math.ceil(limits.memoryLimit / 1024)}`] : []),
+        `ulimit -t ${cpuSeconds}`,
+        ...(ownUserNamespace ? [`ulimit -u ${limits.maxProcesses}`] : []),
+        `ulimit -f ${fileBlocks}`,
+        'exec "$@"',
+    ].join(' && ');
+
+    return ['bash', '-c', script, 'sandbox'];
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * nsjail with a read-only view of the host and a writable work directory
+ */
+export class NsjailSandbox implements SandboxBackend {
+    readonly name = 'nsjail' as const;
+    private available?: boolean;
+
+    isAvailable(): boolean {
+        this.available ??= probe(this);
+        return this.available;
+    }
+
+    wrap(command: string[], workDir: string, limits: SandboxLimits): string[] {
+        return [
+            'nsjail',
+            '--mode', 'o',
+            '--quiet',
+            '--chroot', '/',
+            '--bindmount', workDir,
+            '--tmpfsmount', '/tmp',
+            '--cwd', workDir,
+            '--keep_env',
+            '--time_limit', `${Math.ceil(limits.timeout / 1000) + 1}`,
+            // 'hard' keeps the inherited limit, normally unlimited
+            '--rlimit_as', limits.memoryLimit !== undefined ? `${Math.ceil(limits.memoryLimit / (1024 * 1024))}` : 'hard',
+            '--rlimit_cpu', `${Math.ceil(limits.timeout / 1000) + 1}`,
+            '--rlimit_nproc', `${limits.maxProcesses}`,
+            '--rlimit_fsize', `${Math.max(1, Math.ceil(limits.maxFileSize / (1024 * 1024)))}`,
+            '--',
+            // nsjail does not search PATH, let the shell resolve the command
+            '/bin/sh', '-c', 'exec "$@"', 'sandbox',
+            ...command,
+        ];
+    }
+}
+
+/**
+ * bubblewrap with all namespaces unshared and a read-only root
+ */
+export class BubblewrapSandbox implements SandboxBackend {
+    readonly name = 'bubblewrap' as const;
+    private available?: boolean;
+
+    isAvailable(): boolean {
+        this.available ??= probe(this);
+        return this.available;
+    }
+
+    wrap(command: string[], workDir: string, limits: SandboxLimits): string[] {
+        return [
+            'bwrap',
+            '--unshare-all',
+            '--die-with-parent',
+            '--new-session',
+            '--ro-bind', '/', '/',
+            '--dev', '/dev',
+            '--proc', '/proc',
+            '--tmpfs', '/tmp',
+            '--bind', workDir, workDir,
+            '--chdir', workDir,
+            '--',
+            ...ulimitPrefix(limits, true),
+            ...command,
+        ];
+    }
+}
+
+/**
+ * Plain child process constrained by rlimits. It sets no process limit, which would
+ * count every process of the invoking user rather than just the submission.
+ */
+export class UlimitSandbox implements SandboxBackend {
+    readonly name = 'ulimit' as const;
+    private available?: boolean;
+
+    isAvailable(): boolean {
+        this.available ??= probe(this);
+        return this.available;
+    }
+
+    wrap(command: string[], _workDir: string, limits: SandboxLimits): string[] {
+        return [...ulimitPrefix(limits, false), ...command];
+    }
+}
+
+/**
+ * No isolation at all; the command runs directly on the host
+ */
+export class NoSandbox implements SandboxBackend {
+    readonly name = 'none' as const;
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    wrap(command: string[]): string[] {
+        return command;
+    }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Pick a sandbox backend.
+ * With 'auto' the strongest available backend wins: nsjail, bubblewrap, ulimit, none.
+ * @param preferred - Backend name or 'auto'
+ */
+export function resolveSandboxBackend(preferred: SandboxBackendName | 'auto' = 'auto'): SandboxBackend {
+    const candidates: SandboxBackend[] = [
+        new NsjailSandbox(),
+        new BubblewrapSandbox(),
+        new UlimitSandbox(),
+    ];
+
+    if (preferred !== 'auto') {
+        const backend = candidates.find((c) => c.name === preferred) ?? new NoSandbox();
+        if (backend.isAvailable()) {
+            logger.info('Sandbox backend selected', 'Sandbox', { backend: backend.name });
+            return backend;
+        }
+
+        logger.warn('Requested sandbox backend is unavailable, resolving automatically', 'Sandbox', {
+            requested: preferred,
+        });
+    }
+
+    const backend = candidates.find((c) => c.isAvailable()) ?? new NoSandbox();
+
+    logger.info('Sandbox backend selected', 'Sandbox', { backend: backend.name, preferred });
+
+    return backend;
+}
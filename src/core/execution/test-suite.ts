@@ -0,0 +1,616 @@
+/**
+ * @fileoverview Test Suite Harness - runs submitted Jest/Vitest-style suites
+ * @module @mcp/intellibench/core/execution/test-suite
+ * @version 1.0.0
+ *
+ * The submitted suite is written to a module of its own and run once per
+ * implementation (the reference and each mutant) with a minimal
+ * describe/it/expect/vi runtime. Each run is a fresh worker thread, so whatever
+ * the suite does to its globals ends with that run, and the runs are made in a
+ * random order, so a suite cannot count its way to the reference.
+ *
+ * The main thread never loads submitted code. It reads the run's input from a
+ * file it deletes before the first worker starts, records each worker's line
+ * coverage through the inspector and prints the report. The report line carries
+ * a nonce from that input, so a line printed by the suite cannot pass for it.
+ */
+
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join } from 'path';
+import { pathToFileURL } from 'url';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SuiteImplementation {
+    /** 'reference' or a mutant ID */
+    id: string;
+    /** Plain JavaScript source */
+    code: string;
+}
+
+export interface SuiteTestOutcome {
+    /** Full test name including describe blocks */
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+export interface SuiteRunReport {
+    /** Implementation the suite ran against */
+    id: string;
+    tests: SuiteTestOutcome[];
+    /** Set when the suite could not be registered or run at all */
+    error?: string;
+    /** Line coverage of the implementation (reference only) */
+    coverage?: { covered: number; total: number };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Marks the harness report line on stdout; the run's nonce follows it */
+export const SUITE_REPORT_MARKER = '__INTELLIBENCH_SUITE__';
+
+/** Harness script; run it with node */
+export const SUITE_HARNESS_FILE = 'suite.harness.mjs';
+
+/** Module holding the submitted suite */
+export const SUITE_MODULE_FILE = 'suite.mts';
+
+/** Input of a run: nonce, implementations and limits. The harness deletes it on start. */
+export const SUITE_INPUT_FILE = 'suite.input.json';
+
+/**
+ * Imports the harness provides itself, that point at the code under test, or that
+ * name a URL scheme. A suite loads packages and node builtins only.
+ */
+const PROVIDED_IMPORT_PATTERN =
+    /^\s*import\s[^;]*?from\s+['"](vitest|@jest\/globals|\.{1,2}\/[^'"]*|(?!node:)[a-z][\w+.-]*:[^'"]*)['"];?\s*$|^\s*import\s+['"](?!node:)[a-z][\w+.-]*:[^'"]*['"];?\s*$/gim;
+
+const IMPORT_PATTERN = /^\s*import\s[^;]*?from\s+['"][^'"]+['"];?\s*$|^\s*import\s+['"][^'"]+['"];?\s*$/gm;
+
+/**
+ * Harness script: the main thread runs the workers, each worker one implementation
+ * with a minimal describe/it/expect/vi runtime. Kept free of template literals so
+ * it can be embedded as-is.
+ */
+const HARNESS_RUNTIME = String.raw`
+import { Worker, MessageChannel, isMainThread, parentPort } from 'node:worker_threads';
+import { Session as __Session } from 'node:inspector/promises';
+import __vm from 'node:vm';
+import { isDeepStrictEqual as __strictEqual, inspect as __inspect } from 'node:util';
+import { readFileSync as __readFileSync, unlinkSync as __unlinkSync } from 'node:fs';
+
+const __TEST_TIMEOUT = 2000;
+// Every run evaluates its implementation under the same name, so stack traces do not tell them apart
+const __IMPLEMENTATION_FILE = 'implementation.js';
+const __IMPLEMENTATION_PREFIX = '(function () {\n';
+let __root;
+let __current;
+const __mocks = [];
+
+function __newSuite(name, parent) {
+    return { name, parent, tests: [], suites: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] };
+}
+
+function describe(name, fn) {
+    const suite = __newSuite(String(name), __current);
+    __current.suites.push(suite);
+    const previous = __current;
+    __current = suite;
+    try { fn(); } finally { __current = previous; }
+}
+describe.skip = () => {};
+describe.only = describe;
+describe.each = (table) => (name, fn) => table.forEach((row) => describe(__format(name, row), () => fn(...(Array.isArray(row) ? row : [row]))));
+
+function it(name, fn) {
+    if (typeof fn === 'function') __current.tests.push({ name: String(name), fn });
+}
+it.skip = () => {};
+it.todo = () => {};
+it.only = it;
+it.each = (table) => (name, fn) => table.forEach((row) => it(__format(name, row), () => fn(...(Array.isArray(row) ? row : [row]))));
+const test = it;
+
+function beforeAll(fn) { __current.beforeAll.push(fn); }
+function afterAll(fn) { __current.afterAll.push(fn); }
+function beforeEach(fn) { __current.beforeEach.push(fn); }
+function afterEach(fn) { __current.afterEach.push(fn); }
+
+function __format(name, row) {
+    const args = Array.isArray(row) ? [...row] : [row];
+    return String(name).replace(/%[sdipjo#%]/g, (token) => token === '%%' ? '%' : __inspect(args.shift()));
+}
+
+// ---------------------------------------------------------------- mocks
+
+function __fn(implementation) {
+    const queue = [];
+    let defaultImpl = implementation;
+    const mock = function (...args) {
+        mock.mock.calls.push(args);
+        mock.mock.lastCall = args;
+        const impl = queue.length > 0 ? queue.shift() : defaultImpl;
+        try {
+            const value = impl ? impl.apply(this, args) : undefined;
+            mock.mock.results.push({ type: 'return', value });
+            return value;
+        } catch (error) {
+            mock.mock.results.push({ type: 'throw', value: error });
+            throw error;
+        }
+    };
+    mock._isMockFunction = true;
+    mock.mock = { calls: [], results: [], lastCall: undefined };
+    mock.mockImplementation = (impl) => { defaultImpl = impl; return mock; };
+    mock.mockImplementationOnce = (impl) => { queue.push(impl); return mock; };
+    mock.mockReturnValue = (value) => mock.mockImplementation(() => value);
+    mock.mockReturnValueOnce = (value) => mock.mockImplementationOnce(() => value);
+    mock.mockResolvedValue = (value) => mock.mockImplementation(() => Promise.resolve(value));
+    mock.mockResolvedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.resolve(value));
+    mock.mockRejectedValue = (value) => mock.mockImplementation(() => Promise.reject(value));
+    mock.mockRejectedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.reject(value));
+    mock.mockClear = () => { mock.mock.calls = []; mock.mock.results = []; mock.mock.lastCall = undefined; return mock; };
+    mock.mockReset = () => { mock.mockClear(); queue.length = 0; defaultImpl = undefined; return mock; };
+    mock.mockRestore = () => mock.mockReset();
+    __mocks.push(mock);
+    return mock;
+}
+
+function __spyOn(object, key) {
+    const original = object[key];
+    const spy = __fn(function (...args) { return original.apply(this, args); });
+    spy.mockRestore = () => { object[key] = original; return spy; };
+    object[key] = spy;
+    return spy;
+}
+
+const vi = {
+    fn: __fn,
+    spyOn: __spyOn,
+    clearAllMocks: () => __mocks.forEach((m) => m.mockClear()),
+    resetAllMocks: () => __mocks.forEach((m) => m.mockReset()),
+    restoreAllMocks: () => __mocks.forEach((m) => m.mockRestore()),
+    isMockFunction: (value) => Boolean(value && value._isMockFunction),
+};
+const jest = vi;
+
+// ---------------------------------------------------------------- expect
+
+function __asymmetric(matches, label) {
+    return { asymmetricMatch: matches, toString: () => label };
+}
+
+function __equals(actual, expected, strict) {
+    if (expected && typeof expected.asymmetricMatch === 'function') return expected.asymmetricMatch(actual);
+    if (Object.is(actual, expected)) return true;
+    if (strict && !(expected && expected.asymmetricMatch) && __strictEqual(actual, expected)) return true;
+    if (typeof actual !== 'object' || typeof expected !== 'object' || actual === null || expected === null) return false;
+    if (Array.isArray(actual) !== Array.isArray(expected)) return false;
+    if (actual instanceof Date && expected instanceof Date) return actual.getTime() === expected.getTime();
+    if (actual instanceof Map && expected instanceof Map) return __equals([...actual], [...expected], strict);
+    if (actual instanceof Set && expected instanceof Set) return __equals([...actual].sort(), [...expected].sort(), strict);
+    if (strict && Object.getPrototypeOf(actual) !== Object.getPrototypeOf(expected)) return false;
+    const keys = (value) => Object.keys(value).filter((k) => strict || value[k] !== undefined);
+    const actualKeys = keys(actual);
+    const expectedKeys = keys(expected);
+    if (actualKeys.length !== expectedKeys.length) return false;
+    return expectedKeys.every((k) => Object.prototype.hasOwnProperty.call(actual, k) && __equals(actual[k], expected[k], strict));
+}
+
+function __matchesObject(actual, expected) {
+    if (typeof expected !== 'object' || expected === null) return __equals(actual, expected, false);
+    if (typeof actual !== 'object' || actual === null) return false;
+    if (Array.isArray(expected)) return Array.isArray(actual) && actual.length === expected.length && expected.every((e, i) => __matchesObject(actual[i], e));
+    return Object.keys(expected).every((k) => __matchesObject(actual[k], expected[k]));
+}
+
+function __show(value) {
+    return __inspect(value, { depth: 4, breakLength: Infinity });
+}
+
+function __thrown(received) {
+    if (typeof received !== 'function') return { threw: false };
+    try { received(); return { threw: false }; } catch (error) { return { threw: true, error }; }
+}
+
+function __errorMatches(error, expected) {
+    if (expected === undefined) return true;
+    const message = error && error.message !== undefined ? error.message : String(error);
+    if (typeof expected === 'string') return message.includes(expected);
+    if (expected instanceof RegExp) return expected.test(message);
+    if (typeof expected === 'function') return error instanceof expected;
+    if (expected instanceof Error) return message === expected.message;
+    return __matchesObject(error, expected);
+}
+
+function __matchers(received, negate, thrownOverride) {
+    const assert = (pass, message) => {
+        if (pass === negate) throw new Error((negate ? 'Expected not: ' : 'Expected: ') + message);
+    };
+    const calls = () => {
+        if (!received || !received._isMockFunction) throw new Error(__show(received) + ' is not a mock function');
+        return received.mock.calls;
+    };
+    const thrown = () => thrownOverride || __thrown(received);
+
+    return {
+        toBe: (e) => assert(Object.is(received, e), __show(received) + ' to be ' + __show(e)),
+        toEqual: (e) => assert(__equals(received, e, false), __show(received) + ' to equal ' + __show(e)),
+        toStrictEqual: (e) => assert(__equals(received, e, true), __show(received) + ' to strictly equal ' + __show(e)),
+        toBeTruthy: () => assert(Boolean(received), __show(received) + ' to be truthy'),
+        toBeFalsy: () => assert(!received, __show(received) + ' to be falsy'),
+        toBeNull: () => assert(received === null, __show(received) + ' to be null'),
+        toBeUndefined: () => assert(received === undefined, __show(received) + ' to be undefined'),
+        toBeDefined: () => assert(received !== undefined, 'value to be defined'),
+        toBeNaN: () => assert(Number.isNaN(received), __show(received) + ' to be NaN'),
+        toBeGreaterThan: (e) => assert(received > e, __show(received) + ' > ' + __show(e)),
+        toBeGreaterThanOrEqual: (e) => assert(received >= e, __show(received) + ' >= ' + __show(e)),
+        toBeLessThan: (e) => assert(received < e, __show(received) + ' < ' + __show(e)),
+        toBeLessThanOrEqual: (e) => assert(received <= e, __show(received) + ' <= ' + __show(e)),
+        toBeCloseTo: (e, digits = 2) => assert(Math.abs(received - e) < Math.pow(10, -digits) / 2, __show(received) + ' to be close to ' + __show(e)),
+        toBeInstanceOf: (e) => assert(received instanceof e, __show(received) + ' to be an instance of ' + (e && e.name)),
+        toContain: (e) => assert(received != null && received.includes(e), __show(received) + ' to contain ' + __show(e)),
+        toContainEqual: (e) => assert(Array.from(received || []).some((item) => __equals(item, e, false)), __show(received) + ' to contain equal ' + __show(e)),
+        toHaveLength: (e) => assert(received != null && received.length === e, __show(received) + ' to have length ' + e),
+        toHaveProperty: (path, ...value) => {
+            const parts = Array.isArray(path) ? path : String(path).split('.');
+            let target = received;
+            let found = true;
+            for (const part of parts) {
+                if (target != null && part in Object(target)) target = target[part];
+                else { found = false; break; }
+            }
+            assert(found && (value.length === 0 || __equals(target, value[0], false)), __show(received) + ' to have property ' + String(path));
+        },
+        toMatch: (e) => assert(typeof e === 'string' ? String(received).includes(e) : e.test(String(received)), __show(received) + ' to match ' + __show(e)),
+        toMatchObject: (e) => assert(__matchesObject(received, e), __show(received) + ' to match object ' + __show(e)),
+        toThrow: (e) => { const t = thrown(); assert(t.threw && __errorMatches(t.error, e), 'function to throw ' + (e === undefined ? '' : __show(e))); },
+        toThrowError: (e) => { const t = thrown(); assert(t.threw && __errorMatches(t.error, e), 'function to throw ' + (e === undefined ? '' : __show(e))); },
+        toHaveBeenCalled: () => assert(calls().length > 0, 'mock to have been called'),
+        toHaveBeenCalledTimes: (n) => assert(calls().length === n, 'mock to have been called ' + n + ' times, got ' + calls().length),
+        toHaveBeenCalledWith: (...args) => assert(calls().some((c) => __equals(c, args, false)), 'mock to have been called with ' + __show(args)),
+        toHaveBeenLastCalledWith: (...args) => assert(calls().length > 0 && __equals(calls()[calls().length - 1], args, false), 'mock to have been last called with ' + __show(args)),
+        toHaveBeenNthCalledWith: (n, ...args) => assert(calls().length >= n && __equals(calls()[n - 1], args, false), 'mock call ' + n + ' to be ' + __show(args)),
+        toMatchSnapshot: () => { throw new Error('Snapshots are not supported'); },
+    };
+}
+
+function __expect(received) {
+    const matchers = __matchers(received, false);
+    matchers.not = __matchers(received, true);
+    const settle = (rejects, negate) => new Proxy({}, {
+        get: (_target, name) => name === 'not' ? settle(rejects, !negate) : async (...args) => {
+            let outcome;
+            try {
+                const value = await (typeof received === 'function' ? received() : received);
+                outcome = { threw: false, value };
+            } catch (error) {
+                outcome = { threw: true, error };
+            }
+            if (rejects) {
+                if (!outcome.threw) throw new Error('Expected promise to reject');
+                const target = __matchers(outcome.error, negate, { threw: true, error: outcome.error });
+                return target[name](...args);
+            }
+            if (outcome.threw) throw new Error('Expected promise to resolve, but it rejected with ' + __show(outcome.error));
+            return __matchers(outcome.value, negate)[name](...args);
+        },
+    });
+    matchers.resolves = settle(false, false);
+    matchers.rejects = settle(true, false);
+    return matchers;
+}
+__expect.any = (type) => __asymmetric((v) => v != null && (Object(v) instanceof type || typeof v === type.name.toLowerCase()), 'Any<' + type.name + '>');
+__expect.anything = () => __asymmetric((v) => v != null, 'Anything');
+__expect.objectContaining = (e) => __asymmetric((v) => __matchesObject(v, e), 'ObjectContaining');
+__expect.arrayContaining = (e) => __asymmetric((v) => Array.isArray(v) && e.every((x) => v.some((y) => __equals(y, x, false))), 'ArrayContaining');
+__expect.stringContaining = (e) => __asymmetric((v) => typeof v === 'string' && v.includes(e), 'StringContaining');
+__expect.stringMatching = (e) => __asymmetric((v) => typeof v === 'string' && new RegExp(e).test(v), 'StringMatching');
+__expect.assertions = () => {};
+__expect.hasAssertions = () => {};
+const expect = __expect;
+
+// ---------------------------------------------------------------- runner
+
+function __withTimeout(fn) {
+    return Promise.race([
+        Promise.resolve().then(fn),
+        new Promise((_resolve, reject) => setTimeout(() => reject(new Error('Test timed out')), __TEST_TIMEOUT).unref()),
+    ]);
+}
+
+function __hooks(suite, kind) {
+    const chain = [];
+    for (let s = suite; s; s = s.parent) chain.unshift(s);
+    const hooks = chain.flatMap((s) => s[kind]);
+    return kind === 'afterEach' ? hooks.reverse() : hooks;
+}
+
+async function __runSuite(suite, prefix, outcomes) {
+    const name = suite.name ? prefix + suite.name + ' > ' : prefix;
+    try {
+        for (const hook of suite.beforeAll) await __withTimeout(hook);
+    } catch (error) {
+        const collect = (s, p) => {
+            s.tests.forEach((t) => outcomes.push({ name: p + s.name + ' > ' + t.name, passed: false, error: 'beforeAll failed: ' + __message(error) }));
+            s.suites.forEach((c) => collect(c, p + s.name + ' > '));
+        };
+        collect(suite, prefix);
+        return;
+    }
+    for (const t of suite.tests) {
+        try {
+            for (const hook of __hooks(suite, 'beforeEach')) await __withTimeout(hook);
+            await __withTimeout(t.fn);
+            for (const hook of __hooks(suite, 'afterEach')) await __withTimeout(hook);
+            outcomes.push({ name: name + t.name, passed: true });
+        } catch (error) {
+            outcomes.push({ name: name + t.name, passed: false, error: __message(error) });
+        }
+    }
+    for (const child of suite.suites) await __runSuite(child, name, outcomes);
+    for (const hook of suite.afterAll) {
+        try { await __withTimeout(hook); } catch { /* ignored */ }
+    }
+}
+
+function __message(error) {
+    return String(error && error.message !== undefined ? error.message : error).slice(0, 500);
+}
+
+function __lineCoverage(code, offset, functions) {
+    const ranges = functions.flatMap((f) => f.ranges);
+    const countAt = (position) => {
+        let best;
+        for (const r of ranges) {
+            if (r.startOffset <= position && position < r.endOffset && (!best || r.endOffset - r.startOffset < best.endOffset - best.startOffset)) best = r;
+        }
+        return best ? best.count : 0;
+    };
+    let covered = 0;
+    let total = 0;
+    let lineStart = 0;
+    for (const line of code.split('\n')) {
+        const trimmed = line.trim();
+        const executable = trimmed !== '' && !/^(\/\/|\/\*|\*)/.test(trimmed) && !/^[{}()\[\];,]+$/.test(trimmed);
+        if (executable) {
+            total++;
+            const last = lineStart + line.length - (line.length - line.trimEnd().length) - 1;
+            if (countAt(offset + last) > 0) covered++;
+        }
+        lineStart += line.length + 1;
+    }
+    return { covered, total };
+}
+
+// ---------------------------------------------------------------- worker
+
+/**
+ * Run the suite against one implementation. Nothing here is reachable from the
+ * suite's module; the outcome goes back over a port only this function holds.
+ */
+function __runIsolated() {
+    parentPort.once('message', async ({ port, code, exportNames, tsx }) => {
+        const outcome = { tests: [] };
+        Object.assign(globalThis, {
+            describe, it, test, expect, vi, jest, beforeAll, afterAll, beforeEach, afterEach,
+        });
+
+        try {
+            const source = __IMPLEMENTATION_PREFIX + code + '\n;' +
+                exportNames.map((n) => 'globalThis[' + JSON.stringify(n) + '] = ' + n + ';').join(' ') + '\n})();';
+            __vm.runInThisContext(source, { filename: __IMPLEMENTATION_FILE });
+            (await import(tsx)).register();
+            __root = __newSuite('', undefined);
+            __current = __root;
+            await import(new URL(SUITE_FILE, import.meta.url).href);
+            await __runSuite(__root, '', outcome.tests);
+        } catch (error) {
+            outcome.error = __message(error);
+        }
+
+        port.postMessage(outcome);
+    });
+}
+
+// ---------------------------------------------------------------- main
+
+/**
+ * Talks to worker inspectors through the main thread's own session
+ */
+function __inspector() {
+    const session = new __Session();
+    session.connect();
+    const pending = new Map();
+    const attached = [];
+    let nextId = 1;
+
+    const send = (sessionId, method, params = {}) => new Promise((resolve) => {
+        const id = nextId++;
+        pending.set(id, resolve);
+        session.post('NodeWorker.sendMessageToWorker', { sessionId, message: JSON.stringify({ id, method, params }) });
+    });
+
+    session.on('NodeWorker.attachedToWorker', ({ params }) => {
+        const waiting = attached.shift();
+        // Other workers, such as the loader thread tsx starts, are let go at once
+        if (waiting) waiting(params.sessionId);
+        else void send(params.sessionId, 'Runtime.runIfWaitingForDebugger');
+    });
+    session.on('NodeWorker.receivedMessageFromWorker', ({ params }) => {
+        const message = JSON.parse(params.message);
+        pending.get(message.id)?.(message);
+        pending.delete(message.id);
+    });
+
+    return {
+        // Workers wait for the debugger, so coverage starts before their first line
+        enable: () => session.post('NodeWorker.enable', { waitForDebuggerOnStart: true }),
+        nextAttached: () => new Promise((resolve) => attached.push(resolve)),
+        send,
+    };
+}
+
+/**
+ * Run one implementation in a worker. Its outcome is taken as reported; its
+ * coverage is read from outside, from the script evaluated before the suite loaded.
+ */
+async function __runWorker(inspector, implementation, input) {
+    const channel = new MessageChannel();
+    const attached = inspector.nextAttached();
+    const worker = new Worker(new URL(import.meta.url));
+    const finished = new Promise((resolve) => {
+        channel.port1.once('message', (outcome) => resolve(outcome));
+        worker.once('error', (error) => resolve({ error: 'Suite crashed: ' + __message(error) }));
+        worker.once('exit', () => resolve({ error: 'Suite exited before reporting' }));
+        setTimeout(() => resolve({ error: 'Suite timed out' }), input.timeout).unref();
+    });
+
+    const sessionId = await attached;
+    await inspector.send(sessionId, 'Profiler.enable');
+    await inspector.send(sessionId, 'Profiler.startPreciseCoverage', { callCount: true, detailed: true });
+    await inspector.send(sessionId, 'Runtime.runIfWaitingForDebugger');
+    worker.postMessage({ port: channel.port2, code: implementation.code, exportNames: input.exportNames, tsx: input.tsx }, [channel.port2]);
+
+    const outcome = await finished;
+    const report = {
+        id: implementation.id,
+        tests: Array.isArray(outcome.tests)
+            ? outcome.tests.map((t) => ({ name: String(t?.name), passed: t?.passed === true, ...(t?.error !== undefined ? { error: String(t.error) } : {}) }))
+            : [],
+    };
+    if (outcome.error !== undefined) report.error = String(outcome.error);
+
+    if (implementation.id === 'reference' && outcome.tests) {
+        const { result } = await Promise.race([
+            inspector.send(sessionId, 'Profiler.takePreciseCoverage'),
+            new Promise((resolve) => setTimeout(() => resolve({}), input.timeout).unref()),
+        ]);
+        // The suite may evaluate scripts under the same name; the implementation was the first
+        const [script] = (result?.result ?? [])
+            .filter((s) => s.url === __IMPLEMENTATION_FILE)
+            .sort((a, b) => Number(a.scriptId) - Number(b.scriptId));
+        if (script) report.coverage = __lineCoverage(implementation.code, __IMPLEMENTATION_PREFIX.length, script.functions);
+    }
+
+    await worker.terminate();
+    channel.port1.close();
+    return report;
+}
+
+async function __main() {
+    const inputFile = new URL(INPUT_FILE, import.meta.url);
+    const input = JSON.parse(__readFileSync(inputFile, 'utf-8'));
+    __unlinkSync(inputFile);
+
+    const inspector = __inspector();
+    await inspector.enable();
+
+    const order = input.implementations.map((_, index) => index);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const reports = [];
+    for (const index of order) {
+        reports[index] = await __runWorker(inspector, input.implementations[index], input);
+    }
+
+    process.stdout.write('\n' + MARKER + input.nonce + JSON.stringify(reports) + '\n');
+    process.exit(0);
+}
+
+if (isMainThread) {
+    await __main();
+} else {
+    __runIsolated();
+}
+`;
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+/**
+ * Split a submitted suite into the imports to keep and the body to register
+ * per implementation. Test framework imports and relative imports of the code
+ * under test are dropped; the harness provides both.
+ */
+export function splitSuiteImports(testCode: string): { imports: string[]; body: string } {
+    const withoutProvided = testCode.replace(PROVIDED_IMPORT_PATTERN, '');
+    const imports = withoutProvided.match(IMPORT_PATTERN)?.map((line) => line.trim()) ?? [];
+    const body = withoutProvided.replace(IMPORT_PATTERN, '');
+
+    return { imports, body };
+}
+
+/**
+ * Build the files of a run that tests a submitted suite against every implementation.
+ * Write them to one directory and run SUITE_HARNESS_FILE with node.
+ * @param testCode - Submitted test suite
+ * @param implementations - Reference first, then mutants
+ * @param exportNames - Names each implementation defines for the tests
+ * @param run - Nonce that tags the report, and the time each implementation may take in milliseconds
+ * @returns File contents by file name
+ */
+export function buildSuiteFiles(
+    testCode: string,
+    implementations: readonly SuiteImplementation[],
+    exportNames: readonly string[],
+    run: { nonce: string; timeout: number }
+): Record<string, string> {
+    const { imports, body } = splitSuiteImports(testCode);
+    const harness = HARNESS_RUNTIME.replace('MARKER', JSON.stringify(SUITE_REPORT_MARKER))
+        .replace('INPUT_FILE', JSON.stringify(SUITE_INPUT_FILE))
+        .replace('SUITE_FILE', JSON.stringify(`./${SUITE_MODULE_FILE}`));
+
+    return {
+        [SUITE_HARNESS_FILE]: harness,
+        [SUITE_MODULE_FILE]: [...imports, body, 'export {};', ''].join('\n'),
+        [SUITE_INPUT_FILE]: JSON.stringify({ ...run, implementations, exportNames, tsx: resolveTsxApi() }),
+    };
+}
+
+/**
+ * URL of tsx's ESM API, resolved from this package. Workers do not inherit the
+ * loader of the main thread, so each registers tsx before loading the suite.
+ */
+function resolveTsxApi(): string {
+    try {
+        const manifestPath = createRequire(import.meta.url).resolve('tsx/package.json');
+        const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as {
+            exports: Record<string, { import: { default: string } }>;
+        };
+        const api = manifest.exports['./esm/api'];
+        if (!api) return 'tsx/esm/api';
+        return pathToFileURL(join(dirname(manifestPath), api.import.default)).href;
+    } catch {
+        return 'tsx/esm/api';
+    }
+}
+
+/**
+ * Extract the harness report from stdout
+ * @param nonce - Nonce written to the run's SUITE_NONCE_FILE
+ */
+export function parseSuiteReports(stdout: string, nonce: string): SuiteRunReport[] | undefined {
+    const prefix = SUITE_REPORT_MARKER + nonce;
+    const line = stdout
+        .split('\n')
+        .filter((l) => l.startsWith(prefix))
+        .at(-1);
+    if (!line) return undefined;
+
+    try {
+        return JSON.parse(line.slice(prefix.length)) as SuiteRunReport[];
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Leaderboard Stores - Pluggable persistence backends for leaderboard rows
+ * @module @mcp/intellibench/core/leaderboard/store
+ * @version 1.0.0
+ *
+ * Each completed session adds one row for the session as a whole and one per
+ * category, language and difficulty tier it covered; abandoned sessions add
+ * the same rows for their partial results, marked abandoned. Stores rank those
+ * rows per scope, either every run or only each model's best run.
+ */
+
+import type {
+    LeaderboardEntry,
+    LeaderboardQuery,
+    LeaderboardRecord,
+    LeaderboardTimeframe,
+} from '../../shared/types/index.js';
+import { DatabaseManager } from '../persistence/database.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available leaderboard store backends
+ */
+export type LeaderboardStoreKind = 'memory' | 'sqlite';
+
+/**
+ * Ranked entries of one leaderboard page
+ */
+export interface LeaderboardPage {
+    entries: LeaderboardEntry[];
+    /** Entries before the limit was applied */
+    totalEntries: number;
+}
+
+/**
+ * Storage backend for leaderboard rows
+ */
+export interface LeaderboardStore {
+    /** Backend identifier, used for logging */
+    readonly kind: LeaderboardStoreKind;
+    /** Add the rows of a completed or abandoned session */
+    add(records: readonly LeaderboardRecord[]): Promise<void>;
+    /** Rank the rows of one scope and timeframe */
+    query(query: LeaderboardQuery): Promise<LeaderboardPage>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Keeps rows in a process-local array; everything is lost on restart
+ */
+export class InMemoryLeaderboardStore implements LeaderboardStore {
+    readonly kind = 'memory' as const;
+    private records: LeaderboardRecord[] = [];
+
+    async add(records: readonly LeaderboardRecord[]): Promise<void> {
+        this.records.push(...records);
+    }
+
+    async query(query: LeaderboardQuery): Promise<LeaderboardPage> {
+        const cutoff = getTimeframeCutoff(query.timeframe, new Date());
+        const ranked = this.records
+            .filter(
+                (r) =>
+                    r.category === query.category &&
+                    r.language === query.language &&
+                    r.difficulty === query.difficulty &&
+                    (query.includeAbandoned || !r.abandoned) &&
+                    (!cutoff || new Date(r.completedAt) >= cutoff)
+            )
+            .sort(compareRuns);
+
+        const runs =
+            query.view === 'best'
+                ? ranked.filter((r, index) => ranked.findIndex((other) => other.aiModel === r.aiModel) === index)
+                : ranked;
+
+        return {
+            entries: runs.slice(0, query.limit).map((record, index) => ({
+                rank: index + 1,
+                aiModel: record.aiModel,
+                sessionId: record.sessionId,
+                score: record.score,
+                maxScore: record.maxScore,
+                percentage: record.percentage,
+                challengesCompleted: record.challengesCompleted,
+                completedAt: record.completedAt,
+                ...(record.abandoned ? { abandoned: true } : {}),
+            })),
+            totalEntries: runs.length,
+        };
+    }
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+/**
+ * Persists rows in the `leaderboard` table through DatabaseManager
+ */
+export class SqliteLeaderboardStore implements LeaderboardStore {
+    readonly kind = 'sqlite' as const;
+    private readonly db: DatabaseManager;
+
+    constructor(db: DatabaseManager) {
+        this.db = db;
+    }
+
+    async add(records: readonly LeaderboardRecord[]): Promise<void> {
+        this.db.addLeaderboardEntries(records);
+    }
+
+    async query(query: LeaderboardQuery): Promise<LeaderboardPage> {
+        return this.db.getLeaderboard(query);
+    }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a leaderboard store: SQLite-backed on the shared database, in memory without one
+ * @param db - Database shared by every store, from openDatabase
+ */
+export function createLeaderboardStore(db?: DatabaseManager): LeaderboardStore {
+    return db ? new SqliteLeaderboardStore(db) : new InMemoryLeaderboardStore();
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Higher percentage first, then higher score, then the earlier run
+ */
+function compareRuns(a: LeaderboardRecord, b: LeaderboardRecord): number {
+    return b.percentage - a.percentage || b.score - a.score || a.completedAt.localeCompare(b.completedAt);
+}
+
+function getTimeframeCutoff(timeframe: LeaderboardTimeframe, now: Date): Date | null {
+    switch (timeframe) {
+        case 'daily':
+            return new Date(now.getTime() - 24 * 60 * 60 * 1000);
+        case 'weekly':
+            return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+        case 'monthly':
+            return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Model Registry - Identities of benchmarked models and their profiles
+ * @module @mcp/intellibench/core/models
+ * @version 1.0.0
+ *
+ * A session records which model took it. The identity is given when the session
+ * starts, or falls back to the MCP client's `clientInfo`; either way it maps to
+ * a registry key that groups sessions into a per-model profile.
+ */
+
+import { createHash } from 'crypto';
+import type {
+    ModelIdentity,
+    ModelProfile,
+    ModelRunParameters,
+    RatingEntry,
+    Session,
+    SessionModel,
+} from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
+import { ratingInterval, updateRating, type MatchResult } from '../ratings/glicko2.js';
+import { findHeadToHeads } from '../ratings/matches.js';
+import { InMemoryModelStore, type ModelStore } from './store.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Model details supplied when starting a session; every field is optional
+ */
+export interface ModelRequest extends Partial<ModelIdentity>, ModelRunParameters {}
+
+/**
+ * Name and version an MCP client reports about itself
+ */
+export interface ClientInfo {
+    name: string;
+    version?: string;
+}
+
+// ============================================================================
+// Identity
+// ============================================================================
+
+/**
+ * Registry key of a model: `provider/name@version`, lower case, without whitespace
+ */
+export function modelId(identity: ModelIdentity): string {
+    const normalize = (part: string): string => part.trim().toLowerCase().replace(/\s+/g, '-');
+    const provider = identity.provider?.trim() ? `${normalize(identity.provider)}/` : '';
+    const version = identity.version?.trim() ? `@${normalize(identity.version)}` : '';
+    return `${provider}${normalize(identity.name)}${version}`;
+}
+
+/**
+ * Work out which model is taking a session. A requested name wins; otherwise
+ * the client's own name and version stand in for the model. Returns undefined
+ * when neither is known.
+ */
+export function resolveSessionModel(request: ModelRequest, clientInfo?: ClientInfo): SessionModel | undefined {
+    const explicit = request.name?.trim();
+    const identity: ModelIdentity | undefined = explicit
+        ? { name: explicit, provider: request.provider, version: request.version }
+        : clientInfo && { name: clientInfo.name, provider: request.provider, version: request.version ?? clientInfo.version };
+
+    if (!identity) return undefined;
+
+    return {
+        ...identity,
+        id: modelId(identity),
+        temperature: request.temperature,
+        systemPromptHash: request.systemPromptHash,
+        source: explicit ? 'explicit' : 'client_info',
+    };
+}
+
+/**
+ * SHA-256 of a system prompt, as recorded in `systemPromptHash`
+ */
+export function hashSystemPrompt(prompt: string): string {
+    return createHash('sha256').update(prompt).digest('hex');
+}
+
+// ============================================================================
+// Model Registry
+// ============================================================================
+
+export class ModelRegistry {
+    private readonly store: ModelStore;
+
+    constructor(store: ModelStore = new InMemoryModelStore()) {
+        this.store = store;
+        logger.debug('ModelRegistry created', 'ModelRegistry', { store: store.kind });
+    }
+
+    /**
+     * Create or refresh the profile of a session's model
+     */
+    async register(model: SessionModel): Promise<void> {
+        await this.store.upsert(model.id, {
+            name: model.name,
+            provider: model.provider,
+            version: model.version,
+        });
+
+        logger.info('Model registered', 'ModelRegistry', { modelId: model.id, source: model.source });
+    }
+
+    /**
+     * Add a completed session to a model's statistics
+     * @param modelId - Registry key
+     * @param percentage - Session score as a percentage of its maximum
+     * @param challengesCompleted - Challenges answered or skipped in the session
+     */
+    async recordSession(modelId: string, percentage: number, challengesCompleted: number): Promise<void> {
+        await this.store.recordSession(modelId, percentage, challengesCompleted);
+
+        logger.info('Model session recorded', 'ModelRegistry', { modelId, percentage, challengesCompleted });
+    }
+
+    /**
+     * Rate a completed session as one Glicko-2 rating period for its model,
+     * which plays every other model on each challenge both answered. Only the
+     * session's model is rated: the opponents' side of the matches reuses their
+     * earlier results, and rating them on it after every later session would
+     * shrink their deviation on repeated evidence. A model is therefore first
+     * rated when it completes a session after another model has.
+     * @param session - The completed session
+     * @param others - Other completed sessions to find opponents in
+     */
+    async rateSession(session: Session, others: readonly Session[]): Promise<void> {
+        const player = session.aiModel ? await this.store.get(session.aiModel) : null;
+        if (!player) return;
+
+        const matches: MatchResult[] = [];
+        let opponents = 0;
+        for (const { opponent, scores } of findHeadToHeads(session, others)) {
+            const profile = await this.store.get(opponent);
+            if (!profile) continue;
+
+            matches.push(...scores.map((score) => ({ opponent: profile.rating, score })));
+            opponents++;
+        }
+
+        if (matches.length === 0) return;
+
+        await this.store.updateRating(player.id, updateRating(player.rating, matches));
+
+        logger.info('Session rated', 'ModelRegistry', {
+            sessionId: session.id,
+            modelId: player.id,
+            opponents,
+            matches: matches.length,
+        });
+    }
+
+    /**
+     * Models that have played at least one match, highest rating first
+     */
+    async listRatings(limit: number): Promise<RatingEntry[]> {
+        const rated = (await this.store.list())
+            .filter((p) => p.rating.matches > 0)
+            .sort((a, b) => b.rating.rating - a.rating.rating);
+
+        return rated.slice(0, limit).map((profile, index) => {
+            const { lower, upper } = ratingInterval(profile.rating);
+            return {
+                rank: index + 1,
+                aiModel: profile.id,
+                rating: Math.round(profile.rating.rating),
+                deviation: Math.round(profile.rating.deviation),
+                interval: { lower: Math.round(lower), upper: Math.round(upper) },
+                matches: profile.rating.matches,
+            };
+        });
+    }
+
+    async getProfile(modelId: string): Promise<ModelProfile | null> {
+        return this.store.get(modelId);
+    }
+
+    /**
+     * Profiles ranked by average score, optionally for one provider
+     */
+    async listProfiles(provider?: string): Promise<ModelProfile[]> {
+        const profiles = await this.store.list();
+        if (!provider) return profiles;
+
+        const wanted = provider.trim().toLowerCase();
+        return profiles.filter((p) => p.provider?.toLowerCase() === wanted);
+    }
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Model Stores - Pluggable persistence backends for model profiles
+ * @module @mcp/intellibench/core/models/store
+ * @version 1.0.0
+ *
+ * ModelRegistry delegates storage to a ModelStore, mirroring the session stores:
+ * profiles live in memory (tests, ephemeral runs) or in the SQLite `ai_models` table.
+ */
+
+import type { ModelIdentity, ModelProfile, ModelRating } from '../../shared/types/index.js';
+import { getCurrentTimestamp } from '../../shared/utils/index.js';
+import { DatabaseManager } from '../persistence/database.js';
+import { INITIAL_RATING } from '../ratings/glicko2.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available model store backends
+ */
+export type ModelStoreKind = 'memory' | 'sqlite';
+
+/**
+ * Storage backend for model profiles
+ */
+export interface ModelStore {
+    /** Backend identifier, used for logging */
+    readonly kind: ModelStoreKind;
+    /** Create a profile, or refresh the identity and last-seen time of an existing one */
+    upsert(modelId: string, identity: ModelIdentity): Promise<void>;
+    /** Fold a completed session's percentage into a profile */
+    recordSession(modelId: string, score: number, challengesCompleted: number): Promise<void>;
+    /** Replace a profile's rating */
+    updateRating(modelId: string, rating: ModelRating): Promise<void>;
+    /** Load a single profile */
+    get(modelId: string): Promise<ModelProfile | null>;
+    /** All profiles, best average score first */
+    list(): Promise<ModelProfile[]>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Keeps profiles in a process-local map; everything is lost on restart
+ */
+export class InMemoryModelStore implements ModelStore {
+    readonly kind = 'memory' as const;
+    private profiles: Map<string, ModelProfile> = new Map();
+
+    async upsert(modelId: string, identity: ModelIdentity): Promise<void> {
+        const now = getCurrentTimestamp();
+        const existing = this.profiles.get(modelId);
+
+        this.profiles.set(modelId, {
+            totalSessions: 0,
+            averageScore: 0,
+            bestScore: 0,
+            totalChallengesCompleted: 0,
+            rating: INITIAL_RATING,
+            firstSeen: now,
+            ...existing,
+            id: modelId,
+            name: identity.name,
+            provider: identity.provider ?? existing?.provider,
+            version: identity.version ?? existing?.version,
+            lastSeen: now,
+        });
+    }
+
+    async recordSession(modelId: string, score: number, challengesCompleted: number): Promise<void> {
+        const profile = this.profiles.get(modelId);
+        if (!profile) return;
+
+        this.profiles.set(modelId, {
+            ...profile,
+            totalSessions: profile.totalSessions + 1,
+            averageScore: (profile.averageScore * profile.totalSessions + score) / (profile.totalSessions + 1),
+            bestScore: Math.max(profile.bestScore, score),
+            totalChallengesCompleted: profile.totalChallengesCompleted + challengesCompleted,
+            lastSeen: getCurrentTimestamp(),
+        });
+    }
+
+    async updateRating(modelId: string, rating: ModelRating): Promise<void> {
+        const profile = this.profiles.get(modelId);
+        if (!profile) return;
+
+        this.profiles.set(modelId, { ...profile, rating });
+    }
+
+    async get(modelId: string): Promise<ModelProfile | null> {
+        return this.profiles.get(modelId) ?? null;
+    }
+
+    async list(): Promise<ModelProfile[]> {
+        return Array.from(this.profiles.values()).sort(
+            (a, b) => b.averageScore - a.averageScore || b.totalSessions - a.totalSessions
+        );
+    }
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+/**
+ * Persists profiles in the `ai_models` table through DatabaseManager
+ */
+export class SqliteModelStore implements ModelStore {
+    readonly kind = 'sqlite' as const;
+    private readonly db: DatabaseManager;
+
+    constructor(db: DatabaseManager) {
+        this.db = db;
+    }
+
+    async upsert(modelId: string, identity: ModelIdentity): Promise<void> {
+        this.db.upsertAIModel(modelId, identity);
+    }
+
+    async recordSession(modelId: string, score: number, challengesCompleted: number): Promise<void> {
+        this.db.updateAIModelStats(modelId, score, challengesCompleted);
+    }
+
+    async updateRating(modelId: string, rating: ModelRating): Promise<void> {
+        this.db.updateAIModelRating(modelId, rating);
+    }
+
+    async get(modelId: string): Promise<ModelProfile | null> {
+        return this.db.getAIModelStats(modelId);
+    }
+
+    async list(): Promise<ModelProfile[]> {
+        return this.db.getAllAIModels();
+    }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a model store: SQLite-backed on the shared database, in memory without one
+ * @param db - Database shared by every store, from openDatabase
+ */
+export function createModelStore(db?: DatabaseManager): ModelStore {
+    return db ? new SqliteModelStore(db) : new InMemoryModelStore();
+}
@@ -8,16 +8,24 @@
  */
 
 import Database from 'better-sqlite3';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import { getDataDir, logger } from '../../shared/utils/logger.js';
+import { DEFAULT_RATING_CONFIG } from '../../shared/constants/index.js';
 import type {
+    Calibration,
+    CalibrationFlag,
     Session,
     ChallengeResult,
     SessionResults,
     LeaderboardEntry,
-    ChallengeCategory,
+    LeaderboardQuery,
+    LeaderboardRecord,
     LeaderboardTimeframe,
+    ModelIdentity,
+    ModelProfile,
+    ModelRating,
+    SubmissionAttempt,
 } from '../../shared/types/index.js';
 
 // ============================================================================
@@ -57,10 +65,30 @@ CREATE TABLE IF NOT EXISTS challenge_results (
     passed INTEGER NOT NULL,
     time_taken INTEGER NOT NULL,
     submitted_at TEXT NOT NULL,
+    grading_mode TEXT,
     created_at TEXT DEFAULT (datetime('now')),
     FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
 );
 
+-- Every submission of a repair or sampling session; challenge_results holds what each challenge settled on
+CREATE TABLE IF NOT EXISTS submission_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    challenge_id TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    solution TEXT NOT NULL,
+    language TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    max_score INTEGER NOT NULL,
+    breakdown TEXT NOT NULL,
+    test_results TEXT NOT NULL,
+    feedback TEXT,
+    passed INTEGER NOT NULL,
+    submitted_at TEXT NOT NULL,
+    grading_mode TEXT,
+    FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
 -- Session results/analytics table
 CREATE TABLE IF NOT EXISTS session_results (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -110,16 +138,86 @@ CREATE TABLE IF NOT EXISTS ai_models (
     last_seen TEXT DEFAULT (datetime('now'))
 );
 
+-- Latest IRT calibration run; replaced as a whole on every run
+CREATE TABLE IF NOT EXISTS calibration_runs (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    responses INTEGER NOT NULL,
+    iterations INTEGER NOT NULL,
+    converged INTEGER NOT NULL,
+    calibrated_at TEXT NOT NULL
+);
+
+-- Fitted 2PL parameters per challenge
+CREATE TABLE IF NOT EXISTS challenge_calibrations (
+    challenge_id TEXT PRIMARY KEY,
+    difficulty REAL NOT NULL,
+    discrimination REAL NOT NULL,
+    responses INTEGER NOT NULL,
+    pass_rate REAL NOT NULL,
+    assigned_difficulty INTEGER NOT NULL,
+    expected_difficulty REAL NOT NULL,
+    suggested_difficulty INTEGER NOT NULL,
+    flag TEXT
+);
+
+-- Fitted latent ability per model
+CREATE TABLE IF NOT EXISTS model_abilities (
+    ai_model TEXT PRIMARY KEY,
+    ability REAL NOT NULL,
+    standard_error REAL NOT NULL,
+    responses INTEGER NOT NULL
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
 CREATE INDEX IF NOT EXISTS idx_sessions_ai_model ON sessions(ai_model);
 CREATE INDEX IF NOT EXISTS idx_challenge_results_session ON challenge_results(session_id);
 CREATE INDEX IF NOT EXISTS idx_challenge_results_challenge ON challenge_results(challenge_id);
+CREATE INDEX IF NOT EXISTS idx_submission_attempts_session ON submission_attempts(session_id);
 CREATE INDEX IF NOT EXISTS idx_leaderboard_category ON leaderboard(category);
 CREATE INDEX IF NOT EXISTS idx_leaderboard_score ON leaderboard(score DESC);
 CREATE INDEX IF NOT EXISTS idx_leaderboard_completed_at ON leaderboard(completed_at);
 `;
 
+/**
+ * Columns added after the initial schema. CREATE TABLE IF NOT EXISTS leaves
+ * existing databases untouched, so these are added on open when missing.
+ */
+const COLUMN_MIGRATIONS: readonly { table: string; column: string; definition: string }[] = [
+    { table: 'challenge_results', column: 'grading_mode', definition: 'TEXT' },
+    { table: 'sessions', column: 'model', definition: 'TEXT' },
+    { table: 'sessions', column: 'adaptive', definition: 'TEXT' },
+    { table: 'sessions', column: 'served_at', definition: 'TEXT' },
+    { table: 'sessions', column: 'abandoned_at', definition: 'TEXT' },
+    { table: 'challenge_results', column: 'overtime', definition: 'INTEGER' },
+    { table: 'challenge_results', column: 'late_penalty', definition: 'REAL' },
+    { table: 'challenge_results', column: 'expired', definition: 'TEXT' },
+    { table: 'challenge_results', column: 'attempts', definition: 'INTEGER' },
+    { table: 'challenge_results', column: 'attempt_discount', definition: 'REAL' },
+    { table: 'challenge_results', column: 'samples', definition: 'INTEGER' },
+    { table: 'challenge_results', column: 'samples_passed', definition: 'INTEGER' },
+    { table: 'challenge_results', column: 'pass_at_k', definition: 'TEXT' },
+    { table: 'leaderboard', column: 'session_id', definition: 'TEXT' },
+    { table: 'leaderboard', column: 'language', definition: 'TEXT' },
+    { table: 'leaderboard', column: 'difficulty', definition: 'INTEGER' },
+    { table: 'leaderboard', column: 'abandoned', definition: 'INTEGER DEFAULT 0' },
+    { table: 'ai_models', column: 'rating', definition: `REAL DEFAULT ${DEFAULT_RATING_CONFIG.RATING}` },
+    { table: 'ai_models', column: 'rating_deviation', definition: `REAL DEFAULT ${DEFAULT_RATING_CONFIG.DEVIATION}` },
+    { table: 'ai_models', column: 'volatility', definition: `REAL DEFAULT ${DEFAULT_RATING_CONFIG.VOLATILITY}` },
+    { table: 'ai_models', column: 'matches_played', definition: 'INTEGER DEFAULT 0' },
+];
+
+/** Current time as an ISO 8601 timestamp, in SQL */
+const SQL_NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+/** SQLite date modifiers for the start of each leaderboard timeframe */
+const TIMEFRAME_MODIFIERS: Record<LeaderboardTimeframe, string | null> = {
+    daily: '-1 day',
+    weekly: '-7 days',
+    monthly: '-30 days',
+    all: null,
+};
+
 // ============================================================================
 // Database Manager
 // ============================================================================
@@ -130,11 +228,13 @@ export class DatabaseManager {
 
     constructor(dbPath?: string) {
         // Use APPDATA directory for portable mode instead of process.cwd()
-        const dataDir = getDataDir();
-        if (!existsSync(dataDir)) {
-            mkdirSync(dataDir, { recursive: true });
+        this.dbPath = dbPath ?? join(getDataDir(), 'intellibench.db');
+
+        // Create the directory of the database file, e.g. ./data for DATABASE_PATH=./data/intellibench.db
+        const dbDir = dirname(this.dbPath);
+        if (this.dbPath !== ':memory:' && !existsSync(dbDir)) {
+            mkdirSync(dbDir, { recursive: true });
         }
-        this.dbPath = dbPath ?? join(dataDir, 'intellibench.db');
 
         logger.info(`Database path: ${this.dbPath}`, 'Database');
 
@@ -155,6 +255,20 @@ export class DatabaseManager {
         this.db.pragma('journal_mode = WAL');
         this.db.pragma('foreign_keys = ON');
         this.db.exec(SCHEMA);
+        this.migrate();
+    }
+
+    /**
+     * Add columns introduced after a database was created
+     */
+    private migrate(): void {
+        for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+            const columns = this.db.pragma(`table_info(${table})`) as { name: string }[];
+            if (!columns.some((c) => c.name === column)) {
+                this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+                logger.info('Database column added', 'Database', { table, column });
+            }
+        }
     }
 
     /**
@@ -173,54 +287,50 @@ export class DatabaseManager {
      */
     saveSession(session: Session): void {
         const stmt = this.db.prepare(`
-            INSERT INTO sessions (id, name, ai_model, status, config, challenge_ids, current_challenge_index, started_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO sessions (id, name, ai_model, model, status, config, challenge_ids, current_challenge_index, started_at, adaptive, served_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         stmt.run(
             session.id,
             session.name,
             session.aiModel ?? null,
+            session.model ? JSON.stringify(session.model) : null,
             session.status,
             JSON.stringify(session.config),
             JSON.stringify(session.challengeIds),
             session.currentChallengeIndex,
-            session.startedAt
+            session.startedAt,
+            session.adaptive ? JSON.stringify(session.adaptive) : null,
+            session.servedAt ? JSON.stringify(session.servedAt) : null
         );
     }
 
     /**
-     * Update session status
+     * Overwrite every mutable column of a stored session, so it reads back exactly as saved
      */
-    updateSession(session: Partial<Session> & { id: string }): void {
-        const updates: string[] = [];
-        const values: unknown[] = [];
-
-        if (session.status !== undefined) {
-            updates.push('status = ?');
-            values.push(session.status);
-        }
-        if (session.currentChallengeIndex !== undefined) {
-            updates.push('current_challenge_index = ?');
-            values.push(session.currentChallengeIndex);
-        }
-        if (session.completedAt !== undefined) {
-            updates.push('completed_at = ?');
-            values.push(session.completedAt);
-        }
-        if (session.totalTime !== undefined) {
-            updates.push('total_time = ?');
-            values.push(session.totalTime);
-        }
-
-        if (updates.length === 0) return;
-
-        updates.push('updated_at = datetime("now")');
-        values.push(session.id);
-
+    updateSession(session: Session): void {
         const stmt = this.db.prepare(`
-            UPDATE sessions SET ${updates.join(', ')} WHERE id = ?
+            UPDATE sessions SET
+                name = ?, ai_model = ?, model = ?, status = ?, config = ?, challenge_ids = ?,
+                current_challenge_index = ?, completed_at = ?, abandoned_at = ?, total_time = ?,
+                adaptive = ?, served_at = ?, updated_at = datetime('now')
+            WHERE id = ?
         `);
-        stmt.run(...values);
+        stmt.run(
+            session.name,
+            session.aiModel ?? null,
+            session.model ? JSON.stringify(session.model) : null,
+            session.status,
+            JSON.stringify(session.config),
+            JSON.stringify(session.challengeIds),
+            session.currentChallengeIndex,
+            session.completedAt ?? null,
+            session.abandonedAt ?? null,
+            session.totalTime ?? null,
+            session.adaptive ? JSON.stringify(session.adaptive) : null,
+            session.servedAt ? JSON.stringify(session.servedAt) : null,
+            session.id
+        );
     }
 
     /**
@@ -248,14 +358,37 @@ export class DatabaseManager {
     }
 
     /**
-     * Get sessions by status
+     * Get sessions by status; with a limit, only the most recently started
      */
-    getSessionsByStatus(status: string): Session[] {
-        const stmt = this.db.prepare('SELECT * FROM sessions WHERE status = ?');
-        const rows = stmt.all(status) as Record<string, unknown>[];
+    getSessionsByStatus(status: string, limit?: number): Session[] {
+        // LIMIT -1 is unbounded in SQLite
+        const stmt = this.db.prepare('SELECT * FROM sessions WHERE status = ? ORDER BY started_at DESC LIMIT ?');
+        const rows = stmt.all(status, limit ?? -1) as Record<string, unknown>[];
         return rows.map((row) => this.rowToSession(row));
     }
 
+    /**
+     * IDs of the given sessions that have one of the statuses, most recently started first
+     */
+    getSessionIds(ids: readonly string[], statuses: readonly string[], limit: number): string[] {
+        if (ids.length === 0 || statuses.length === 0) return [];
+
+        const placeholders = (values: readonly string[]): string => values.map(() => '?').join(', ');
+        const stmt = this.db.prepare(
+            `SELECT id FROM sessions WHERE id IN (${placeholders(ids)}) AND status IN (${placeholders(statuses)}) ORDER BY started_at DESC LIMIT ?`
+        );
+        const rows = stmt.all(...ids, ...statuses, limit) as Array<{ id: string }>;
+        return rows.map((row) => row.id);
+    }
+
+    /**
+     * Count stored sessions
+     */
+    countSessions(): number {
+        const row = this.db.prepare('SELECT COUNT(*) as count FROM sessions').get() as { count: number };
+        return row.count;
+    }
+
     /**
      * Delete session and related data
      */
@@ -269,15 +402,19 @@ export class DatabaseManager {
         return {
             id: row['id'] as string,
             name: row['name'] as string,
-            aiModel: row['ai_model'] as string | undefined,
+            aiModel: (row['ai_model'] as string | null) ?? undefined,
+            model: row['model'] ? JSON.parse(row['model'] as string) : undefined,
             status: row['status'] as Session['status'],
             config: JSON.parse(row['config'] as string),
             challengeIds: JSON.parse(row['challenge_ids'] as string),
             currentChallengeIndex: row['current_challenge_index'] as number,
             results: [],
             startedAt: row['started_at'] as string,
-            completedAt: row['completed_at'] as string | undefined,
-            totalTime: row['total_time'] as number | undefined,
+            completedAt: (row['completed_at'] as string | null) ?? undefined,
+            abandonedAt: (row['abandoned_at'] as string | null) ?? undefined,
+            totalTime: (row['total_time'] as number | null) ?? undefined,
+            adaptive: row['adaptive'] ? JSON.parse(row['adaptive'] as string) : undefined,
+            servedAt: row['served_at'] ? JSON.parse(row['served_at'] as string) : undefined,
         };
     }
 
@@ -291,8 +428,8 @@ export class DatabaseManager {
     saveChallengeResult(result: ChallengeResult): void {
         const stmt = this.db.prepare(`
             INSERT INTO challenge_results
-            (session_id, challenge_id, solution, language, score, max_score, breakdown, test_results, feedback, suggestions, passed, time_taken, submitted_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            (session_id, challenge_id, solution, language, score, max_score, breakdown, test_results, feedback, suggestions, passed, time_taken, submitted_at, grading_mode, overtime, late_penalty, expired, attempts, attempt_discount, samples, samples_passed, pass_at_k)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         stmt.run(
             result.sessionId,
@@ -307,7 +444,16 @@ export class DatabaseManager {
             JSON.stringify(result.suggestions),
             result.passed ? 1 : 0,
             result.timeTaken,
-            result.submittedAt
+            result.submittedAt,
+            result.gradingMode ?? null,
+            result.overtime ?? null,
+            result.latePenalty ?? null,
+            result.expired ?? null,
+            result.attempts ?? null,
+            result.attemptDiscount ?? null,
+            result.samples ?? null,
+            result.samplesPassed ?? null,
+            result.passAtK ? JSON.stringify(result.passAtK) : null
         );
     }
 
@@ -316,7 +462,7 @@ export class DatabaseManager {
      */
     getChallengeResults(sessionId: string): ChallengeResult[] {
         const stmt = this.db.prepare(`
-            SELECT * FROM challenge_results WHERE session_id = ? ORDER BY submitted_at
+            SELECT * FROM challenge_results WHERE session_id = ? ORDER BY submitted_at, id
         `);
         const rows = stmt.all(sessionId) as Record<string, unknown>[];
         return rows.map((row) => this.rowToChallengeResult(row));
@@ -351,9 +497,71 @@ export class DatabaseManager {
             passed: row['passed'] === 1,
             timeTaken: row['time_taken'] as number,
             submittedAt: row['submitted_at'] as string,
+            gradingMode: (row['grading_mode'] as ChallengeResult['gradingMode'] | null) ?? undefined,
+            overtime: (row['overtime'] as number | null) ?? undefined,
+            latePenalty: (row['late_penalty'] as number | null) ?? undefined,
+            expired: (row['expired'] as ChallengeResult['expired'] | null) ?? undefined,
+            attempts: (row['attempts'] as number | null) ?? undefined,
+            attemptDiscount: (row['attempt_discount'] as number | null) ?? undefined,
+            samples: (row['samples'] as number | null) ?? undefined,
+            samplesPassed: (row['samples_passed'] as number | null) ?? undefined,
+            passAtK: row['pass_at_k'] ? JSON.parse(row['pass_at_k'] as string) : undefined,
         };
     }
 
+    // ========================================================================
+    // Submission Attempt Operations
+    // ========================================================================
+
+    /**
+     * Save one submission of a repair or sampling session
+     */
+    saveSubmissionAttempt(attempt: SubmissionAttempt): void {
+        const stmt = this.db.prepare(`
+            INSERT INTO submission_attempts
+            (session_id, challenge_id, attempt, solution, language, score, max_score, breakdown, test_results, feedback, passed, submitted_at, grading_mode)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        stmt.run(
+            attempt.sessionId,
+            attempt.challengeId,
+            attempt.attempt,
+            attempt.solution,
+            attempt.language,
+            attempt.score,
+            attempt.maxScore,
+            JSON.stringify(attempt.breakdown),
+            JSON.stringify(attempt.testResults),
+            attempt.feedback,
+            attempt.passed ? 1 : 0,
+            attempt.submittedAt,
+            attempt.gradingMode ?? null
+        );
+    }
+
+    /**
+     * Get the submissions of a session, in order
+     */
+    getSubmissionAttempts(sessionId: string): SubmissionAttempt[] {
+        const stmt = this.db.prepare('SELECT * FROM submission_attempts WHERE session_id = ? ORDER BY id');
+        const rows = stmt.all(sessionId) as Record<string, unknown>[];
+        return rows.map((row) => ({
+            challengeId: row['challenge_id'] as string,
+            sessionId: row['session_id'] as string,
+            attempt: row['attempt'] as number,
+            solution: row['solution'] as string,
+            language: row['language'] as SubmissionAttempt['language'],
+            score: row['score'] as number,
+            maxScore: row['max_score'] as number,
+            breakdown: JSON.parse(row['breakdown'] as string),
+            testResults: JSON.parse(row['test_results'] as string),
+            feedback: row['feedback'] as string,
+            passed: row['passed'] === 1,
+            submittedAt: row['submitted_at'] as string,
+            gradingMode: (row['grading_mode'] as SubmissionAttempt['gradingMode'] | null) ?? undefined,
+        }));
+    }
+
     // ========================================================================
     // Session Results/Analytics Operations
     // ========================================================================
@@ -418,86 +626,109 @@ export class DatabaseManager {
     // ========================================================================
 
     /**
-     * Add entry to leaderboard
+     * Add a completed session's leaderboard rows in one transaction
      */
-    addLeaderboardEntry(entry: Omit<LeaderboardEntry, 'rank'>): void {
+    addLeaderboardEntries(records: readonly LeaderboardRecord[]): void {
         const stmt = this.db.prepare(`
             INSERT INTO leaderboard
-            (ai_model, score, max_score, percentage, challenges_completed, completed_at)
-            VALUES (?, ?, ?, ?, ?, ?)
+            (session_id, ai_model, category, language, difficulty, score, max_score, percentage, challenges_completed, completed_at, abandoned)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
-        stmt.run(
-            entry.aiModel,
-            entry.score,
-            entry.maxScore,
-            entry.percentage,
-            entry.challengesCompleted,
-            entry.completedAt
-        );
+        const insertAll = this.db.transaction((rows: readonly LeaderboardRecord[]) => {
+            for (const record of rows) {
+                stmt.run(
+                    record.sessionId,
+                    record.aiModel,
+                    record.category ?? null,
+                    record.language ?? null,
+                    record.difficulty ?? null,
+                    record.score,
+                    record.maxScore,
+                    record.percentage,
+                    record.challengesCompleted,
+                    record.completedAt,
+                    record.abandoned ? 1 : 0
+                );
+            }
+        });
+        insertAll(records);
     }
 
     /**
-     * Get leaderboard entries
+     * Get ranked leaderboard entries for one scope
      */
-    getLeaderboard(
-        category?: ChallengeCategory,
-        timeframe: LeaderboardTimeframe = 'all',
-        limit = 100
-    ): LeaderboardEntry[] {
-        let whereClause = '';
+    getLeaderboard(query: LeaderboardQuery): { entries: LeaderboardEntry[]; totalEntries: number } {
+        const conditions: string[] = [];
         const params: unknown[] = [];
 
-        if (category) {
-            whereClause += 'category = ? AND ';
-            params.push(category);
+        // Rows of other scopes are excluded, so an unscoped query ranks whole sessions
+        for (const [column, value] of [
+            ['category', query.category],
+            ['language', query.language],
+            ['difficulty', query.difficulty],
+        ] as const) {
+            if (value === undefined) {
+                conditions.push(`${column} IS NULL`);
+            } else {
+                conditions.push(`${column} = ?`);
+                params.push(value);
+            }
         }
 
         // Timeframe filter
-        const now = new Date();
-        switch (timeframe) {
-            case 'daily':
-                whereClause += 'completed_at >= date("now", "-1 day") AND ';
-                break;
-            case 'weekly':
-                whereClause += 'completed_at >= date("now", "-7 days") AND ';
-                break;
-            case 'monthly':
-                whereClause += 'completed_at >= date("now", "-30 days") AND ';
-                break;
+        const cutoff = TIMEFRAME_MODIFIERS[query.timeframe];
+        if (cutoff) {
+            conditions.push(`completed_at >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '${cutoff}')`);
         }
 
-        // Remove trailing AND
-        if (whereClause) {
-            whereClause = 'WHERE ' + whereClause.slice(0, -5);
+        if (!query.includeAbandoned) {
+            conditions.push('abandoned = 0');
         }
 
-        params.push(limit);
+        params.push(query.limit);
 
         const stmt = this.db.prepare(`
+            WITH runs AS (
+                SELECT
+                    *,
+                    ROW_NUMBER() OVER (
+                        PARTITION BY ai_model ORDER BY percentage DESC, score DESC, completed_at
+                    ) as model_rank
+                FROM leaderboard
+                WHERE ${conditions.join(' AND ')}
+            )
             SELECT
+                session_id,
                 ai_model,
                 score,
                 max_score,
                 percentage,
                 challenges_completed,
                 completed_at,
-                ROW_NUMBER() OVER (ORDER BY percentage DESC, score DESC) as rank
-            FROM leaderboard
-            ${whereClause}
-            ORDER BY percentage DESC, score DESC
+                abandoned,
+                ROW_NUMBER() OVER (ORDER BY percentage DESC, score DESC, completed_at) as rank,
+                COUNT(*) OVER () as total
+            FROM runs
+            ${query.view === 'best' ? 'WHERE model_rank = 1' : ''}
+            ORDER BY rank
             LIMIT ?
         `);
 
         const rows = stmt.all(...params) as Record<string, unknown>[];
-        return rows.map((row) => ({
-            rank: row['rank'] as number,
-            aiModel: row['ai_model'] as string,
-            score: row['score'] as number,
-            maxScore: row['max_score'] as number,
-            percentage: row['percentage'] as number,
-            challengesCompleted: row['challenges_completed'] as number,
-            completedAt: row['completed_at'] as string,
-        }));
+        return {
+            entries: rows.map((row) => ({
+                rank: row['rank'] as number,
+                aiModel: row['ai_model'] as string,
+                sessionId: (row['session_id'] as string | null) ?? undefined,
+                score: row['score'] as number,
+                maxScore: row['max_score'] as number,
+                percentage: row['percentage'] as number,
+                challengesCompleted: row['challenges_completed'] as number,
+                completedAt: row['completed_at'] as string,
+                ...(row['abandoned'] === 1 ? { abandoned: true } : {}),
+            })),
+            totalEntries: (rows[0]?.['total'] as number | undefined) ?? 0,
+        };
     }
 
     // ========================================================================
@@ -507,16 +738,17 @@ export class DatabaseManager {
     /**
      * Update or create AI model profile
      */
-    upsertAIModel(modelId: string, name: string, provider?: string): void {
+    upsertAIModel(modelId: string, identity: ModelIdentity): void {
         const stmt = this.db.prepare(`
-            INSERT INTO ai_models (id, name, provider, last_seen)
-            VALUES (?, ?, ?, datetime('now'))
+            INSERT INTO ai_models (id, name, provider, version, first_seen, last_seen)
+            VALUES (?, ?, ?, ?, ${SQL_NOW}, ${SQL_NOW})
             ON CONFLICT(id) DO UPDATE SET
                 name = excluded.name,
                 provider = COALESCE(excluded.provider, ai_models.provider),
-                last_seen = datetime('now')
+                version = COALESCE(excluded.version, ai_models.version),
+                last_seen = ${SQL_NOW}
         `);
-        stmt.run(modelId, name, provider ?? null);
+        stmt.run(modelId, identity.name, identity.provider ?? null, identity.version ?? null);
     }
 
     /**
@@ -529,29 +761,157 @@ export class DatabaseManager {
                 average_score = ((average_score * total_sessions) + ?) / (total_sessions + 1),
                 best_score = MAX(best_score, ?),
                 total_challenges_completed = total_challenges_completed + ?,
-                last_seen = datetime('now')
+                last_seen = ${SQL_NOW}
             WHERE id = ?
         `);
         stmt.run(score, score, challengesCompleted, modelId);
     }
 
+    /**
+     * Store a model's Glicko-2 rating after a rating period
+     */
+    updateAIModelRating(modelId: string, rating: ModelRating): void {
+        const stmt = this.db.prepare(`
+            UPDATE ai_models SET
+                rating = ?,
+                rating_deviation = ?,
+                volatility = ?,
+                matches_played = ?
+            WHERE id = ?
+        `);
+        stmt.run(rating.rating, rating.deviation, rating.volatility, rating.matches, modelId);
+    }
+
     /**
      * Get AI model stats
      */
-    getAIModelStats(modelId: string): Record<string, unknown> | null {
+    getAIModelStats(modelId: string): ModelProfile | null {
         const stmt = this.db.prepare('SELECT * FROM ai_models WHERE id = ?');
-        return stmt.get(modelId) as Record<string, unknown> | null;
+        const row = stmt.get(modelId) as Record<string, unknown> | undefined;
+        if (!row) return null;
+
+        return this.rowToModelProfile(row);
     }
 
     /**
      * Get all AI models ranked by performance
      */
-    getAllAIModels(): Record<string, unknown>[] {
+    getAllAIModels(): ModelProfile[] {
         const stmt = this.db.prepare(`
             SELECT * FROM ai_models
             ORDER BY average_score DESC, total_sessions DESC
         `);
-        return stmt.all() as Record<string, unknown>[];
+        const rows = stmt.all() as Record<string, unknown>[];
+        return rows.map((row) => this.rowToModelProfile(row));
+    }
+
+    private rowToModelProfile(row: Record<string, unknown>): ModelProfile {
+        return {
+            id: row['id'] as string,
+            name: row['name'] as string,
+            provider: (row['provider'] as string | null) ?? undefined,
+            version: (row['version'] as string | null) ?? undefined,
+            totalSessions: row['total_sessions'] as number,
+            averageScore: row['average_score'] as number,
+            bestScore: row['best_score'] as number,
+            totalChallengesCompleted: row['total_challenges_completed'] as number,
+            rating: {
+                rating: row['rating'] as number,
+                deviation: row['rating_deviation'] as number,
+                volatility: row['volatility'] as number,
+                matches: row['matches_played'] as number,
+            },
+            firstSeen: row['first_seen'] as string,
+            lastSeen: row['last_seen'] as string,
+        };
+    }
+
+    // ========================================================================
+    // Calibration Operations
+    // ========================================================================
+
+    /**
+     * Replace the stored calibration in one transaction
+     */
+    saveCalibration(calibration: Calibration): void {
+        const replace = this.db.transaction((run: Calibration) => {
+            this.db.exec('DELETE FROM calibration_runs; DELETE FROM challenge_calibrations; DELETE FROM model_abilities;');
+
+            this.db
+                .prepare('INSERT INTO calibration_runs (id, responses, iterations, converged, calibrated_at) VALUES (1, ?, ?, ?, ?)')
+                .run(run.responses, run.iterations, run.converged ? 1 : 0, run.calibratedAt);
+
+            const challengeStmt = this.db.prepare(`
+                INSERT INTO challenge_calibrations
+                (challenge_id, difficulty, discrimination, responses, pass_rate, assigned_difficulty, expected_difficulty, suggested_difficulty, flag)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            for (const c of run.challenges) {
+                challengeStmt.run(
+                    c.challengeId,
+                    c.difficulty,
+                    c.discrimination,
+                    c.responses,
+                    c.passRate,
+                    c.assignedDifficulty,
+                    c.expectedDifficulty,
+                    c.suggestedDifficulty,
+                    c.flag ?? null
+                );
+            }
+
+            const abilityStmt = this.db.prepare(
+                'INSERT INTO model_abilities (ai_model, ability, standard_error, responses) VALUES (?, ?, ?, ?)'
+            );
+            for (const a of run.abilities) {
+                abilityStmt.run(a.aiModel, a.ability, a.standardError, a.responses);
+            }
+        });
+        replace(calibration);
+    }
+
+    /**
+     * Get the stored calibration, or null before the first run
+     */
+    getCalibration(): Calibration | null {
+        const run = this.db.prepare('SELECT * FROM calibration_runs WHERE id = 1').get() as
+            | Record<string, unknown>
+            | undefined;
+        if (!run) return null;
+
+        const challengeRows = this.db
+            .prepare('SELECT * FROM challenge_calibrations ORDER BY challenge_id')
+            .all() as Record<string, unknown>[];
+        const abilityRows = this.db
+            .prepare('SELECT * FROM model_abilities ORDER BY ability DESC, ai_model')
+            .all() as Record<string, unknown>[];
+
+        return {
+            challenges: challengeRows.map((row) => {
+                const flag = row['flag'] as CalibrationFlag | null;
+                return {
+                    challengeId: row['challenge_id'] as string,
+                    difficulty: row['difficulty'] as number,
+                    discrimination: row['discrimination'] as number,
+                    responses: row['responses'] as number,
+                    passRate: row['pass_rate'] as number,
+                    assignedDifficulty: row['assigned_difficulty'] as number,
+                    expectedDifficulty: row['expected_difficulty'] as number,
+                    suggestedDifficulty: row['suggested_difficulty'] as number,
+                    ...(flag ? { flag } : {}),
+                };
+            }),
+            abilities: abilityRows.map((row) => ({
+                aiModel: row['ai_model'] as string,
+                ability: row['ability'] as number,
+                standardError: row['standard_error'] as number,
+                responses: row['responses'] as number,
+            })),
+            responses: run['responses'] as number,
+            iterations: run['iterations'] as number,
+            converged: run['converged'] === 1,
+            calibratedAt: run['calibrated_at'] as string,
+        };
     }
 
     // ========================================================================
@@ -596,4 +956,30 @@ export class DatabaseManager {
     }
 }
 
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Open the database that every SQLite store shares. When it cannot be opened
+ * all stores keep to memory together, rather than some of them persisting.
+ * @param kind - Requested backend (defaults to sqlite); memory opens nothing
+ * @param dbPath - Optional database file path
+ * @returns The database, or undefined when the stores keep to memory
+ */
+export function openDatabase(kind: 'memory' | 'sqlite' = 'sqlite', dbPath?: string): DatabaseManager | undefined {
+    if (kind === 'memory') {
+        return undefined;
+    }
+
+    try {
+        return new DatabaseManager(dbPath);
+    } catch (err) {
+        logger.error('SQLite database unavailable, every store falls back to memory', 'Database', err instanceof Error ? err : undefined, {
+            dbPath,
+        });
+        return undefined;
+    }
+}
+
 export default DatabaseManager;
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Glicko-2 rating system
+ * @module @mcp/intellibench/core/ratings/glicko2
+ * @version 1.0.0
+ *
+ * Implements the update step from Glickman, "Example of the Glicko-2 system"
+ * (2013). A rating period is one batch of matches against opponents whose
+ * ratings are taken as they stood before the period.
+ */
+
+import type { ModelRating } from '../../shared/types/index.js';
+import { DEFAULT_RATING_CONFIG } from '../../shared/constants/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One match of a rating period
+ */
+export interface MatchResult {
+    opponent: Pick<ModelRating, 'rating' | 'deviation'>;
+    /** 1 for a win, 0.5 for a draw, 0 for a loss */
+    score: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Converts between the Glicko and Glicko-2 scales */
+const SCALE = 173.7178;
+
+/** Convergence tolerance of the volatility iteration */
+const EPSILON = 0.000001;
+
+/**
+ * Rating of a model that has not played yet
+ */
+export const INITIAL_RATING: ModelRating = {
+    rating: DEFAULT_RATING_CONFIG.RATING,
+    deviation: DEFAULT_RATING_CONFIG.DEVIATION,
+    volatility: DEFAULT_RATING_CONFIG.VOLATILITY,
+    matches: 0,
+};
+
+// ============================================================================
+// Rating Update
+// ============================================================================
+
+/**
+ * Rate one period of matches. Without matches only the deviation grows.
+ */
+export function updateRating(
+    player: ModelRating,
+    matches: readonly MatchResult[],
+    tau: number = DEFAULT_RATING_CONFIG.TAU
+): ModelRating {
+    const mu = (player.rating - DEFAULT_RATING_CONFIG.RATING) / SCALE;
+    const phi = player.deviation / SCALE;
+    const sigma = player.volatility;
+
+    if (matches.length === 0) {
+        return { ...player, deviation: Math.sqrt(phi ** 2 + sigma ** 2) * SCALE };
+    }
+
+    const games = matches.map(({ opponent, score }) => {
+        const g = reduceImpact(opponent.deviation / SCALE);
+        const expected = 1 / (1 + Math.exp(-g * (mu - (opponent.rating - DEFAULT_RATING_CONFIG.RATING) / SCALE)));
+        return { g, expected, score };
+    });
+
+    const variance = 1 / games.reduce((sum, { g, expected }) => sum + g ** 2 * expected * (1 - expected), 0);
+    const improvement = games.reduce((sum, { g, expected, score }) => sum + g * (score - expected), 0);
+    const delta = variance * improvement;
+
+    const newSigma = updateVolatility(phi, sigma, variance, delta, tau);
+    const phiStar = Math.sqrt(phi ** 2 + newSigma ** 2);
+    const newPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / variance);
+    const newMu = mu + newPhi ** 2 * improvement;
+
+    return {
+        rating: newMu * SCALE + DEFAULT_RATING_CONFIG.RATING,
+        deviation: newPhi * SCALE,
+        volatility: newSigma,
+        matches: player.matches + matches.length,
+    };
+}
+
+/**
+ * Confidence interval of a rating at the configured z-score
+ */
+export function ratingInterval(rating: Pick<ModelRating, 'rating' | 'deviation'>): { lower: number; upper: number } {
+    const margin = DEFAULT_RATING_CONFIG.CONFIDENCE_Z * rating.deviation;
+    return { lower: rating.rating - margin, upper: rating.rating + margin };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Weight of a match by the opponent's uncertainty (Glickman's g)
+ */
+function reduceImpact(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi ** 2) / Math.PI ** 2);
+}
+
+/**
+ * New volatility by the Illinois algorithm (step 5 of the paper)
+ */
+function updateVolatility(phi: number, sigma: number, variance: number, delta: number, tau: number): number {
+    const a = Math.log(sigma ** 2);
+    const f = (x: number): number => {
+        const ex = Math.exp(x);
+        const denominator = phi ** 2 + variance + ex;
+        return (ex * (delta ** 2 - denominator)) / (2 * denominator ** 2) - (x - a) / tau ** 2;
+    };
+
+    // Bracket the root between pointA and pointB, then narrow it
+    let pointA = a;
+    let pointB: number;
+    if (delta ** 2 > phi ** 2 + variance) {
+        pointB = Math.log(delta ** 2 - phi ** 2 - variance);
+    } else {
+        let k = 1;
+        while (f(a - k * tau) < 0) k++;
+        pointB = a - k * tau;
+    }
+
+    let fA = f(pointA);
+    let fB = f(pointB);
+    while (Math.abs(pointB - pointA) > EPSILON) {
+        const pointC = pointA + ((pointA - pointB) * fA) / (fB - fA);
+        const fC = f(pointC);
+        if (fC * fB <= 0) {
+            pointA = pointB;
+            fA = fB;
+        } else {
+            fA /= 2;
+        }
+        pointB = pointC;
+        fB = fC;
+    }
+
+    return Math.exp(pointA / 2);
+}
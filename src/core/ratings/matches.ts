@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Head-to-head matches between models
+ * @module @mcp/intellibench/core/ratings/matches
+ * @version 1.0.0
+ *
+ * Sessions draw different random challenges, so their percentages are not
+ * comparable. Ratings are instead built from matches: whenever two models have
+ * both answered a challenge, the one with the higher score on it wins.
+ */
+
+import type { ChallengeResult, Session } from '../../shared/types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Matches a session's model played against one opponent model
+ */
+export interface HeadToHead {
+    opponent: string;
+    /** Scores from the session model's side: 1 win, 0.5 draw, 0 loss; one per shared challenge */
+    scores: number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Score fractions closer than this are a draw */
+const DRAW_MARGIN = 1e-9;
+
+// ============================================================================
+// Match Building
+// ============================================================================
+
+/**
+ * Pair a completed session's challenge results with those of other models.
+ * An opponent that answered a challenge in several sessions is represented by
+ * its mean score on it. Sessions without a model identity take no part.
+ */
+export function findHeadToHeads(session: Session, others: readonly Session[]): HeadToHead[] {
+    if (!session.aiModel) return [];
+
+    // opponent model -> challenge -> score fractions
+    const opponents = new Map<string, Map<string, number[]>>();
+    for (const other of others) {
+        if (!other.aiModel || other.aiModel === session.aiModel || other.id === session.id) continue;
+
+        const challenges = opponents.get(other.aiModel) ?? new Map<string, number[]>();
+        for (const [challengeId, fraction] of latestFractions(other.results)) {
+            challenges.set(challengeId, [...(challenges.get(challengeId) ?? []), fraction]);
+        }
+        opponents.set(other.aiModel, challenges);
+    }
+
+    const own = latestFractions(session.results);
+    const headToHeads: HeadToHead[] = [];
+    for (const [opponent, challenges] of opponents) {
+        const scores: number[] = [];
+        for (const [challengeId, fraction] of own) {
+            const theirs = challenges.get(challengeId);
+            if (!theirs) continue;
+
+            scores.push(matchScore(fraction, theirs.reduce((sum, f) => sum + f, 0) / theirs.length));
+        }
+        if (scores.length > 0) {
+            headToHeads.push({ opponent, scores });
+        }
+    }
+
+    return headToHeads;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function matchScore(ours: number, theirs: number): number {
+    if (Math.abs(ours - theirs) < DRAW_MARGIN) return 0.5;
+    return ours > theirs ? 1 : 0;
+}
+
+/**
+ * Score as a fraction of the maximum for each challenge, keeping the last result
+ */
+function latestFractions(results: readonly ChallengeResult[]): Map<string, number> {
+    const fractions = new Map<string, number>();
+    for (const result of results) {
+        fractions.set(result.challengeId, result.maxScore > 0 ? result.score / result.maxScore : 0);
+    }
+    return fractions;
+}
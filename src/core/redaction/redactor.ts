@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Hidden Test Redactor - client-facing views of challenges and results
+ * @module @mcp/intellibench/core/redaction/redactor
+ * @version 1.0.0
+ *
+ * Everything the server returns about a challenge or a submission passes through
+ * here. Hidden tests are shown by name and outcome only: their inputs, expected
+ * outputs, the submission's outputs on them, their error messages and their
+ * output diffs are withheld, since any of these can be used to recover the hidden
+ * data. Even a diff without values names the expected keys and the wrong
+ * positions, which repeated submissions can probe into the answer. The
+ * reveal policy decides whether that data may be shown once a session ends.
+ */
+
+import type {
+    Challenge,
+    ChallengeView,
+    HiddenTestRevealPolicy,
+    SessionStatus,
+    TestCase,
+    TestCaseReport,
+    TestCaseResult,
+    TestCaseView,
+} from '../../shared/types/index.js';
+import { DEFAULT_REDACTION_CONFIG } from '../../shared/constants/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const HIDDEN_TEST_REVEAL_POLICIES: readonly HiddenTestRevealPolicy[] = ['never', 'after_session', 'always'];
+
+// ============================================================================
+// Redactor
+// ============================================================================
+
+/**
+ * Applies the hidden test reveal policy to challenges and results
+ */
+export class HiddenTestRedactor {
+    readonly policy: HiddenTestRevealPolicy;
+
+    constructor(policy: string = DEFAULT_REDACTION_CONFIG.HIDDEN_TEST_REVEAL) {
+        if (!HIDDEN_TEST_REVEAL_POLICIES.includes(policy as HiddenTestRevealPolicy)) {
+            throw new Error(`Unknown hidden test reveal policy: ${policy}`);
+        }
+        this.policy = policy as HiddenTestRevealPolicy;
+    }
+
+    /**
+     * Whether hidden test data may be shown for a session in the given state
+     */
+    canReveal(status: SessionStatus): boolean {
+        switch (this.policy) {
+            case 'always':
+                return true;
+            case 'after_session':
+                return status === 'completed';
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Challenge as shown to the model working on it
+     */
+    challenge(challenge: Challenge, status: SessionStatus = 'in_progress'): ChallengeView {
+        return redactChallenge(challenge, this.canReveal(status));
+    }
+
+    /**
+     * Reports for a challenge's test results
+     */
+    testReports(challenge: Challenge, results: readonly TestCaseResult[], status: SessionStatus): TestCaseReport[] {
+        return buildTestReports(challenge, results, this.canReveal(status));
+    }
+
+    /**
+     * Raw test results with hidden test data removed
+     */
+    testResults(challenge: Challenge, results: readonly TestCaseResult[], status: SessionStatus): TestCaseResult[] {
+        const reveal = this.canReveal(status);
+        return results.map((result) =>
+            reveal || !isHidden(challenge, result.testCaseId) ? result : redactTestResult(result)
+        );
+    }
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Client view of a challenge: its statement, first template and test cases, with
+ * hidden test data left out unless revealed. Grader specs, test suites and
+ * mutants are never included.
+ */
+export function redactChallenge(challenge: Challenge, reveal = false): ChallengeView {
+    return {
+        challengeId: challenge.id,
+        title: challenge.title,
+        category: challenge.category,
+        difficulty: challenge.difficulty,
+        description: challenge.description,
+        requirements: challenge.requirements,
+        hints: challenge.hints,
+        timeLimit: challenge.timeLimit,
+        maxScore: challenge.maxScore,
+        template: challenge.templates[0],
+        testCases: challenge.testCases.map((tc) => viewTestCase(tc, reveal)),
+    };
+}
+
+/**
+ * Build client-safe reports for a challenge's test results
+ */
+export function buildTestReports(
+    challenge: Challenge,
+    results: readonly TestCaseResult[],
+    reveal = false
+): TestCaseReport[] {
+    return results.map((result) => {
+        const testCase = challenge.testCases.find((tc) => tc.id === result.testCaseId);
+        // Results without a matching test case are treated as hidden
+        const hidden = testCase?.isHidden ?? true;
+        const redacted = hidden && !reveal;
+
+        return {
+            testCaseId: result.testCaseId,
+            name: testCase?.name,
+            hidden,
+            passed: result.passed,
+            verdict: result.verdict,
+            error: redacted ? undefined : result.error,
+            diff: redacted ? undefined : result.diff,
+            ...(hidden && reveal && testCase && { input: testCase.input, expectedOutput: testCase.expectedOutput }),
+        };
+    });
+}
+
+/**
+ * Keep only the outcome of a hidden test result
+ */
+export function redactTestResult(result: TestCaseResult): TestCaseResult {
+    const { actualOutput: _actual, expectedOutput: _expected, error: _error, diff: _diff, ...rest } = result;
+    return rest;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function viewTestCase(testCase: TestCase, reveal: boolean): TestCaseView {
+    const view = { id: testCase.id, name: testCase.name, hidden: testCase.isHidden, points: testCase.points };
+    return testCase.isHidden && !reveal
+        ? view
+        : { ...view, input: testCase.input, expectedOutput: testCase.expectedOutput };
+}
+
+function isHidden(challenge: Challenge, testCaseId: string): boolean {
+    return challenge.testCases.find((tc) => tc.id === testCaseId)?.isHidden ?? true;
+}
@@ -7,10 +7,18 @@
  * comprehensive analysis, and international standard alignment.
  */
 
-import type { Challenge, ScoreBreakdown, TestCaseResult, ProgrammingLanguage } from '../../shared/types/index.js';
+import type {
+    Challenge,
+    ScoreBreakdown,
+    TestCaseResult,
+    ProgrammingLanguage,
+    GradingMode,
+} from '../../shared/types/index.js';
 import { DEFAULT_SCORE_WEIGHTS } from '../../shared/constants/index.js';
-import { CodeExecutionEngine, type TestExecutionResult } from '../execution/engine.js';
+import { CodeExecutionEngine, type ExecutionHooks, type TestExecutionResult } from '../execution/engine.js';
 import { logger } from '../../shared/utils/logger.js';
+import { gradeStatically } from './static-grader.js';
+import { createDefaultGraderRegistry, getGraderSpec, type GraderRegistry } from './graders.js';
 
 // ============================================================================
 // Types
@@ -22,6 +30,8 @@ export interface ScoringInput {
     language: ProgrammingLanguage;
     timeTaken: number;
     sessionId?: string;
+    /** Progress reporting and cancellation while tests execute */
+    hooks?: ExecutionHooks;
 }
 
 export interface ScoringResult {
@@ -30,6 +40,8 @@ export interface ScoringResult {
     passed: boolean;
     breakdown: ScoreBreakdown;
     testResults: TestCaseResult[];
+    /** Whether testResults come from executing the code or from static grading */
+    gradingMode: GradingMode;
     feedback: string;
     suggestions: string[];
     executionDetails?: ExecutionDetails;
@@ -58,6 +70,8 @@ export interface ScoringConfig {
     enableRealExecution?: boolean;
     enableStaticAnalysis?: boolean;
     enableStandardsCheck?: boolean;
+    /** Graders to dispatch to; defaults to every built-in grader */
+    graders?: GraderRegistry;
 }
 
 // ============================================================================
@@ -96,12 +110,14 @@ export class ScoringEngine {
     private readonly passingThreshold: number;
     private readonly config: ScoringConfig;
     private executionEngine?: CodeExecutionEngine;
+    private readonly graders: GraderRegistry;
 
     constructor(config: ScoringConfig = {}) {
         logger.info('Initializing ScoringEngine', 'ScoringEngine', { config });
 
         this.weights = config.weights ?? DEFAULT_SCORE_WEIGHTS;
         this.passingThreshold = config.passingThreshold ?? 60;
+        this.graders = config.graders ?? createDefaultGraderRegistry();
         this.config = {
             enableRealExecution: config.enableRealExecution ?? true,
             enableStaticAnalysis: config.enableStaticAnalysis ?? true,
@@ -154,17 +170,18 @@ export class ScoringEngine {
             testCaseCount: challenge.testCases.length,
         });
 
-        // Run test cases (real or simulated)
+        // Run test cases (executed, or graded statically as a fallback)
         logger.debug('Running test cases', 'ScoringEngine', {
             challengeId: challenge.id,
             testCaseCount: challenge.testCases.length,
             realExecution: this.config.enableRealExecution,
         });
 
-        const testResults = await this.runTestCases(challenge, solution, language);
+        const { testResults, gradingMode } = await this.runTestCases(challenge, solution, language, input.hooks);
 
         logger.debug('Test cases completed', 'ScoringEngine', {
             challengeId: challenge.id,
+            gradingMode,
             totalTests: testResults.length,
             passed: testResults.filter(t => t.passed).length,
             failed: testResults.filter(t => !t.passed).length,
@@ -238,6 +255,7 @@ export class ScoringEngine {
             passed,
             breakdown,
             testResults,
+            gradingMode,
             feedback,
             suggestions,
             executionDetails,
@@ -246,95 +264,59 @@ export class ScoringEngine {
     }
 
     /**
-     * Run test cases with real execution or simulation
+     * Grade test cases with the challenge's grader, falling back to static grading
+     * when a grader needs execution that is unavailable or fails
      */
     private async runTestCases(
         challenge: Challenge,
         solution: string,
-        language: ProgrammingLanguage
-    ): Promise<TestCaseResult[]> {
+        language: ProgrammingLanguage,
+        hooks: ExecutionHooks = {}
+    ): Promise<{ testResults: TestCaseResult[]; gradingMode: GradingMode }> {
+        const executionEngine = this.config.enableRealExecution ? this.executionEngine : undefined;
+
         logger.debug('runTestCases called', 'ScoringEngine', {
             challengeId: challenge.id,
             language,
             testCaseCount: challenge.testCases.length,
-            hasExecutionEngine: !!this.executionEngine,
-            enableRealExecution: this.config.enableRealExecution,
+            hasExecutionEngine: !!executionEngine,
+            grader: getGraderSpec(challenge).type,
         });
 
-        if (this.config.enableRealExecution && this.executionEngine) {
-            try {
-                logger.info('Executing tests with real execution engine', 'ScoringEngine', {
-                    challengeId: challenge.id,
-                    language,
-                });
-
-                const execResults = await this.executionEngine.executeWithTests(
-                    solution,
-                    language,
-                    challenge.testCases
-                );
+        try {
+            const { grader, spec } = this.graders.resolve(challenge);
 
-                logger.info('Real execution completed', 'ScoringEngine', {
+            if (grader.gradingMode === 'executed' && !executionEngine) {
+                logger.debug('Using static grading', 'ScoringEngine', {
                     challengeId: challenge.id,
-                    resultsCount: execResults.length,
-                    passed: execResults.filter(r => r.result.passed).length,
                 });
-
-                return execResults.map(r => r.result);
-            } catch (error) {
-                // Fallback to simulation on execution error
-                logger.warn('Execution failed, falling back to simulation', 'ScoringEngine', {
-                    challengeId: challenge.id,
-                    error: error instanceof Error ? error.message : String(error),
-                });
-                return this.simulateTestCases(challenge, solution);
+                return { testResults: this.gradeTestCasesStatically(challenge, solution, language), gradingMode: 'static' };
             }
-        }
 
-        logger.debug('Using simulated test execution', 'ScoringEngine', {
-            challengeId: challenge.id,
-        });
-
-        return this.simulateTestCases(challenge, solution);
+            const testResults = await grader.grade(spec, { challenge, solution, language, executionEngine, hooks });
+            return { testResults, gradingMode: grader.gradingMode };
+        } catch (error) {
+            // A cancelled run is not graded at all
+            hooks.signal?.throwIfAborted();
+            logger.warn('Grading failed, falling back to static grading', 'ScoringEngine', {
+                challengeId: challenge.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return { testResults: this.gradeTestCasesStatically(challenge, solution, language), gradingMode: 'static' };
+        }
     }
 
     /**
-     * Simulate test case execution (fallback)
+     * Grade test cases without executing the solution (deterministic fallback)
      */
-    private simulateTestCases(challenge: Challenge, solution: string): TestCaseResult[] {
-        logger.debug('Simulating test cases', 'ScoringEngine', {
-            challengeId: challenge.id,
-            testCaseCount: challenge.testCases.length,
-            solutionLength: solution.length,
-        });
-
-        const hasValidStructure = solution.length > 50 &&
-            /function|class|const|=>/.test(solution);
-        const hasProperLogic = /return|if|for|while|map|filter|reduce/.test(solution);
-
-        logger.debug('Solution analysis for simulation', 'ScoringEngine', {
-            challengeId: challenge.id,
-            hasValidStructure,
-            hasProperLogic,
-        });
-
-        const results = challenge.testCases.map((tc, index) => {
-            // Simulate based on code analysis
-            const basePassChance = hasValidStructure && hasProperLogic ? 0.7 : 0.3;
-            const complexity = tc.isHidden ? 0.8 : 1.0;
-            const passed = Math.random() < basePassChance * complexity;
-
-            return {
-                testCaseId: tc.id,
-                passed,
-                expectedOutput: tc.expectedOutput,
-                actualOutput: passed ? tc.expectedOutput : undefined,
-                executionTime: Math.random() * 100 + 10,
-                error: passed ? undefined : 'Simulated test failure',
-            };
-        });
+    private gradeTestCasesStatically(
+        challenge: Challenge,
+        solution: string,
+        language: ProgrammingLanguage
+    ): TestCaseResult[] {
+        const results = gradeStatically(challenge, solution, language);
 
-        logger.debug('Simulation complete', 'ScoringEngine', {
+        logger.debug('Static grading complete', 'ScoringEngine', {
             challengeId: challenge.id,
             totalTests: results.length,
             passed: results.filter(r => r.passed).length,
@@ -386,10 +368,22 @@ export class ScoringEngine {
         if (solution.length > expectedLength * 3) score -= 15;
         if (solution.length > expectedLength * 5) score -= 10;
 
-        // Execution time bonus
-        const avgExecTime = testResults.reduce((sum, r) => sum + (r.executionTime ?? 0), 0) / testResults.length;
-        if (avgExecTime < 50) score += 10;
-        if (avgExecTime < 20) score += 5;
+        // Execution time bonus (only for tests that actually ran)
+        const timedResults = testResults.filter(r => r.executionTime !== undefined);
+        if (timedResults.length > 0) {
+            const avgExecTime = timedResults.reduce((sum, r) => sum + (r.executionTime ?? 0), 0) / timedResults.length;
+            if (avgExecTime < 50) score += 10;
+            if (avgExecTime < 20) score += 5;
+        }
+
+        // Peak memory relative to the challenge limit (only known for executed tests)
+        const peakMemory = this.getPeakMemory(testResults);
+        if (peakMemory !== undefined) {
+            const memoryRatio = peakMemory / (challenge.memoryLimit * 1024 * 1024);
+            if (memoryRatio < 0.25) score += 5;
+            if (memoryRatio > 0.75) score -= 10;
+        }
+        if (testResults.some(r => r.verdict === 'memory_limit_exceeded')) score -= 20;
 
         // Time taken bonus
         if (timeTaken < challenge.timeLimit * 0.3) score += 10;
@@ -508,6 +502,17 @@ export class ScoringEngine {
         return Math.round((weighted / 100) * maxScore);
     }
 
+    /**
+     * Highest measured memory usage across test results, in bytes
+     */
+    private getPeakMemory(testResults: TestCaseResult[]): number | undefined {
+        const measured = testResults
+            .map(r => r.memoryUsage)
+            .filter((m): m is number => m !== undefined);
+
+        return measured.length > 0 ? Math.max(...measured) : undefined;
+    }
+
     /**
      * Compile execution details from test results
      */
@@ -519,6 +524,7 @@ export class ScoringEngine {
         return {
             totalExecutionTime,
             averageExecutionTime: totalExecutionTime / testResults.length,
+            memoryUsage: this.getPeakMemory(testResults),
             testsRun: testResults.length,
             testsPassed: passed,
             testsFailed: testResults.length - passed,
@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Graders - per-challenge grading strategies
+ * @module @mcp/intellibench/core/scoring/graders
+ * @version 1.0.0
+ *
+ * A challenge declares how it is graded with a `GraderSpec`. The registry maps
+ * each spec type to a grader; the scoring engine resolves the challenge's
+ * grader and dispatches to it. Output-comparing graders run the submission
+ * through the execution engine; the rubric grader only reads its text.
+ */
+
+import { Script, createContext } from 'vm';
+import type {
+    Challenge,
+    GraderSpec,
+    GraderType,
+    GradingMode,
+    OutputComparisonOptions,
+    ProgrammingLanguage,
+    RubricCriterion,
+    TestCaseResult,
+} from '../../shared/types/index.js';
+import type { CodeExecutionEngine, ExecutionHooks, OutputComparator } from '../execution/engine.js';
+import { diffOutputs } from '../execution/compare.js';
+import { logger } from '../../shared/utils/logger.js';
+import { generateMutants } from './mutation.js';
+import { evaluateSuiteReports, failTestSuite, gradeTestSuite } from './test-suite-grader.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraderSpecOf<T extends GraderType> = Extract<GraderSpec, { type: T }>;
+
+export interface GraderContext {
+    challenge: Challenge;
+    solution: string;
+    language: ProgrammingLanguage;
+    /** Available when real execution is enabled */
+    executionEngine?: CodeExecutionEngine;
+    /** Progress reporting and cancellation for executed grading */
+    hooks?: ExecutionHooks;
+}
+
+export interface Grader<T extends GraderType = GraderType> {
+    readonly type: T;
+    /** 'executed' graders need an execution engine; without one the scoring engine grades statically */
+    readonly gradingMode: GradingMode;
+    grade(spec: GraderSpecOf<T>, context: GraderContext): Promise<TestCaseResult[]>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_FLOAT_TOLERANCE = 1e-6;
+
+/** Time a custom checker may spend on one test case, in milliseconds */
+const CHECKER_TIMEOUT = 1000;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class GraderRegistry {
+    private readonly graders = new Map<GraderType, Grader>();
+
+    /**
+     * Register a grader, replacing any previous grader of the same type
+     */
+    register<T extends GraderType>(grader: Grader<T>): this {
+        this.graders.set(grader.type, grader as unknown as Grader);
+        return this;
+    }
+
+    get(type: GraderType): Grader | undefined {
+        return this.graders.get(type);
+    }
+
+    /**
+     * Find the grader for a challenge along with the spec it is graded with
+     */
+    resolve(challenge: Challenge): { grader: Grader; spec: GraderSpec } {
+        const spec = getGraderSpec(challenge);
+        const grader = this.graders.get(spec.type);
+
+        if (!grader) {
+            throw new Error(`No grader registered for type: ${spec.type}`);
+        }
+
+        return { grader, spec };
+    }
+}
+
+/**
+ * Registry with every built-in grader
+ */
+export function createDefaultGraderRegistry(): GraderRegistry {
+    return new GraderRegistry()
+        .register(createComparisonGrader('io-equality', () => undefined))
+        .register(createComparisonGrader('float-tolerance', (spec) =>
+            createOptionsComparator({ absoluteTolerance: spec.tolerance ?? DEFAULT_FLOAT_TOLERANCE })
+        ))
+        .register(createComparisonGrader('unordered-set', () =>
+            createOptionsComparator({ ignoreArrayOrder: true, ignoreKeyOrder: true })
+        ))
+        .register(createComparisonGrader('custom-checker-function', (spec, challenge) =>
+            compileChecker(spec.checker, challenge.id)
+        ))
+        .register(rubricGrader)
+        .register(testSuiteGrader);
+}
+
+/**
+ * The spec a challenge is graded with, applying the default
+ */
+export function getGraderSpec(challenge: Challenge): GraderSpec {
+    if (challenge.grader) return challenge.grader;
+    return challenge.testSuite ? { type: 'test-suite' } : { type: 'io-equality' };
+}
+
+// ============================================================================
+// Output Comparison Graders
+// ============================================================================
+
+/**
+ * Grader that runs every test case and judges the output with a comparator.
+ * A factory returning undefined keeps the execution engine's JSON equality.
+ */
+function createComparisonGrader<T extends GraderType>(
+    type: T,
+    createComparator: (spec: GraderSpecOf<T>, challenge: Challenge) => OutputComparator | undefined
+): Grader<T> {
+    return {
+        type,
+        gradingMode: 'executed',
+        async grade(spec, { challenge, solution, language, executionEngine, hooks }) {
+            if (!executionEngine) {
+                throw new Error('Execution engine not available');
+            }
+
+            logger.info('Executing tests with real execution engine', 'Graders', {
+                challengeId: challenge.id,
+                grader: type,
+                language,
+            });
+
+            const execResults = await executionEngine.executeWithTests(
+                solution,
+                language,
+                challenge.testCases,
+                { memoryLimit: challenge.memoryLimit * 1024 * 1024 },
+                createComparator(spec, challenge),
+                hooks
+            );
+
+            logger.info('Real execution completed', 'Graders', {
+                challengeId: challenge.id,
+                resultsCount: execResults.length,
+                passed: execResults.filter(r => r.result.passed).length,
+            });
+
+            return execResults.map(r => r.result);
+        },
+    };
+}
+
+/**
+ * Compare with the test case's own comparison options, overridden by the grader's.
+ * An expected `true` still accepts any non-null output, as in the execution engine.
+ */
+export function createOptionsComparator(overrides: OutputComparisonOptions): OutputComparator {
+    return (actual, expected, testCase) => {
+        if (expected === true && actual !== undefined && actual !== null) {
+            return { passed: true };
+        }
+
+        const diff = diffOutputs(actual, expected, { ...testCase.comparison, ...overrides });
+        return diff ? { passed: false, diff } : { passed: true };
+    };
+}
+
+/**
+ * Compile a challenge's checker source into a comparator. The checker runs in
+ * its own VM context, sees JSON copies of its arguments and is stopped after
+ * CHECKER_TIMEOUT; a checker that throws rejects the output.
+ */
+export function compileChecker(source: string, challengeId: string): OutputComparator {
+    const context = createContext({});
+
+    try {
+        new Script(`globalThis.__check = (${source});`).runInContext(context, { timeout: CHECKER_TIMEOUT });
+    } catch (error) {
+        throw new Error(`Invalid checker for challenge ${challengeId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (typeof context['__check'] !== 'function') {
+        throw new Error(`Invalid checker for challenge ${challengeId}: not a function`);
+    }
+
+    const invoke = new Script('__check(...JSON.parse(__args)) === true');
+
+    return (actual, expected, testCase) => {
+        try {
+            context['__args'] = JSON.stringify([actual ?? null, expected ?? null, testCase.input ?? null]);
+            return { passed: invoke.runInContext(context, { timeout: CHECKER_TIMEOUT }) === true };
+        } catch (error) {
+            logger.warn('Checker rejected output', 'Graders', {
+                challengeId,
+                testCaseId: testCase.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            return { passed: false };
+        }
+    };
+}
+
+// ============================================================================
+// Rubric Grader
+// ============================================================================
+
+const rubricGrader: Grader<'rubric'> = {
+    type: 'rubric',
+    gradingMode: 'static',
+    async grade(spec, { challenge, solution }) {
+        return challenge.testCases.map((tc) => {
+            const criterion = spec.criteria[tc.id];
+            if (!criterion) {
+                return {
+                    testCaseId: tc.id,
+                    passed: false,
+                    expectedOutput: tc.expectedOutput,
+                    error: 'No rubric criterion for this test case',
+                };
+            }
+
+            const { matched, required, forbidden } = evaluateCriterion(criterion, solution);
+            const passed = matched >= required && forbidden === 0;
+
+            return {
+                testCaseId: tc.id,
+                passed,
+                actualOutput: { matched, forbidden },
+                expectedOutput: { matched: required, forbidden: 0 },
+                error: passed
+                    ? undefined
+                    : forbidden > 0
+                        ? `Submission contains ${forbidden} disallowed pattern(s)`
+                        : `Rubric criterion not met: ${matched} of ${required} required elements found`,
+                verdict: passed ? 'passed' : 'wrong_answer',
+            };
+        });
+    },
+};
+
+/**
+ * Count the criterion's patterns the text matches
+ */
+export function evaluateCriterion(
+    criterion: RubricCriterion,
+    text: string
+): { matched: number; required: number; forbidden: number } {
+    const matches = (pattern: string): boolean => new RegExp(pattern, 'im').test(text);
+
+    return {
+        matched: criterion.patterns.filter(matches).length,
+        required: Math.min(criterion.minMatches ?? criterion.patterns.length, criterion.patterns.length),
+        forbidden: (criterion.forbidden ?? []).filter(matches).length,
+    };
+}
+
+// ============================================================================
+// Test Suite Grader
+// ============================================================================
+
+const testSuiteGrader: Grader<'test-suite'> = {
+    type: 'test-suite',
+    gradingMode: 'executed',
+    async grade(_spec, { challenge, solution, language, executionEngine, hooks }) {
+        if (!executionEngine) {
+            throw new Error('Execution engine not available');
+        }
+        if (!challenge.testSuite) {
+            throw new Error(`Challenge ${challenge.id} has no test suite specification`);
+        }
+        if (language !== 'typescript' && language !== 'javascript') {
+            return failTestSuite(challenge, 'Test suites must be written in TypeScript or JavaScript');
+        }
+
+        const spec = challenge.testSuite;
+        const mutants = generateMutants(spec);
+
+        logger.info('Running submitted test suite', 'Graders', {
+            challengeId: challenge.id,
+            mutants: mutants.length,
+        });
+
+        const { reports, executionResult } = await executionEngine.executeTestSuite(
+            solution,
+            [{ id: 'reference', code: spec.reference }, ...mutants],
+            spec.exports,
+            { memoryLimit: challenge.memoryLimit * 1024 * 1024 },
+            hooks
+        );
+
+        if (!reports) {
+            const reason = (executionResult.error ?? executionResult.stderr).split('\n')[0] || 'no output';
+            logger.warn('Test suite produced no report', 'Graders', {
+                challengeId: challenge.id,
+                reason,
+            });
+            return failTestSuite(challenge, `Test suite could not run: ${reason}`);
+        }
+
+        const evaluation = evaluateSuiteReports(reports, mutants);
+
+        logger.info('Test suite evaluated', 'Graders', {
+            challengeId: challenge.id,
+            passesOnReference: evaluation.passesOnReference,
+            testsRun: evaluation.testsRun,
+            mutationScore: evaluation.mutationScore,
+            lineCoverage: evaluation.lineCoverage,
+        });
+
+        return gradeTestSuite(challenge, evaluation);
+    },
+};
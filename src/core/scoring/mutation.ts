@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Mutation Generation for test-generation grading
+ * @module @mcp/intellibench/core/scoring/mutation
+ * @version 1.0.0
+ *
+ * Produces faulty variants of a reference implementation. Hand-written mutants
+ * come from the challenge; operator mutants are picked from every applicable
+ * site with a seeded shuffle, so a challenge always yields the same set.
+ */
+
+import type { TestSuiteSpec } from '../../shared/types/index.js';
+import type { SuiteImplementation } from '../execution/test-suite.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeneratedMutant extends SuiteImplementation {
+    /** What was changed */
+    description: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Operator swaps, longest tokens first so '===' is not read as '=' + '==' */
+const OPERATOR_SWAPS: readonly (readonly [string, string])[] = [
+    ['===', '!=='],
+    ['!==', '==='],
+    ['<=', '<'],
+    ['>=', '>'],
+    ['&&', '||'],
+    ['||', '&&'],
+    ['<', '<='],
+    ['>', '>='],
+    ['+', '-'],
+    ['-', '+'],
+    ['*', '/'],
+    ['/', '*'],
+];
+
+const LITERAL_SWAPS: readonly (readonly [string, string])[] = [
+    ['true', 'false'],
+    ['false', 'true'],
+];
+
+const DEFAULT_SEED = 1;
+
+// ============================================================================
+// Mutation
+// ============================================================================
+
+/**
+ * Build every mutant for a test suite spec: hand-written ones first, then
+ * `generatedMutants` operator mutants chosen with the spec's seed
+ */
+export function generateMutants(spec: TestSuiteSpec): GeneratedMutant[] {
+    const handWritten = spec.mutants
+        .filter((m) => spec.reference.includes(m.find))
+        .map((m) => ({
+            id: m.id,
+            description: m.description,
+            code: spec.reference.replace(m.find, m.replace),
+        }));
+
+    const count = spec.generatedMutants ?? 0;
+    if (count <= 0) return handWritten;
+
+    const seen = new Set([spec.reference, ...handWritten.map((m) => m.code)]);
+    const generated: GeneratedMutant[] = [];
+
+    for (const site of shuffle(findMutationSites(spec.reference), spec.seed ?? DEFAULT_SEED)) {
+        if (generated.length >= count) break;
+
+        const code = spec.reference.slice(0, site.offset) + site.to + spec.reference.slice(site.offset + site.from.length);
+        if (seen.has(code)) continue;
+        seen.add(code);
+
+        const line = spec.reference.slice(0, site.offset).split('\n').length;
+        generated.push({
+            id: `op_${generated.length + 1}`,
+            description: `Line ${line}: '${site.from}' -> '${site.to}'`,
+            code,
+        });
+    }
+
+    return [...handWritten, ...generated];
+}
+
+/**
+ * Find every position where an operator or boolean literal can be swapped.
+ * Strings, comments and arrows/increments are skipped.
+ */
+export function findMutationSites(code: string): { offset: number; from: string; to: string }[] {
+    const sites: { offset: number; from: string; to: string }[] = [];
+    const masked = maskStringsAndComments(code);
+
+    for (let i = 0; i < masked.length; i++) {
+        const literal = LITERAL_SWAPS.find(([from]) =>
+            masked.startsWith(from, i) && !/\w/.test(masked[i - 1] ?? '') && !/\w/.test(masked[i + from.length] ?? '')
+        );
+        if (literal) {
+            sites.push({ offset: i, from: literal[0], to: literal[1] });
+            i += literal[0].length - 1;
+            continue;
+        }
+
+        const swap = OPERATOR_SWAPS.find(([from]) => masked.startsWith(from, i));
+        if (!swap) continue;
+
+        const [from, to] = swap;
+        const before = masked[i - 1] ?? '';
+        const after = masked[i + from.length] ?? '';
+        const isPartOfLongerOperator = /[=!<>+\-*/&|]/.test(before) || /[=>+\-*/&|]/.test(after);
+
+        if (!isPartOfLongerOperator) {
+            sites.push({ offset: i, from, to });
+        }
+        i += from.length - 1;
+    }
+
+    return sites;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Replace string, template and comment contents with spaces, keeping offsets
+ */
+function maskStringsAndComments(code: string): string {
+    return code.replace(
+        /\/\*[\s\S]*?\*\/|\/\/.*$|`(?:\\[\s\S]|[^\\`])*`|"(?:\\.|[^\\"\n])*"|'(?:\\.|[^\\'\n])*'/gm,
+        (match) => ' '.repeat(match.length)
+    );
+}
+
+/**
+ * Deterministic Fisher-Yates shuffle driven by mulberry32
+ */
+function shuffle<T>(items: readonly T[], seed: number): T[] {
+    const result = [...items];
+    let state = seed >>> 0;
+
+    const next = (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+    };
+
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [result[i], result[j]] = [result[j] as T, result[i] as T];
+    }
+
+    return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Test Suite Grader - scores submitted tests for test-generation challenges
+ * @module @mcp/intellibench/core/scoring/test-suite-grader
+ * @version 1.0.0
+ *
+ * A submitted suite is run against the challenge's reference implementation and
+ * a set of mutants. It must pass on the reference; each test case of the
+ * challenge then checks one aspect: specific mutants killed, the overall
+ * mutation score, or line coverage of the reference.
+ */
+
+import type { Challenge, TestCase, TestCaseResult, TestSuiteCheck } from '../../shared/types/index.js';
+import type { SuiteRunReport } from '../execution/test-suite.js';
+import type { GeneratedMutant } from './mutation.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MutantOutcome {
+    id: string;
+    description: string;
+    /** Whether at least one submitted test failed against the mutant */
+    killed: boolean;
+}
+
+export interface TestSuiteEvaluation {
+    /** Every submitted test passed on the reference implementation */
+    passesOnReference: boolean;
+    /** Number of tests found in the submitted suite */
+    testsRun: number;
+    /** Tests that failed on the reference, with their errors */
+    referenceFailures: string[];
+    mutants: MutantOutcome[];
+    /** Killed mutants / all mutants (0-1) */
+    mutationScore: number;
+    /** Covered / executable lines of the reference (0-1) */
+    lineCoverage: number;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Summarize harness reports. The first report must be for the reference.
+ * @param reports - Harness output, reference first
+ * @param mutants - Mutants in the order they were run
+ */
+export function evaluateSuiteReports(
+    reports: readonly SuiteRunReport[],
+    mutants: readonly GeneratedMutant[]
+): TestSuiteEvaluation {
+    const reference = reports.find((r) => r.id === 'reference');
+    const referenceFailures = reference
+        ? [
+            ...(reference.error ? [reference.error] : []),
+            ...reference.tests.filter((t) => !t.passed).map((t) => `${t.name}: ${t.error ?? 'failed'}`),
+        ]
+        : ['Suite did not run against the reference implementation'];
+    const testsRun = reference?.tests.length ?? 0;
+    const passesOnReference = testsRun > 0 && referenceFailures.length === 0;
+
+    const outcomes = mutants.map((mutant) => {
+        const report = reports.find((r) => r.id === mutant.id);
+        const killed = passesOnReference && !!report && (!!report.error || report.tests.some((t) => !t.passed));
+        return { id: mutant.id, description: mutant.description, killed };
+    });
+
+    const coverage = reference?.coverage;
+
+    return {
+        passesOnReference,
+        testsRun,
+        referenceFailures,
+        mutants: outcomes,
+        mutationScore: outcomes.length > 0 ? outcomes.filter((m) => m.killed).length / outcomes.length : 0,
+        lineCoverage: passesOnReference && coverage && coverage.total > 0 ? coverage.covered / coverage.total : 0,
+    };
+}
+
+/**
+ * Turn an evaluation into one result per challenge test case
+ */
+export function gradeTestSuite(challenge: Challenge, evaluation: TestSuiteEvaluation): TestCaseResult[] {
+    return challenge.testCases.map((tc) => {
+        if (!evaluation.passesOnReference) {
+            return {
+                testCaseId: tc.id,
+                passed: false,
+                expectedOutput: tc.expectedOutput,
+                error: evaluation.testsRun === 0
+                    ? 'No tests found in the submitted suite'
+                    : `Suite fails on the reference implementation: ${evaluation.referenceFailures.slice(0, 3).join('; ')}`,
+            };
+        }
+
+        return gradeCheck(tc, evaluation);
+    });
+}
+
+/**
+ * Result for a test suite that could not be run at all
+ */
+export function failTestSuite(challenge: Challenge, error: string): TestCaseResult[] {
+    return challenge.testCases.map((tc) => ({
+        testCaseId: tc.id,
+        passed: false,
+        expectedOutput: tc.expectedOutput,
+        error,
+    }));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function gradeCheck(tc: TestCase, evaluation: TestSuiteEvaluation): TestCaseResult {
+    const check = parseCheck(tc.input);
+
+    switch (check.check) {
+        case 'mutants': {
+            const targeted = evaluation.mutants.filter((m) => check.mutants.includes(m.id));
+            const survivors = targeted.filter((m) => !m.killed);
+            return {
+                testCaseId: tc.id,
+                passed: targeted.length > 0 && survivors.length === 0,
+                actualOutput: { killed: targeted.length - survivors.length, total: targeted.length },
+                expectedOutput: { killed: targeted.length, total: targeted.length },
+                error: survivors.length > 0
+                    ? `Mutants survived: ${survivors.map((m) => m.description).join('; ')}`
+                    : undefined,
+            };
+        }
+        case 'mutation-score': {
+            const passed = evaluation.mutationScore >= check.threshold;
+            return {
+                testCaseId: tc.id,
+                passed,
+                actualOutput: { mutationScore: round(evaluation.mutationScore) },
+                expectedOutput: { mutationScore: check.threshold },
+                error: passed
+                    ? undefined
+                    : `Mutation score ${percent(evaluation.mutationScore)} is below ${percent(check.threshold)}`,
+            };
+        }
+        case 'coverage': {
+            const passed = evaluation.lineCoverage >= check.threshold;
+            return {
+                testCaseId: tc.id,
+                passed,
+                actualOutput: { lineCoverage: round(evaluation.lineCoverage) },
+                expectedOutput: { lineCoverage: check.threshold },
+                error: passed
+                    ? undefined
+                    : `Line coverage ${percent(evaluation.lineCoverage)} is below ${percent(check.threshold)}`,
+            };
+        }
+    }
+}
+
+/**
+ * Read the check from a test case input. Test cases without one only
+ * require the suite to pass on the reference.
+ */
+function parseCheck(input: unknown): TestSuiteCheck {
+    if (input && typeof input === 'object' && 'check' in input) {
+        return input as TestSuiteCheck;
+    }
+    return { check: 'mutation-score', threshold: 0 };
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function percent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
@@ -4,12 +4,26 @@
  * @version 1.0.0
  */
 
-import type { Session, SessionStatus, ChallengeResult, LeaderboardTimeframe } from '../../shared/types/index.js';
+import type {
+    AdaptiveState,
+    ISOTimestamp,
+    Session,
+    SessionStatus,
+    ChallengeResult,
+    LeaderboardTimeframe,
+    SubmissionAttempt,
+} from '../../shared/types/index.js';
 import { getCurrentTimestamp } from '../../shared/utils/index.js';
 import { logger } from '../../shared/utils/logger.js';
+import { InMemorySessionStore, type SessionStore } from './store.js';
 
 export class SessionManager {
-    private sessions: Map<string, Session> = new Map();
+    private readonly store: SessionStore;
+
+    constructor(store: SessionStore = new InMemorySessionStore()) {
+        this.store = store;
+        logger.debug('SessionManager created', 'SessionManager', { store: store.kind });
+    }
 
     async saveSession(session: Session): Promise<void> {
         logger.info('Saving session', 'SessionManager', {
@@ -19,18 +33,19 @@ export class SessionManager {
             challengeCount: session.challengeIds.length,
         });
 
-        this.sessions.set(session.id, session);
+        await this.store.save(session);
 
         logger.debug('Session saved', 'SessionManager', {
             sessionId: session.id,
-            totalSessionsInMemory: this.sessions.size,
+            store: this.store.kind,
+            totalSessions: await this.store.count(),
         });
     }
 
     async getSession(id: string): Promise<Session | null> {
         logger.debug('Getting session', 'SessionManager', { sessionId: id });
 
-        const session = this.sessions.get(id) ?? null;
+        const session = await this.store.get(id);
 
         if (session) {
             logger.debug('Session found', 'SessionManager', {
@@ -42,7 +57,7 @@ export class SessionManager {
         } else {
             logger.warn('Session not found', 'SessionManager', {
                 sessionId: id,
-                availableSessions: Array.from(this.sessions.keys()),
+                store: this.store.kind,
             });
         }
 
@@ -55,7 +70,7 @@ export class SessionManager {
             newStatus: status,
         });
 
-        const session = this.sessions.get(id);
+        const session = await this.store.get(id);
         if (!session) {
             logger.error('Cannot update status - session not found', 'SessionManager', undefined, { sessionId: id });
             throw new Error(`Session not found: ${id}`);
@@ -66,14 +81,16 @@ export class SessionManager {
             ...session,
             status,
             completedAt: status === 'completed' ? getCurrentTimestamp() : session.completedAt,
+            abandonedAt: status === 'abandoned' ? getCurrentTimestamp() : session.abandonedAt,
         };
-        this.sessions.set(id, updated);
+        await this.store.save(updated);
 
         logger.info('Session status updated', 'SessionManager', {
             sessionId: id,
             previousStatus,
             newStatus: status,
             completedAt: updated.completedAt,
+            abandonedAt: updated.abandonedAt,
         });
     }
 
@@ -86,30 +103,46 @@ export class SessionManager {
             passed: result.passed,
         });
 
-        const session = this.sessions.get(sessionId);
+        const session = await this.store.get(sessionId);
         if (!session) {
             logger.error('Cannot add result - session not found', 'SessionManager', undefined, { sessionId });
             throw new Error(`Session not found: ${sessionId}`);
         }
 
-        const updated: Session = {
-            ...session,
-            results: [...session.results, result],
-        };
-        this.sessions.set(sessionId, updated);
+        await this.store.appendResult(sessionId, result);
 
         logger.debug('Result added', 'SessionManager', {
             sessionId,
             challengeId: result.challengeId,
-            totalResults: updated.results.length,
+            totalResults: session.results.length + 1,
             totalChallenges: session.challengeIds.length,
         });
     }
 
+    /**
+     * Store one submission of a repair or sampling session; results are added separately
+     */
+    async addAttempt(sessionId: string, attempt: SubmissionAttempt): Promise<void> {
+        const session = await this.store.get(sessionId);
+        if (!session) {
+            logger.error('Cannot add attempt - session not found', 'SessionManager', undefined, { sessionId });
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        await this.store.appendAttempt(sessionId, attempt);
+
+        logger.debug('Attempt added', 'SessionManager', {
+            sessionId,
+            challengeId: attempt.challengeId,
+            attempt: attempt.attempt,
+            passed: attempt.passed,
+        });
+    }
+
     async advanceChallenge(sessionId: string): Promise<void> {
         logger.debug('Advancing challenge index', 'SessionManager', { sessionId });
 
-        const session = this.sessions.get(sessionId);
+        const session = await this.store.get(sessionId);
         if (!session) {
             logger.error('Cannot advance - session not found', 'SessionManager', undefined, { sessionId });
             throw new Error(`Session not found: ${sessionId}`);
@@ -120,7 +153,7 @@ export class SessionManager {
             ...session,
             currentChallengeIndex: session.currentChallengeIndex + 1,
         };
-        this.sessions.set(sessionId, updated);
+        await this.store.save(updated);
 
         logger.info('Challenge advanced', 'SessionManager', {
             sessionId,
@@ -131,11 +164,76 @@ export class SessionManager {
         });
     }
 
+    /**
+     * Store an adaptive session's new state and append the challenge it picked
+     * @param challengeId - Next challenge; omitted once the session stopped picking
+     */
+    async recordAdaptiveStep(sessionId: string, adaptive: AdaptiveState, challengeId?: string): Promise<void> {
+        const session = await this.store.get(sessionId);
+        if (!session) {
+            logger.error('Cannot record adaptive step - session not found', 'SessionManager', undefined, { sessionId });
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        await this.store.save({
+            ...session,
+            challengeIds: challengeId ? [...session.challengeIds, challengeId] : session.challengeIds,
+            adaptive,
+        });
+
+        logger.debug('Adaptive step recorded', 'SessionManager', {
+            sessionId,
+            challengeId,
+            totalChallenges: session.challengeIds.length + (challengeId ? 1 : 0),
+            stopReason: adaptive.stopReason,
+        });
+    }
+
+    /**
+     * Record when a challenge was first served; later calls keep the first time
+     */
+    async markChallengeServed(sessionId: string, challengeId: string, at: ISOTimestamp): Promise<void> {
+        const session = await this.store.get(sessionId);
+        if (!session) {
+            logger.error('Cannot mark challenge served - session not found', 'SessionManager', undefined, { sessionId });
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        if (session.servedAt?.[challengeId]) return;
+
+        await this.store.save({
+            ...session,
+            servedAt: { ...session.servedAt, [challengeId]: at },
+        });
+
+        logger.debug('Challenge served', 'SessionManager', { sessionId, challengeId, servedAt: at });
+    }
+
+    /**
+     * Sessions with any of the given statuses, most recently started first
+     * @param limit - Most sessions to load; all when omitted
+     */
+    async listSessions(statuses: readonly SessionStatus[], limit?: number): Promise<Session[]> {
+        const sessions = (await Promise.all(statuses.map((status) => this.store.listByStatus(status, limit)))).flat();
+
+        logger.debug('Sessions listed', 'SessionManager', { statuses, limit, count: sessions.length });
+
+        return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, limit);
+    }
+
+    /**
+     * IDs of the given sessions that have one of the statuses, most recently started first.
+     * Only IDs are loaded, not the sessions and their results.
+     * @param limit - Most IDs to return
+     */
+    async listSessionIds(ids: readonly string[], statuses: readonly SessionStatus[], limit: number): Promise<string[]> {
+        return this.store.listIds(ids, statuses, limit);
+    }
+
     async getAllSessionScores(): Promise<number[]> {
         logger.debug('Getting all session scores', 'SessionManager');
 
-        const scores = Array.from(this.sessions.values())
-            .filter((s) => s.status === 'completed')
+        const scores = (await this.store.listByStatus('completed'))
             .map((s) => {
                 const total = s.results.reduce((sum, r) => sum + r.score, 0);
                 const max = s.results.reduce((sum, r) => sum + r.maxScore, 0);
@@ -156,8 +254,7 @@ export class SessionManager {
         const now = new Date();
         const cutoff = this.getTimeframeCutoff(timeframe, now);
 
-        const sessions = Array.from(this.sessions.values())
-            .filter((s) => s.status === 'completed')
+        const sessions = (await this.store.listByStatus('completed'))
             .filter((s) => !cutoff || new Date(s.completedAt ?? s.startedAt) >= cutoff);
 
         logger.debug('Completed sessions retrieved', 'SessionManager', {
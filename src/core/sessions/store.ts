@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Session Stores - Pluggable persistence backends for sessions
+ * @module @mcp/intellibench/core/sessions/store
+ * @version 1.0.0
+ *
+ * SessionManager delegates storage to a SessionStore so sessions can live in
+ * memory (tests, ephemeral runs) or in SQLite (survive restarts, resumable by ID).
+ */
+
+import type { Session, SessionStatus, ChallengeResult, SubmissionAttempt } from '../../shared/types/index.js';
+import { DatabaseManager } from '../persistence/database.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Available session store backends
+ */
+export type SessionStoreKind = 'memory' | 'sqlite';
+
+/**
+ * Storage backend for benchmark sessions
+ */
+export interface SessionStore {
+    /** Backend identifier, used for logging */
+    readonly kind: SessionStoreKind;
+    /** Insert a new session or overwrite the stored state of an existing one */
+    save(session: Session): Promise<void>;
+    /** Load a session together with its results */
+    get(id: string): Promise<Session | null>;
+    /** Persist a challenge result and attach it to its session */
+    appendResult(sessionId: string, result: ChallengeResult): Promise<void>;
+    /** Persist a repair or sampling submission and attach it to its session */
+    appendAttempt(sessionId: string, attempt: SubmissionAttempt): Promise<void>;
+    /** List sessions with the given status; with a limit, only the most recently started */
+    listByStatus(status: SessionStatus, limit?: number): Promise<Session[]>;
+    /** IDs of the given sessions that have one of the statuses, at most limit, most recently started first */
+    listIds(ids: readonly string[], statuses: readonly SessionStatus[], limit: number): Promise<string[]>;
+    /** Number of sessions held by the store */
+    count(): Promise<number>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Keeps sessions in a process-local map; everything is lost on restart
+ */
+export class InMemorySessionStore implements SessionStore {
+    readonly kind = 'memory' as const;
+    private sessions: Map<string, Session> = new Map();
+
+    async save(session: Session): Promise<void> {
+        this.sessions.set(session.id, session);
+    }
+
+    async get(id: string): Promise<Session | null> {
+        return this.sessions.get(id) ?? null;
+    }
+
+    async appendResult(sessionId: string, result: ChallengeResult): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        this.sessions.set(sessionId, {
+            ...session,
+            results: [...session.results, result],
+        });
+    }
+
+    async appendAttempt(sessionId: string, attempt: SubmissionAttempt): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        this.sessions.set(sessionId, {
+            ...session,
+            attempts: [...(session.attempts ?? []), attempt],
+        });
+    }
+
+    async listByStatus(status: SessionStatus, limit?: number): Promise<Session[]> {
+        const sessions = Array.from(this.sessions.values()).filter((s) => s.status === status);
+        if (limit === undefined) return sessions;
+
+        return sessions.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, limit);
+    }
+
+    async listIds(ids: readonly string[], statuses: readonly SessionStatus[], limit: number): Promise<string[]> {
+        return ids
+            .map((id) => this.sessions.get(id))
+            .filter((s): s is Session => s !== undefined && statuses.includes(s.status))
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+            .slice(0, limit)
+            .map((s) => s.id);
+    }
+
+    async count(): Promise<number> {
+        return this.sessions.size;
+    }
+}
+
+// ============================================================================
+// SQLite Store
+// ============================================================================
+
+/**
+ * Persists sessions and their results through DatabaseManager
+ */
+export class SqliteSessionStore implements SessionStore {
+    readonly kind = 'sqlite' as const;
+    private readonly db: DatabaseManager;
+
+    constructor(db: DatabaseManager) {
+        this.db = db;
+    }
+
+    async save(session: Session): Promise<void> {
+        if (this.db.getSession(session.id)) {
+            this.db.updateSession(session);
+        } else {
+            this.db.saveSession(session);
+        }
+    }
+
+    async get(id: string): Promise<Session | null> {
+        const session = this.db.getSession(id);
+        if (!session) return null;
+
+        return this.withResults(session);
+    }
+
+    async appendResult(sessionId: string, result: ChallengeResult): Promise<void> {
+        if (!this.db.getSession(sessionId)) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        this.db.saveChallengeResult(result);
+    }
+
+    async appendAttempt(sessionId: string, attempt: SubmissionAttempt): Promise<void> {
+        if (!this.db.getSession(sessionId)) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        this.db.saveSubmissionAttempt(attempt);
+    }
+
+    async listByStatus(status: SessionStatus, limit?: number): Promise<Session[]> {
+        return this.db.getSessionsByStatus(status, limit).map((session) => this.withResults(session));
+    }
+
+    async listIds(ids: readonly string[], statuses: readonly SessionStatus[], limit: number): Promise<string[]> {
+        return this.db.getSessionIds(ids, statuses, limit);
+    }
+
+    async count(): Promise<number> {
+        return this.db.countSessions();
+    }
+
+    /**
+     * Attach results, and attempts for sessions that made any
+     */
+    private withResults(session: Session): Session {
+        const attempts = this.db.getSubmissionAttempts(session.id);
+        return {
+            ...session,
+            results: this.db.getChallengeResults(session.id),
+            ...(attempts.length > 0 ? { attempts } : {}),
+        };
+    }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a session store: SQLite-backed on the shared database, in memory without one
+ * @param db - Database shared by every store, from openDatabase
+ */
+export function createSessionStore(db?: DatabaseManager): SessionStore {
+    return db ? new SqliteSessionStore(db) : new InMemorySessionStore();
+}
@@ -184,6 +184,20 @@ export const algorithmChallenges: Challenge[] = [
             { id: 'tc3', name: 'No edges', input: [3, []], expectedOutput: [0, 1, 2], isHidden: false, points: 25 },
             { id: 'tc4', name: 'Complex DAG', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'custom-checker-function',
+            // Any order that respects every edge is correct
+            checker: `(actual, expected, input) => {
+                if (expected === true) return actual !== null;
+                if (!Array.isArray(actual) || !Array.isArray(expected)) return false;
+                if (expected.length === 0) return actual.length === 0;
+                const [n, edges] = input;
+                const position = new Map(actual.map((node, i) => [node, i]));
+                if (actual.length !== n || position.size !== n) return false;
+                for (let node = 0; node < n; node++) if (!position.has(node)) return false;
+                return edges.every(([from, to]) => position.get(from) < position.get(to));
+            }`,
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
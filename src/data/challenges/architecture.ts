@@ -38,6 +38,15 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc3', name: 'Database design', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Trade-offs discussed', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['base ?62|base-62|hash|encod', 'redirect|301|302', 'custom|alias|vanity'] },
+                tc2: { patterns: ['cache|redis|memcached|cdn', 'shard|partition|replica|load balanc|horizontal'] },
+                tc3: { patterns: ['schema|table|collection', 'index|primary key|unique'] },
+                tc4: { patterns: ['trade-?offs?|pros and cons|drawback|downside|alternative'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -74,6 +83,21 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc3', name: 'Saga pattern', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Observability', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: {
+                    patterns: [
+                        'Inventory\\w*(?:Reserved|Checked|Failed|Event)',
+                        'Payment\\w*(?:Processed|Completed|Succeeded|Failed|Event)',
+                        'Shipped|Shipment|Shipping\\w*Event',
+                    ],
+                },
+                tc2: { patterns: ['retr(?:y|ies)', 'dead[- ]?letter|DLQ|backoff|idempoten'] },
+                tc3: { patterns: ['saga', 'compensat'] },
+                tc4: { patterns: ['trac(?:e|ing)|correlation', 'metric|monitor|logg|alert'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -110,6 +134,15 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc3', name: 'Edge cases', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Performance', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['token bucket|leaky bucket|sliding window|fixed window|GCRA'] },
+                tc2: { patterns: ['redis|memcached|shared store|consistent hash', 'atomic|lua|INCR|MULTI|race condition'] },
+                tc3: { patterns: ['burst', 'clock|fail[- ]?open|fail[- ]?closed|unavailable|outage'] },
+                tc4: { patterns: ['X-RateLimit|Retry-After|\\b429\\b', 'latency|local cache|in-memory|pipelin|O\\(1\\)'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -148,6 +181,16 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc4', name: 'Scalability', input: null, expectedOutput: true, isHidden: false, points: 20 },
             { id: 'tc5', name: 'Security', input: null, expectedOutput: true, isHidden: true, points: 20 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['websocket|socket\\.io|server-sent|\\bSSE\\b|long[- ]poll', 'presence|heartbeat|online'] },
+                tc2: { patterns: ['\\bsent\\b', '\\bdelivered\\b', '\\bread\\b|\\bseen\\b', '\\back(?:nowledge)?'], minMatches: 3 },
+                tc3: { patterns: ['offline', 'sync|cursor|last[_ ]?seen|sequence|since'] },
+                tc4: { patterns: ['shard|partition|horizontal|load balanc|pub/?sub|kafka|redis'] },
+                tc5: { patterns: ['end-to-end|\\be2e\\b|signal protocol|encrypt', 'auth|jwt|token|tls'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -184,6 +227,15 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc3', name: 'Dependencies', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Security sandboxing', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['\\bactivate\\b|\\bregister\\w*\\s*\\(', 'command|contribut|extension point|hook'] },
+                tc2: { patterns: ['activate|load|init', 'deactivate|unload|dispose|destroy', 'hot[- ]?reload'], minMatches: 2 },
+                tc3: { patterns: ['dependenc', 'semver|version|topolog|cycl'] },
+                tc4: { patterns: ['sandbox|isolat|worker|iframe|\\bvm\\b', 'permission|capabilit|allowlist|whitelist'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -222,6 +274,16 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc4', name: 'Real-time updates', input: null, expectedOutput: true, isHidden: false, points: 20 },
             { id: 'tc5', name: 'Scalability', input: null, expectedOutput: true, isHidden: true, points: 20 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['elasticsearch|opensearch|solr|meilisearch|typesense|algolia|lucene'] },
+                tc2: { patterns: ['inverted index|analy[sz]er|tokeni[sz]|mapping|n-?gram'] },
+                tc3: { patterns: ['bm25|tf-?idf|boost|relevance scor|scoring'] },
+                tc4: { patterns: ['real-?time|change data capture|\\bCDC\\b|kafka|queue|incremental'] },
+                tc5: { patterns: ['shard|replica|cluster|horizontal'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
@@ -257,6 +319,20 @@ export const architectureChallenges: Challenge[] = [
             { id: 'tc3', name: 'Event sourcing', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Consistency handling', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['CommandHandler|command handler|handle\\w*\\(\\s*\\w*command', 'aggregate|validat|invariant'] },
+                tc2: {
+                    patterns: [
+                        'read model|ReadModel|QueryHandler|query handler|\\w+Query\\b',
+                        'projection|denormali|materiali[sz]ed view',
+                    ],
+                },
+                tc3: { patterns: ['event ?store|append', 'replay|rehydrat|rebuild|snapshot'] },
+                tc4: { patterns: ['eventual(?:ly)? consisten', 'idempoten|version|optimistic|concurrency|retry'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 600,
         memoryLimit: 256,
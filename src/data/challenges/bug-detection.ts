@@ -215,6 +215,7 @@ calculateDiscount(19.99, 0.15);
             { id: 'tc3', name: 'Zero discount', input: [50, 0], expectedOutput: 50, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Full discount', input: [100, 1], expectedOutput: 0, isHidden: true, points: 25 },
         ],
+        grader: { type: 'float-tolerance', tolerance: 0.01 },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -64,6 +64,28 @@ function memoize(fn) {
             { id: 'tc3', name: 'Examples included', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Types specified', input: null, expectedOutput: true, isHidden: true, points: 20 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: {
+                    patterns: [
+                        '/\\*\\*[\\s\\S]*?\\*/\\s*(?:export\\s+)?(?:function\\s+|const\\s+)debounce\\b',
+                        '/\\*\\*[\\s\\S]*?\\*/\\s*(?:export\\s+)?(?:function\\s+|const\\s+)throttle\\b',
+                        '/\\*\\*[\\s\\S]*?\\*/\\s*(?:export\\s+)?(?:function\\s+|const\\s+)memoize\\b',
+                    ],
+                },
+                tc2: {
+                    patterns: [
+                        '@param\\s+(?:\\{[^}]+\\}\\s+)?\\[?fn\\b',
+                        '@param\\s+(?:\\{[^}]+\\}\\s+)?\\[?delay\\b',
+                        '@param\\s+(?:\\{[^}]+\\}\\s+)?\\[?limit\\b',
+                        '@returns?\\b',
+                    ],
+                },
+                tc3: { patterns: ['@example[\\s\\S]*@example[\\s\\S]*@example'] },
+                tc4: { patterns: ['@param\\s+\\{[^}]+\\}', '@returns?\\s+\\{[^}]+\\}'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -102,6 +124,15 @@ function memoize(fn) {
             { id: 'tc3', name: 'Auth documented', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Examples included', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['/auth/login', '/auth/register', '/users/(?:\\{id\\}|:id)', '/posts\\b'] },
+                tc2: { patterns: ['^\\s*"?schemas"?\\s*:', '\\$ref'] },
+                tc3: { patterns: ['securitySchemes', 'bearer|jwt', '^\\s*"?security"?\\s*:'], minMatches: 2 },
+                tc4: { patterns: ['^\\s*"?examples?"?\\s*:'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -133,6 +164,15 @@ function memoize(fn) {
             { id: 'tc3', name: 'API reference', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Contributing guide', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['^#+\\s*install', 'npm (?:install|i)\\b|yarn add|pnpm add'] },
+                tc2: { patterns: ['^#+\\s*(?:usage|quick ?start|getting started|examples?)\\b', '```'] },
+                tc3: { patterns: ['^#+\\s*(?:api|reference)\\b'] },
+                tc4: { patterns: ['^#+\\s*contribut', 'pull request|fork|issue'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -194,6 +234,15 @@ function findMedianSortedArrays(nums1: number[], nums2: number[]): number {
             { id: 'tc3', name: 'Example walkthrough', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Diagrams/visuals', input: null, expectedOutput: true, isHidden: true, points: 20 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['partition', 'binary search', 'median'] },
+                tc2: { patterns: ['time[\\s\\S]{0,80}O\\(\\s*log', 'space[\\s\\S]{0,80}O\\(\\s*1\\s*\\)'] },
+                tc3: { patterns: ['example|walkthrough|step \\d', '\\[\\s*-?\\d+(?:\\s*,\\s*-?\\d+)+\\s*\\]'] },
+                tc4: { patterns: ['[|+][-=]{3,}|[-=]{3,}[|+]|-->|->|[│┌└├]'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -243,6 +292,28 @@ type ExtractRouteParams<T extends string> =
             { id: 'tc2', name: 'Usage examples', input: null, expectedOutput: true, isHidden: false, points: 30 },
             { id: 'tc3', name: 'Logic explained', input: null, expectedOutput: true, isHidden: true, points: 40 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['DeepPartial', 'Prettify', 'UnionToIntersection', 'ExtractRouteParams'] },
+                tc2: {
+                    patterns: [
+                        '@example|\\bexamples?\\b|\\busage\\b',
+                        '(?:type|const|let)\\s+\\w+\\s*(?::|=)\\s*(?:DeepPartial|Prettify|UnionToIntersection|ExtractRouteParams)<',
+                    ],
+                },
+                tc3: {
+                    patterns: [
+                        'conditional type',
+                        '\\binfer\\b',
+                        'distribut',
+                        'contravarian|intersection',
+                        'template literal',
+                    ],
+                    minMatches: 3,
+                },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -278,6 +349,22 @@ type ExtractRouteParams<T extends string> =
             { id: 'tc3', name: 'Migration guide', input: null, expectedOutput: true, isHidden: false, points: 25 },
             { id: 'tc4', name: 'Proper format', input: null, expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: {
+                    patterns: [
+                        '^#+\\s*(?:\\W*\\s*)?breaking',
+                        '^#+\\s*(?:added|(?:new )?features?)\\b',
+                        '^#+\\s*(?:fixed|bug ?fixes)\\b',
+                        '^#+\\s*deprecat',
+                    ],
+                },
+                tc2: { patterns: ['renamed', 'node(?:\\.js)?\\s*(?:v)?14'] },
+                tc3: { patterns: ['migrat', 'before|after|instead|replace|->|→'] },
+                tc4: { patterns: ['^### (?:Added|Changed|Deprecated|Removed|Fixed|Security)\\b', '#\\d+|\\]\\(https?://'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -72,6 +72,24 @@ function UserComment({ comment }: { comment: string }) {
             { id: 'tc2', name: 'Script injection', input: '<script>alert("xss")</script>', expectedOutput: true, isHidden: false, points: 50 },
             { id: 'tc3', name: 'Event handler', input: '<img onerror="alert(1)" src="x">', expectedOutput: true, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['>\\s*\\{\\s*comment\\s*\\}\\s*<|DOMPurify\\.sanitize\\(|sanitize\\w*\\('] },
+                tc2: {
+                    patterns: [
+                        '>\\s*\\{\\s*comment\\s*\\}\\s*<|DOMPurify\\.sanitize\\(|sanitize\\w*\\(',
+                    ],
+                    forbidden: ['__html\\s*:\\s*comment\\b'],
+                },
+                tc3: {
+                    patterns: [
+                        '>\\s*\\{\\s*comment\\s*\\}\\s*<|DOMPurify\\.sanitize\\(|sanitize\\w*\\(',
+                    ],
+                    forbidden: ['__html\\s*:\\s*comment\\b'],
+                },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -138,6 +156,14 @@ app.get('/files/:filename', (req, res) => {
             { id: 'tc2', name: 'Path traversal', input: '../../../etc/passwd', expectedOutput: 403, isHidden: false, points: 50 },
             { id: 'tc3', name: 'URL encoded', input: '..%2F..%2Fetc%2Fpasswd', expectedOutput: 403, isHidden: true, points: 25 },
         ],
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['sendFile\\('] },
+                tc2: { patterns: ['path\\.(?:resolve|normalize|basename)\\(', '403|forbidden'] },
+                tc3: { patterns: ['path\\.basename\\(|startsWith\\(|decodeURIComponent\\(', '403|forbidden'] },
+            },
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -24,7 +24,10 @@ class Calculator {
   }
   power(base: number, exponent: number): number { return Math.pow(base, exponent); }
 }
-\`\`\``,
+\`\`\`
+
+\`Calculator\` is available to your tests; importing it or the test functions is optional.
+Your suite is run against this implementation and against faulty variants of it.`,
         category: ChallengeCategory.TEST_GENERATION,
         difficulty: 3,
         difficultyTier: Difficulty.EASY,
@@ -40,11 +43,84 @@ class Calculator {
             signature: 'Jest/Vitest test suite for Calculator',
         }],
         testCases: [
-            { id: 'tc1', name: 'All methods tested', input: null, expectedOutput: true, isHidden: false, points: 25 },
-            { id: 'tc2', name: 'Edge cases covered', input: null, expectedOutput: true, isHidden: false, points: 25 },
-            { id: 'tc3', name: 'Error handling tested', input: null, expectedOutput: true, isHidden: false, points: 25 },
-            { id: 'tc4', name: 'Full coverage', input: null, expectedOutput: true, isHidden: true, points: 25 },
+            {
+                id: 'tc1',
+                name: 'All methods tested',
+                input: {
+                    check: 'mutants',
+                    mutants: ['add_subtracts', 'subtract_adds', 'multiply_adds', 'divide_multiplies', 'power_multiplies'],
+                },
+                expectedOutput: true,
+                isHidden: false,
+                points: 25,
+            },
+            {
+                id: 'tc2',
+                name: 'Edge cases covered',
+                input: { check: 'mutation-score', threshold: 0.8 },
+                expectedOutput: true,
+                isHidden: false,
+                points: 25,
+            },
+            {
+                id: 'tc3',
+                name: 'Error handling tested',
+                input: { check: 'mutants', mutants: ['divide_no_zero_check'] },
+                expectedOutput: true,
+                isHidden: false,
+                points: 25,
+            },
+            {
+                id: 'tc4',
+                name: 'Full coverage',
+                input: { check: 'coverage', threshold: 1 },
+                expectedOutput: true,
+                isHidden: true,
+                points: 25,
+            },
         ],
+        testSuite: {
+            reference: `class Calculator {
+  add(a, b) { return a + b; }
+  subtract(a, b) { return a - b; }
+  multiply(a, b) { return a * b; }
+  divide(a, b) {
+    if (b === 0) throw new Error('Division by zero');
+    return a / b;
+  }
+  power(base, exponent) { return Math.pow(base, exponent); }
+}`,
+            exports: ['Calculator'],
+            mutants: [
+                { id: 'add_subtracts', description: 'add() subtracts', find: 'return a + b;', replace: 'return a - b;' },
+                { id: 'subtract_adds', description: 'subtract() adds', find: 'return a - b;', replace: 'return a + b;' },
+                { id: 'multiply_adds', description: 'multiply() adds', find: 'return a * b;', replace: 'return a + b;' },
+                { id: 'divide_multiplies', description: 'divide() multiplies', find: 'return a / b;', replace: 'return a * b;' },
+                { id: 'power_multiplies', description: 'power() multiplies', find: 'Math.pow(base, exponent)', replace: 'base * exponent' },
+                { id: 'subtract_abs', description: 'subtract() never returns a negative number', find: 'return a - b;', replace: 'return Math.abs(a - b);' },
+                { id: 'multiply_abs', description: 'multiply() ignores signs', find: 'return a * b;', replace: 'return Math.abs(a * b);' },
+                {
+                    id: 'power_zero_exponent',
+                    description: 'power() returns 0 for a zero exponent',
+                    find: 'return Math.pow(base, exponent);',
+                    replace: 'return exponent === 0 ? 0 : Math.pow(base, exponent);',
+                },
+                {
+                    id: 'add_clamped',
+                    description: 'add() overflows at 32-bit integers',
+                    find: 'return a + b;',
+                    replace: 'return Math.min(a + b, 2147483647);',
+                },
+                {
+                    id: 'divide_no_zero_check',
+                    description: 'divide() does not reject division by zero',
+                    find: "if (b === 0) throw new Error('Division by zero');",
+                    replace: '',
+                },
+            ],
+            generatedMutants: 3,
+            seed: 1,
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -80,7 +156,10 @@ class UserService {
     if (!response.ok) throw new Error('Failed to delete user');
   }
 }
-\`\`\``,
+\`\`\`
+
+\`UserService\` is available to your tests; importing it or the test functions is optional.
+Your suite is run against this implementation and against faulty variants of it.`,
         category: ChallengeCategory.TEST_GENERATION,
         difficulty: 5,
         difficultyTier: Difficulty.MEDIUM,
@@ -96,12 +175,125 @@ class UserService {
             signature: 'Jest/Vitest test suite with mocks',
         }],
         testCases: [
-            { id: 'tc1', name: 'Get user success', input: null, expectedOutput: true, isHidden: false, points: 20 },
-            { id: 'tc2', name: 'Get user failure', input: null, expectedOutput: true, isHidden: false, points: 20 },
-            { id: 'tc3', name: 'Create user', input: null, expectedOutput: true, isHidden: false, points: 20 },
-            { id: 'tc4', name: 'Delete user', input: null, expectedOutput: true, isHidden: false, points: 20 },
-            { id: 'tc5', name: 'Mocking correct', input: null, expectedOutput: true, isHidden: true, points: 20 },
+            {
+                id: 'tc1',
+                name: 'Get user success',
+                input: { check: 'mutants', mutants: ['get_user_returns_response'] },
+                expectedOutput: true,
+                isHidden: false,
+                points: 20,
+            },
+            {
+                id: 'tc2',
+                name: 'Get user failure',
+                input: { check: 'mutants', mutants: ['get_user_ignores_errors'] },
+                expectedOutput: true,
+                isHidden: false,
+                points: 20,
+            },
+            {
+                id: 'tc3',
+                name: 'Create user',
+                input: { check: 'mutants', mutants: ['create_user_ignores_errors', 'create_user_returns_input'] },
+                expectedOutput: true,
+                isHidden: false,
+                points: 20,
+            },
+            {
+                id: 'tc4',
+                name: 'Delete user',
+                input: { check: 'mutants', mutants: ['delete_user_ignores_errors'] },
+                expectedOutput: true,
+                isHidden: false,
+                points: 20,
+            },
+            {
+                id: 'tc5',
+                name: 'Mocking correct',
+                input: {
+                    check: 'mutants',
+                    mutants: ['get_user_wrong_path', 'create_user_drops_payload', 'delete_user_wrong_method'],
+                },
+                expectedOutput: true,
+                isHidden: true,
+                points: 20,
+            },
         ],
+        testSuite: {
+            reference: `class UserService {
+  constructor(api) {
+    this.api = api;
+  }
+
+  async getUser(id) {
+    const response = await this.api.get('/users/' + id);
+    if (!response.ok) throw new Error('User not found');
+    return response.data;
+  }
+
+  async createUser(data) {
+    const response = await this.api.post('/users', data);
+    if (!response.ok) throw new Error('Failed to create user');
+    return response.data;
+  }
+
+  async deleteUser(id) {
+    const response = await this.api.delete('/users/' + id);
+    if (!response.ok) throw new Error('Failed to delete user');
+  }
+}`,
+            exports: ['UserService'],
+            mutants: [
+                {
+                    id: 'get_user_returns_response',
+                    description: 'getUser() returns the raw response',
+                    find: "throw new Error('User not found');\n    return response.data;",
+                    replace: "throw new Error('User not found');\n    return response;",
+                },
+                {
+                    id: 'get_user_ignores_errors',
+                    description: 'getUser() does not throw for failed responses',
+                    find: "if (!response.ok) throw new Error('User not found');",
+                    replace: '',
+                },
+                {
+                    id: 'get_user_wrong_path',
+                    description: 'getUser() requests the wrong path',
+                    find: "this.api.get('/users/' + id)",
+                    replace: "this.api.get('/user/' + id)",
+                },
+                {
+                    id: 'create_user_ignores_errors',
+                    description: 'createUser() does not throw for failed responses',
+                    find: "if (!response.ok) throw new Error('Failed to create user');",
+                    replace: '',
+                },
+                {
+                    id: 'create_user_returns_input',
+                    description: 'createUser() returns its input instead of the created user',
+                    find: "throw new Error('Failed to create user');\n    return response.data;",
+                    replace: "throw new Error('Failed to create user');\n    return data;",
+                },
+                {
+                    id: 'create_user_drops_payload',
+                    description: 'createUser() posts an empty body',
+                    find: "this.api.post('/users', data)",
+                    replace: "this.api.post('/users', {})",
+                },
+                {
+                    id: 'delete_user_ignores_errors',
+                    description: 'deleteUser() does not throw for failed responses',
+                    find: "if (!response.ok) throw new Error('Failed to delete user');",
+                    replace: '',
+                },
+                {
+                    id: 'delete_user_wrong_method',
+                    description: 'deleteUser() sends GET instead of DELETE',
+                    find: "this.api.delete('/users/' + id)",
+                    replace: "this.api.get('/users/' + id)",
+                },
+            ],
+        },
         maxScore: 100,
         timeLimit: 300,
         memoryLimit: 256,
@@ -4,7 +4,12 @@
  * @version 1.0.0
  */
 
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { MCP_PROMPTS } from '../../shared/constants/index.js';
+import { ChallengeCategory } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
 
 // ============================================================================
 // Types
@@ -14,6 +19,7 @@ import { MCP_PROMPTS } from '../../shared/constants/index.js';
  * Prompt result
  */
 export interface PromptResult {
+    [key: string]: unknown;
     description?: string;
     messages: Array<{
         role: 'user' | 'assistant';
@@ -55,6 +61,43 @@ export const promptDefinitions = [
     },
 ];
 
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Mount every prompt on an MCP server, completing category arguments
+ */
+export function registerPrompts(server: McpServer): void {
+    const completeCategory = (value: string | undefined): string[] =>
+        Object.values(ChallengeCategory).filter((category) => category.startsWith(value ?? ''));
+
+    // The SDK checks the optional's inner type when enabling completions but
+    // the argument itself when answering them, so both carry the completer
+    const categoryArgument = completable(
+        completable(z.string(), completeCategory).optional().describe('Optional specific category to get tips for'),
+        completeCategory
+    );
+
+    for (const definition of promptDefinitions) {
+        if (definition.arguments.some((arg) => arg.name === 'category')) {
+            server.registerPrompt(
+                definition.name,
+                { description: definition.description, argsSchema: { category: categoryArgument } },
+                async (args) => handlePromptGet(definition.name, args)
+            );
+        } else {
+            server.registerPrompt(
+                definition.name,
+                { description: definition.description },
+                async () => handlePromptGet(definition.name, {})
+            );
+        }
+    }
+
+    logger.debug('Prompts registered', 'MCP', { prompts: promptDefinitions.map((p) => p.name) });
+}
+
 // ============================================================================
 // Prompt Handlers
 // ============================================================================
@@ -4,7 +4,10 @@
  * @version 1.0.0
  */
 
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { MCP_RESOURCES } from '../../shared/constants/index.js';
+import type { SessionStatus } from '../../shared/types/index.js';
+import { logger } from '../../shared/utils/logger.js';
 import type { BenchmarkEngine } from '../../core/benchmark/engine.js';
 import type { SessionManager } from '../../core/sessions/manager.js';
 import type { ChallengeRepository } from '../../core/challenges/repository.js';
@@ -20,20 +23,44 @@ export interface ResourceContext {
     benchmarkEngine: BenchmarkEngine;
     sessionManager: SessionManager;
     challengeRepository: ChallengeRepository;
+    /**
+     * Sessions this client started or resumed. Session IDs are all a tool call needs
+     * to act on a session, so a client is never offered the IDs of anyone else's.
+     */
+    clientSessionIds?: ReadonlySet<string>;
 }
 
 /**
  * Resource read result
  */
 export interface ResourceResult {
+    [key: string]: unknown;
     contents: Array<{
         uri: string;
         mimeType: string;
-        text?: string;
-        blob?: string;
+        text: string;
     }>;
 }
 
+/**
+ * Resource definition. Templated URIs take a `{sessionId}` drawn from the client's
+ * own sessions with the listed statuses.
+ */
+export interface ResourceDefinition {
+    readonly uri: string;
+    readonly name: string;
+    readonly description: string;
+    readonly mimeType: string;
+    readonly sessionStatuses?: readonly SessionStatus[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Most session IDs listed or offered for completion */
+const MAX_COMPLETIONS = 100;
+
 // ============================================================================
 // Resource Definitions
 // ============================================================================
@@ -41,7 +68,7 @@ export interface ResourceResult {
 /**
  * MCP Resource definitions
  */
-export const resourceDefinitions = [
+export const resourceDefinitions: readonly ResourceDefinition[] = [
     {
         uri: MCP_RESOURCES.CHALLENGES,
         name: 'Available Challenges',
@@ -53,12 +80,14 @@ export const resourceDefinitions = [
         name: 'Session Details',
         description: 'Get details of a specific benchmark session',
         mimeType: 'application/json',
+        sessionStatuses: ['in_progress', 'completed', 'abandoned'],
     },
     {
         uri: `${MCP_RESOURCES.RESULTS}/{sessionId}`,
         name: 'Session Results',
         description: 'Get comprehensive results for a completed session',
         mimeType: 'application/json',
+        sessionStatuses: ['completed'],
     },
     {
         uri: MCP_RESOURCES.LEADERBOARD,
@@ -66,8 +95,59 @@ export const resourceDefinitions = [
         description: 'Current benchmark leaderboard',
         mimeType: 'application/json',
     },
+    {
+        uri: MCP_RESOURCES.CALIBRATION,
+        name: 'Calibration',
+        description: 'Latest IRT calibration: fitted challenge difficulty and discrimination, model abilities and difficulty flags',
+        mimeType: 'application/json',
+    },
 ];
 
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Mount every resource on an MCP server. Session resources are templates whose
+ * `sessionId` can be listed and completed from the client's own sessions.
+ */
+export function registerResources(server: McpServer, context: ResourceContext): void {
+    for (const definition of resourceDefinitions) {
+        const metadata = { description: definition.description, mimeType: definition.mimeType };
+        const read = async (uri: URL): Promise<ResourceResult> => handleResourceRead(uri.href, context);
+        const statuses = definition.sessionStatuses;
+
+        if (!statuses) {
+            server.registerResource(definition.name, definition.uri, metadata, read);
+            continue;
+        }
+
+        const clientSessionIds = (prefix = ''): Promise<string[]> =>
+            context.sessionManager.listSessionIds(
+                [...(context.clientSessionIds ?? [])].filter((id) => id.startsWith(prefix)),
+                statuses,
+                MAX_COMPLETIONS
+            );
+
+        const template = new ResourceTemplate(definition.uri, {
+            list: async () => ({
+                resources: (await clientSessionIds()).map((id) => ({
+                    uri: definition.uri.replace('{sessionId}', id),
+                    name: `${definition.name}: ${id}`,
+                    mimeType: definition.mimeType,
+                })),
+            }),
+            complete: {
+                sessionId: (value) => clientSessionIds(value),
+            },
+        });
+
+        server.registerResource(definition.name, template, metadata, read);
+    }
+
+    logger.debug('Resources registered', 'MCP', { resources: resourceDefinitions.map((r) => r.uri) });
+}
+
 // ============================================================================
 // Resource Handlers
 // ============================================================================
@@ -79,10 +159,9 @@ export async function handleResourceRead(
     uri: string,
     context: ResourceContext
 ): Promise<ResourceResult> {
-    // Parse the URI
+    // Parse the URI; the first segment after the scheme is the URL host
     const url = new URL(uri);
-    const path = url.pathname;
-    const pathParts = path.split('/').filter(Boolean);
+    const pathParts = [url.host, ...url.pathname.split('/')].filter(Boolean);
 
     // Route to appropriate handler
     if (uri === MCP_RESOURCES.CHALLENGES) {
@@ -93,6 +172,10 @@ export async function handleResourceRead(
         return await handleLeaderboardResource(context);
     }
 
+    if (uri === MCP_RESOURCES.CALIBRATION) {
+        return await handleCalibrationResource(context);
+    }
+
     if (uri.startsWith(MCP_RESOURCES.SESSIONS) && pathParts.length >= 2) {
         const sessionId = pathParts[1];
         if (sessionId) {
@@ -184,7 +267,8 @@ async function handleSessionResource(
 }
 
 /**
- * Handle results resource
+ * Handle results resource. Test reports come back from the benchmark engine
+ * already redacted under the hidden test reveal policy.
  */
 async function handleResultsResource(
     sessionId: string,
@@ -223,6 +307,23 @@ async function handleLeaderboardResource(context: ResourceContext): Promise<Reso
     };
 }
 
+/**
+ * Handle calibration resource: the stored result of the last calibration run
+ */
+async function handleCalibrationResource(context: ResourceContext): Promise<ResourceResult> {
+    const calibration = await context.benchmarkEngine.getCalibration();
+
+    return {
+        contents: [
+            {
+                uri: MCP_RESOURCES.CALIBRATION,
+                mimeType: 'application/json',
+                text: JSON.stringify(calibration, null, 2),
+            },
+        ],
+    };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
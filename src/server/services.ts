@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Service wiring shared by every MCP server entry point
+ * @module @mcp/intellibench/server/services
+ * @version 1.0.0
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import { BenchmarkEngine } from '../core/benchmark/engine.js';
+import { SessionReaper, resolveReaperOptions } from '../core/benchmark/reaper.js';
+import { ScoringEngine } from '../core/scoring/engine.js';
+import { ChallengeRepository } from '../core/challenges/repository.js';
+import { SessionManager } from '../core/sessions/manager.js';
+import { createSessionStore, type SessionStoreKind } from '../core/sessions/store.js';
+import { ModelRegistry } from '../core/models/registry.js';
+import { createModelStore } from '../core/models/store.js';
+import { createLeaderboardStore } from '../core/leaderboard/store.js';
+import { createCalibrationStore } from '../core/calibration/store.js';
+import { openDatabase } from '../core/persistence/database.js';
+import { HiddenTestRedactor } from '../core/redaction/redactor.js';
+import { registerResources } from './resources/index.js';
+import { registerPrompts } from './prompts/index.js';
+import { registerTools } from './tools/index.js';
+import { MCP_SERVER, DEFAULT_DATABASE_CONFIG } from '../shared/constants/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Services shared by every MCP server of one process
+ */
+export interface ServerServices {
+    challengeRepository: ChallengeRepository;
+    scoringEngine: ScoringEngine;
+    sessionManager: SessionManager;
+    benchmarkEngine: BenchmarkEngine;
+    sessionReaper: SessionReaper;
+}
+
+// ============================================================================
+// Factories
+// ============================================================================
+
+/**
+ * Build the services from SESSION_STORE, DATABASE_PATH, HIDDEN_TEST_REVEAL
+ * and the reaper settings; the challenge repository still needs initializing
+ */
+export function createServices(env: NodeJS.ProcessEnv = process.env): ServerServices {
+    const challengeRepository = new ChallengeRepository();
+    const scoringEngine = new ScoringEngine();
+    const storeKind = (env['SESSION_STORE'] ?? DEFAULT_DATABASE_CONFIG.SESSION_STORE) as SessionStoreKind;
+    // One connection shared by every store; without it all of them keep to memory
+    const database = openDatabase(storeKind, env['DATABASE_PATH']);
+    const sessionManager = new SessionManager(createSessionStore(database));
+    const benchmarkEngine = new BenchmarkEngine(
+        challengeRepository,
+        scoringEngine,
+        sessionManager,
+        new HiddenTestRedactor(env['HIDDEN_TEST_REVEAL']),
+        new ModelRegistry(createModelStore(database)),
+        createLeaderboardStore(database),
+        createCalibrationStore(database)
+    );
+    const sessionReaper = new SessionReaper(benchmarkEngine, resolveReaperOptions(env));
+
+    return { challengeRepository, scoringEngine, sessionManager, benchmarkEngine, sessionReaper };
+}
+
+/**
+ * Create an MCP server for one client, exposing the shared services
+ */
+export function createMcpServer(services: ServerServices): McpServer {
+    const { benchmarkEngine, sessionManager, challengeRepository, scoringEngine } = services;
+    const server = new McpServer({
+        name: MCP_SERVER.NAME,
+        version: MCP_SERVER.VERSION,
+    });
+
+    // Sessions this client started or resumed, the only ones its resources list
+    const clientSessionIds = new Set<string>();
+    registerTools(server, {
+        benchmarkEngine,
+        sessionManager,
+        challengeRepository,
+        scoringEngine,
+        clientSessionIds,
+    });
+    registerResources(server, { benchmarkEngine, sessionManager, challengeRepository, clientSessionIds });
+    registerPrompts(server);
+
+    return server;
+}
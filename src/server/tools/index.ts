@@ -2,12 +2,38 @@
  * @fileoverview MCP Tools Definitions and Handlers
  * @module @mcp/intellibench/server/tools
  * @version 1.0.0
+ *
+ * Every tool is declared once here, with its zod input and output schemas and
+ * handler. The stdio server and the Vercel handler both mount this registry with
+ * `registerTools`, so both deployments expose the same tools and parameters.
+ * Results carry their data as `structuredContent` matching the output schema,
+ * and as JSON text for clients that only read content blocks.
  */
 
 import { z } from 'zod';
-import type { ChallengeCategory, Difficulty } from '../../shared/types/index.js';
-import { MCP_TOOLS } from '../../shared/constants/index.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CreateMessageRequestParamsBase, CreateMessageResult, Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { ChallengeCategory, type Difficulty, type SubmissionResult } from '../../shared/types/index.js';
+import {
+    CalibrationSchema,
+    ChallengeResultSchema,
+    ChallengeSummarySchema,
+    ChallengeViewSchema,
+    LateSubmissionPolicySchema,
+    LeaderboardSchema,
+    ModelProfileSchema,
+    ProgrammingLanguageSchema,
+    SessionModelSchema,
+    SessionResultsSchema,
+    SessionSchema,
+    TestCaseReportSchema,
+} from '../../shared/schemas/index.js';
+import { DEFAULT_AUTORUN_CONFIG, DEFAULT_REPAIR_CONFIG, DEFAULT_SAMPLING_CONFIG, LIMITS, MCP_RESOURCES, MCP_TOOLS } from '../../shared/constants/index.js';
+import { logger } from '../../shared/utils/logger.js';
 import type { BenchmarkEngine } from '../../core/benchmark/engine.js';
+import { AUTORUN_SYSTEM_PROMPT, runAutorun, type AutorunProgress } from '../../core/benchmark/autorun.js';
+import type { ExecutionProgress } from '../../core/execution/engine.js';
+import { hashSystemPrompt, resolveSessionModel } from '../../core/models/registry.js';
 import type { SessionManager } from '../../core/sessions/manager.js';
 import type { ChallengeRepository } from '../../core/challenges/repository.js';
 import type { ScoringEngine } from '../../core/scoring/engine.js';
@@ -24,258 +50,485 @@ export interface ToolContext {
     sessionManager: SessionManager;
     challengeRepository: ChallengeRepository;
     scoringEngine: ScoringEngine;
+    /** Sessions this client started or resumed; the session resources list only these */
+    clientSessionIds?: Set<string>;
+}
+
+/**
+ * What the MCP request behind a tool call offers its handler
+ */
+export interface ToolCallExtra {
+    /** Aborted when the client cancels the call */
+    signal?: AbortSignal;
+    /** Send a progress notification; absent when the client did not ask for progress */
+    sendProgress?: (progress: number, total: number, message: string) => void;
+    /** Ask the client's model for a completion; absent when the client does not support sampling */
+    createMessage?: (params: CreateMessageRequestParamsBase) => Promise<CreateMessageResult>;
+    /** Name and version the client reported when it connected */
+    clientInfo?: Implementation;
 }
 
 /**
  * Tool call result
  */
 export interface ToolResult {
+    [key: string]: unknown;
     content: Array<{
         type: 'text';
         text: string;
     }>;
+    /** Result data matching the tool's output schema; absent on errors */
+    structuredContent?: Record<string, unknown>;
     isError?: boolean;
 }
 
+/**
+ * Parsed input of a tool with the given schema shape
+ */
+export type ToolInput<Shape extends z.ZodRawShape> = z.infer<z.ZodObject<Shape>>;
+
+/**
+ * Declarative tool definition: name, schemas and handler
+ */
+export interface ToolDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+    readonly name: string;
+    readonly description: string;
+    readonly inputSchema: Shape;
+    /** Shape of the `structuredContent` of successful results */
+    readonly outputSchema: z.ZodRawShape;
+    readonly handler: (input: ToolInput<Shape>, context: ToolContext, extra: ToolCallExtra) => Promise<ToolResult>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest string argument logged verbatim */
+const MAX_LOGGED_ARG_LENGTH = 200;
+
 // ============================================================================
 // Input Schemas
 // ============================================================================
 
-const StartSessionSchema = z.object({
+const difficultySchema = z.enum(['easy', 'medium', 'hard', 'expert', 'all']);
+
+const languageSchema = z.enum(['typescript', 'javascript', 'python', 'java', 'csharp', 'go', 'rust', 'cpp']);
+
+const StartSessionSchema = {
     sessionName: z.string().optional().describe('Optional name for the benchmark session'),
     categories: z
-        .array(z.string())
+        .array(z.nativeEnum(ChallengeCategory))
         .optional()
         .describe('Categories to include (e.g., ["code_generation", "bug_detection"])'),
-    difficulty: z
-        .enum(['easy', 'medium', 'hard', 'expert', 'all'])
-        .optional()
-        .describe('Difficulty level filter'),
+    tags: z.array(z.string()).optional().describe('Include challenges with any of these tags'),
+    difficulty: difficultySchema.optional().describe('Difficulty level filter'),
     maxChallenges: z
         .number()
         .min(1)
         .max(50)
         .optional()
         .describe('Maximum number of challenges in the session'),
-});
+    categoryQuotas: z
+        .record(z.nativeEnum(ChallengeCategory), z.number().int().min(1))
+        .optional()
+        .describe('Exact number of challenges per category, e.g. { "security": 3, "algorithm_design": 2 }. Defaults the session size to the quota total'),
+    stratifyByDifficulty: z
+        .boolean()
+        .optional()
+        .describe('Spread challenges evenly across difficulty tiers'),
+    adaptive: z
+        .boolean()
+        .optional()
+        .describe('Pick each challenge after the previous answer, from the running ability estimate; maxChallenges caps the session'),
+    targetStandardError: z
+        .number()
+        .min(0.1)
+        .max(1)
+        .optional()
+        .describe('Adaptive sessions stop once the ability estimate is this precise (standard error in logits)'),
+    sessionTimeLimit: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe('Time budget of the whole session in seconds; when it runs out the remaining challenges score zero and the session completes'),
+    latePolicy: LateSubmissionPolicySchema
+        .optional()
+        .describe('After a challenge\'s time limit: "reject" skips it, "penalize" (default) scores late submissions with a penalty growing to 100% over another time limit'),
+    maxAttempts: z
+        .number()
+        .int()
+        .min(1)
+        .max(DEFAULT_REPAIR_CONFIG.MAX_ATTEMPTS)
+        .optional()
+        .describe('Submissions allowed per challenge (default 1). Above 1, a failed submission can be fixed from the visible test feedback and resubmitted; each extra attempt discounts the final score'),
+    samples: z
+        .number()
+        .int()
+        .min(1)
+        .max(DEFAULT_SAMPLING_CONFIG.MAX_SAMPLES)
+        .optional()
+        .describe('Independent solutions to submit per challenge (default 1). Above 1, every sample is executed and pass@1, pass@5 and pass@10 are estimated from them; cannot be combined with maxAttempts'),
+    modelName: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Model taking the benchmark, e.g. "claude-sonnet-4". Defaults to the MCP client name'),
+    modelProvider: z.string().min(1).optional().describe('Model provider, e.g. "anthropic"'),
+    modelVersion: z.string().min(1).optional().describe('Model version or snapshot date'),
+    temperature: z.number().min(0).max(2).optional().describe('Sampling temperature the model runs with'),
+    systemPromptHash: z.string().min(1).optional().describe('Hash of the system prompt the model runs with'),
+};
 
-const GetChallengeSchema = z.object({
+const GetChallengeSchema = {
     sessionId: z.string().describe('The active session ID'),
-});
+};
 
-const SubmitSolutionSchema = z.object({
+const SubmitSolutionSchema = {
     sessionId: z.string().describe('The active session ID'),
     challengeId: z.string().describe('The challenge ID being solved'),
     solution: z.string().describe('The submitted solution code'),
-    language: z
-        .enum(['typescript', 'javascript', 'python', 'java', 'csharp', 'go', 'rust', 'cpp'])
-        .optional()
-        .describe('Programming language of the solution'),
-});
+    language: languageSchema.optional().describe('Programming language of the solution'),
+};
 
-const GetResultsSchema = z.object({
+const GetResultsSchema = {
     sessionId: z.string().describe('The session ID to get results for'),
-});
+};
 
-const GetLeaderboardSchema = z.object({
-    category: z.string().optional().describe('Optional category filter'),
+const GetLeaderboardSchema = {
+    category: z.nativeEnum(ChallengeCategory).optional().describe('Rank results in this category only'),
+    language: languageSchema.optional().describe('Rank results in this language only'),
+    difficulty: z
+        .enum(['easy', 'medium', 'hard', 'expert'])
+        .optional()
+        .describe('Rank results of this difficulty tier only'),
     limit: z.number().min(1).max(100).optional().describe('Number of entries to return'),
     timeframe: z
         .enum(['daily', 'weekly', 'monthly', 'all'])
         .optional()
         .describe('Timeframe for the leaderboard'),
-});
+    view: z
+        .enum(['best', 'all'])
+        .optional()
+        .describe('"best" (default) keeps each model\'s best run, "all" lists every run'),
+    includeAbandoned: z
+        .boolean()
+        .optional()
+        .describe('Also rank the partial results of sessions abandoned after going idle'),
+};
 
-const ListChallengesSchema = z.object({
-    category: z.string().optional().describe('Optional category filter'),
-    difficulty: z.enum(['easy', 'medium', 'hard', 'expert', 'all']).optional(),
-    limit: z.number().min(1).max(100).optional(),
-});
+const ListChallengesSchema = {
+    category: z.nativeEnum(ChallengeCategory).optional().describe('Optional category filter'),
+    difficulty: difficultySchema.optional().describe('Difficulty filter'),
+    limit: z.number().min(1).max(100).optional().describe('Maximum number of challenges to return'),
+};
 
-const SessionStatusSchema = z.object({
+const SessionStatusSchema = {
     sessionId: z.string().describe('The session ID to check'),
-});
+};
+
+const ResumeSessionSchema = {
+    sessionId: z.string().describe('The session ID to resume'),
+};
 
-const SkipChallengeSchema = z.object({
+const SkipChallengeSchema = {
     sessionId: z.string().describe('The active session ID'),
     reason: z.string().optional().describe('Optional reason for skipping'),
-});
+};
+
+const GetModelProfilesSchema = {
+    modelId: z.string().optional().describe('Registry key of one model, as shown in leaderboard entries'),
+    provider: z.string().optional().describe('Only models of this provider'),
+    limit: z.number().min(1).max(100).optional().describe('Number of profiles to return'),
+};
+
+const CalibrateSchema = {
+    flaggedOnly: z.boolean().optional().describe('Only return challenges whose fitted difficulty disagrees with the assigned one'),
+};
+
+const AutorunSchema = {
+    // Autorun sets its own system prompt, so it records that prompt's hash
+    ...z.object(StartSessionSchema).omit({ systemPromptHash: true }).shape,
+    sessionId: z.string().optional().describe('Continue this in-progress session instead of starting a new one'),
+    language: languageSchema.optional().describe('Language the model is asked to answer in'),
+    maxTokens: z.number().int().min(256).max(32768).optional().describe('Token limit for each sampled reply'),
+    temperature: z.number().min(0).max(2).optional().describe('Sampling temperature'),
+};
+
+// ============================================================================
+// Output Schemas
+// ============================================================================
+
+const sessionProgressShape = {
+    sessionId: SessionSchema.shape.id,
+    name: SessionSchema.shape.name,
+    status: SessionSchema.shape.status,
+    currentChallenge: z.number().describe('1-based position of the current challenge'),
+    totalChallenges: z.number(),
+    completedChallenges: z.number(),
+};
+
+const StartSessionOutput = {
+    sessionId: SessionSchema.shape.id,
+    sessionName: SessionSchema.shape.name,
+    totalChallenges: z.number().describe('Session size; the most challenges an adaptive session can reach'),
+    estimatedTime: z.string(),
+    adaptive: z.boolean(),
+    model: SessionModelSchema.optional(),
+    message: z.string(),
+};
+
+const GetChallengeOutput = {
+    ...ChallengeViewSchema.partial().shape,
+    completed: z.boolean().describe('True once the session has no challenges left; challenge fields are then absent'),
+    message: z.string().optional(),
+};
+
+// A sample that is not the last reports no outcome, so a caller cannot pick its best sample
+const SubmitSolutionOutput = {
+    ...ChallengeResultSchema.pick({
+        score: true,
+        passed: true,
+        gradingMode: true,
+        breakdown: true,
+        feedback: true,
+        suggestions: true,
+    }).partial().shape,
+    ...ChallengeResultSchema.pick({
+        maxScore: true,
+        attempts: true,
+        samples: true,
+        samplesPassed: true,
+        passAtK: true,
+    }).shape,
+    percentage: z.number().optional(),
+    testReports: z.array(TestCaseReportSchema).optional(),
+    attemptsRemaining: z
+        .number()
+        .optional()
+        .describe('Resubmissions still allowed in a repair session; while above 0 the challenge stays current'),
+    samplesRemaining: z
+        .number()
+        .optional()
+        .describe('Samples still to submit in a sampling session; while above 0 the challenge stays current'),
+    message: z.string(),
+};
+
+const GetLeaderboardOutput = LeaderboardSchema.pick({
+    timeframe: true,
+    view: true,
+    includeAbandoned: true,
+    category: true,
+    language: true,
+    difficulty: true,
+    entries: true,
+    ratings: true,
+    totalEntries: true,
+}).shape;
+
+const ListChallengesOutput = {
+    challenges: z.array(ChallengeSummarySchema.omit({ difficultyTier: true })),
+    total: z.number(),
+};
+
+const SessionStatusOutput = {
+    ...sessionProgressShape,
+    startedAt: SessionSchema.shape.startedAt,
+};
+
+const SkipChallengeOutput = {
+    message: z.string(),
+    reason: z.string().optional(),
+};
+
+const ResumeSessionOutput = {
+    ...sessionProgressShape,
+    message: z.string(),
+};
+
+const AutorunOutput = {
+    sessionId: SessionSchema.shape.id,
+    language: ProgrammingLanguageSchema,
+    challenges: z.array(
+        z.object({
+            challengeId: z.string(),
+            title: z.string(),
+            submitted: z.boolean(),
+            score: z.number(),
+            maxScore: z.number(),
+            passed: z.boolean(),
+            attempts: z.number(),
+            skipReason: z.string().optional(),
+        })
+    ),
+    submitted: z.number(),
+    skipped: z.number(),
+    passed: z.number(),
+    overallScore: SessionResultsSchema.shape.overallScore,
+    maxScore: SessionResultsSchema.shape.maxScore,
+    percentage: SessionResultsSchema.shape.percentage,
+    passRate: SessionResultsSchema.shape.passRate,
+    message: z.string(),
+};
+
+const GetModelProfilesOutput = {
+    profiles: z.array(ModelProfileSchema),
+    totalModels: z.number(),
+};
+
+const CalibrateOutput = {
+    ...CalibrationSchema.shape,
+    flagged: z.number().describe('Challenges whose fitted difficulty disagrees with the assigned one'),
+};
 
 // ============================================================================
 // Tool Definitions
 // ============================================================================
 
 /**
- * MCP Tool definitions
+ * MCP tool registry
  */
-export const toolDefinitions = [
-    {
+export const toolDefinitions: readonly ToolDefinition[] = [
+    defineTool({
         name: MCP_TOOLS.START_SESSION,
         description: `Start a new AI coding intelligence benchmark session. This will create a session with selected challenges based on the provided configuration.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionName: {
-                    type: 'string',
-                    description: 'Optional name for the benchmark session',
-                },
-                categories: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    description:
-                        'Categories to include: code_generation, bug_detection, refactoring, algorithm_design, test_generation, documentation, architecture, security',
-                },
-                difficulty: {
-                    type: 'string',
-                    enum: ['easy', 'medium', 'hard', 'expert', 'all'],
-                    description: 'Difficulty level filter',
-                },
-                maxChallenges: {
-                    type: 'number',
-                    minimum: 1,
-                    maximum: 50,
-                    description: 'Maximum number of challenges in the session',
-                },
-            },
-        },
-    },
-    {
+        inputSchema: StartSessionSchema,
+        outputSchema: StartSessionOutput,
+        handler: handleStartSession,
+    }),
+    defineTool({
         name: MCP_TOOLS.GET_CHALLENGE,
         description: `Get the next challenge in the current benchmark session. Returns the challenge details including description, requirements, and code template.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionId: {
-                    type: 'string',
-                    description: 'The active session ID',
-                },
-            },
-            required: ['sessionId'],
-        },
-    },
-    {
+        inputSchema: GetChallengeSchema,
+        outputSchema: GetChallengeOutput,
+        handler: handleGetChallenge,
+    }),
+    defineTool({
         name: MCP_TOOLS.SUBMIT_SOLUTION,
         description: `Submit a solution for the current challenge. The solution will be evaluated and scored across multiple dimensions.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionId: {
-                    type: 'string',
-                    description: 'The active session ID',
-                },
-                challengeId: {
-                    type: 'string',
-                    description: 'The challenge ID being solved',
-                },
-                solution: {
-                    type: 'string',
-                    description: 'The submitted solution code',
-                },
-                language: {
-                    type: 'string',
-                    enum: ['typescript', 'javascript', 'python', 'java', 'csharp', 'go', 'rust', 'cpp'],
-                    description: 'Programming language of the solution',
-                },
-            },
-            required: ['sessionId', 'challengeId', 'solution'],
-        },
-    },
-    {
+        inputSchema: SubmitSolutionSchema,
+        outputSchema: SubmitSolutionOutput,
+        handler: handleSubmitSolution,
+    }),
+    defineTool({
         name: MCP_TOOLS.GET_RESULTS,
         description: `Get comprehensive results for a completed benchmark session, including overall score, category breakdown, strengths, weaknesses, and recommendations.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionId: {
-                    type: 'string',
-                    description: 'The session ID to get results for',
-                },
-            },
-            required: ['sessionId'],
-        },
-    },
-    {
+        inputSchema: GetResultsSchema,
+        outputSchema: SessionResultsSchema.shape,
+        handler: handleGetResults,
+    }),
+    defineTool({
         name: MCP_TOOLS.GET_LEADERBOARD,
-        description: `Get the current leaderboard showing top AI coding performers.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                category: {
-                    type: 'string',
-                    description: 'Optional category filter',
-                },
-                limit: {
-                    type: 'number',
-                    minimum: 1,
-                    maximum: 100,
-                    description: 'Number of entries to return',
-                },
-                timeframe: {
-                    type: 'string',
-                    enum: ['daily', 'weekly', 'monthly', 'all'],
-                    description: 'Timeframe for the leaderboard',
-                },
-            },
-        },
-    },
-    {
+        description: `Get the current leaderboard showing top AI coding performers, for whole sessions or for one category, language or difficulty tier.`,
+        inputSchema: GetLeaderboardSchema,
+        outputSchema: GetLeaderboardOutput,
+        handler: handleGetLeaderboard,
+    }),
+    defineTool({
         name: MCP_TOOLS.LIST_CHALLENGES,
         description: `List available benchmark challenges with optional filtering by category and difficulty.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                category: {
-                    type: 'string',
-                    description: 'Optional category filter',
-                },
-                difficulty: {
-                    type: 'string',
-                    enum: ['easy', 'medium', 'hard', 'expert', 'all'],
-                    description: 'Difficulty filter',
-                },
-                limit: {
-                    type: 'number',
-                    minimum: 1,
-                    maximum: 100,
-                    description: 'Maximum number of challenges to return',
-                },
-            },
-        },
-    },
-    {
+        inputSchema: ListChallengesSchema,
+        outputSchema: ListChallengesOutput,
+        handler: handleListChallenges,
+    }),
+    defineTool({
         name: MCP_TOOLS.GET_SESSION_STATUS,
         description: `Get the current status of a benchmark session including progress and completed challenges.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionId: {
-                    type: 'string',
-                    description: 'The session ID to check',
-                },
-            },
-            required: ['sessionId'],
-        },
-    },
-    {
+        inputSchema: SessionStatusSchema,
+        outputSchema: SessionStatusOutput,
+        handler: handleGetSessionStatus,
+    }),
+    defineTool({
         name: MCP_TOOLS.SKIP_CHALLENGE,
         description: `Skip the current challenge in the session. This will mark the challenge as skipped with zero score.`,
-        inputSchema: {
-            type: 'object' as const,
-            properties: {
-                sessionId: {
-                    type: 'string',
-                    description: 'The active session ID',
-                },
-                reason: {
-                    type: 'string',
-                    description: 'Optional reason for skipping',
-                },
-            },
-            required: ['sessionId'],
-        },
-    },
+        inputSchema: SkipChallengeSchema,
+        outputSchema: SkipChallengeOutput,
+        handler: handleSkipChallenge,
+    }),
+    defineTool({
+        name: MCP_TOOLS.RESUME_SESSION,
+        description: `Resume a previously started benchmark session by ID. Sessions are persisted, so they can be resumed after a server restart.`,
+        inputSchema: ResumeSessionSchema,
+        outputSchema: ResumeSessionOutput,
+        handler: handleResumeSession,
+    }),
+    defineTool({
+        name: MCP_TOOLS.AUTORUN,
+        description: `Run a whole benchmark session unattended: each challenge is posed to the connected client's model through MCP sampling, and the code block of its reply is submitted. Requires a client that supports sampling.`,
+        inputSchema: AutorunSchema,
+        outputSchema: AutorunOutput,
+        handler: handleAutorun,
+    }),
+    defineTool({
+        name: MCP_TOOLS.GET_MODEL_PROFILES,
+        description: `Get per-model profiles: how many sessions each model completed, its average and best score, and when it was first and last seen.`,
+        inputSchema: GetModelProfilesSchema,
+        outputSchema: GetModelProfilesOutput,
+        handler: handleGetModelProfiles,
+    }),
+    defineTool({
+        name: MCP_TOOLS.CALIBRATE,
+        description: `Fit a two-parameter IRT model to every stored challenge result: each challenge's empirical difficulty and discrimination, each model's latent ability, and flags for challenges whose hand-assigned difficulty disagrees with the data. The result is stored and served as the ${MCP_RESOURCES.CALIBRATION} resource.`,
+        inputSchema: CalibrateSchema,
+        outputSchema: CalibrateOutput,
+        handler: handleCalibrate,
+    }),
 ];
 
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Mount every tool in the registry on an MCP server
+ */
+export function registerTools(server: McpServer, context: ToolContext): void {
+    for (const tool of toolDefinitions) {
+        server.registerTool(
+            tool.name,
+            {
+                description: tool.description,
+                inputSchema: tool.inputSchema,
+                outputSchema: tool.outputSchema,
+            },
+            async (input: Record<string, unknown>, extra) => {
+                const progressToken = extra._meta?.progressToken;
+
+                return runTool(tool, input, context, {
+                    signal: extra.signal,
+                    sendProgress:
+                        progressToken === undefined
+                            ? undefined
+                            : (progress, total, message) => {
+                                  extra
+                                      .sendNotification({
+                                          method: 'notifications/progress',
+                                          params: { progressToken, progress, total, message },
+                                      })
+                                      .catch((error: unknown) => {
+                                          logger.debug('Failed to send progress notification', 'MCP', {
+                                              tool: tool.name,
+                                              error: error instanceof Error ? error.message : String(error),
+                                          });
+                                      });
+                              },
+                    createMessage: server.server.getClientCapabilities()?.sampling
+                        ? (params) =>
+                              server.server.createMessage(params, {
+                                  relatedRequestId: extra.requestId,
+                                  signal: extra.signal,
+                                  timeout: DEFAULT_AUTORUN_CONFIG.SAMPLING_TIMEOUT_MS,
+                              })
+                        : undefined,
+                    clientInfo: server.server.getClientVersion(),
+                });
+            }
+        );
+    }
+
+    logger.debug('Tools registered', 'MCP', { tools: toolDefinitions.map((t) => t.name) });
+}
+
 // ============================================================================
 // Tool Handlers
 // ============================================================================
@@ -286,39 +539,41 @@ export const toolDefinitions = [
 export async function handleToolCall(
     name: string,
     args: Record<string, unknown>,
-    context: ToolContext
+    context: ToolContext,
+    extra: ToolCallExtra = {}
 ): Promise<ToolResult> {
-    try {
-        switch (name) {
-            case MCP_TOOLS.START_SESSION:
-                return await handleStartSession(args, context);
-
-            case MCP_TOOLS.GET_CHALLENGE:
-                return await handleGetChallenge(args, context);
+    const tool = toolDefinitions.find((t) => t.name === name);
 
-            case MCP_TOOLS.SUBMIT_SOLUTION:
-                return await handleSubmitSolution(args, context);
-
-            case MCP_TOOLS.GET_RESULTS:
-                return await handleGetResults(args, context);
-
-            case MCP_TOOLS.GET_LEADERBOARD:
-                return await handleGetLeaderboard(args, context);
+    if (!tool) {
+        return createErrorResult(`Unknown tool: ${name}`);
+    }
 
-            case MCP_TOOLS.LIST_CHALLENGES:
-                return await handleListChallenges(args, context);
+    const parsed = z.object(tool.inputSchema).safeParse(args);
+    if (!parsed.success) {
+        return createErrorResult(`Invalid arguments for ${name}: ${parsed.error.message}`);
+    }
 
-            case MCP_TOOLS.GET_SESSION_STATUS:
-                return await handleGetSessionStatus(args, context);
+    return runTool(tool, parsed.data, context, extra);
+}
 
-            case MCP_TOOLS.SKIP_CHALLENGE:
-                return await handleSkipChallenge(args, context);
+/**
+ * Run a tool's handler on validated input, reporting failures as error results
+ */
+async function runTool(
+    tool: ToolDefinition,
+    input: Record<string, unknown>,
+    context: ToolContext,
+    extra: ToolCallExtra
+): Promise<ToolResult> {
+    logger.info(`Tool called: ${tool.name}`, 'MCP', { args: summarizeArgs(input) });
 
-            default:
-                return createErrorResult(`Unknown tool: ${name}`);
-        }
+    try {
+        return await tool.handler(input, context, extra);
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        logger.error(`Tool failed: ${tool.name}`, 'MCP', error instanceof Error ? error : undefined, {
+            args: summarizeArgs(input),
+        });
         return createErrorResult(message);
     }
 }
@@ -328,34 +583,58 @@ export async function handleToolCall(
 // ============================================================================
 
 async function handleStartSession(
-    args: Record<string, unknown>,
-    context: ToolContext
+    input: ToolInput<typeof StartSessionSchema>,
+    context: ToolContext,
+    extra: ToolCallExtra
 ): Promise<ToolResult> {
-    const input = StartSessionSchema.parse(args);
-
     const session = await context.benchmarkEngine.startSession({
         name: input.sessionName,
-        categories: input.categories as ChallengeCategory[] | undefined,
+        categories: input.categories,
+        tags: input.tags,
         difficulty: mapDifficulty(input.difficulty),
         maxChallenges: input.maxChallenges,
+        categoryQuotas: input.categoryQuotas,
+        stratifyByDifficulty: input.stratifyByDifficulty,
+        adaptive: input.adaptive,
+        targetStandardError: input.targetStandardError,
+        sessionTimeLimit: input.sessionTimeLimit,
+        latePolicy: input.latePolicy,
+        maxAttempts: input.maxAttempts,
+        samples: input.samples,
+        model: resolveSessionModel(
+            {
+                name: input.modelName,
+                provider: input.modelProvider,
+                version: input.modelVersion,
+                temperature: input.temperature,
+                systemPromptHash: input.systemPromptHash,
+            },
+            extra.clientInfo
+        ),
     });
+    context.clientSessionIds?.add(session.id);
+
+    const adaptive = session.config.adaptive === true;
+    const totalChallenges = adaptive ? (session.config.maxChallenges ?? 0) : session.challengeIds.length;
 
     return createSuccessResult({
         sessionId: session.id,
         sessionName: session.name,
-        totalChallenges: session.challengeIds.length,
-        estimatedTime: formatEstimatedTime(session.challengeIds.length),
-        message: `Benchmark session started! You have ${session.challengeIds.length} challenges to complete. Use 'intellibench_get_challenge' to get the first challenge.`,
+        totalChallenges,
+        estimatedTime: formatEstimatedTime(totalChallenges),
+        adaptive,
+        model: session.model,
+        message: adaptive
+            ? `Adaptive benchmark session started! Each challenge is picked after your previous answer, up to ${totalChallenges} in total. Use 'intellibench_get_challenge' to get the first challenge.`
+            : `Benchmark session started! You have ${totalChallenges} challenges to complete. Use 'intellibench_get_challenge' to get the first challenge.`,
     });
 }
 
 async function handleGetChallenge(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof GetChallengeSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = GetChallengeSchema.parse(args);
-
-    const challenge = await context.benchmarkEngine.getCurrentChallenge(input.sessionId);
+    const challenge = await context.benchmarkEngine.getCurrentChallengeView(input.sessionId);
 
     if (!challenge) {
         return createSuccessResult({
@@ -364,99 +643,96 @@ async function handleGetChallenge(
         });
     }
 
-    return createSuccessResult({
-        challengeId: challenge.id,
-        title: challenge.title,
-        category: challenge.category,
-        difficulty: challenge.difficulty,
-        description: challenge.description,
-        requirements: challenge.requirements,
-        hints: challenge.hints,
-        timeLimit: challenge.timeLimit,
-        maxScore: challenge.maxScore,
-        template: challenge.templates[0],
-    });
+    return createSuccessResult({ ...challenge, completed: false });
 }
 
 async function handleSubmitSolution(
-    args: Record<string, unknown>,
-    context: ToolContext
+    input: ToolInput<typeof SubmitSolutionSchema>,
+    context: ToolContext,
+    extra: ToolCallExtra
 ): Promise<ToolResult> {
-    const input = SubmitSolutionSchema.parse(args);
-
+    const { sendProgress } = extra;
     const result = await context.benchmarkEngine.submitSolution(
         input.sessionId,
         input.challengeId,
         input.solution,
-        input.language ?? 'typescript'
+        input.language ?? 'typescript',
+        {
+            signal: extra.signal,
+            onProgress: sendProgress && ((p) => sendProgress(testSteps(p), p.total, describeTestProgress(p))),
+        }
     );
 
+    if (result.samplesRemaining) {
+        return createSuccessResult({
+            maxScore: result.maxScore,
+            samplesRemaining: result.samplesRemaining,
+            message: describeSubmission(result),
+        });
+    }
+
     return createSuccessResult({
         score: result.score,
         maxScore: result.maxScore,
         percentage: Math.round((result.score / result.maxScore) * 100),
         passed: result.passed,
+        gradingMode: result.gradingMode,
         breakdown: result.breakdown,
         feedback: result.feedback,
         suggestions: result.suggestions,
-        message: result.passed
-            ? '✅ Challenge passed! Use intellibench_get_challenge for the next challenge.'
-            : '❌ Challenge not passed. Review the feedback and try again, or skip to the next challenge.',
+        testReports: result.testReports,
+        attempts: result.attempts,
+        attemptsRemaining: result.attemptsRemaining,
+        samples: result.samples,
+        samplesPassed: result.samplesPassed,
+        passAtK: result.passAtK,
+        samplesRemaining: result.samplesRemaining,
+        message: describeSubmission(result),
     });
 }
 
 async function handleGetResults(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof GetResultsSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = GetResultsSchema.parse(args);
-
     const results = await context.benchmarkEngine.getSessionResults(input.sessionId);
 
-    return createSuccessResult({
-        overallScore: results.overallScore,
-        maxScore: results.maxScore,
-        percentage: results.percentage,
-        percentile: results.percentile,
-        categoryScores: results.categoryScores,
-        strengths: results.strengths,
-        weaknesses: results.weaknesses,
-        recommendations: results.recommendations,
-        completedChallenges: results.completedChallenges,
-        totalChallenges: results.totalChallenges,
-        passRate: results.passRate,
-        totalTime: results.totalTime,
-    });
+    return createSuccessResult(results);
 }
 
 async function handleGetLeaderboard(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof GetLeaderboardSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = GetLeaderboardSchema.parse(args);
-
     const leaderboard = await context.benchmarkEngine.getLeaderboard({
-        category: input.category as ChallengeCategory | undefined,
+        category: input.category,
+        language: input.language,
+        difficulty: mapDifficulty(input.difficulty) as Difficulty | undefined,
         limit: input.limit,
         timeframe: input.timeframe,
+        view: input.view,
+        includeAbandoned: input.includeAbandoned,
     });
 
     return createSuccessResult({
         timeframe: leaderboard.timeframe,
+        view: leaderboard.view,
+        includeAbandoned: leaderboard.includeAbandoned,
         category: leaderboard.category,
+        language: leaderboard.language,
+        difficulty: leaderboard.difficulty,
         entries: leaderboard.entries,
+        ratings: leaderboard.ratings,
         totalEntries: leaderboard.totalEntries,
     });
 }
 
 async function handleListChallenges(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof ListChallengesSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = ListChallengesSchema.parse(args);
-
     const challenges = await context.challengeRepository.listChallenges({
-        category: input.category as ChallengeCategory | undefined,
+        category: input.category,
         difficulty: mapDifficulty(input.difficulty),
         limit: input.limit,
     });
@@ -475,11 +751,9 @@ async function handleListChallenges(
 }
 
 async function handleGetSessionStatus(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof SessionStatusSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = SessionStatusSchema.parse(args);
-
     const session = await context.sessionManager.getSession(input.sessionId);
 
     if (!session) {
@@ -498,11 +772,9 @@ async function handleGetSessionStatus(
 }
 
 async function handleSkipChallenge(
-    args: Record<string, unknown>,
+    input: ToolInput<typeof SkipChallengeSchema>,
     context: ToolContext
 ): Promise<ToolResult> {
-    const input = SkipChallengeSchema.parse(args);
-
     await context.benchmarkEngine.skipChallenge(input.sessionId, input.reason);
 
     return createSuccessResult({
@@ -511,18 +783,205 @@ async function handleSkipChallenge(
     });
 }
 
+async function handleResumeSession(
+    input: ToolInput<typeof ResumeSessionSchema>,
+    context: ToolContext
+): Promise<ToolResult> {
+    const session = await context.benchmarkEngine.resumeSession(input.sessionId);
+    context.clientSessionIds?.add(session.id);
+
+    return createSuccessResult({
+        sessionId: session.id,
+        name: session.name,
+        status: session.status,
+        currentChallenge: session.currentChallengeIndex + 1,
+        totalChallenges: session.challengeIds.length,
+        completedChallenges: session.results.length,
+        message:
+            session.status === 'in_progress'
+                ? 'Session resumed! Use intellibench_get_challenge to continue.'
+                : 'Session is no longer in progress. Use intellibench_get_results to see your score.',
+    });
+}
+
+async function handleAutorun(
+    input: ToolInput<typeof AutorunSchema>,
+    context: ToolContext,
+    extra: ToolCallExtra
+): Promise<ToolResult> {
+    const { createMessage, sendProgress } = extra;
+    if (!createMessage) {
+        throw new Error('The client does not support MCP sampling, which intellibench_autorun needs to pose challenges');
+    }
+
+    const sessionId = input.sessionId ?? (
+        await context.benchmarkEngine.startSession({
+            name: input.sessionName,
+            categories: input.categories,
+            tags: input.tags,
+            difficulty: mapDifficulty(input.difficulty),
+            maxChallenges: input.maxChallenges,
+            categoryQuotas: input.categoryQuotas,
+            stratifyByDifficulty: input.stratifyByDifficulty,
+            adaptive: input.adaptive,
+            targetStandardError: input.targetStandardError,
+            sessionTimeLimit: input.sessionTimeLimit,
+            latePolicy: input.latePolicy,
+            maxAttempts: input.maxAttempts,
+            samples: input.samples,
+            model: resolveSessionModel(
+                {
+                    name: input.modelName,
+                    provider: input.modelProvider,
+                    version: input.modelVersion,
+                    temperature: input.temperature,
+                    systemPromptHash: hashSystemPrompt(AUTORUN_SYSTEM_PROMPT),
+                },
+                extra.clientInfo
+            ),
+        })
+    ).id;
+    context.clientSessionIds?.add(sessionId);
+
+    const language = input.language ?? DEFAULT_AUTORUN_CONFIG.LANGUAGE;
+    const summary = await runAutorun(
+        context.benchmarkEngine,
+        sessionId,
+        async (prompt) => {
+            const reply = await createMessage({
+                messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+                systemPrompt: AUTORUN_SYSTEM_PROMPT,
+                includeContext: 'none',
+                maxTokens: input.maxTokens ?? DEFAULT_AUTORUN_CONFIG.MAX_TOKENS,
+                ...(input.temperature !== undefined && { temperature: input.temperature }),
+            });
+            if (reply.content.type !== 'text') {
+                throw new Error(`Expected a text reply, got ${reply.content.type}`);
+            }
+            return reply.content.text;
+        },
+        {
+            language,
+            signal: extra.signal,
+            onProgress: sendProgress && ((p) => reportAutorunProgress(p, sendProgress)),
+        }
+    );
+
+    const results = await context.benchmarkEngine.getSessionResults(sessionId);
+
+    return createSuccessResult({
+        ...summary,
+        overallScore: results.overallScore,
+        maxScore: results.maxScore,
+        percentage: results.percentage,
+        passRate: results.passRate,
+        message: 'Autorun complete. Use intellibench_get_results for the full breakdown.',
+    });
+}
+
+async function handleGetModelProfiles(
+    input: ToolInput<typeof GetModelProfilesSchema>,
+    context: ToolContext
+): Promise<ToolResult> {
+    const profiles = input.modelId
+        ? [await context.benchmarkEngine.getModelProfile(input.modelId)]
+        : await context.benchmarkEngine.getModelProfiles(input.provider);
+
+    return createSuccessResult({
+        profiles: profiles.slice(0, input.limit ?? LIMITS.LEADERBOARD_DEFAULT_LIMIT),
+        totalModels: profiles.length,
+    });
+}
+
+async function handleCalibrate(
+    input: ToolInput<typeof CalibrateSchema>,
+    context: ToolContext
+): Promise<ToolResult> {
+    const calibration = await context.benchmarkEngine.calibrate();
+    const flagged = calibration.challenges.filter((c) => c.flag);
+
+    return createSuccessResult({
+        ...calibration,
+        challenges: input.flaggedOnly ? flagged : calibration.challenges,
+        flagged: flagged.length,
+    });
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function createSuccessResult(data: unknown): ToolResult {
+function defineTool<Shape extends z.ZodRawShape>(tool: ToolDefinition<Shape>): ToolDefinition {
+    return tool as unknown as ToolDefinition;
+}
+
+function describeSubmission(result: SubmissionResult): string {
+    if (result.samplesRemaining) {
+        return `Sample recorded. Submit another independent solution to the same challenge (${result.samplesRemaining} sample${result.samplesRemaining === 1 ? '' : 's'} left).`;
+    }
+    if (result.samples) {
+        return `All ${result.samples} samples scored: ${result.samplesPassed} passed. Use intellibench_get_challenge for the next challenge.`;
+    }
+    if (result.passed) {
+        return '✅ Challenge passed! Use intellibench_get_challenge for the next challenge.';
+    }
+    if (result.attemptsRemaining) {
+        return `❌ Challenge not passed. Fix the failing tests and resubmit the same challenge (${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} left), or skip it.`;
+    }
+    return '❌ Challenge not passed. Use intellibench_get_challenge for the next challenge.';
+}
+
+/**
+ * Test progress in steps: half a step once a test compiles, a whole step once it runs
+ */
+function testSteps(progress: ExecutionProgress): number {
+    return progress.completed + (progress.stage === 'compiled' ? 0.5 : 0);
+}
+
+function describeTestProgress(progress: ExecutionProgress): string {
+    const position = `${progress.completed}/${progress.total}`;
+    if (progress.stage === 'compiled') {
+        return `Compiled test ${progress.testCaseId} (${position} done)`;
+    }
+    const outcome = progress.passed === undefined ? 'executed' : progress.passed ? 'passed' : 'failed';
+    return `Test ${progress.testCaseId} ${outcome} (${position})`;
+}
+
+/**
+ * Report autorun progress in challenges. A challenge's tests advance it by less
+ * than one, so the start of the next challenge is always a step forward.
+ */
+function reportAutorunProgress(
+    progress: AutorunProgress,
+    sendProgress: NonNullable<ToolCallExtra['sendProgress']>
+): void {
+    const { completed, total, challenge, execution } = progress;
+    const position = `Challenge ${completed + 1}/${total}: ${challenge.title}`;
+
+    if (!execution) {
+        sendProgress(completed, total, position);
+        return;
+    }
+
+    sendProgress(
+        completed + testSteps(execution) / (execution.total + 1),
+        total,
+        `${position} - ${describeTestProgress(execution)}`
+    );
+}
+
+function createSuccessResult(data: object): ToolResult {
+    // Round-trip through JSON so structured content holds exactly what the text shows
+    const text = JSON.stringify(data, null, 2);
+
     return {
         content: [
             {
                 type: 'text',
-                text: JSON.stringify(data, null, 2),
+                text,
             },
         ],
+        structuredContent: JSON.parse(text) as Record<string, unknown>,
     };
 }
 
@@ -538,6 +997,18 @@ function createErrorResult(message: string): ToolResult {
     };
 }
 
+/**
+ * Shorten long string arguments (solutions) for logging
+ */
+function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(args).map(([key, value]) => [
+            key,
+            typeof value === 'string' && value.length > MAX_LOGGED_ARG_LENGTH ? `[${value.length} chars]` : value,
+        ])
+    );
+}
+
 function mapDifficulty(difficulty?: string): Difficulty | 'all' | undefined {
     if (!difficulty) return undefined;
     if (difficulty === 'all') return 'all';
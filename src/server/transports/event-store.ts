@@ -0,0 +1,82 @@
+/**
+ * @fileoverview In-memory event store for resumable Streamable HTTP streams
+ * @module @mcp/intellibench/server/transports/event-store
+ * @version 1.0.0
+ *
+ * Every message the server sends on an SSE stream is recorded here under an
+ * event ID. A client that loses its connection reconnects with the last event
+ * ID it saw and the transport replays the events that followed it. Each HTTP
+ * session has its own store, which is dropped when the session closes.
+ */
+
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_TRANSPORT_CONFIG } from '../../shared/constants/index.js';
+
+interface StoredEvent {
+    id: string;
+    message: JSONRPCMessage;
+}
+
+/**
+ * Event store keeping the most recent events of each stream in memory
+ */
+export class InMemoryEventStore implements EventStore {
+    private readonly streams = new Map<string, StoredEvent[]>();
+    private readonly eventStreams = new Map<string, string>();
+    private sequence = 0;
+
+    constructor(private readonly maxEventsPerStream: number = DEFAULT_TRANSPORT_CONFIG.MAX_EVENTS_PER_STREAM) {}
+
+    async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+        const id = `${streamId}:${++this.sequence}`;
+        const events = this.streams.get(streamId) ?? [];
+        events.push({ id, message });
+        this.streams.set(streamId, events);
+        this.eventStreams.set(id, streamId);
+
+        // Drop the oldest events once a stream is over capacity
+        for (const dropped of events.splice(0, Math.max(0, events.length - this.maxEventsPerStream))) {
+            this.eventStreams.delete(dropped.id);
+        }
+
+        return id;
+    }
+
+    async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+        return this.eventStreams.get(eventId);
+    }
+
+    async replayEventsAfter(
+        lastEventId: string,
+        { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+    ): Promise<string> {
+        const streamId = this.eventStreams.get(lastEventId);
+        if (!streamId) {
+            throw new Error(`Unknown event ID: ${lastEventId}`);
+        }
+
+        const events = this.streams.get(streamId) ?? [];
+        const start = events.findIndex((event) => event.id === lastEventId) + 1;
+        for (const event of events.slice(start)) {
+            await send(event.id, event.message);
+        }
+
+        return streamId;
+    }
+
+    /**
+     * Drop every stored event
+     */
+    clear(): void {
+        this.streams.clear();
+        this.eventStreams.clear();
+    }
+
+    /**
+     * Number of events available for replay
+     */
+    get size(): number {
+        return this.eventStreams.size;
+    }
+}
@@ -0,0 +1,288 @@
+/**
+ * @fileoverview Streamable HTTP transport for hosting a shared MCP server
+ * @module @mcp/intellibench/server/transports/http
+ * @version 1.0.0
+ *
+ * Each client that sends an initialize request gets its own session: a fresh
+ * MCP server connected to a Streamable HTTP transport, identified by the
+ * `Mcp-Session-Id` header on every later request. The MCP servers share the
+ * core services they are built from, so all clients benchmark against the same
+ * challenges, sessions and leaderboard. Messages sent over SSE are kept in a
+ * per-session event store so clients can resume with `Last-Event-ID`. Clients
+ * that go away without terminating their session are closed after an idle
+ * timeout, along with their MCP server and event store.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Express, Request, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createMcpExpressApp } from '@modelcontextprotocol/sdk/server/express.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from './event-store.js';
+import { DEFAULT_SERVER_CONFIG, DEFAULT_TRANSPORT_CONFIG } from '../../shared/constants/index.js';
+import { logger } from '../../shared/utils/logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HttpTransportOptions {
+    /** Builds the MCP server for a new session */
+    createServer: () => McpServer;
+    host?: string;
+    /** Port to listen on; 0 picks a free port */
+    port?: number;
+    /** Endpoint path serving POST, GET and DELETE */
+    path?: string;
+    /** Host header values to accept; defaults to localhost protection when bound to localhost */
+    allowedHosts?: string[];
+    /** Seconds a session may sit idle before it is closed; 0 keeps sessions open */
+    sessionIdleTimeout?: number;
+}
+
+interface HttpSession {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport;
+    eventStore: InMemoryEventStore;
+    /** Time of the last request, in epoch milliseconds */
+    lastActivity: number;
+    /** Requests and SSE streams still open; a session with any is not idle */
+    openRequests: number;
+}
+
+// ============================================================================
+// HTTP Transport Server
+// ============================================================================
+
+/**
+ * Serves MCP over Streamable HTTP with one MCP server per client session
+ */
+export class HttpTransportServer {
+    readonly app: Express;
+    readonly path: string;
+    private readonly sessions = new Map<string, HttpSession>();
+    private readonly sessionIdleTimeout: number;
+    private httpServer: Server | null = null;
+    private sweepTimer?: NodeJS.Timeout;
+
+    constructor(private readonly options: HttpTransportOptions) {
+        this.path = options.path ?? DEFAULT_TRANSPORT_CONFIG.HTTP_PATH;
+        this.sessionIdleTimeout = options.sessionIdleTimeout ?? DEFAULT_TRANSPORT_CONFIG.SESSION_IDLE_TIMEOUT;
+        if (!Number.isFinite(this.sessionIdleTimeout) || this.sessionIdleTimeout < 0) {
+            throw new Error(`Invalid session idle timeout: ${this.sessionIdleTimeout} (expected seconds, at least 0)`);
+        }
+
+        this.app = createMcpExpressApp({
+            host: options.host ?? DEFAULT_SERVER_CONFIG.HOST,
+            allowedHosts: options.allowedHosts,
+        });
+
+        this.app.post(this.path, (req, res) => this.handlePost(req, res));
+        this.app.get(this.path, (req, res) => this.handleSessionRequest(req, res));
+        this.app.delete(this.path, (req, res) => this.handleSessionRequest(req, res));
+    }
+
+    /**
+     * Number of open client sessions
+     */
+    get sessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Start listening and resolve with the endpoint URL
+     */
+    async listen(): Promise<string> {
+        const host = this.options.host ?? DEFAULT_SERVER_CONFIG.HOST;
+        const port = this.options.port ?? DEFAULT_SERVER_CONFIG.PORT;
+
+        const server = await new Promise<Server>((resolve, reject) => {
+            const listening = this.app.listen(port, host, () => resolve(listening));
+            listening.once('error', reject);
+        });
+        this.httpServer = server;
+
+        if (this.sessionIdleTimeout > 0) {
+            this.sweepTimer = setInterval(() => {
+                this.closeIdleSessions().catch((err: unknown) => {
+                    logger.error('HTTP session sweep failed', 'HttpTransport', err instanceof Error ? err : undefined);
+                });
+            }, DEFAULT_TRANSPORT_CONFIG.SESSION_SWEEP_INTERVAL * 1000);
+            this.sweepTimer.unref();
+        }
+
+        const address = server.address() as AddressInfo;
+        const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}${this.path}`;
+        logger.info(`MCP endpoint listening on ${url}`, 'HttpTransport');
+        return url;
+    }
+
+    /**
+     * Close every session and stop listening
+     */
+    async close(): Promise<void> {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = undefined;
+        await Promise.all([...this.sessions].map(([sessionId, session]) => this.closeSession(sessionId, session)));
+
+        const server = this.httpServer;
+        this.httpServer = null;
+        if (!server) return;
+
+        await new Promise<void>((resolve, reject) => {
+            server.close((err) => (err ? reject(err) : resolve()));
+            server.closeAllConnections();
+        });
+        logger.info('MCP endpoint closed', 'HttpTransport');
+    }
+
+    /**
+     * Close sessions without a request for longer than the idle timeout.
+     * Sessions with a request or SSE stream still open are never idle.
+     * @returns IDs of the closed sessions
+     */
+    async closeIdleSessions(): Promise<string[]> {
+        if (this.sessionIdleTimeout <= 0) return [];
+
+        const cutoff = Date.now() - this.sessionIdleTimeout * 1000;
+        const idle = [...this.sessions].filter(
+            ([, session]) => session.openRequests === 0 && session.lastActivity < cutoff
+        );
+
+        await Promise.all(idle.map(([sessionId, session]) => this.closeSession(sessionId, session)));
+        if (idle.length > 0) {
+            logger.info(`Closed ${idle.length} idle HTTP session(s)`, 'HttpTransport', { sessions: this.sessions.size });
+        }
+        return idle.map(([sessionId]) => sessionId);
+    }
+
+    // ========================================================================
+    // Request Handlers
+    // ========================================================================
+
+    /**
+     * Route a client message to its session, opening a session for initialize requests
+     */
+    private async handlePost(req: Request, res: Response): Promise<void> {
+        const sessionId = req.header('mcp-session-id');
+
+        try {
+            if (sessionId) {
+                const session = this.sessions.get(sessionId);
+                if (!session) {
+                    sendError(res, 404, `Session not found: ${sessionId}`);
+                    return;
+                }
+                trackRequest(session, res);
+                await session.transport.handleRequest(req, res, req.body);
+                return;
+            }
+
+            if (!isInitializeRequest(req.body)) {
+                sendError(res, 400, 'Missing Mcp-Session-Id header; only initialize requests may omit it');
+                return;
+            }
+
+            const { server, transport } = await this.openSession();
+            try {
+                await transport.handleRequest(req, res, req.body);
+            } finally {
+                // A rejected initialize leaves a connected server that no session refers to
+                if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+                    await server.close();
+                }
+            }
+        } catch (error) {
+            logger.error('Failed to handle MCP request', 'HttpTransport', error instanceof Error ? error : undefined, { sessionId });
+            if (!res.headersSent) {
+                sendError(res, 500, 'Internal server error', -32603);
+            }
+        }
+    }
+
+    /**
+     * Serve the SSE stream (GET) or terminate the session (DELETE)
+     */
+    private async handleSessionRequest(req: Request, res: Response): Promise<void> {
+        const sessionId = req.header('mcp-session-id');
+        if (!sessionId) {
+            sendError(res, 400, 'Missing Mcp-Session-Id header');
+            return;
+        }
+
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            sendError(res, 404, `Session not found: ${sessionId}`);
+            return;
+        }
+
+        try {
+            trackRequest(session, res);
+            await session.transport.handleRequest(req, res);
+        } catch (error) {
+            logger.error('Failed to handle MCP request', 'HttpTransport', error instanceof Error ? error : undefined, { sessionId });
+            if (!res.headersSent) {
+                sendError(res, 500, 'Internal server error', -32603);
+            }
+        }
+    }
+
+    /**
+     * Create an MCP server and transport for a new client. The session is
+     * registered once the transport accepts the initialize request.
+     */
+    private async openSession(): Promise<{ server: McpServer; transport: StreamableHTTPServerTransport }> {
+        const server = this.options.createServer();
+        const eventStore = new InMemoryEventStore();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            eventStore,
+            onsessioninitialized: (sessionId) => {
+                this.sessions.set(sessionId, { server, transport, eventStore, lastActivity: Date.now(), openRequests: 0 });
+                logger.info(`HTTP session opened: ${sessionId}`, 'HttpTransport', { sessions: this.sessions.size });
+            },
+        });
+
+        transport.onclose = () => {
+            const sessionId = transport.sessionId;
+            if (sessionId && this.sessions.delete(sessionId)) {
+                logger.info(`HTTP session closed: ${sessionId}`, 'HttpTransport', { sessions: this.sessions.size });
+            }
+        };
+
+        await server.connect(transport);
+        return { server, transport };
+    }
+
+    /**
+     * Close a session's MCP server, which closes its transport, and drop its events
+     */
+    private async closeSession(sessionId: string, session: HttpSession): Promise<void> {
+        this.sessions.delete(sessionId);
+        await session.server.close();
+        session.eventStore.clear();
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Count a request against its session until the response closes
+ */
+function trackRequest(session: HttpSession, res: Response): void {
+    session.lastActivity = Date.now();
+    session.openRequests++;
+    res.once('close', () => {
+        session.openRequests--;
+        session.lastActivity = Date.now();
+    });
+}
+
+function sendError(res: Response, status: number, message: string, code = -32000): void {
+    res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview MCP transport selection
+ * @module @mcp/intellibench/server/transports
+ * @version 1.0.0
+ */
+
+import { DEFAULT_TRANSPORT_CONFIG } from '../../shared/constants/index.js';
+
+export { HttpTransportServer, type HttpTransportOptions } from './http.js';
+export { InMemoryEventStore } from './event-store.js';
+
+// ============================================================================
+// Transport Selection
+// ============================================================================
+
+export const TRANSPORT_KINDS = ['stdio', 'http'] as const;
+
+export type TransportKind = (typeof TRANSPORT_KINDS)[number];
+
+/**
+ * Pick the transport from `--transport <kind>` (or `--transport=<kind>`),
+ * falling back to the MCP_TRANSPORT environment variable and then stdio
+ */
+export function resolveTransport(
+    argv: readonly string[],
+    env: NodeJS.ProcessEnv = process.env
+): TransportKind {
+    let value: string | undefined;
+
+    for (const [index, arg] of argv.entries()) {
+        if (arg === '--transport') {
+            value = argv[index + 1];
+            if (value === undefined) {
+                throw new Error('Missing value for --transport');
+            }
+        } else if (arg.startsWith('--transport=')) {
+            value = arg.slice('--transport='.length);
+        }
+    }
+
+    const kind = value ?? env['MCP_TRANSPORT'] ?? DEFAULT_TRANSPORT_CONFIG.TRANSPORT;
+    if (!TRANSPORT_KINDS.includes(kind as TransportKind)) {
+        throw new Error(`Unknown transport: ${kind} (expected ${TRANSPORT_KINDS.join(' or ')})`);
+    }
+
+    return kind as TransportKind;
+}
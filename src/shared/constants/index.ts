@@ -212,6 +212,10 @@ export const MCP_TOOLS = {
     LIST_CHALLENGES: 'intellibench_list_challenges',
     GET_SESSION_STATUS: 'intellibench_session_status',
     SKIP_CHALLENGE: 'intellibench_skip_challenge',
+    RESUME_SESSION: 'intellibench_resume_session',
+    AUTORUN: 'intellibench_autorun',
+    GET_MODEL_PROFILES: 'intellibench_model_profiles',
+    CALIBRATE: 'intellibench_calibrate',
 } as const;
 
 /**
@@ -222,6 +226,7 @@ export const MCP_RESOURCES = {
     SESSIONS: 'intellibench://sessions',
     RESULTS: 'intellibench://results',
     LEADERBOARD: 'intellibench://leaderboard',
+    CALIBRATION: 'intellibench://calibration',
 } as const;
 
 /**
@@ -247,6 +252,123 @@ export const DEFAULT_SERVER_CONFIG = {
     LOG_FORMAT: 'json',
 } as const;
 
+/**
+ * Default MCP transport configuration
+ */
+export const DEFAULT_TRANSPORT_CONFIG = {
+    TRANSPORT: 'stdio',
+    HTTP_PATH: '/mcp',
+    /** Events kept per stream for clients resuming with Last-Event-ID */
+    MAX_EVENTS_PER_STREAM: 1000,
+    /** Seconds an HTTP session may sit idle before it is closed; 0 keeps sessions open */
+    SESSION_IDLE_TIMEOUT: 1800,
+    /** Seconds between sweeps for idle HTTP sessions */
+    SESSION_SWEEP_INTERVAL: 60,
+} as const;
+
+/**
+ * Default autorun configuration
+ */
+export const DEFAULT_AUTORUN_CONFIG = {
+    LANGUAGE: 'typescript',
+    MAX_TOKENS: 4096,
+    /** Sampling waits on the client's model and often on user approval */
+    SAMPLING_TIMEOUT_MS: 300_000,
+} as const;
+
+/**
+ * Default Glicko-2 rating configuration
+ */
+export const DEFAULT_RATING_CONFIG = {
+    /** Starting rating, deviation and volatility of a new model */
+    RATING: 1500,
+    DEVIATION: 350,
+    VOLATILITY: 0.06,
+    /** Constrains how fast volatility changes; Glickman suggests 0.3 to 1.2 */
+    TAU: 0.5,
+    /** z-score of the reported confidence interval (95%) */
+    CONFIDENCE_Z: 1.96,
+    /** Most recent completed sessions searched for opponents when a session is rated */
+    OPPONENT_SESSIONS: 500,
+} as const;
+
+/**
+ * Default IRT calibration configuration
+ */
+export const DEFAULT_CALIBRATION_CONFIG = {
+    /** Fisher scoring iterations before giving up on convergence */
+    MAX_ITERATIONS: 200,
+    /** Largest parameter change, in logits, that counts as converged */
+    TOLERANCE: 0.0001,
+    /** Standard deviations of the priors on ability, difficulty and log discrimination */
+    ABILITY_PRIOR_SD: 1,
+    DIFFICULTY_PRIOR_SD: 2,
+    LOG_DISCRIMINATION_PRIOR_SD: 0.5,
+    /** Logit range the hand-assigned 1-10 difficulty scale is mapped onto */
+    DIFFICULTY_LOGIT_RANGE: 2,
+    /** Fitted and expected difficulty further apart than this, in logits, are flagged */
+    FLAG_THRESHOLD: 1,
+    /** Results a challenge needs before it can be flagged */
+    MIN_RESPONSES: 5,
+} as const;
+
+/**
+ * Default time limit configuration
+ */
+export const DEFAULT_TIME_LIMIT_CONFIG = {
+    /** What happens to submissions after a challenge's time limit */
+    LATE_POLICY: 'penalize',
+    /**
+     * Under the penalize policy the score falls linearly to zero over this
+     * multiple of the time limit past it; the challenge then expires
+     */
+    LATE_WINDOW_FACTOR: 1,
+} as const;
+
+/**
+ * Default repair mode configuration
+ */
+export const DEFAULT_REPAIR_CONFIG = {
+    /** Most submissions a session can allow per challenge */
+    MAX_ATTEMPTS: 10,
+    /** Fraction of the score deducted for each submission before the last */
+    ATTEMPT_DISCOUNT: 0.1,
+} as const;
+
+/**
+ * Default pass@k sampling configuration
+ */
+export const DEFAULT_SAMPLING_CONFIG = {
+    /** Most samples a session can take per challenge */
+    MAX_SAMPLES: 20,
+    /** k values pass@k is reported for, where the sample count allows */
+    K_VALUES: [1, 5, 10],
+} as const;
+
+/**
+ * Default session reaper configuration
+ */
+export const DEFAULT_REAPER_CONFIG = {
+    /** Seconds without activity after which an in-progress session is abandoned */
+    INACTIVITY_TIMEOUT: 3600,
+    /** Seconds between sweeps for idle sessions */
+    INTERVAL: 60,
+} as const;
+
+/**
+ * Default adaptive session configuration
+ */
+export const DEFAULT_ADAPTIVE_CONFIG = {
+    /** Stop once the ability estimate's standard error is this small, in logits */
+    TARGET_STANDARD_ERROR: 0.6,
+    /** Challenges answered before the precision target can end a session */
+    MIN_CHALLENGES: 3,
+    /** Session size cap when maxChallenges is not given */
+    MAX_CHALLENGES: 20,
+    /** Discrimination assumed for challenges without a calibration */
+    DEFAULT_DISCRIMINATION: 1,
+} as const;
+
 /**
  * Default dashboard configuration
  */
@@ -260,6 +382,14 @@ export const DEFAULT_DASHBOARD_CONFIG = {
  */
 export const DEFAULT_DATABASE_CONFIG = {
     PATH: './data/intellibench.db',
+    SESSION_STORE: 'sqlite',
+} as const;
+
+/**
+ * Default hidden test redaction settings
+ */
+export const DEFAULT_REDACTION_CONFIG = {
+    HIDDEN_TEST_REVEAL: 'never',
 } as const;
 
 // ============================================================================
@@ -0,0 +1,439 @@
+/**
+ * @fileoverview Zod schemas for the domain types returned to clients
+ * @module @mcp/intellibench/shared/schemas
+ * @version 1.0.0
+ *
+ * Each schema mirrors an interface in `shared/types`; `satisfies` keeps the two
+ * in step, so a field added to or changed in a type fails the type-check until
+ * its schema follows. MCP tools publish these as output schemas.
+ */
+
+import { z } from 'zod';
+import {
+    ChallengeCategory,
+    Difficulty,
+    type AdaptiveSelection,
+    type AdaptiveState,
+    type Calibration,
+    type CategoryScore,
+    type ChallengeCalibration,
+    type ChallengePassAtK,
+    type ChallengeResult,
+    type ChallengeSummary,
+    type ChallengeTestReport,
+    type ChallengeView,
+    type CodeTemplate,
+    type Leaderboard,
+    type LeaderboardEntry,
+    type ModelAbility,
+    type ModelProfile,
+    type ModelRating,
+    type OutputDiff,
+    type RatingEntry,
+    type ScoreBreakdown,
+    type Session,
+    type SessionConfig,
+    type SessionModel,
+    type SessionResults,
+    type SubmissionAttempt,
+    type TestCaseReport,
+    type TestCaseResult,
+    type TestCaseView,
+} from '../types/index.js';
+import type { HumanEvalMetrics } from '../standards/index.js';
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+export const ProgrammingLanguageSchema = z.enum([
+    'typescript',
+    'javascript',
+    'python',
+    'java',
+    'csharp',
+    'go',
+    'rust',
+    'cpp',
+]);
+
+export const ChallengeCategorySchema = z.nativeEnum(ChallengeCategory);
+
+export const DifficultySchema = z.nativeEnum(Difficulty);
+
+export const SessionStatusSchema = z.enum(['pending', 'in_progress', 'completed', 'abandoned']);
+
+export const LateSubmissionPolicySchema = z.enum(['reject', 'penalize']);
+
+export const ExpiryReasonSchema = z.enum(['challenge_time_limit', 'session_time_limit']);
+
+export const TestVerdictSchema = z.enum([
+    'passed',
+    'wrong_answer',
+    'runtime_error',
+    'compilation_error',
+    'time_limit_exceeded',
+    'memory_limit_exceeded',
+]);
+
+export const GradingModeSchema = z.enum(['executed', 'static']);
+
+export const LeaderboardTimeframeSchema = z.enum(['daily', 'weekly', 'monthly', 'all']);
+
+export const LeaderboardViewSchema = z.enum(['best', 'all']);
+
+export const ModelIdentitySourceSchema = z.enum(['explicit', 'client_info']);
+
+// ============================================================================
+// Challenge Schemas
+// ============================================================================
+
+export const CodeTemplateSchema = z.object({
+    language: ProgrammingLanguageSchema,
+    template: z.string(),
+    signature: z.string(),
+}) satisfies z.ZodType<CodeTemplate>;
+
+export const TestCaseViewSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    hidden: z.boolean(),
+    points: z.number(),
+    input: z.unknown().optional(),
+    expectedOutput: z.unknown().optional(),
+}) satisfies z.ZodType<TestCaseView>;
+
+export const ChallengeViewSchema = z.object({
+    challengeId: z.string(),
+    title: z.string(),
+    category: ChallengeCategorySchema,
+    difficulty: z.number(),
+    description: z.string(),
+    requirements: z.array(z.string()),
+    hints: z.array(z.string()).optional(),
+    timeLimit: z.number(),
+    maxScore: z.number(),
+    template: CodeTemplateSchema.optional(),
+    testCases: z.array(TestCaseViewSchema),
+}) satisfies z.ZodType<ChallengeView>;
+
+export const ChallengeSummarySchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    category: ChallengeCategorySchema,
+    difficulty: z.number(),
+    difficultyTier: DifficultySchema,
+    maxScore: z.number(),
+    tags: z.array(z.string()),
+}) satisfies z.ZodType<ChallengeSummary>;
+
+// ============================================================================
+// Scoring Schemas
+// ============================================================================
+
+export const ScoreBreakdownSchema = z.object({
+    correctness: z.number(),
+    efficiency: z.number(),
+    codeQuality: z.number(),
+    completeness: z.number(),
+    creativity: z.number(),
+}) satisfies z.ZodType<ScoreBreakdown>;
+
+export const OutputDiffSchema = z.object({
+    path: z.string(),
+    message: z.string(),
+    expected: z.unknown().optional(),
+    actual: z.unknown().optional(),
+    addedKeys: z.array(z.string()).optional(),
+    removedKeys: z.array(z.string()).optional(),
+    changedIndices: z.array(z.string()).optional(),
+}) satisfies z.ZodType<OutputDiff>;
+
+export const TestCaseResultSchema = z.object({
+    testCaseId: z.string(),
+    passed: z.boolean(),
+    actualOutput: z.unknown().optional(),
+    expectedOutput: z.unknown().optional(),
+    error: z.string().optional(),
+    executionTime: z.number().optional(),
+    memoryUsage: z.number().optional(),
+    verdict: TestVerdictSchema.optional(),
+    diff: OutputDiffSchema.optional(),
+}) satisfies z.ZodType<TestCaseResult>;
+
+export const ChallengeResultSchema = z.object({
+    challengeId: z.string(),
+    sessionId: z.string(),
+    solution: z.string(),
+    language: ProgrammingLanguageSchema,
+    score: z.number(),
+    maxScore: z.number(),
+    breakdown: ScoreBreakdownSchema,
+    testResults: z.array(TestCaseResultSchema),
+    feedback: z.string(),
+    suggestions: z.array(z.string()),
+    passed: z.boolean(),
+    timeTaken: z.number(),
+    submittedAt: z.string(),
+    gradingMode: GradingModeSchema.optional(),
+    overtime: z.number().optional(),
+    latePenalty: z.number().optional(),
+    expired: ExpiryReasonSchema.optional(),
+    attempts: z.number().optional(),
+    attemptDiscount: z.number().optional(),
+    samples: z.number().optional(),
+    samplesPassed: z.number().optional(),
+    passAtK: z.record(z.string(), z.number()).optional(),
+}) satisfies z.ZodType<ChallengeResult>;
+
+export const SubmissionAttemptSchema = ChallengeResultSchema.pick({
+    challengeId: true,
+    sessionId: true,
+    solution: true,
+    language: true,
+    maxScore: true,
+    breakdown: true,
+    testResults: true,
+    feedback: true,
+    passed: true,
+    submittedAt: true,
+    gradingMode: true,
+}).extend({
+    attempt: z.number(),
+    score: z.number(),
+}) satisfies z.ZodType<SubmissionAttempt>;
+
+export const TestCaseReportSchema = z.object({
+    testCaseId: z.string(),
+    name: z.string().optional(),
+    hidden: z.boolean(),
+    passed: z.boolean(),
+    verdict: TestVerdictSchema.optional(),
+    error: z.string().optional(),
+    diff: OutputDiffSchema.optional(),
+    input: z.unknown().optional(),
+    expectedOutput: z.unknown().optional(),
+}) satisfies z.ZodType<TestCaseReport>;
+
+export const ChallengeTestReportSchema = z.object({
+    challengeId: z.string(),
+    tests: z.array(TestCaseReportSchema),
+}) satisfies z.ZodType<ChallengeTestReport>;
+
+// ============================================================================
+// Session Schemas
+// ============================================================================
+
+export const SessionConfigSchema = z.object({
+    name: z.string().optional(),
+    categories: z.array(ChallengeCategorySchema).optional(),
+    tags: z.array(z.string()).optional(),
+    difficulty: z.union([DifficultySchema, z.literal('all')]).optional(),
+    maxChallenges: z.number().optional(),
+    categoryQuotas: z.record(ChallengeCategorySchema, z.number()).optional(),
+    stratifyByDifficulty: z.boolean().optional(),
+    randomize: z.boolean().optional(),
+    adaptive: z.boolean().optional(),
+    targetStandardError: z.number().optional(),
+    sessionTimeLimit: z.number().optional(),
+    latePolicy: LateSubmissionPolicySchema.optional(),
+    maxAttempts: z.number().optional(),
+    samples: z.number().optional(),
+}) satisfies z.ZodType<SessionConfig>;
+
+export const AdaptiveSelectionSchema = z.object({
+    challengeId: z.string(),
+    ability: z.number(),
+    standardError: z.number(),
+    difficulty: z.number(),
+    discrimination: z.number(),
+    parameterSource: z.enum(['calibration', 'assigned']),
+    information: z.number(),
+    selectedAt: z.string(),
+}) satisfies z.ZodType<AdaptiveSelection>;
+
+export const AdaptiveStateSchema = z.object({
+    ability: z.number(),
+    standardError: z.number(),
+    trace: z.array(AdaptiveSelectionSchema),
+    stopReason: z.enum(['precision_reached', 'max_challenges', 'pool_exhausted', 'session_expired']).optional(),
+}) satisfies z.ZodType<AdaptiveState>;
+
+export const SessionModelSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    provider: z.string().optional(),
+    version: z.string().optional(),
+    temperature: z.number().optional(),
+    systemPromptHash: z.string().optional(),
+    source: ModelIdentitySourceSchema,
+}) satisfies z.ZodType<SessionModel>;
+
+export const SessionSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    aiModel: z.string().optional(),
+    model: SessionModelSchema.optional(),
+    status: SessionStatusSchema,
+    config: SessionConfigSchema,
+    challengeIds: z.array(z.string()),
+    currentChallengeIndex: z.number(),
+    results: z.array(ChallengeResultSchema),
+    startedAt: z.string(),
+    completedAt: z.string().optional(),
+    abandonedAt: z.string().optional(),
+    totalTime: z.number().optional(),
+    adaptive: AdaptiveStateSchema.optional(),
+    servedAt: z.record(z.string(), z.string()).optional(),
+    attempts: z.array(SubmissionAttemptSchema).optional(),
+}) satisfies z.ZodType<Session>;
+
+// ============================================================================
+// Analytics Schemas
+// ============================================================================
+
+export const CategoryScoreSchema = z.object({
+    category: ChallengeCategorySchema,
+    score: z.number(),
+    maxScore: z.number(),
+    percentage: z.number(),
+    rank: z.string(),
+}) satisfies z.ZodType<CategoryScore>;
+
+export const HumanEvalMetricsSchema = z.object({
+    passAtK: z.record(z.string(), z.number()),
+    totalProblems: z.number(),
+    solvedProblems: z.number(),
+    avgAttempts: z.number(),
+    firstAttemptRate: z.number(),
+}) satisfies z.ZodType<HumanEvalMetrics>;
+
+export const ChallengePassAtKSchema = z.object({
+    challengeId: z.string(),
+    samples: z.number(),
+    samplesPassed: z.number(),
+    passAtK: z.record(z.string(), z.number()),
+}) satisfies z.ZodType<ChallengePassAtK>;
+
+export const SessionResultsSchema = z.object({
+    sessionId: z.string(),
+    overallScore: z.number(),
+    maxScore: z.number(),
+    percentage: z.number(),
+    percentile: z.number(),
+    categoryScores: z.array(CategoryScoreSchema),
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    recommendations: z.array(z.string()),
+    completedChallenges: z.number(),
+    totalChallenges: z.number(),
+    passRate: z.number(),
+    totalTime: z.string(),
+    averageTime: z.string(),
+    completedAt: z.string(),
+    abandonedAt: z.string().optional(),
+    testReports: z.array(ChallengeTestReportSchema).optional(),
+    adaptive: AdaptiveStateSchema.optional(),
+    humanEval: HumanEvalMetricsSchema.optional(),
+    passAtK: z.array(ChallengePassAtKSchema).optional(),
+}) satisfies z.ZodType<SessionResults>;
+
+// ============================================================================
+// Leaderboard Schemas
+// ============================================================================
+
+export const LeaderboardEntrySchema = z.object({
+    rank: z.number(),
+    aiModel: z.string(),
+    sessionId: z.string().optional(),
+    score: z.number(),
+    maxScore: z.number(),
+    percentage: z.number(),
+    challengesCompleted: z.number(),
+    completedAt: z.string(),
+    abandoned: z.boolean().optional(),
+}) satisfies z.ZodType<LeaderboardEntry>;
+
+export const RatingEntrySchema = z.object({
+    rank: z.number(),
+    aiModel: z.string(),
+    rating: z.number(),
+    deviation: z.number(),
+    interval: z.object({
+        lower: z.number(),
+        upper: z.number(),
+    }),
+    matches: z.number(),
+}) satisfies z.ZodType<RatingEntry>;
+
+export const LeaderboardSchema = z.object({
+    category: ChallengeCategorySchema.optional(),
+    language: ProgrammingLanguageSchema.optional(),
+    difficulty: DifficultySchema.optional(),
+    timeframe: LeaderboardTimeframeSchema,
+    view: LeaderboardViewSchema,
+    includeAbandoned: z.boolean(),
+    entries: z.array(LeaderboardEntrySchema),
+    ratings: z.array(RatingEntrySchema),
+    totalEntries: z.number(),
+    updatedAt: z.string(),
+}) satisfies z.ZodType<Leaderboard>;
+
+// ============================================================================
+// Model Schemas
+// ============================================================================
+
+export const ModelRatingSchema = z.object({
+    rating: z.number(),
+    deviation: z.number(),
+    volatility: z.number(),
+    matches: z.number(),
+}) satisfies z.ZodType<ModelRating>;
+
+export const ModelProfileSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    provider: z.string().optional(),
+    version: z.string().optional(),
+    totalSessions: z.number(),
+    averageScore: z.number(),
+    bestScore: z.number(),
+    totalChallengesCompleted: z.number(),
+    rating: ModelRatingSchema,
+    firstSeen: z.string(),
+    lastSeen: z.string(),
+}) satisfies z.ZodType<ModelProfile>;
+
+// ============================================================================
+// Calibration Schemas
+// ============================================================================
+
+export const CalibrationFlagSchema = z.enum(['harder_than_assigned', 'easier_than_assigned']);
+
+export const ChallengeCalibrationSchema = z.object({
+    challengeId: z.string(),
+    difficulty: z.number(),
+    discrimination: z.number(),
+    responses: z.number(),
+    passRate: z.number(),
+    assignedDifficulty: z.number(),
+    expectedDifficulty: z.number(),
+    suggestedDifficulty: z.number(),
+    flag: CalibrationFlagSchema.optional(),
+}) satisfies z.ZodType<ChallengeCalibration>;
+
+export const ModelAbilitySchema = z.object({
+    aiModel: z.string(),
+    ability: z.number(),
+    standardError: z.number(),
+    responses: z.number(),
+}) satisfies z.ZodType<ModelAbility>;
+
+export const CalibrationSchema = z.object({
+    challenges: z.array(ChallengeCalibrationSchema),
+    abilities: z.array(ModelAbilitySchema),
+    responses: z.number(),
+    iterations: z.number(),
+    converged: z.boolean(),
+    calibratedAt: z.string(),
+}) satisfies z.ZodType<Calibration>;
@@ -4,6 +4,8 @@
  * @version 1.0.0
  */
 
+import type { HumanEvalMetrics } from '../standards/index.js';
+
 // ============================================================================
 // Core Types
 // ============================================================================
@@ -64,6 +66,45 @@ export type SessionStatus = 'pending' | 'in_progress' | 'completed' | 'abandoned
 // Challenge Types
 // ============================================================================
 
+/**
+ * How a test case's actual output is compared to its expected output.
+ * Without options, outputs must be equal as JSON (including key order).
+ */
+export interface OutputComparisonOptions {
+    /** Numbers may differ by at most this much */
+    readonly absoluteTolerance?: number;
+    /** Numbers may differ by at most this fraction of the expected value */
+    readonly relativeTolerance?: number;
+    /** Arrays match regardless of element order (duplicates still count) */
+    readonly ignoreArrayOrder?: boolean;
+    /** Objects match regardless of key order */
+    readonly ignoreKeyOrder?: boolean;
+    /** Expected strings are regular expressions the actual strings must match */
+    readonly regex?: boolean;
+    /** Actual objects and arrays may contain keys and elements the expected ones lack */
+    readonly subset?: boolean;
+}
+
+/**
+ * Where and why an actual output differs from the expected output
+ */
+export interface OutputDiff {
+    /** JSON path of the first mismatch, e.g. `$.items[2].price` */
+    readonly path: string;
+    /** What differs at that path */
+    readonly message: string;
+    /** Expected value at the path */
+    readonly expected?: unknown;
+    /** Actual value at the path */
+    readonly actual?: unknown;
+    /** Paths of keys the actual output has but the expected output lacks */
+    readonly addedKeys?: readonly string[];
+    /** Paths of keys the expected output has but the actual output lacks */
+    readonly removedKeys?: readonly string[];
+    /** Paths of array positions whose elements differ or exist on one side only */
+    readonly changedIndices?: readonly string[];
+}
+
 /**
  * Test case definition for challenge validation
  */
@@ -82,6 +123,8 @@ export interface TestCase {
     readonly points: number;
     /** Optional timeout in milliseconds */
     readonly timeout?: number;
+    /** How the output is compared; exact JSON equality if omitted */
+    readonly comparison?: OutputComparisonOptions;
 }
 
 /**
@@ -96,6 +139,80 @@ export interface CodeTemplate {
     readonly signature: string;
 }
 
+/**
+ * Hand-written fault injected into a reference implementation
+ */
+export interface Mutant {
+    /** Unique identifier within the challenge */
+    readonly id: string;
+    /** What the fault breaks */
+    readonly description: string;
+    /** Exact source fragment of the reference to replace */
+    readonly find: string;
+    /** Replacement source fragment */
+    readonly replace: string;
+}
+
+/**
+ * What a test-generation test case checks about the submitted test suite.
+ * Used as the `input` of test cases on challenges with a `testSuite`.
+ */
+export type TestSuiteCheck =
+    | { readonly check: 'mutants'; readonly mutants: readonly string[] }
+    | { readonly check: 'mutation-score'; readonly threshold: number }
+    | { readonly check: 'coverage'; readonly threshold: number };
+
+/**
+ * Reference implementation that submitted test suites are graded against
+ */
+export interface TestSuiteSpec {
+    /** Reference implementation in plain JavaScript */
+    readonly reference: string;
+    /** Names the reference defines for the tests to use */
+    readonly exports: readonly string[];
+    /** Hand-written mutants */
+    readonly mutants: readonly Mutant[];
+    /** Number of operator mutants to generate in addition to the hand-written ones */
+    readonly generatedMutants?: number;
+    /** Seed for choosing generated mutants */
+    readonly seed?: number;
+}
+
+/**
+ * Requirement a rubric-graded submission must meet for one test case.
+ * Patterns are case-insensitive, multiline regular expression sources.
+ */
+export interface RubricCriterion {
+    /** Patterns the submission should match */
+    readonly patterns: readonly string[];
+    /** How many patterns must match (defaults to all of them) */
+    readonly minMatches?: number;
+    /** Patterns that fail the criterion when matched */
+    readonly forbidden?: readonly string[];
+}
+
+/**
+ * How a challenge's submissions are graded
+ */
+export type GraderSpec =
+    /** Run each test case and compare the JSON output to the expected output */
+    | { readonly type: 'io-equality' }
+    /** Run each test case; numbers anywhere in the output may differ by `tolerance` */
+    | { readonly type: 'float-tolerance'; readonly tolerance?: number }
+    /** Run each test case; arrays anywhere in the output are compared ignoring order */
+    | { readonly type: 'unordered-set' }
+    /**
+     * Run each test case and accept the output if `checker` returns true.
+     * `checker` is JavaScript source for `(actual, expected, input) => boolean`.
+     */
+    | { readonly type: 'custom-checker-function'; readonly checker: string }
+    /** Match the submission text against criteria, keyed by test case id */
+    | { readonly type: 'rubric'; readonly criteria: Readonly<Record<string, RubricCriterion>> }
+    /** Run the submitted test suite against the challenge's `testSuite` */
+    | { readonly type: 'test-suite' };
+
+export type GraderType = GraderSpec['type'];
+
 /**
  * Complete challenge definition
  */
@@ -128,6 +245,10 @@ export interface Challenge {
     readonly memoryLimit: number;
     /** Tags for categorization */
     readonly tags: readonly string[];
+    /** Reference implementation for test-generation challenges */
+    readonly testSuite?: TestSuiteSpec;
+    /** How submissions are graded; defaults to 'test-suite' with a `testSuite`, 'io-equality' otherwise */
+    readonly grader?: GraderSpec;
     /** Challenge creation date */
     readonly createdAt: ISOTimestamp;
     /** Last update date */
@@ -159,16 +280,44 @@ export interface SessionConfig {
     readonly name?: string;
     /** Categories to include */
     readonly categories?: readonly ChallengeCategory[];
+    /** Tags to include; a challenge matches if it has any of them */
+    readonly tags?: readonly string[];
     /** Difficulty filter */
     readonly difficulty?: Difficulty | 'all';
     /** Maximum number of challenges */
     readonly maxChallenges?: number;
+    /** Exact number of challenges drawn from each category */
+    readonly categoryQuotas?: Readonly<Partial<Record<ChallengeCategory, number>>>;
+    /** Whether challenges were spread evenly across difficulty tiers */
+    readonly stratifyByDifficulty?: boolean;
     /** Whether to randomize challenge order */
     readonly randomize?: boolean;
+    /** Whether challenges are picked one at a time from the running ability estimate */
+    readonly adaptive?: boolean;
+    /** Adaptive sessions stop once the ability estimate's standard error is this small */
+    readonly targetStandardError?: number;
     /** Time limit for entire session in seconds */
     readonly sessionTimeLimit?: number;
+    /** What happens to submissions made after a challenge's time limit */
+    readonly latePolicy?: LateSubmissionPolicy;
+    /** Submissions allowed per challenge; above 1, failed submissions can be repaired after their test feedback */
+    readonly maxAttempts?: number;
+    /** Independent samples submitted per challenge; above 1, pass@k is estimated from them */
+    readonly samples?: number;
 }
 
+/**
+ * What happens to a submission made after its challenge's time limit: it is
+ * rejected and the challenge skipped, or it is scored with a penalty that grows
+ * with the overtime until the challenge expires
+ */
+export type LateSubmissionPolicy = 'reject' | 'penalize';
+
+/**
+ * Which time limit ran out when a challenge was skipped automatically
+ */
+export type ExpiryReason = 'challenge_time_limit' | 'session_time_limit';
+
 /**
  * Active benchmark session
  */
@@ -177,8 +326,10 @@ export interface Session {
     readonly id: string;
     /** Session name */
     readonly name: string;
-    /** AI model identifier */
+    /** AI model identifier, the registry key of `model` */
     readonly aiModel?: string;
+    /** Model that took the session and the parameters it ran with */
+    readonly model?: SessionModel;
     /** Current status */
     readonly status: SessionStatus;
     /** Session configuration */
@@ -193,8 +344,57 @@ export interface Session {
     readonly startedAt: ISOTimestamp;
     /** Session end time */
     readonly completedAt?: ISOTimestamp;
+    /** When the session was abandoned after going idle */
+    readonly abandonedAt?: ISOTimestamp;
     /** Total time spent in seconds */
     readonly totalTime?: number;
+    /** Ability estimate and selection trace of an adaptive session */
+    readonly adaptive?: AdaptiveState;
+    /** When each challenge was first served, by challenge ID; its time limit runs from then */
+    readonly servedAt?: Readonly<Record<string, ISOTimestamp>>;
+    /** Every submission of a repair or sampling session, in order */
+    readonly attempts?: readonly SubmissionAttempt[];
+}
+
+/**
+ * Where the item parameters behind an adaptive selection came from: the stored
+ * IRT calibration, or the hand-assigned difficulty when the challenge is not calibrated
+ */
+export type ItemParameterSource = 'calibration' | 'assigned';
+
+/**
+ * Why an adaptive session stopped picking challenges
+ */
+export type AdaptiveStopReason = 'precision_reached' | 'max_challenges' | 'pool_exhausted' | 'session_expired';
+
+/**
+ * One challenge picked by an adaptive session
+ */
+export interface AdaptiveSelection {
+    readonly challengeId: string;
+    /** Running ability estimate the challenge was picked for, in logits */
+    readonly ability: number;
+    readonly standardError: number;
+    /** 2PL parameters the challenge was scored with */
+    readonly difficulty: number;
+    readonly discrimination: number;
+    readonly parameterSource: ItemParameterSource;
+    /** Fisher information of the challenge at the running ability */
+    readonly information: number;
+    readonly selectedAt: ISOTimestamp;
+}
+
+/**
+ * Running state of an adaptive session
+ */
+export interface AdaptiveState {
+    /** Ability estimate from the challenges answered so far, in logits */
+    readonly ability: number;
+    readonly standardError: number;
+    /** Challenges in the order they were picked */
+    readonly trace: readonly AdaptiveSelection[];
+    /** Set once the session stops picking challenges */
+    readonly stopReason?: AdaptiveStopReason;
 }
 
 // ============================================================================
@@ -217,6 +417,22 @@ export interface ScoreBreakdown {
     readonly creativity: number;
 }
 
+/**
+ * Outcome of running a single test case
+ */
+export type TestVerdict =
+    | 'passed'
+    | 'wrong_answer'
+    | 'runtime_error'
+    | 'compilation_error'
+    | 'time_limit_exceeded'
+    | 'memory_limit_exceeded';
+
+/**
+ * How test outcomes were produced: by running the code, or by the static fallback grader
+ */
+export type GradingMode = 'executed' | 'static';
+
 /**
  * Test case execution result
  */
@@ -233,8 +449,12 @@ export interface TestCaseResult {
     readonly error?: string;
     /** Execution time in milliseconds */
     readonly executionTime?: number;
-    /** Memory usage in bytes */
+    /** Peak memory usage (resident set size) in bytes */
     readonly memoryUsage?: number;
+    /** Verdict, when the test was actually executed */
+    readonly verdict?: TestVerdict;
+    /** First difference between actual and expected output, for wrong answers */
+    readonly diff?: OutputDiff;
 }
 
 /**
@@ -267,6 +487,123 @@ export interface ChallengeResult {
     readonly timeTaken: number;
     /** Submission timestamp */
     readonly submittedAt: ISOTimestamp;
+    /** Whether the tests were executed or graded statically */
+    readonly gradingMode?: GradingMode;
+    /** Seconds the submission came in after the challenge's time limit */
+    readonly overtime?: number;
+    /** Fraction of the score deducted for overtime */
+    readonly latePenalty?: number;
+    /** Set when the challenge was skipped because a time limit ran out */
+    readonly expired?: ExpiryReason;
+    /** Submissions it took, in a repair session */
+    readonly attempts?: number;
+    /** Fraction of the score deducted for the submissions before the last */
+    readonly attemptDiscount?: number;
+    /** Samples submitted, in a sampling session; the score is their mean */
+    readonly samples?: number;
+    /** Samples that passed */
+    readonly samplesPassed?: number;
+    /** Unbiased pass@k estimate from the samples, by k */
+    readonly passAtK?: Readonly<Record<number, number>>;
+}
+
+/**
+ * One scored submission of a challenge in a repair or sampling session
+ */
+export interface SubmissionAttempt
+    extends Pick<
+        ChallengeResult,
+        | 'challengeId'
+        | 'sessionId'
+        | 'solution'
+        | 'language'
+        | 'maxScore'
+        | 'breakdown'
+        | 'testResults'
+        | 'feedback'
+        | 'passed'
+        | 'submittedAt'
+        | 'gradingMode'
+    > {
+    /** 1 for the first submission of the challenge */
+    readonly attempt: number;
+    /** Score before late penalty and attempt discount */
+    readonly score: number;
+}
+
+/**
+ * Test case outcome as reported to clients. Hidden tests carry no outputs, errors
+ * or expected values unless the reveal policy allows it.
+ */
+export interface TestCaseReport {
+    readonly testCaseId: string;
+    readonly name?: string;
+    readonly hidden: boolean;
+    readonly passed: boolean;
+    readonly verdict?: TestVerdict;
+    readonly error?: string;
+    readonly diff?: OutputDiff;
+    /** Input of a revealed hidden test */
+    readonly input?: unknown;
+    /** Expected output of a revealed hidden test */
+    readonly expectedOutput?: unknown;
+}
+
+/**
+ * Reported test outcomes of one submitted challenge
+ */
+export interface ChallengeTestReport {
+    readonly challengeId: string;
+    readonly tests: readonly TestCaseReport[];
+}
+
+/**
+ * Challenge result returned to the submitter, with client-safe test reports
+ */
+export interface SubmissionResult extends ChallengeResult {
+    readonly testReports: readonly TestCaseReport[];
+    /** Resubmissions still allowed in a repair session; while above 0 the challenge stays current */
+    readonly attemptsRemaining?: number;
+    /** Samples still to submit in a sampling session; while above 0 the challenge stays current */
+    readonly samplesRemaining?: number;
+}
+
+// ============================================================================
+// Redaction Types
+// ============================================================================
+
+/**
+ * When hidden test inputs and expected outputs may be shown to clients
+ */
+export type HiddenTestRevealPolicy = 'never' | 'after_session' | 'always';
+
+/**
+ * Test case as shown to clients; hidden tests carry no input or expected output
+ */
+export interface TestCaseView {
+    readonly id: string;
+    readonly name: string;
+    readonly hidden: boolean;
+    readonly points: number;
+    readonly input?: unknown;
+    readonly expectedOutput?: unknown;
+}
+
+/**
+ * Challenge as shown to clients, without grader internals or hidden test data
+ */
+export interface ChallengeView {
+    readonly challengeId: string;
+    readonly title: string;
+    readonly category: ChallengeCategory;
+    readonly difficulty: number;
+    readonly description: string;
+    readonly requirements: readonly string[];
+    readonly hints?: readonly string[];
+    readonly timeLimit: number;
+    readonly maxScore: number;
+    readonly template?: CodeTemplate;
+    readonly testCases: readonly TestCaseView[];
 }
 
 // ============================================================================
@@ -318,6 +655,27 @@ export interface SessionResults {
     readonly averageTime: string;
     /** Completion timestamp */
     readonly completedAt: ISOTimestamp;
+    /** Set when the session was abandoned; the results cover only the challenges answered */
+    readonly abandonedAt?: ISOTimestamp;
+    /** Per-test outcomes of each submitted challenge */
+    readonly testReports?: readonly ChallengeTestReport[];
+    /** Final ability estimate and selection trace of an adaptive session */
+    readonly adaptive?: AdaptiveState;
+    /** HumanEval-style metrics of the answered challenges */
+    readonly humanEval?: HumanEvalMetrics;
+    /** Per-challenge pass@k of a sampling session */
+    readonly passAtK?: readonly ChallengePassAtK[];
+}
+
+/**
+ * pass@k of one challenge, estimated from its samples
+ */
+export interface ChallengePassAtK {
+    readonly challengeId: string;
+    readonly samples: number;
+    readonly samplesPassed: number;
+    /** Unbiased estimate by k, for each k up to the sample count */
+    readonly passAtK: Readonly<Record<number, number>>;
 }
 
 // ============================================================================
@@ -329,6 +687,21 @@ export interface SessionResults {
  */
 export type LeaderboardTimeframe = 'daily' | 'weekly' | 'monthly' | 'all';
 
+/**
+ * Whether a leaderboard keeps only each model's best run or lists every run
+ */
+export type LeaderboardView = 'best' | 'all';
+
+/**
+ * Slice of the benchmark a leaderboard ranks. Without any field it ranks whole
+ * sessions; with one it ranks the results of that category, language or tier.
+ */
+export interface LeaderboardScope {
+    readonly category?: ChallengeCategory;
+    readonly language?: ProgrammingLanguage;
+    readonly difficulty?: Difficulty;
+}
+
 /**
  * Single leaderboard entry
  */
@@ -337,6 +710,8 @@ export interface LeaderboardEntry {
     readonly rank: number;
     /** AI model identifier */
     readonly aiModel: string;
+    /** Session the run belongs to; absent for entries recorded before sessions were tracked */
+    readonly sessionId?: string;
     /** Total score */
     readonly score: number;
     /** Maximum possible score */
@@ -347,24 +722,186 @@ export interface LeaderboardEntry {
     readonly challengesCompleted: number;
     /** Completion timestamp */
     readonly completedAt: ISOTimestamp;
+    /** Partial run of an abandoned session; only listed on request */
+    readonly abandoned?: boolean;
+}
+
+/**
+ * A model's place in the rating ranking
+ */
+export interface RatingEntry {
+    readonly rank: number;
+    readonly aiModel: string;
+    readonly rating: number;
+    readonly deviation: number;
+    /** 95% confidence interval of the rating */
+    readonly interval: {
+        readonly lower: number;
+        readonly upper: number;
+    };
+    readonly matches: number;
+}
+
+/**
+ * Stored leaderboard row: one session's standing in one scope
+ */
+export interface LeaderboardRecord extends Omit<LeaderboardEntry, 'rank' | 'sessionId'>, LeaderboardScope {
+    readonly sessionId: string;
+}
+
+/**
+ * Leaderboard lookup; at most one scope field may be set
+ */
+export interface LeaderboardQuery extends LeaderboardScope {
+    readonly timeframe: LeaderboardTimeframe;
+    readonly view: LeaderboardView;
+    readonly limit: number;
+    /** Also rank partial runs of abandoned sessions */
+    readonly includeAbandoned?: boolean;
 }
 
 /**
  * Complete leaderboard data
  */
-export interface Leaderboard {
-    /** Category filter (if any) */
-    readonly category?: ChallengeCategory;
+export interface Leaderboard extends LeaderboardScope {
     /** Timeframe filter */
     readonly timeframe: LeaderboardTimeframe;
+    /** Best run per model, or every run */
+    readonly view: LeaderboardView;
+    /** Whether partial runs of abandoned sessions are ranked */
+    readonly includeAbandoned: boolean;
     /** Leaderboard entries */
     readonly entries: readonly LeaderboardEntry[];
+    /** Models ranked by rating; ratings span all challenges and time, so scope and timeframe do not apply */
+    readonly ratings: readonly RatingEntry[];
     /** Total number of entries */
     readonly totalEntries: number;
     /** Last updated timestamp */
     readonly updatedAt: ISOTimestamp;
 }
 
+// ============================================================================
+// Model Types
+// ============================================================================
+
+/**
+ * Where a session's model identity came from: start-session arguments, or the
+ * MCP client's `clientInfo` when none were given
+ */
+export type ModelIdentitySource = 'explicit' | 'client_info';
+
+/**
+ * Name, provider and version of a model
+ */
+export interface ModelIdentity {
+    readonly name: string;
+    readonly provider?: string;
+    readonly version?: string;
+}
+
+/**
+ * Generation parameters a model ran a session with
+ */
+export interface ModelRunParameters {
+    /** Sampling temperature */
+    readonly temperature?: number;
+    /** Hash of the system prompt, so runs with different prompts can be told apart */
+    readonly systemPromptHash?: string;
+}
+
+/**
+ * Model identity and run parameters recorded on a session
+ */
+export interface SessionModel extends ModelIdentity, ModelRunParameters {
+    /** Registry key, `provider/name@version` in lower case */
+    readonly id: string;
+    readonly source: ModelIdentitySource;
+}
+
+/**
+ * Glicko-2 rating of a model from head-to-head challenge outcomes
+ */
+export interface ModelRating {
+    readonly rating: number;
+    /** Rating deviation: the uncertainty of the rating, shrinking as matches are played */
+    readonly deviation: number;
+    /** Expected fluctuation of the rating between rating periods */
+    readonly volatility: number;
+    /** Challenges shared with another model, each counting as one match */
+    readonly matches: number;
+}
+
+/**
+ * Aggregate performance of a model across its completed sessions
+ */
+export interface ModelProfile extends ModelIdentity {
+    readonly id: string;
+    /** Completed sessions */
+    readonly totalSessions: number;
+    /** Mean session percentage */
+    readonly averageScore: number;
+    /** Best session percentage */
+    readonly bestScore: number;
+    readonly totalChallengesCompleted: number;
+    readonly rating: ModelRating;
+    readonly firstSeen: ISOTimestamp;
+    readonly lastSeen: ISOTimestamp;
+}
+
+// ============================================================================
+// Calibration Types
+// ============================================================================
+
+/**
+ * How a challenge's fitted difficulty compares with its hand-assigned one
+ */
+export type CalibrationFlag = 'harder_than_assigned' | 'easier_than_assigned';
+
+/**
+ * Fitted two-parameter logistic (2PL) item parameters of a challenge
+ */
+export interface ChallengeCalibration {
+    readonly challengeId: string;
+    /** Fitted difficulty in logits: the ability with an even chance of passing */
+    readonly difficulty: number;
+    /** Fitted discrimination: how sharply the pass chance rises around the difficulty */
+    readonly discrimination: number;
+    /** Results the parameters were fitted from */
+    readonly responses: number;
+    readonly passRate: number;
+    /** Hand-assigned difficulty (1-10) */
+    readonly assignedDifficulty: number;
+    /** Hand-assigned difficulty mapped onto the logit scale */
+    readonly expectedDifficulty: number;
+    /** Fitted difficulty mapped back onto the 1-10 scale */
+    readonly suggestedDifficulty: number;
+    /** Set when the fitted and hand-assigned difficulty disagree */
+    readonly flag?: CalibrationFlag;
+}
+
+/**
+ * Fitted latent ability of a model, in logits
+ */
+export interface ModelAbility {
+    readonly aiModel: string;
+    readonly ability: number;
+    readonly standardError: number;
+    readonly responses: number;
+}
+
+/**
+ * Result of one IRT calibration run over stored challenge results
+ */
+export interface Calibration {
+    readonly challenges: readonly ChallengeCalibration[];
+    readonly abilities: readonly ModelAbility[];
+    /** Pass/fail results the run was fitted from */
+    readonly responses: number;
+    readonly iterations: number;
+    readonly converged: boolean;
+    readonly calibratedAt: ISOTimestamp;
+}
+
 // ============================================================================
 // API Types
 // ============================================================================
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Unit tests for adaptive (CAT) challenge selection and sessions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { adaptiveCandidates, nextAdaptiveStep, type AdaptiveCandidate } from '../../src/core/benchmark/adaptive.js';
+import { estimateAbility } from '../../src/core/calibration/irt.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore, SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import type { Calibration, ChallengeResult, ChallengeSummary } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+const options = { maxChallenges: 10, targetStandardError: 0.6, randomize: false };
+
+function candidate(challengeId: string, difficulty: number, discrimination = 1): AdaptiveCandidate {
+    return { challengeId, parameters: { difficulty, discrimination }, source: 'assigned' };
+}
+
+describe('estimateAbility', () => {
+    it('should start from the prior and move with the answers', () => {
+        const hard = { difficulty: 1, discrimination: 1.5 };
+
+        expect(estimateAbility([])).toEqual({ ability: 0, standardError: 1 });
+
+        const passed = estimateAbility([{ item: hard, correct: true }]);
+        const failed = estimateAbility([{ item: hard, correct: false }]);
+        expect(passed.ability).toBeGreaterThan(0);
+        expect(failed.ability).toBeLessThan(0);
+        expect(passed.standardError).toBeLessThan(1);
+    });
+});
+
+describe('adaptiveCandidates', () => {
+    it('should use calibrated parameters only for challenges with enough results', () => {
+        const pool = [summary('a', 10), summary('b', 1)];
+        const calibration = {
+            challenges: [
+                { challengeId: 'a', difficulty: -0.5, discrimination: 1.8, responses: 12 },
+                { challengeId: 'b', difficulty: 3, discrimination: 0.4, responses: 2 },
+            ],
+        } as unknown as Calibration;
+
+        expect(adaptiveCandidates(pool, calibration)).toEqual([
+            { challengeId: 'a', parameters: { difficulty: -0.5, discrimination: 1.8 }, source: 'calibration' },
+            { challengeId: 'b', parameters: { difficulty: -2, discrimination: 1 }, source: 'assigned' },
+        ]);
+    });
+});
+
+describe('nextAdaptiveStep', () => {
+    const pool = [candidate('easy', -2), candidate('mid', 0), candidate('hard', 2), candidate('harder', 1.5)];
+
+    it('should pick the most informative challenge for the running estimate', () => {
+        const first = nextAdaptiveStep([], [], pool, options);
+        expect(first.challengeId).toBe('mid');
+        expect(first.state.trace).toMatchObject([{ challengeId: 'mid', ability: 0, standardError: 1, parameterSource: 'assigned' }]);
+
+        // Passing moves the estimate up, towards the harder challenges
+        const second = nextAdaptiveStep(first.state.trace, [result('mid', true)], pool, options);
+        expect(second.challengeId).toBe('harder');
+        expect(second.state.ability).toBeGreaterThan(0);
+        expect(second.state.trace).toHaveLength(2);
+
+        // Failing moves it down
+        const failed = nextAdaptiveStep(first.state.trace, [result('mid', false)], pool, options);
+        expect(failed.challengeId).toBe('easy');
+    });
+
+    it('should stop at the size cap, the precision target or the end of the pool', () => {
+        const first = nextAdaptiveStep([], [], pool, { ...options, maxChallenges: 1 });
+        const capped = nextAdaptiveStep(first.state.trace, [result('mid', true)], pool, { ...options, maxChallenges: 1 });
+        expect(capped).toEqual({ state: expect.objectContaining({ stopReason: 'max_challenges' }) });
+
+        // Sharp challenges near the estimate make it precise within the minimum of three
+        const sharp = [candidate('s1', 0, 3), candidate('s2', 0, 3), candidate('s3', 0, 3), candidate('s4', 0, 3)];
+        let step = nextAdaptiveStep([], [], sharp, options);
+        const results: ChallengeResult[] = [];
+        for (const passed of [true, false, true]) {
+            results.push(result(step.challengeId!, passed));
+            step = nextAdaptiveStep(step.state.trace, results, sharp, options);
+        }
+        expect(step.challengeId).toBeUndefined();
+        expect(step.state.stopReason).toBe('precision_reached');
+        expect(step.state.standardError).toBeLessThanOrEqual(0.6);
+
+        const single = nextAdaptiveStep([], [], [candidate('only', 0)], options);
+        const exhausted = nextAdaptiveStep(single.state.trace, [result('only', true)], [candidate('only', 0)], options);
+        expect(exhausted.state.stopReason).toBe('pool_exhausted');
+    });
+});
+
+describe('BenchmarkEngine adaptive sessions', () => {
+    async function createEngine(sessionManager = new SessionManager(new InMemorySessionStore())) {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        return new BenchmarkEngine(challengeRepository, new ScoringEngine({ enableRealExecution: false }), sessionManager);
+    }
+
+    it('should pick challenges one at a time and keep the selection trace', async () => {
+        const db = new DatabaseManager(':memory:');
+        const sessionManager = new SessionManager(new SqliteSessionStore(db));
+        const engine = await createEngine(sessionManager);
+
+        const session = await engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 3,
+            adaptive: true,
+            randomize: false,
+        });
+        expect(session.challengeIds).toHaveLength(1);
+        expect(session.config).toMatchObject({ adaptive: true, maxChallenges: 3, targetStandardError: 0.6 });
+
+        await engine.skipChallenge(session.id);
+        const afterSkip = (await sessionManager.getSession(session.id))!;
+        expect(afterSkip.challengeIds).toHaveLength(2);
+        expect(afterSkip.adaptive!.ability).toBeLessThan(0);
+
+        await engine.skipChallenge(session.id);
+        await engine.skipChallenge(session.id);
+
+        const completed = (await sessionManager.getSession(session.id))!;
+        expect(completed.status).toBe('completed');
+        expect(new Set(completed.challengeIds).size).toBe(3);
+        expect(completed.adaptive!.stopReason).toBe('max_challenges');
+        expect(completed.adaptive!.trace.map((s) => s.challengeId)).toEqual(completed.challengeIds);
+
+        const results = await engine.getSessionResults(session.id);
+        expect(results.adaptive).toEqual(completed.adaptive);
+        db.close();
+    });
+
+    it('should reject quotas and stratification', async () => {
+        const engine = await createEngine();
+
+        await expect(
+            engine.startSession({ adaptive: true, stratifyByDifficulty: true })
+        ).rejects.toThrow('Adaptive sessions do not support categoryQuotas or stratifyByDifficulty');
+    });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function summary(id: string, difficulty: number): ChallengeSummary {
+    return {
+        id,
+        title: id,
+        category: ChallengeCategory.ALGORITHM_DESIGN,
+        difficulty,
+        difficultyTier: Difficulty.MEDIUM,
+        maxScore: 100,
+        tags: [],
+    };
+}
+
+function result(challengeId: string, passed: boolean): ChallengeResult {
+    const score = passed ? 100 : 0;
+    return {
+        challengeId,
+        sessionId: 'session',
+        solution: 'solution',
+        language: 'typescript',
+        score,
+        maxScore: 100,
+        breakdown: { correctness: score, efficiency: score, codeQuality: score, completeness: score, creativity: score },
+        testResults: [],
+        feedback: '',
+        suggestions: [],
+        passed,
+        timeTaken: 1,
+        submittedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
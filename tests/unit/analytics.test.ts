@@ -166,6 +166,7 @@ describe('AnalyticsEngine', () => {
 
             expect(exported).toContain('# AI Benchmark Report');
             expect(exported).toContain('## Summary');
+            expect(exported).toContain('| pass@1 | 70% |');
             expect(exported).toContain(report.sessionId);
         });
 
@@ -275,6 +276,13 @@ function createMockReport() {
             speedRating: 75,
             efficiency: 84,
         },
+        humanEval: {
+            passAtK: { 1: 0.7 },
+            totalProblems: 10,
+            solvedProblems: 8,
+            avgAttempts: 1.3,
+            firstAttemptRate: 70,
+        },
         categoryBreakdown: [],
         standardsCompliance: {
             HumanEval: { score: 85, level: 'Advanced' },
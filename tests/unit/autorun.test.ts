@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for sampling-driven autorun
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema, type CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { buildChallengePrompt, extractCodeBlock, runAutorun } from '../../src/core/benchmark/autorun.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { registerTools } from '../../src/server/tools/index.js';
+import type { ChallengeView } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+import { MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+async function createServices() {
+    const challengeRepository = new ChallengeRepository();
+    await challengeRepository.initialize();
+    const scoringEngine = new ScoringEngine({ enableRealExecution: false });
+    const sessionManager = new SessionManager(new InMemorySessionStore());
+    const benchmarkEngine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+    return { challengeRepository, scoringEngine, sessionManager, benchmarkEngine };
+}
+
+const view: ChallengeView = {
+    challengeId: 'algo_test',
+    title: 'Sum',
+    category: ChallengeCategory.ALGORITHM_DESIGN,
+    difficulty: 2,
+    description: 'Sum the numbers',
+    requirements: ['Handle empty arrays'],
+    timeLimit: 60,
+    maxScore: 100,
+    template: { language: 'typescript', template: 'function main(xs) {}', signature: 'function main(xs: number[]): number' },
+    testCases: [
+        { id: 'tc1', name: 'Visible', hidden: false, points: 50, input: [1, 2], expectedOutput: 3 },
+        { id: 'tc2', name: 'Hidden', hidden: true, points: 50 },
+    ],
+};
+
+describe('extractCodeBlock', () => {
+    it('should prefer the longest block in the requested language', () => {
+        const reply = [
+            'Here is a helper:',
+            '```python\nprint("a much longer block in another language")\n```',
+            '```ts\nmain([1])\n```',
+            '```typescript\nfunction main(xs) { return 0; }\n```',
+        ].join('\n');
+
+        expect(extractCodeBlock(reply, 'typescript')).toBe('function main(xs) { return 0; }');
+    });
+
+    it('should fall back to any fenced block and return null without one', () => {
+        expect(extractCodeBlock('```\nconst x = 1;\n```', 'typescript')).toBe('const x = 1;');
+        expect(extractCodeBlock('function main() {}', 'typescript')).toBeNull();
+        expect(extractCodeBlock('```ts\n\n```', 'typescript')).toBeNull();
+    });
+});
+
+describe('buildChallengePrompt', () => {
+    it('should include the statement, signature and visible examples only', () => {
+        const prompt = buildChallengePrompt(view, 'python');
+
+        expect(prompt).toContain('# Sum');
+        expect(prompt).toContain('- Handle empty arrays');
+        expect(prompt).toContain('function main(xs: number[]): number');
+        expect(prompt).toContain('- Visible: input [1,2] → 3');
+        expect(prompt).not.toContain('Hidden');
+        expect(prompt).toContain('Write the solution in python.');
+    });
+});
+
+describe('runAutorun', () => {
+    it('should submit extracted code and skip challenges without an answer', async () => {
+        const { benchmarkEngine } = await createServices();
+        const session = await benchmarkEngine.startSession({ maxChallenges: 3, randomize: false });
+        const replies = [
+            '```typescript\nfunction main() { return null; }\n```',
+            'I cannot solve this.',
+        ];
+        const progress: Array<[number, number]> = [];
+
+        const summary = await runAutorun(
+            benchmarkEngine,
+            session.id,
+            async () => {
+                const reply = replies.shift();
+                if (reply === undefined) throw new Error('model unavailable');
+                return reply;
+            },
+            { language: 'typescript', onProgress: ({ completed, total }) => progress.push([completed, total]) }
+        );
+
+        expect(progress).toEqual([[0, 3], [1, 3], [2, 3]]);
+        expect(summary.challenges.map((c) => c.challengeId)).toEqual(session.challengeIds);
+        expect(summary).toMatchObject({ submitted: 1, skipped: 2 });
+        expect(summary.challenges[1]?.skipReason).toBe('Reply contained no code block');
+        expect(summary.challenges[2]?.skipReason).toBe('Sampling failed: model unavailable');
+        expect((await benchmarkEngine.getCurrentChallengeView(session.id))).toBeNull();
+    });
+
+    it('should stop when cancelled and leave the session in progress', async () => {
+        const { benchmarkEngine, sessionManager } = await createServices();
+        const session = await benchmarkEngine.startSession({ maxChallenges: 3 });
+        const controller = new AbortController();
+
+        await expect(
+            runAutorun(
+                benchmarkEngine,
+                session.id,
+                async () => {
+                    controller.abort();
+                    throw new Error('cancelled');
+                },
+                { language: 'typescript', signal: controller.signal }
+            )
+        ).rejects.toThrow();
+
+        const stored = await sessionManager.getSession(session.id);
+        expect(stored).toMatchObject({ status: 'in_progress', currentChallengeIndex: 0 });
+    });
+});
+
+describe('intellibench_autorun tool', () => {
+    async function connect(sampling: boolean) {
+        const services = await createServices();
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        registerTools(server, services);
+
+        const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: sampling ? { sampling: {} } : {} });
+        const requests: CreateMessageRequest['params'][] = [];
+        if (sampling) {
+            client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+                requests.push(request.params);
+                return {
+                    model: 'test-model',
+                    role: 'assistant',
+                    content: { type: 'text', text: '```typescript\nfunction main() { return null; }\n```' },
+                };
+            });
+        }
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+        await client.connect(clientTransport);
+        return { client, requests };
+    }
+
+    it('should pose each challenge to the client model and complete the session', async () => {
+        const { client, requests } = await connect(true);
+
+        const result = await client.callTool({ name: MCP_TOOLS.AUTORUN, arguments: { maxChallenges: 2, maxTokens: 1024 } });
+        const summary = JSON.parse((result.content as Array<{ text: string }>)[0]!.text) as Record<string, unknown>;
+
+        expect(result.isError).toBeFalsy();
+        expect(summary).toMatchObject({ submitted: 2, skipped: 0, language: 'typescript' });
+        expect(requests).toHaveLength(2);
+        expect(requests[0]).toMatchObject({ maxTokens: 1024, includeContext: 'none' });
+    });
+
+    it('should refuse to run for clients without sampling', async () => {
+        const { client } = await connect(false);
+
+        const result = await client.callTool({ name: MCP_TOOLS.AUTORUN, arguments: { maxChallenges: 1 } });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.stringify(result.content)).toContain('does not support MCP sampling');
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Unit tests for IRT calibration of challenges and model abilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fit2PL, itemInformation, passProbability, type ItemResponse } from '../../src/core/calibration/irt.js';
+import { calibrate, difficultyToLogit, logitToDifficulty } from '../../src/core/calibration/calibrate.js';
+import { InMemoryCalibrationStore, SqliteCalibrationStore } from '../../src/core/calibration/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { resolveSessionModel } from '../../src/core/models/registry.js';
+import type { ChallengeResult, ChallengeSummary, Session } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+describe('2PL model', () => {
+    it('should give an even chance at the item difficulty', () => {
+        const item = { difficulty: 1, discrimination: 2 };
+
+        expect(passProbability(1, item)).toBe(0.5);
+        expect(passProbability(2, item)).toBeGreaterThan(0.5);
+        expect(itemInformation(1, item)).toBe(1);
+        expect(itemInformation(3, item)).toBeLessThan(itemInformation(1, item));
+    });
+
+    it('should order abilities and difficulties by the response pattern', () => {
+        // Subject s passes item i whenever s > i
+        const responses: ItemResponse[] = [];
+        for (let s = 0; s < 6; s++) {
+            for (let i = 0; i < 5; i++) {
+                responses.push({ subject: `s${s}`, item: `i${i}`, correct: s > i });
+            }
+        }
+
+        const fit = fit2PL(responses);
+
+        expect(fit.converged).toBe(true);
+        const abilities = [0, 1, 2, 3, 4, 5].map((s) => fit.abilities.get(`s${s}`)!.ability);
+        const difficulties = [0, 1, 2, 3, 4].map((i) => fit.items.get(`i${i}`)!.difficulty);
+        expect(abilities).toEqual([...abilities].sort((a, b) => a - b));
+        expect(difficulties).toEqual([...difficulties].sort((a, b) => a - b));
+        expect(fit.items.get('i0')).toMatchObject({ responses: 6, passRate: 5 / 6 });
+        expect(fit.abilities.get('s0')!.standardError).toBeGreaterThan(0);
+    });
+
+    it('should return an empty fit without responses', () => {
+        expect(fit2PL([])).toMatchObject({ converged: true, iterations: 1 });
+    });
+});
+
+describe('calibrate', () => {
+    it('should map the assigned difficulty scale onto logits and back', () => {
+        expect(difficultyToLogit(1)).toBe(-2);
+        expect(difficultyToLogit(10)).toBe(2);
+        expect(logitToDifficulty(difficultyToLogit(7))).toBe(7);
+        expect(logitToDifficulty(-9)).toBe(1);
+        expect(logitToDifficulty(9)).toBe(10);
+    });
+
+    it('should flag challenges whose assigned difficulty disagrees with the results', () => {
+        const challenges = new Map([
+            ['trivial', summary('trivial', 1)],
+            ['fiendish', summary('fiendish', 10)],
+            ['fair', summary('fair', 5)],
+            ['rare', summary('rare', 1)],
+        ]);
+        // Nobody passes the "trivial" challenge and everyone passes the "fiendish" one
+        const sessions = ['a', 'b', 'c', 'd', 'e', 'f'].map((model, index) =>
+            createSession(`s${index}`, model, [
+                ['trivial', false],
+                ['fiendish', true],
+                ['fair', index % 2 === 0],
+                ...(index === 0 ? [['rare', false] as [string, boolean]] : []),
+            ])
+        );
+
+        const calibration = calibrate(sessions, challenges);
+
+        const byId = new Map(calibration.challenges.map((c) => [c.challengeId, c]));
+        expect(byId.get('trivial')).toMatchObject({ flag: 'harder_than_assigned', assignedDifficulty: 1, passRate: 0 });
+        expect(byId.get('fiendish')).toMatchObject({ flag: 'easier_than_assigned', expectedDifficulty: 2, passRate: 1 });
+        expect(byId.get('fair')!.flag).toBeUndefined();
+        // Too few results to judge
+        expect(byId.get('rare')!.flag).toBeUndefined();
+        expect(byId.get('trivial')!.suggestedDifficulty).toBeGreaterThan(byId.get('fiendish')!.suggestedDifficulty);
+        expect(calibration.responses).toBe(19);
+    });
+
+    it('should report abilities for models only, using the last result of each challenge', () => {
+        const challenges = new Map([['c1', summary('c1', 5)], ['c2', summary('c2', 5)]]);
+        const sessions = [
+            createSession('s1', 'strong', [['c1', false], ['c1', true], ['c2', true]]),
+            createSession('s2', 'weak', [['c1', false], ['c2', false]]),
+            createSession('s3', undefined, [['c1', true], ['c2', false]]),
+            createSession('s4', 'strong', [['gone', true]]),
+        ];
+
+        const calibration = calibrate(sessions, challenges);
+
+        expect(calibration.abilities.map((a) => [a.aiModel, a.responses])).toEqual([['strong', 2], ['weak', 2]]);
+        expect(calibration.abilities[0]!.ability).toBeGreaterThan(calibration.abilities[1]!.ability);
+        expect(calibration.responses).toBe(6);
+    });
+});
+
+describe('calibration stores', () => {
+    it.each([
+        ['memory', () => ({ store: new InMemoryCalibrationStore(), close: () => {} })],
+        [
+            'sqlite',
+            () => {
+                const db = new DatabaseManager(':memory:');
+                return { store: new SqliteCalibrationStore(db), close: () => db.close() };
+            },
+        ],
+    ])('should replace the stored calibration with %s store', async (_kind, createStore) => {
+        const { store, close } = createStore();
+        const challenges = new Map([['c1', summary('c1', 1)], ['c2', summary('c2', 9)]]);
+        const sessions = ['a', 'b', 'c', 'd', 'e'].map((model, index) =>
+            createSession(`s${index}`, model, [['c1', false], ['c2', index > 1]])
+        );
+
+        expect(await store.load()).toBeNull();
+        await store.save(calibrate(sessions.slice(0, 2), challenges));
+        const latest = calibrate(sessions, challenges);
+        await store.save(latest);
+
+        expect(await store.load()).toEqual(latest);
+        close();
+    });
+});
+
+describe('BenchmarkEngine calibration', () => {
+    it('should calibrate from stored results and keep the result', async () => {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const engine = new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore())
+        );
+        await expect(engine.getCalibration()).rejects.toThrow('No calibration has been run yet');
+
+        const session = await engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 2,
+            model: resolveSessionModel({ name: 'skipper' }),
+        });
+        await engine.skipChallenge(session.id);
+
+        const calibration = await engine.calibrate();
+
+        expect(calibration.responses).toBe(1);
+        expect(calibration.challenges).toMatchObject([{ challengeId: session.challengeIds[0], passRate: 0 }]);
+        expect(calibration.abilities).toMatchObject([{ aiModel: 'skipper', responses: 1 }]);
+        expect(await engine.getCalibration()).toEqual(calibration);
+    });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function summary(id: string, difficulty: number): ChallengeSummary {
+    return {
+        id,
+        title: id,
+        category: ChallengeCategory.ALGORITHM_DESIGN,
+        difficulty,
+        difficultyTier: Difficulty.MEDIUM,
+        maxScore: 100,
+        tags: [],
+    };
+}
+
+function createSession(id: string, aiModel: string | undefined, outcomes: Array<[string, boolean]>): Session {
+    return {
+        id,
+        name: id,
+        aiModel,
+        status: 'completed',
+        config: {},
+        challengeIds: outcomes.map(([challengeId]) => challengeId),
+        currentChallengeIndex: outcomes.length,
+        results: outcomes.map(([challengeId, passed]) => createResult(id, challengeId, passed)),
+        startedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+function createResult(sessionId: string, challengeId: string, passed: boolean): ChallengeResult {
+    const score = passed ? 100 : 0;
+    return {
+        challengeId,
+        sessionId,
+        solution: 'solution',
+        language: 'typescript',
+        score,
+        maxScore: 100,
+        breakdown: { correctness: score, efficiency: score, codeQuality: score, completeness: score, creativity: score },
+        testResults: [],
+        feedback: '',
+        suggestions: [],
+        passed,
+        timeTaken: 1,
+        submittedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Unit tests for tolerant output comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffOutputs, findMismatch, outputsMatch } from '../../src/core/execution/compare.js';
+
+describe('outputsMatch', () => {
+    it('should behave like JSON equality without options', () => {
+        expect(outputsMatch({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toBe(true);
+        expect(outputsMatch({ b: 2, a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(outputsMatch([1, 2], [2, 1])).toBe(false);
+        expect(outputsMatch(0.1 + 0.2, 0.3)).toBe(false);
+        expect(outputsMatch(null, Infinity)).toBe(true);
+        expect(outputsMatch(undefined, null)).toBe(false);
+    });
+
+    it('should accept numbers within absolute or relative tolerance', () => {
+        expect(outputsMatch(0.1 + 0.2, 0.3, { absoluteTolerance: 1e-9 })).toBe(true);
+        expect(outputsMatch(1010, 1000, { relativeTolerance: 0.01 })).toBe(true);
+        expect(outputsMatch(1011, 1000, { relativeTolerance: 0.01 })).toBe(false);
+        expect(outputsMatch(0.5, 0, { relativeTolerance: 0.5 })).toBe(false);
+    });
+
+    it('should ignore array order while counting duplicates', () => {
+        expect(outputsMatch([3, 1, 2], [1, 2, 3], { ignoreArrayOrder: true })).toBe(true);
+        expect(outputsMatch([1, 1, 2], [1, 2, 2], { ignoreArrayOrder: true })).toBe(false);
+        expect(outputsMatch([[2, 1], [3]], [[3], [1, 2]], { ignoreArrayOrder: true })).toBe(true);
+    });
+
+    it('should ignore key order when asked', () => {
+        expect(outputsMatch({ b: 2, a: 1 }, { a: 1, b: 2 }, { ignoreKeyOrder: true })).toBe(true);
+    });
+
+    it('should match strings against expected patterns', () => {
+        expect(outputsMatch('Error: id 42 not found', '^Error: id \\d+ not found$', { regex: true })).toBe(true);
+        expect(outputsMatch({ id: 'usr_9f2' }, { id: '^usr_[0-9a-f]+$' }, { regex: true })).toBe(true);
+        expect(outputsMatch('nope', '^Error', { regex: true })).toBe(false);
+    });
+
+    it('should allow extra keys and elements in subset mode', () => {
+        expect(outputsMatch({ id: 1, name: 'a', extra: true }, { id: 1, name: 'a' }, { subset: true })).toBe(true);
+        expect(outputsMatch([1, 5, 2, 9, 3], [1, 2, 3], { subset: true })).toBe(true);
+        expect(outputsMatch([3, 2, 1], [1, 2, 3], { subset: true })).toBe(false);
+        expect(outputsMatch([9, 3, 1], [1, 3], { subset: true, ignoreArrayOrder: true })).toBe(true);
+        expect(outputsMatch({ id: 1 }, { id: 1, name: 'a' }, { subset: true })).toBe(false);
+    });
+});
+
+describe('findMismatch', () => {
+    it('should return undefined for matching outputs', () => {
+        expect(findMismatch([1, { a: 'x' }], [1, { a: 'x' }])).toBeUndefined();
+    });
+
+    it('should report the JSON path of the first difference', () => {
+        expect(findMismatch({ items: [{ price: 1 }, { price: 2 }] }, { items: [{ price: 1 }, { price: 3 }] }))
+            .toEqual({ path: '$.items[1].price', message: 'Numbers differ', expected: 3, actual: 2 });
+        expect(findMismatch({ 'first name': 'a' }, { 'first name': 'b' })?.path).toBe('$["first name"]');
+    });
+
+    it('should describe missing, unexpected and reordered keys', () => {
+        expect(findMismatch({ a: 1 }, { a: 1, b: 2 })).toEqual({ path: '$.b', message: 'Missing key', expected: 2 });
+        expect(findMismatch({ a: 1, c: 3 }, { a: 1 })).toEqual({ path: '$.c', message: 'Unexpected key', actual: 3 });
+        expect(findMismatch({ b: 2, a: 1 }, { a: 1, b: 2 })?.message).toBe('Keys are in a different order');
+    });
+
+    it('should describe length and type differences', () => {
+        expect(findMismatch([1, 2], [1, 2, 3])).toEqual({ path: '$', message: 'Array lengths differ', expected: 3, actual: 2 });
+        expect(findMismatch('3', 3)).toMatchObject({ path: '$', message: 'Type differs: got string' });
+        expect(findMismatch([1, 2], [1, 3], { ignoreArrayOrder: true }))
+            .toEqual({ path: '$[1]', message: 'No matching element in actual output', expected: 3 });
+        expect(findMismatch(1.5, 1, { absoluteTolerance: 0.1 })?.message)
+            .toBe('Number outside tolerance (absolute 0.1)');
+    });
+});
+
+describe('diffOutputs', () => {
+    it('should return undefined for matching outputs', () => {
+        expect(diffOutputs({ a: [1.0000001] }, { a: [1] }, { absoluteTolerance: 1e-3 })).toBeUndefined();
+    });
+
+    it('should list added and removed keys alongside the first mismatch', () => {
+        const diff = diffOutputs(
+            { id: 1, user: { name: 'a', nickname: 'b' }, extra: true },
+            { id: 1, user: { name: 'a', email: 'x@y.z' } }
+        );
+
+        expect(diff).toEqual({
+            path: '$.extra',
+            message: 'Unexpected key',
+            actual: true,
+            addedKeys: ['$.extra', '$.user.nickname'],
+            removedKeys: ['$.user.email'],
+        });
+    });
+
+    it('should list differing and extra array positions', () => {
+        const diff = diffOutputs([1, { v: 2 }, 3, 4], [1, { v: 5 }, 9]);
+
+        expect(diff?.path).toBe('$[1].v');
+        expect(diff?.changedIndices).toEqual(['$[1]', '$[2]', '$[3]']);
+    });
+
+    it('should not list positions of unordered arrays', () => {
+        const diff = diffOutputs([3, 1], [1, 2], { ignoreArrayOrder: true });
+
+        expect(diff).toEqual({ path: '$[1]', message: 'No matching element in actual output', expected: 2 });
+    });
+});
@@ -5,7 +5,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { CodeExecutionEngine, ExecutionResult } from '../../src/core/execution/engine.js';
-import type { TestCase } from '../../src/shared/types/index.js';
+import type { TestCase, TestCaseResult } from '../../src/shared/types/index.js';
 
 // Mock child_process
 vi.mock('child_process', () => ({
@@ -134,6 +134,84 @@ describe('CodeExecutionEngine', () => {
         });
     });
 
+    describe('parseExecutionResult', () => {
+        const testCase: TestCase = {
+            id: 'tc1',
+            name: 'Test Case 1',
+            input: [1, 2],
+            expectedOutput: 3,
+            isHidden: false,
+            points: 10,
+        };
+
+        type Parse = { parseExecutionResult: (r: ExecutionResult, tc: TestCase) => TestCaseResult };
+
+        it('should report peak memory and a passed verdict', () => {
+            const result = (engine as unknown as Parse).parseExecutionResult(
+                createExecutionResult({ stdout: '{"success": true, "result": 3}', memoryUsage: 20_000_000 }),
+                testCase
+            );
+
+            expect(result.passed).toBe(true);
+            expect(result.verdict).toBe('passed');
+            expect(result.memoryUsage).toBe(20_000_000);
+        });
+
+        it('should give a memory verdict when the process was killed for memory', () => {
+            const result = (engine as unknown as Parse).parseExecutionResult(
+                createExecutionResult({
+                    success: false,
+                    exitCode: 137,
+                    memoryUsage: 140_000_000,
+                    memoryLimitExceeded: true,
+                    error: 'Memory limit exceeded',
+                }),
+                testCase
+            );
+
+            expect(result.passed).toBe(false);
+            expect(result.verdict).toBe('memory_limit_exceeded');
+            expect(result.error).toBe('Memory limit exceeded');
+        });
+
+        it('should give a memory verdict when an allocation fails under the rlimit', () => {
+            const result = (engine as unknown as Parse).parseExecutionResult(
+                createExecutionResult({ stdout: '{"success": false, "error": "MemoryError"}' }),
+                testCase
+            );
+
+            expect(result.verdict).toBe('memory_limit_exceeded');
+        });
+
+        it('should distinguish wrong answers and timeouts', () => {
+            const parse = (engine as unknown as Parse).parseExecutionResult.bind(engine);
+
+            expect(parse(createExecutionResult({ stdout: '{"success": true, "result": 4}' }), testCase).verdict)
+                .toBe('wrong_answer');
+            expect(parse(createExecutionResult({ success: false, timedOut: true }), testCase).verdict)
+                .toBe('time_limit_exceeded');
+        });
+
+        it('should apply the test case comparison and locate the first difference', () => {
+            const parse = (engine as unknown as Parse).parseExecutionResult.bind(engine);
+            const tolerant: TestCase = {
+                ...testCase,
+                expectedOutput: { total: 0.3, items: [1, 2] },
+                comparison: { absoluteTolerance: 1e-9, ignoreArrayOrder: true },
+            };
+
+            expect(parse(createExecutionResult({
+                stdout: '{"success": true, "result": {"total": 0.30000000000000004, "items": [2, 1]}}',
+            }), tolerant).passed).toBe(true);
+
+            const wrong = parse(createExecutionResult({
+                stdout: '{"success": true, "result": {"total": 0.4, "items": [2, 1]}}',
+            }), tolerant);
+            expect(wrong.passed).toBe(false);
+            expect(wrong.diff).toMatchObject({ path: '$.total', expected: 0.3, actual: 0.4 });
+        });
+    });
+
     describe('getDockerImage', () => {
         it('should return correct Docker images for each language', () => {
             const engineAny = engine as unknown as {
@@ -200,3 +278,19 @@ describe('ExecutionResult types', () => {
         expect(result.error).toBe('Execution timed out');
     });
 });
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createExecutionResult(overrides: Partial<ExecutionResult> = {}): ExecutionResult {
+    return {
+        success: true,
+        stdout: '',
+        stderr: '',
+        exitCode: 0,
+        executionTime: 10,
+        timedOut: false,
+        ...overrides,
+    };
+}
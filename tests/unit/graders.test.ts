@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Unit tests for the grader registry and built-in graders
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    GraderRegistry,
+    compileChecker,
+    createDefaultGraderRegistry,
+    createOptionsComparator,
+    evaluateCriterion,
+    getGraderSpec,
+} from '../../src/core/scoring/graders.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { challenges } from '../../src/data/challenges/index.js';
+import type { Challenge, TestCase } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+function getChallengeById(id: string): Challenge | undefined {
+    return challenges.find((c) => c.id === id);
+}
+
+const testCase: TestCase = { id: 'tc1', name: 'Test', input: [4, [[0, 1], [0, 2]]], expectedOutput: null, isHidden: false, points: 10 };
+
+function createChallenge(overrides: Partial<Challenge> = {}): Challenge {
+    return {
+        id: 'docs_test',
+        title: 'Document the module',
+        description: 'Test description',
+        category: ChallengeCategory.DOCUMENTATION,
+        difficulty: 3,
+        difficultyTier: Difficulty.EASY,
+        requirements: [],
+        templates: [{ language: 'typescript', template: '', signature: 'README.md' }],
+        testCases: [
+            { id: 'tc1', name: 'Installation', input: null, expectedOutput: true, isHidden: false, points: 50 },
+            { id: 'tc2', name: 'Security', input: null, expectedOutput: true, isHidden: true, points: 50 },
+        ],
+        maxScore: 100,
+        timeLimit: 300,
+        memoryLimit: 256,
+        tags: [],
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('GraderRegistry', () => {
+    it('should default to io-equality, or test-suite for challenges with a test suite', () => {
+        expect(getGraderSpec(createChallenge())).toEqual({ type: 'io-equality' });
+        expect(getGraderSpec(getChallengeById('test_001')!)).toEqual({ type: 'test-suite' });
+        expect(getGraderSpec(getChallengeById('bugfix_005')!)).toEqual({ type: 'float-tolerance', tolerance: 0.01 });
+    });
+
+    it('should register every built-in grader', () => {
+        const registry = createDefaultGraderRegistry();
+        for (const type of ['io-equality', 'float-tolerance', 'unordered-set', 'custom-checker-function', 'rubric', 'test-suite'] as const) {
+            expect(registry.get(type)?.type).toBe(type);
+        }
+    });
+
+    it('should reject challenges whose grader is not registered', () => {
+        expect(() => new GraderRegistry().resolve(createChallenge())).toThrow('No grader registered for type: io-equality');
+    });
+});
+
+describe('comparators', () => {
+    it('should accept numbers within the tolerance, including nested ones', () => {
+        const compare = createOptionsComparator({ absoluteTolerance: 0.01 });
+        expect(compare(16.9915, 16.99, testCase).passed).toBe(true);
+        expect(compare(17.01, 16.99, testCase)).toMatchObject({ passed: false, diff: { path: '$' } });
+        expect(compare({ total: [1.004, 2] }, { total: [1, 2] }, testCase).passed).toBe(true);
+        expect(compare([0, 4, Infinity], [0, 4, Infinity], testCase).passed).toBe(true);
+        expect(compare([1, 2], [1, 2, 3], testCase).passed).toBe(false);
+    });
+
+    it('should compare arrays and objects ignoring order but not duplicates', () => {
+        const compare = createOptionsComparator({ ignoreArrayOrder: true, ignoreKeyOrder: true });
+        expect(compare([[3, 1], [2]], [[2], [1, 3]], testCase).passed).toBe(true);
+        expect(compare({ b: 1, a: [2, 1] }, { a: [1, 2], b: 1 }, testCase).passed).toBe(true);
+        expect(compare([1, 1, 2], [1, 2, 2], testCase).passed).toBe(false);
+    });
+
+    it('should combine grader options with the test case comparison', () => {
+        const compare = createOptionsComparator({ absoluteTolerance: 0.1 });
+        const subsetCase: TestCase = { ...testCase, comparison: { subset: true } };
+        expect(compare({ total: 1.05, extra: true }, { total: 1 }, subsetCase).passed).toBe(true);
+        expect(compare({ total: 1.05, extra: true }, { total: 1 }, testCase).passed).toBe(false);
+    });
+
+    it('should run custom checkers with the test input', () => {
+        const checker = getChallengeById('algo_006')!.grader;
+        expect(checker?.type).toBe('custom-checker-function');
+        if (checker?.type !== 'custom-checker-function') return;
+
+        const compare = compileChecker(checker.checker, 'algo_006');
+        const dag: TestCase = { ...testCase, input: [4, [[0, 1], [0, 2], [1, 3], [2, 3]]], expectedOutput: [0, 1, 2, 3] };
+        expect(compare([0, 2, 1, 3], dag.expectedOutput, dag).passed).toBe(true);
+        expect(compare([1, 0, 2, 3], dag.expectedOutput, dag).passed).toBe(false);
+        expect(compare([0, 1, 2], dag.expectedOutput, dag).passed).toBe(false);
+    });
+
+    it('should reject output when a checker throws or runs too long', () => {
+        expect(compileChecker('() => { throw new Error("boom"); }', 'c')(1, 1, testCase).passed).toBe(false);
+        expect(compileChecker('() => { while (true) {} }', 'c')(1, 1, testCase).passed).toBe(false);
+        expect(() => compileChecker('not a function', 'c')).toThrow('Invalid checker for challenge c');
+    });
+});
+
+describe('rubric grader', () => {
+    const challenge = createChallenge({
+        grader: {
+            type: 'rubric',
+            criteria: {
+                tc1: { patterns: ['^#+\\s*install', 'npm install'] },
+                tc2: { patterns: ['auth', 'tls', 'encrypt'], minMatches: 2, forbidden: ['password\\s*=\\s*"'] },
+            },
+        },
+    });
+
+    it('should count matched and forbidden patterns', () => {
+        const criterion = { patterns: ['auth', 'tls', 'encrypt'], minMatches: 2, forbidden: ['secret'] };
+        expect(evaluateCriterion(criterion, 'Uses TLS and AUTH tokens')).toEqual({ matched: 2, required: 2, forbidden: 0 });
+        expect(evaluateCriterion({ patterns: ['a'], minMatches: 5 }, 'a')).toEqual({ matched: 1, required: 1, forbidden: 0 });
+    });
+
+    it('should grade submissions without executing them', async () => {
+        const engine = new ScoringEngine({ enableRealExecution: false });
+
+        const good = await engine.scoreSolution({
+            challenge,
+            solution: '# Lib\n\n## Installation\n\nnpm install lib\n\nAll traffic uses TLS; auth via tokens.',
+            language: 'typescript',
+            timeTaken: 60,
+        });
+        expect(good.gradingMode).toBe('static');
+        expect(good.testResults.map((r) => r.passed)).toEqual([true, true]);
+
+        const bad = await engine.scoreSolution({
+            challenge,
+            solution: 'Run npm install. Set password = "hunter2" for auth over TLS.',
+            language: 'typescript',
+            timeTaken: 60,
+        });
+        expect(bad.testResults.map((r) => r.passed)).toEqual([false, false]);
+        expect(bad.testResults[1]?.error).toBe('Submission contains 1 disallowed pattern(s)');
+    });
+
+    it('should pass a strong answer to a shipped architecture challenge', async () => {
+        const engine = new ScoringEngine({ enableRealExecution: false });
+        const result = await engine.scoreSolution({
+            challenge: getChallengeById('arch_001')!,
+            solution: `/**
+ * Short codes are base62 encoded ids; custom aliases are checked for uniqueness.
+ * GET /:code issues a 301 redirect. Hot codes are served from a Redis cache and
+ * the urls table is sharded by code, with read replicas behind a load balancer.
+ * Schema: urls(code primary key, long_url, created_at), clicks(code, ts) with an index on code.
+ * Trade-offs: 301 is cacheable by browsers but hides repeat clicks from analytics.
+ */`,
+            language: 'typescript',
+            timeTaken: 600,
+        });
+
+        expect(result.testResults.every((r) => r.passed)).toBe(true);
+    });
+});
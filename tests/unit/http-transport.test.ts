@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Unit tests for the Streamable HTTP transport
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+    HttpTransportServer,
+    InMemoryEventStore,
+    resolveTransport,
+    type HttpTransportOptions,
+} from '../../src/server/transports/index.js';
+import { registerTools } from '../../src/server/tools/index.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+describe('resolveTransport', () => {
+    it('should read the transport from the command line, then the environment', () => {
+        expect(resolveTransport([], {})).toBe('stdio');
+        expect(resolveTransport([], { MCP_TRANSPORT: 'http' })).toBe('http');
+        expect(resolveTransport(['--transport', 'http'], {})).toBe('http');
+        expect(resolveTransport(['--transport=stdio'], { MCP_TRANSPORT: 'http' })).toBe('stdio');
+    });
+
+    it('should reject unknown or missing transports', () => {
+        expect(() => resolveTransport(['--transport', 'ws'], {})).toThrow('Unknown transport: ws');
+        expect(() => resolveTransport(['--transport'], {})).toThrow('Missing value for --transport');
+    });
+});
+
+describe('InMemoryEventStore', () => {
+    const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { id } });
+
+    async function replay(store: InMemoryEventStore, lastEventId: string) {
+        const sent: Array<{ eventId: string; message: JSONRPCMessage }> = [];
+        const streamId = await store.replayEventsAfter(lastEventId, {
+            send: async (eventId, msg) => {
+                sent.push({ eventId, message: msg });
+            },
+        });
+        return { streamId, sent };
+    }
+
+    it('should replay only the events after the last seen one on the same stream', async () => {
+        const store = new InMemoryEventStore();
+        const first = await store.storeEvent('a', message(1));
+        await store.storeEvent('b', message(2));
+        const third = await store.storeEvent('a', message(3));
+
+        const { streamId, sent } = await replay(store, first);
+
+        expect(streamId).toBe('a');
+        expect(sent).toEqual([{ eventId: third, message: message(3) }]);
+        expect(await store.getStreamIdForEventId(third)).toBe('a');
+    });
+
+    it('should keep a bounded history per stream', async () => {
+        const store = new InMemoryEventStore(2);
+        const first = await store.storeEvent('a', message(1));
+        const second = await store.storeEvent('a', message(2));
+        await store.storeEvent('a', message(3));
+
+        expect(store.size).toBe(2);
+        expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+        await expect(replay(store, first)).rejects.toThrow(`Unknown event ID: ${first}`);
+        expect((await replay(store, second)).sent).toHaveLength(1);
+    });
+});
+
+describe('HttpTransportServer', () => {
+    let httpServer: HttpTransportServer | undefined;
+    const clients: Client[] = [];
+
+    const servers: McpServer[] = [];
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const initialize = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await Promise.all(clients.splice(0).map((client) => client.close()));
+        await httpServer?.close();
+        httpServer = undefined;
+        servers.length = 0;
+    });
+
+    async function start(options: Partial<HttpTransportOptions> = {}): Promise<string> {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const scoringEngine = new ScoringEngine({ enableRealExecution: false });
+        const sessionManager = new SessionManager(new InMemorySessionStore());
+        const benchmarkEngine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+
+        httpServer = new HttpTransportServer({
+            host: '127.0.0.1',
+            port: 0,
+            createServer: () => {
+                const server = new McpServer({ name: 'test', version: '1.0.0' });
+                registerTools(server, { benchmarkEngine, sessionManager, challengeRepository, scoringEngine });
+                servers.push(server);
+                return server;
+            },
+            ...options,
+        });
+        return httpServer.listen();
+    }
+
+    async function connect(url: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+        const transport = new StreamableHTTPClientTransport(new URL(url));
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        await client.connect(transport);
+        clients.push(client);
+        return { client, transport };
+    }
+
+    it('should give each client its own session over shared services', async () => {
+        const url = await start();
+        const first = await connect(url);
+        const second = await connect(url);
+
+        expect(first.transport.sessionId).toEqual(expect.any(String));
+        expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+        expect(httpServer?.sessionCount).toBe(2);
+
+        const started = await first.client.callTool({ name: MCP_TOOLS.START_SESSION, arguments: { maxChallenges: 1 } });
+        const { sessionId } = JSON.parse((started.content as Array<{ text: string }>)[0]!.text) as { sessionId: string };
+        const status = await second.client.callTool({ name: MCP_TOOLS.GET_SESSION_STATUS, arguments: { sessionId } });
+        expect(status.isError).toBeFalsy();
+    });
+
+    it('should close a session when the client terminates it', async () => {
+        const url = await start();
+        const { transport } = await connect(url);
+
+        await transport.terminateSession();
+
+        expect(httpServer?.sessionCount).toBe(0);
+    });
+
+    it('should close sessions left idle past the timeout', async () => {
+        const url = await start({ sessionIdleTimeout: 60 });
+        const opened = await fetch(url, { method: 'POST', headers, body: initialize });
+        await opened.text();
+        const sessionId = opened.headers.get('mcp-session-id')!;
+
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(Date.now() + 30_000);
+        expect(await httpServer!.closeIdleSessions()).toEqual([]);
+
+        vi.setSystemTime(Date.now() + 31_000);
+        expect(await httpServer!.closeIdleSessions()).toEqual([sessionId]);
+        expect(httpServer?.sessionCount).toBe(0);
+        expect(servers[0]!.isConnected()).toBe(false);
+
+        const body = JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+        const stale = await fetch(url, { method: 'POST', headers: { ...headers, 'Mcp-Session-Id': sessionId }, body });
+        expect(stale.status).toBe(404);
+    });
+
+    it('should close the server of a rejected initialize request', async () => {
+        const url = await start();
+
+        const rejected = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: initialize,
+        });
+
+        expect(rejected.status).toBe(406);
+        expect(httpServer?.sessionCount).toBe(0);
+        expect(servers[0]!.isConnected()).toBe(false);
+    });
+
+    it('should reject requests without a known session', async () => {
+        const url = await start();
+        const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+        const missing = await fetch(url, { method: 'POST', headers, body });
+        expect(missing.status).toBe(400);
+
+        const unknown = await fetch(url, { method: 'POST', headers: { ...headers, 'Mcp-Session-Id': 'nope' }, body });
+        expect(unknown.status).toBe(404);
+
+        const stream = await fetch(url, { headers: { Accept: 'text/event-stream' } });
+        expect(stream.status).toBe(400);
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Unit tests for leaderboard stores and scoped leaderboards
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { InMemoryLeaderboardStore, SqliteLeaderboardStore } from '../../src/core/leaderboard/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { resolveSessionModel } from '../../src/core/models/registry.js';
+import type { LeaderboardQuery, LeaderboardRecord } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+const now = Date.now();
+const hoursAgo = (hours: number): string => new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+function record(overrides: Partial<LeaderboardRecord>): LeaderboardRecord {
+    return {
+        sessionId: 'session',
+        aiModel: 'model',
+        score: 50,
+        maxScore: 100,
+        percentage: 50,
+        challengesCompleted: 1,
+        completedAt: hoursAgo(1),
+        ...overrides,
+    };
+}
+
+const query: LeaderboardQuery = { timeframe: 'all', view: 'all', limit: 10 };
+
+describe('leaderboard stores', () => {
+    describe.each([
+        ['memory', () => ({ store: new InMemoryLeaderboardStore(), close: () => {} })],
+        [
+            'sqlite',
+            () => {
+                const db = new DatabaseManager(':memory:');
+                return { store: new SqliteLeaderboardStore(db), close: () => db.close() };
+            },
+        ],
+    ])('with %s store', (_kind, createStore) => {
+        let close: () => void = () => {};
+
+        afterEach(() => {
+            close();
+        });
+
+        async function seed() {
+            const created = createStore();
+            close = created.close;
+            await created.store.add([
+                record({ sessionId: 's1', aiModel: 'a', percentage: 60, score: 60 }),
+                record({ sessionId: 's2', aiModel: 'a', percentage: 80, score: 80 }),
+                record({ sessionId: 's3', aiModel: 'b', percentage: 70, score: 70 }),
+                record({ sessionId: 's4', aiModel: 'c', percentage: 90, score: 90, completedAt: hoursAgo(24 * 10) }),
+                record({ sessionId: 's1', aiModel: 'a', category: ChallengeCategory.SECURITY, percentage: 100 }),
+                record({ sessionId: 's3', aiModel: 'b', language: 'python', percentage: 40 }),
+                record({ sessionId: 's3', aiModel: 'b', difficulty: Difficulty.HARD, percentage: 30 }),
+            ]);
+            return created.store;
+        }
+
+        it('should rank every run of whole sessions', async () => {
+            const store = await seed();
+
+            const page = await store.query(query);
+
+            expect(page.entries.map((e) => [e.rank, e.sessionId])).toEqual([[1, 's4'], [2, 's2'], [3, 's3'], [4, 's1']]);
+            expect(page.totalEntries).toBe(4);
+        });
+
+        it('should keep only the best run of each model', async () => {
+            const store = await seed();
+
+            const page = await store.query({ ...query, view: 'best' });
+
+            expect(page.entries.map((e) => [e.aiModel, e.percentage])).toEqual([['c', 90], ['a', 80], ['b', 70]]);
+        });
+
+        it('should rank a single category, language or difficulty tier', async () => {
+            const store = await seed();
+
+            expect((await store.query({ ...query, category: ChallengeCategory.SECURITY })).entries).toMatchObject([
+                { aiModel: 'a', sessionId: 's1', percentage: 100 },
+            ]);
+            expect((await store.query({ ...query, language: 'python' })).entries).toMatchObject([{ aiModel: 'b' }]);
+            expect((await store.query({ ...query, difficulty: Difficulty.HARD })).entries).toMatchObject([{ percentage: 30 }]);
+            expect((await store.query({ ...query, language: 'rust' })).totalEntries).toBe(0);
+        });
+
+        it('should apply the timeframe and limit', async () => {
+            const store = await seed();
+
+            const page = await store.query({ ...query, timeframe: 'weekly', limit: 2 });
+
+            expect(page.entries.map((e) => e.sessionId)).toEqual(['s2', 's3']);
+            expect(page.totalEntries).toBe(3);
+        });
+
+        it('should list abandoned runs only on request', async () => {
+            const store = await seed();
+            await store.add([record({ sessionId: 's5', aiModel: 'b', percentage: 95, score: 95, abandoned: true })]);
+
+            expect((await store.query({ ...query, view: 'best' })).entries.map((e) => e.sessionId)).toEqual(['s4', 's2', 's3']);
+
+            const page = await store.query({ ...query, view: 'best', includeAbandoned: true });
+            expect(page.entries.map((e) => e.sessionId)).toEqual(['s5', 's4', 's2']);
+            expect(page.entries[0]!.abandoned).toBe(true);
+            expect(page.entries[1]!.abandoned).toBeUndefined();
+        });
+    });
+});
+
+describe('BenchmarkEngine leaderboards', () => {
+    async function createEngine() {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const engine = new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore())
+        );
+        return { engine, challengeRepository };
+    }
+
+    it('should add scoped entries when a session completes', async () => {
+        const { engine, challengeRepository } = await createEngine();
+        const session = await engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 2,
+            model: resolveSessionModel({ name: 'gpt-4o', provider: 'openai' }),
+        });
+        const [first, second] = session.challengeIds;
+        await engine.submitSolution(session.id, first!, 'function main() { return null; }', 'python');
+        expect((await engine.getLeaderboard()).totalEntries).toBe(0);
+        await engine.skipChallenge(session.id);
+
+        const overall = await engine.getLeaderboard();
+        expect(overall.entries).toMatchObject([{ rank: 1, aiModel: 'openai/gpt-4o', sessionId: session.id, challengesCompleted: 2 }]);
+
+        const category = await engine.getLeaderboard({ category: ChallengeCategory.ALGORITHM_DESIGN });
+        expect(category).toMatchObject({ category: ChallengeCategory.ALGORITHM_DESIGN, view: 'best' });
+        expect(category.entries[0]?.percentage).toBe(overall.entries[0]?.percentage);
+
+        // The skipped challenge counts against the language the session submitted in
+        const python = await engine.getLeaderboard({ language: 'python' });
+        expect(python.entries[0]?.challengesCompleted).toBe(2);
+        expect((await engine.getLeaderboard({ language: 'typescript' })).totalEntries).toBe(0);
+
+        const tier = (await challengeRepository.getChallenge(second!))!.difficultyTier;
+        expect((await engine.getLeaderboard({ difficulty: tier })).totalEntries).toBe(1);
+    });
+
+    it('should reject queries scoped by more than one dimension', async () => {
+        const { engine } = await createEngine();
+
+        await expect(
+            engine.getLeaderboard({ category: ChallengeCategory.SECURITY, language: 'python' })
+        ).rejects.toThrow('only one of category, language or difficulty');
+    });
+});
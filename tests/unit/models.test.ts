@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Unit tests for model identity and the model registry
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ModelRegistry, hashSystemPrompt, modelId, resolveSessionModel } from '../../src/core/models/registry.js';
+import { InMemoryModelStore, SqliteModelStore } from '../../src/core/models/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore, SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { registerTools } from '../../src/server/tools/index.js';
+import { MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+describe('model identity', () => {
+    it('should build a normalized registry key', () => {
+        expect(modelId({ name: 'Claude Sonnet 4', provider: 'Anthropic', version: '2025-05-14' })).toBe(
+            'anthropic/claude-sonnet-4@2025-05-14'
+        );
+        expect(modelId({ name: 'gpt-4o', provider: ' ' })).toBe('gpt-4o');
+    });
+
+    it('should prefer requested details over the client info', () => {
+        const model = resolveSessionModel(
+            { name: 'gpt-4o', provider: 'openai', temperature: 0.2 },
+            { name: 'cursor', version: '1.0.0' }
+        );
+
+        expect(model).toEqual({
+            id: 'openai/gpt-4o',
+            name: 'gpt-4o',
+            provider: 'openai',
+            version: undefined,
+            temperature: 0.2,
+            systemPromptHash: undefined,
+            source: 'explicit',
+        });
+    });
+
+    it('should fall back to the client info and return undefined without either', () => {
+        expect(resolveSessionModel({}, { name: 'test-client', version: '2.1.0' })).toMatchObject({
+            id: 'test-client@2.1.0',
+            source: 'client_info',
+        });
+        expect(resolveSessionModel({ temperature: 1 })).toBeUndefined();
+    });
+
+    it('should hash system prompts with SHA-256', () => {
+        expect(hashSystemPrompt('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
+
+describe('ModelRegistry', () => {
+    describe.each([
+        ['memory', () => ({ store: new InMemoryModelStore(), close: () => {} })],
+        [
+            'sqlite',
+            () => {
+                const db = new DatabaseManager(':memory:');
+                return { store: new SqliteModelStore(db), close: () => db.close() };
+            },
+        ],
+    ])('with %s store', (_kind, createStore) => {
+        let close: () => void = () => {};
+
+        afterEach(() => {
+            close();
+        });
+
+        function createRegistry(): ModelRegistry {
+            const created = createStore();
+            close = created.close;
+            return new ModelRegistry(created.store);
+        }
+
+        it('should register models and aggregate completed sessions', async () => {
+            const registry = createRegistry();
+            const model = resolveSessionModel({ name: 'gpt-4o', provider: 'openai' })!;
+
+            await registry.register(model);
+            await registry.recordSession(model.id, 80, 3);
+            await registry.recordSession(model.id, 60, 2);
+
+            const profile = await registry.getProfile(model.id);
+            expect(profile).toMatchObject({
+                id: 'openai/gpt-4o',
+                name: 'gpt-4o',
+                provider: 'openai',
+                totalSessions: 2,
+                averageScore: 70,
+                bestScore: 80,
+                totalChallengesCompleted: 5,
+            });
+            expect(new Date(profile!.lastSeen).toISOString()).toBe(profile!.lastSeen);
+        });
+
+        it('should keep known details when a model registers again without them', async () => {
+            const registry = createRegistry();
+
+            await registry.register({ id: 'x/m', name: 'm', provider: 'x', source: 'explicit' });
+            await registry.register({ id: 'x/m', name: 'm', source: 'explicit' });
+
+            expect((await registry.getProfile('x/m'))?.provider).toBe('x');
+        });
+
+        it('should rank profiles and filter them by provider', async () => {
+            const registry = createRegistry();
+            for (const [id, provider, score] of [['a/one', 'a', 50], ['b/two', 'b', 90], ['a/three', 'A', 70]] as const) {
+                await registry.register({ id, name: id, provider, source: 'explicit' });
+                await registry.recordSession(id, score, 1);
+            }
+
+            expect((await registry.listProfiles()).map((p) => p.id)).toEqual(['b/two', 'a/three', 'a/one']);
+            expect((await registry.listProfiles('a')).map((p) => p.id)).toEqual(['a/three', 'a/one']);
+            expect(await registry.getProfile('missing')).toBeNull();
+        });
+    });
+});
+
+describe('BenchmarkEngine model tracking', () => {
+    it('should record the model on the session and in its profile once the session completes', async () => {
+        const db = new DatabaseManager(':memory:');
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const engine = new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new SqliteSessionStore(db)),
+            undefined,
+            new ModelRegistry(new SqliteModelStore(db))
+        );
+        const model = resolveSessionModel({ name: 'gpt-4o', provider: 'openai', temperature: 0.5 })!;
+
+        const session = await engine.startSession({ maxChallenges: 2, model });
+        expect(await engine.getModelProfile(model.id)).toMatchObject({ totalSessions: 0 });
+
+        await engine.skipChallenge(session.id);
+        await engine.skipChallenge(session.id);
+
+        expect(await engine.resumeSession(session.id)).toMatchObject({
+            aiModel: 'openai/gpt-4o',
+            model: { id: 'openai/gpt-4o', provider: 'openai', temperature: 0.5, source: 'explicit' },
+        });
+        expect(await engine.getModelProfile(model.id)).toMatchObject({
+            totalSessions: 1,
+            averageScore: 0,
+            totalChallengesCompleted: 2,
+        });
+        await expect(engine.getModelProfile('missing')).rejects.toThrow('Model not found: missing');
+
+        db.close();
+    });
+});
+
+describe('model tools', () => {
+    it('should fill the model from the client info and expose its profile', async () => {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const scoringEngine = new ScoringEngine({ enableRealExecution: false });
+        const sessionManager = new SessionManager(new InMemorySessionStore());
+        const benchmarkEngine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        registerTools(server, { benchmarkEngine, sessionManager, challengeRepository, scoringEngine });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+        const client = new Client({ name: 'Test Client', version: '3.2.1' });
+        await client.connect(clientTransport);
+        await client.listTools();
+
+        const started = await client.callTool({
+            name: MCP_TOOLS.START_SESSION,
+            arguments: { maxChallenges: 1, temperature: 0.7 },
+        });
+        expect(started.structuredContent).toMatchObject({
+            model: { id: 'test-client@3.2.1', name: 'Test Client', version: '3.2.1', temperature: 0.7, source: 'client_info' },
+        });
+
+        const explicit = await client.callTool({
+            name: MCP_TOOLS.START_SESSION,
+            arguments: { maxChallenges: 1, modelName: 'gpt-4o', modelProvider: 'openai' },
+        });
+        expect(explicit.structuredContent).toMatchObject({ model: { id: 'openai/gpt-4o', source: 'explicit' } });
+
+        const all = await client.callTool({ name: MCP_TOOLS.GET_MODEL_PROFILES, arguments: {} });
+        expect(all.structuredContent).toMatchObject({ totalModels: 2 });
+
+        const openai = await client.callTool({ name: MCP_TOOLS.GET_MODEL_PROFILES, arguments: { provider: 'openai' } });
+        expect(openai.structuredContent).toMatchObject({ profiles: [{ id: 'openai/gpt-4o' }], totalModels: 1 });
+
+        const missing = await client.callTool({ name: MCP_TOOLS.GET_MODEL_PROFILES, arguments: { modelId: 'nope' } });
+        expect(missing.isError).toBe(true);
+    });
+});
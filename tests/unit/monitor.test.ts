@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Unit Tests for the Memory Monitor
+ * @module @mcp/intellibench/tests/unit/monitor
+ */
+
+import { describe, it, expect } from 'vitest';
+import { spawn } from 'child_process';
+import { MemoryMonitor, parseParentPid, readPeakRss } from '../../src/core/execution/monitor.js';
+import { CodeExecutionEngine } from '../../src/core/execution/engine.js';
+
+const isLinux = process.platform === 'linux';
+
+describe('Memory Monitor', () => {
+    describe('parseParentPid', () => {
+        it('should parse the parent pid after the command name', () => {
+            expect(parseParentPid('1234 (node) S 42 1234 1234 0 -1')).toBe(42);
+        });
+
+        it('should handle command names with spaces and parentheses', () => {
+            expect(parseParentPid('99 (my (weird) proc) R 7 99 99 0 -1')).toBe(7);
+        });
+    });
+
+    describe.runIf(isLinux)('readPeakRss', () => {
+        it('should read the peak RSS of the current process', async () => {
+            const rss = await readPeakRss(process.pid);
+            expect(rss).toBeGreaterThan(1024 * 1024);
+        });
+
+        it('should return undefined for missing processes', async () => {
+            expect(await readPeakRss(2 ** 22 + 1)).toBeUndefined();
+        });
+    });
+
+    describe.runIf(isLinux)('MemoryMonitor', () => {
+        it('should kill a process tree that exceeds the limit', async () => {
+            const child = spawn(process.execPath, [
+                '-e',
+                'const a = []; setInterval(() => a.push(Buffer.alloc(8 * 1024 * 1024, 1)), 5);',
+            ]);
+
+            const monitor = new MemoryMonitor(child.pid as number, {
+                memoryLimit: 96 * 1024 * 1024,
+                onLimitExceeded: () => child.kill('SIGKILL'),
+            });
+            monitor.start();
+
+            await new Promise((resolve) => child.on('close', resolve));
+            await monitor.stop();
+
+            expect(monitor.limitExceeded).toBe(true);
+            expect(monitor.peakBytes).toBeGreaterThan(96 * 1024 * 1024);
+        }, 20000);
+
+        it('should report a sample still in flight when stopped', async () => {
+            let killed = false;
+            const monitor = new MemoryMonitor(process.pid, {
+                memoryLimit: 1024,
+                onLimitExceeded: () => (killed = true),
+            });
+
+            monitor.start();
+            await monitor.stop();
+
+            expect(monitor.limitExceeded).toBe(true);
+            expect(killed).toBe(false);
+        });
+
+        it('should count only the submission process of a TypeScript run', async () => {
+            const engine = new CodeExecutionEngine({ useSandbox: false, timeout: 30000 });
+            const [run] = await engine.executeWithTests(
+                'function main(x: number): number { return x * 2; }',
+                'typescript',
+                [{ id: 'tc1', name: 'Double', input: 2, expectedOutput: 4, isHidden: false, points: 1 }]
+            );
+
+            expect(run!.result.passed).toBe(true);
+            // npx and the tsx CLI alone measured over 200MB
+            expect(run!.executionResult.memoryUsage).toBeLessThan(150 * 1024 * 1024);
+        }, 30000);
+    });
+});
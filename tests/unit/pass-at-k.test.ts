@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Unit tests for pass@k estimation from multiple samples per challenge
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { aggregatePassAtK, estimatePassAtK, passAtKValues } from '../../src/core/analytics/pass-at-k.js';
+import { AnalyticsEngine } from '../../src/core/analytics/engine.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { runAutorun } from '../../src/core/benchmark/autorun.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine, type ScoringResult } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import type { ChallengeResult } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+
+/** C(n, k) by exact integer arithmetic, to check the product form against */
+function binomial(n: number, k: number): number {
+    let value = 1;
+    for (let i = 1; i <= k; i++) value = (value * (n - k + i)) / i;
+    return value;
+}
+
+describe('estimatePassAtK', () => {
+    it('should match 1 - C(n-c, k) / C(n, k)', () => {
+        for (const [n, c, k] of [[10, 3, 5], [20, 4, 10], [10, 1, 1], [7, 2, 3]] as const) {
+            expect(estimatePassAtK(n, c, k)).toBeCloseTo(1 - binomial(n - c, k) / binomial(n, k), 12);
+        }
+    });
+
+    it('should be the pass fraction at k = 1 and certain once every draw holds a pass', () => {
+        expect(estimatePassAtK(10, 3, 1)).toBeCloseTo(0.3, 12);
+        expect(estimatePassAtK(10, 6, 5)).toBe(1);
+        expect(estimatePassAtK(10, 0, 10)).toBe(0);
+    });
+
+    it('should reject k outside 1..n', () => {
+        expect(() => estimatePassAtK(3, 1, 5)).toThrow('pass@5 needs between 1 and 3 samples');
+        expect(() => estimatePassAtK(3, 1, 0)).toThrow();
+    });
+});
+
+describe('passAtKValues and aggregatePassAtK', () => {
+    it('should report only the k values the samples allow', () => {
+        expect(passAtKValues(10, 3)).toEqual({ 1: 0.3, 5: 0.9167, 10: 1 });
+        expect(passAtKValues(5, 0)).toEqual({ 1: 0, 5: 0 });
+        expect(passAtKValues(1, 1)).toEqual({ 1: 1 });
+    });
+
+    it('should average each k over the problems sampled at least k times', () => {
+        expect(aggregatePassAtK([{ 1: 0.5, 5: 1 }, { 1: 0.1, 5: 0.4 }, { 1: 0 }])).toEqual({ 1: 0.2, 5: 0.7 });
+        expect(aggregatePassAtK([])).toEqual({});
+    });
+});
+
+describe('AnalyticsEngine pass@k', () => {
+    it('should aggregate sampled results and count single submissions as one sample', () => {
+        const result = (overrides: Partial<ChallengeResult>) => ({ solution: 'code', passed: true, ...overrides }) as ChallengeResult;
+
+        const metrics = new AnalyticsEngine().calculateHumanEvalMetrics([
+            result({ samples: 5, samplesPassed: 1, passed: false, passAtK: { 1: 0.2, 5: 1 } }),
+            result({ samples: 5, samplesPassed: 4, passAtK: { 1: 0.8, 5: 1 } }),
+        ]);
+
+        expect(metrics).toMatchObject({ passAtK: { 1: 0.5, 5: 1 }, solvedProblems: 1, firstAttemptRate: 50 });
+        expect(new AnalyticsEngine().calculateHumanEvalMetrics([result({}), result({ passed: false })]).passAtK).toEqual({
+            1: 0.5,
+        });
+    });
+});
+
+describe('BenchmarkEngine sampling sessions', () => {
+    let db: DatabaseManager;
+    let sessionManager: SessionManager;
+    let engine: BenchmarkEngine;
+    let verdicts: Array<[boolean, number]>;
+
+    beforeEach(async () => {
+        db = new DatabaseManager(':memory:');
+        sessionManager = new SessionManager(new SqliteSessionStore(db));
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const scoringEngine = new ScoringEngine({ enableRealExecution: false });
+        engine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+
+        verdicts = [];
+        vi.spyOn(scoringEngine, 'scoreSolution').mockImplementation(async ({ challenge, hooks }) => {
+            const [passed, totalScore] = verdicts.shift()!;
+            const testCaseId = challenge.testCases[0]!.id;
+            hooks?.onProgress?.({ testCaseId, stage: 'executed', completed: 1, total: 1, passed });
+            return {
+                totalScore,
+                maxScore: challenge.maxScore,
+                percentage: totalScore,
+                passed,
+                breakdown: { correctness: totalScore, efficiency: 0, codeQuality: 0, completeness: 0, creativity: 0 },
+                testResults: [{ testCaseId, passed }],
+                gradingMode: 'static',
+                feedback: passed ? 'All tests pass.' : 'Some tests fail.',
+                suggestions: [],
+            } satisfies ScoringResult;
+        });
+    });
+
+    afterEach(() => {
+        db.close();
+        vi.restoreAllMocks();
+    });
+
+    async function start(samples: number) {
+        return engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 2,
+            randomize: false,
+            samples,
+        });
+    }
+
+    it('should score every sample and settle the challenge on the last', async () => {
+        const session = await start(5);
+        const challengeId = session.challengeIds[0]!;
+        verdicts.push([true, 100], [false, 0], [false, 0], [false, 0], [false, 0]);
+
+        const remaining: Array<number | undefined> = [];
+        let last;
+        for (let i = 0; i < 5; i++) {
+            last = await engine.submitSolution(session.id, challengeId, `v${i}`, 'typescript');
+            remaining.push(last.samplesRemaining);
+        }
+
+        expect(remaining).toEqual([4, 3, 2, 1, 0]);
+        expect(last).toMatchObject({ score: 20, passed: false, samples: 5, samplesPassed: 1, passAtK: { 1: 0.2, 5: 1 } });
+        expect(last!.feedback).toContain('1 of 5 samples passed; the score is their mean.');
+
+        const stored = (await sessionManager.getSession(session.id))!;
+        expect(stored.currentChallengeIndex).toBe(1);
+        expect(stored.attempts).toHaveLength(5);
+        expect(stored.results).toMatchObject([{ challengeId, samples: 5, samplesPassed: 1, passAtK: { 1: 0.2, 5: 1 } }]);
+    });
+
+    it('should withhold the score and tests of every sample but the last', async () => {
+        const session = await start(2);
+        const challengeId = session.challengeIds[0]!;
+        verdicts.push([true, 100], [false, 40]);
+        const progress: unknown[] = [];
+        const onProgress = (p: unknown) => progress.push(p);
+
+        const first = await engine.submitSolution(session.id, challengeId, 'a', 'typescript', { onProgress });
+        expect(first).toMatchObject({ score: 0, passed: false, testResults: [], testReports: [], samplesRemaining: 1 });
+        expect(first.feedback).toBe('Sample 1 of 2 recorded; its score and test results are withheld until the last sample is in.');
+        expect(progress).toEqual([{ testCaseId: expect.any(String), stage: 'executed', completed: 1, total: 1 }]);
+
+        const last = await engine.submitSolution(session.id, challengeId, 'b', 'typescript', { onProgress });
+        expect(last).toMatchObject({ score: 70, passed: true, samplesPassed: 1, samplesRemaining: 0 });
+        expect(last.testReports).toMatchObject([{ passed: false }]);
+        expect(progress[1]).toMatchObject({ passed: false });
+    });
+
+    it('should settle a skipped challenge on the samples already drawn', async () => {
+        const session = await start(4);
+        const challengeId = session.challengeIds[0]!;
+        verdicts.push([true, 100], [true, 80]);
+
+        await engine.submitSolution(session.id, challengeId, 'a', 'typescript');
+        await engine.submitSolution(session.id, challengeId, 'b', 'typescript');
+        const skipped = await engine.skipChallenge(session.id, 'gave up');
+
+        expect(skipped).toMatchObject({ solution: 'b', score: 45, passed: true, samples: 4, samplesPassed: 2, passAtK: { 1: 0.5 } });
+        expect(skipped!.feedback).toContain('2 of 2 samples drawn passed; the 2 not drawn count as failed.');
+        expect((await sessionManager.getSession(session.id))!.results).toMatchObject([{ challengeId, score: 45, samples: 4 }]);
+    });
+
+    it('should report per-challenge and aggregate pass@k in the session results', async () => {
+        const session = await start(2);
+        verdicts.push([true, 90], [true, 70], [false, 10], [true, 60]);
+
+        for (const challengeId of session.challengeIds) {
+            await engine.submitSolution(session.id, challengeId, 'a', 'typescript');
+            await engine.submitSolution(session.id, challengeId, 'b', 'typescript');
+        }
+
+        const results = await engine.getSessionResults(session.id);
+        expect(results.passAtK).toEqual([
+            { challengeId: session.challengeIds[0], samples: 2, samplesPassed: 2, passAtK: { 1: 1 } },
+            { challengeId: session.challengeIds[1], samples: 2, samplesPassed: 1, passAtK: { 1: 0.5 } },
+        ]);
+        expect(results.humanEval).toMatchObject({ passAtK: { 1: 0.75 }, solvedProblems: 2, firstAttemptRate: 75 });
+        expect(results.overallScore).toBe(80 + 35);
+    });
+
+    it('should not combine samples with repair attempts', async () => {
+        await expect(engine.startSession({ samples: 3, maxAttempts: 2 })).rejects.toThrow(
+            'Sampling sessions do not support maxAttempts'
+        );
+    });
+
+    it('should let autorun draw every sample from the original prompt', async () => {
+        const session = await start(3);
+        verdicts.push([false, 0], [true, 100], [true, 100], [true, 100], [true, 100], [false, 0]);
+        const prompts: string[] = [];
+
+        const summary = await runAutorun(
+            engine,
+            session.id,
+            async (prompt) => {
+                prompts.push(prompt);
+                return '```typescript\nfunction main() { return 1; }\n```';
+            },
+            { language: 'typescript' }
+        );
+
+        expect(summary.challenges.map((c) => [c.attempts, c.score, c.passed])).toEqual([
+            [3, 67, true],
+            [3, 67, true],
+        ]);
+        expect(new Set(prompts.slice(0, 3)).size).toBe(1);
+    });
+
+    it('should keep the drawn samples when autorun fails to generate a later one', async () => {
+        const session = await start(3);
+        verdicts.push([true, 90], [false, 30], [true, 100], [true, 100], [true, 100]);
+        let calls = 0;
+
+        const summary = await runAutorun(
+            engine,
+            session.id,
+            async () => {
+                if (++calls === 3) throw new Error('rate limited');
+                return '```typescript\nfunction main() { return 1; }\n```';
+            },
+            { language: 'typescript' }
+        );
+
+        expect(summary.challenges[0]).toMatchObject({
+            submitted: true,
+            score: 40,
+            passed: false,
+            attempts: 2,
+            skipReason: 'Sampling failed: rate limited',
+        });
+        expect((await sessionManager.getSession(session.id))!.results[0]).toMatchObject({ samples: 3, samplesPassed: 1 });
+    });
+});
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Unit tests for scoring progress reporting and cancellation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { CodeExecutionEngine, type ExecutionProgress } from '../../src/core/execution/engine.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { registerTools } from '../../src/server/tools/index.js';
+import type { Challenge, TestCase } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+import { MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+const testCases: TestCase[] = [
+    { id: 'tc1', name: 'One', input: 1, expectedOutput: 2, isHidden: false, points: 50 },
+    { id: 'tc2', name: 'Two', input: 2, expectedOutput: 5, isHidden: true, points: 50 },
+];
+
+const doubler = 'function main(x) { return x * 2; }';
+const spinner = 'function main() { for (;;) {} }';
+// Leaves a looping child behind that shares the submission's stdout
+const forker = `function main() {
+    import('child_process').then(({ spawn }) => {
+        spawn(process.execPath, ['-e', 'for (;;) {}'], { stdio: 'inherit' });
+        for (;;) {}
+    });
+}`;
+
+describe('CodeExecutionEngine progress and cancellation', () => {
+    it('should report each executed test case in order', async () => {
+        const engine = new CodeExecutionEngine({ useSandbox: false });
+        const events: ExecutionProgress[] = [];
+
+        await engine.executeWithTests(doubler, 'javascript', testCases, {}, undefined, {
+            onProgress: (progress) => events.push(progress),
+        });
+
+        expect(events).toEqual([
+            { testCaseId: 'tc1', stage: 'executed', completed: 1, total: 2, passed: true },
+            { testCaseId: 'tc2', stage: 'executed', completed: 2, total: 2, passed: false },
+        ]);
+    });
+
+    it('should kill the running process and reject when aborted', async () => {
+        const engine = new CodeExecutionEngine({ useSandbox: false, timeout: 30000 });
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 300);
+
+        await expect(
+            engine.executeWithTests(spinner, 'javascript', testCases, {}, undefined, { signal: controller.signal })
+        ).rejects.toThrow();
+
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('should kill an infinite TypeScript loop when aborted', async () => {
+        const engine = new CodeExecutionEngine({ useSandbox: false, timeout: 30000 });
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 1000);
+
+        await expect(
+            engine.executeWithTests(
+                'function main(): number { for (;;) {} }',
+                'typescript',
+                testCases,
+                {},
+                undefined,
+                { signal: controller.signal }
+            )
+        ).rejects.toThrow();
+
+        expect(Date.now() - started).toBeLessThan(5000);
+    }, 10000);
+
+    it('should kill the processes a submission started when aborted or timed out', async () => {
+        const engine = new CodeExecutionEngine({ useSandbox: false, timeout: 30000 });
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 500);
+
+        await expect(
+            engine.executeWithTests(forker, 'javascript', testCases, {}, undefined, { signal: controller.signal })
+        ).rejects.toThrow();
+        expect(Date.now() - started).toBeLessThan(5000);
+
+        const [timedOut] = await engine.executeWithTests(forker, 'javascript', testCases.slice(0, 1), { timeout: 500 });
+        expect(timedOut!.executionResult.timedOut).toBe(true);
+        expect(Date.now() - started).toBeLessThan(10000);
+    }, 15000);
+});
+
+describe('ScoringEngine cancellation', () => {
+    it('should not fall back to static grading for a cancelled run', async () => {
+        const challenge: Challenge = {
+            id: 'algo_spin',
+            title: 'Spin',
+            description: 'Double the input',
+            category: ChallengeCategory.ALGORITHM_DESIGN,
+            difficulty: 2,
+            difficultyTier: Difficulty.EASY,
+            requirements: [],
+            templates: [{ language: 'javascript', template: '', signature: 'function main(x)' }],
+            testCases,
+            maxScore: 100,
+            timeLimit: 60,
+            memoryLimit: 128,
+            tags: [],
+            createdAt: '2024-01-01T00:00:00Z',
+            updatedAt: '2024-01-01T00:00:00Z',
+        };
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 300);
+
+        await expect(
+            new ScoringEngine().scoreSolution({
+                challenge,
+                solution: spinner,
+                language: 'javascript',
+                timeTaken: 1,
+                hooks: { signal: controller.signal },
+            })
+        ).rejects.toThrow();
+    });
+});
+
+describe('submit_solution progress notifications', () => {
+    it('should send a notification per executed test case', async () => {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const scoringEngine = new ScoringEngine();
+        const sessionManager = new SessionManager(new InMemorySessionStore());
+        const benchmarkEngine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        registerTools(server, { benchmarkEngine, sessionManager, challengeRepository, scoringEngine });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+        const client = new Client({ name: 'test-client', version: '1.0.0' });
+        await client.connect(clientTransport);
+
+        const session = await benchmarkEngine.startSession({ categories: [ChallengeCategory.ALGORITHM_DESIGN], maxChallenges: 1 });
+        const challenge = (await challengeRepository.getChallenge(session.challengeIds[0]!))!;
+        const updates: Progress[] = [];
+
+        await client.callTool(
+            {
+                name: MCP_TOOLS.SUBMIT_SOLUTION,
+                arguments: { sessionId: session.id, challengeId: challenge.id, solution: 'function main() { return null; }', language: 'javascript' },
+            },
+            undefined,
+            { onprogress: (progress) => updates.push(progress) }
+        );
+
+        expect(updates.map((u) => u.progress)).toEqual(challenge.testCases.map((_, i) => i + 1));
+        expect(updates.every((u) => u.total === challenge.testCases.length)).toBe(true);
+        expect(updates[0]?.message).toMatch(/^Test \S+ (passed|failed) \(1\/\d+\)$/);
+    });
+});
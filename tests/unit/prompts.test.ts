@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Unit tests for MCP prompts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { registerPrompts } from '../../src/server/prompts/index.js';
+import { MCP_PROMPTS } from '../../src/shared/constants/index.js';
+
+async function connectClient(): Promise<Client> {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerPrompts(server);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+}
+
+describe('MCP prompts', () => {
+    it('should list every prompt with its arguments', async () => {
+        const client = await connectClient();
+        const { prompts } = await client.listPrompts();
+
+        expect(prompts.map((p) => p.name)).toEqual(Object.values(MCP_PROMPTS));
+        expect(prompts.find((p) => p.name === MCP_PROMPTS.CHALLENGE_TIPS)?.arguments?.map((a) => a.name)).toEqual(['category']);
+    });
+
+    it('should complete categories and render category tips', async () => {
+        const client = await connectClient();
+
+        const completion = await client.complete({
+            ref: { type: 'ref/prompt', name: MCP_PROMPTS.CHALLENGE_TIPS },
+            argument: { name: 'category', value: 'sec' },
+        });
+        expect(completion.completion.values).toEqual(['security']);
+
+        const prompt = await client.getPrompt({ name: MCP_PROMPTS.CHALLENGE_TIPS, arguments: { category: 'security' } });
+        const [message] = prompt.messages;
+        expect(message?.content).toMatchObject({ type: 'text', text: expect.stringContaining('Security Analysis Tips') });
+    });
+
+    it('should render prompts without arguments', async () => {
+        const client = await connectClient();
+        const prompt = await client.getPrompt({ name: MCP_PROMPTS.INTRODUCTION });
+
+        expect(prompt.description).toBe('Introduction to MCP IntelliBench');
+    });
+});
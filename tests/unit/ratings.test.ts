@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Unit tests for Glicko-2 ratings from head-to-head challenge outcomes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INITIAL_RATING, ratingInterval, updateRating } from '../../src/core/ratings/glicko2.js';
+import { findHeadToHeads } from '../../src/core/ratings/matches.js';
+import { ModelRegistry, resolveSessionModel } from '../../src/core/models/registry.js';
+import { SqliteModelStore } from '../../src/core/models/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import type { ChallengeResult, Session } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+
+describe('Glicko-2', () => {
+    it('should reproduce the worked example from Glickman\'s paper', () => {
+        const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06, matches: 0 }, [
+            { opponent: { rating: 1400, deviation: 30 }, score: 1 },
+            { opponent: { rating: 1550, deviation: 100 }, score: 0 },
+            { opponent: { rating: 1700, deviation: 300 }, score: 0 },
+        ]);
+
+        expect(updated.rating).toBeCloseTo(1464.06, 1);
+        expect(updated.deviation).toBeCloseTo(151.52, 1);
+        expect(updated.volatility).toBeCloseTo(0.059996, 5);
+        expect(updated.matches).toBe(3);
+    });
+
+    it('should only widen the deviation of a period without matches', () => {
+        const updated = updateRating({ rating: 1500, deviation: 200, volatility: 0.06, matches: 4 }, []);
+
+        expect(updated.rating).toBe(1500);
+        expect(updated.deviation).toBeCloseTo(200.27, 2);
+        expect(updated.matches).toBe(4);
+    });
+
+    it('should report a 95% confidence interval', () => {
+        expect(ratingInterval({ rating: 1600, deviation: 50 })).toEqual({ lower: 1502, upper: 1698 });
+    });
+});
+
+describe('findHeadToHeads', () => {
+    it('should score shared challenges against each other model', () => {
+        const session = createSession('s1', 'a', [['c1', 80], ['c2', 50], ['c3', 10]]);
+        const others = [
+            createSession('s2', 'b', [['c1', 60], ['c2', 50]]),
+            createSession('s3', 'b', [['c1', 100]]),
+            createSession('s4', 'a', [['c3', 100]]),
+            createSession('s5', 'c', [['c9', 100]]),
+            createSession('s6', undefined, [['c1', 0]]),
+        ];
+
+        // b averages 80 on c1 (a draw) and matches a on c2; a's own sessions and unknown models are ignored
+        expect(findHeadToHeads(session, others)).toEqual([{ opponent: 'b', scores: [0.5, 0.5] }]);
+        expect(findHeadToHeads(createSession('s7', 'c', [['c1', 100]]), others)).toEqual([
+            { opponent: 'b', scores: [1] },
+        ]);
+    });
+});
+
+describe('ModelRegistry ratings', () => {
+    it('should rate the session model and persist the rating', async () => {
+        const db = new DatabaseManager(':memory:');
+        const registry = new ModelRegistry(new SqliteModelStore(db));
+        for (const id of ['a', 'b']) {
+            await registry.register({ id, name: id, source: 'explicit' });
+        }
+
+        await registry.rateSession(createSession('s2', 'a', [['c1', 100], ['c2', 90]]), [
+            createSession('s1', 'b', [['c1', 20], ['c2', 10]]),
+        ]);
+
+        const [winner, opponent] = [(await registry.getProfile('a'))!, (await registry.getProfile('b'))!];
+        expect(winner.rating.rating).toBeGreaterThan(INITIAL_RATING.rating);
+        expect(winner.rating.deviation).toBeLessThan(INITIAL_RATING.deviation);
+        expect(winner.rating.matches).toBe(2);
+        expect(opponent.rating).toEqual(INITIAL_RATING);
+
+        const ratings = await registry.listRatings(10);
+        expect(ratings.map((r) => [r.rank, r.aiModel])).toEqual([[1, 'a']]);
+        expect(ratings[0]!.interval.lower).toBeLessThan(ratings[0]!.rating);
+
+        db.close();
+    });
+
+    it('should not rate an opponent again on the same results', async () => {
+        const registry = new ModelRegistry();
+        for (const id of ['a', 'b']) {
+            await registry.register({ id, name: id, source: 'explicit' });
+        }
+        const opponent = createSession('s1', 'b', [['c1', 20]]);
+
+        for (const id of ['s2', 's3', 's4']) {
+            await registry.rateSession(createSession(id, 'a', [['c1', 100]]), [opponent]);
+        }
+
+        expect((await registry.getProfile('a'))!.rating.matches).toBe(3);
+        expect((await registry.getProfile('b'))!.rating).toEqual(INITIAL_RATING);
+    });
+});
+
+describe('BenchmarkEngine ratings', () => {
+    it('should rate models on the challenges they share and show the ratings on the leaderboard', async () => {
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        const engine = new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore())
+        );
+        const options = { categories: [ChallengeCategory.ALGORITHM_DESIGN], maxChallenges: 2, randomize: false };
+
+        const skipper = await engine.startSession({ ...options, model: resolveSessionModel({ name: 'skipper' }) });
+        await engine.skipChallenge(skipper.id);
+        await engine.skipChallenge(skipper.id);
+        expect((await engine.getLeaderboard()).ratings).toEqual([]);
+
+        const solver = await engine.startSession({ ...options, model: resolveSessionModel({ name: 'solver' }) });
+        for (const challengeId of solver.challengeIds) {
+            await engine.submitSolution(solver.id, challengeId, 'function main(x) { return x; }', 'javascript');
+        }
+        expect((await engine.getLeaderboard()).ratings.map((r) => r.aiModel)).toEqual(['solver']);
+
+        const rematch = await engine.startSession({ ...options, model: resolveSessionModel({ name: 'skipper' }) });
+        await engine.skipChallenge(rematch.id);
+        await engine.skipChallenge(rematch.id);
+
+        const { ratings } = await engine.getLeaderboard();
+        expect(ratings.map((r) => [r.aiModel, r.matches])).toEqual([['solver', 2], ['skipper', 2]]);
+        expect(ratings[0]!.rating).toBeGreaterThan(ratings[1]!.rating);
+    });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createSession(id: string, aiModel: string | undefined, scores: Array<[string, number]>): Session {
+    return {
+        id,
+        name: id,
+        aiModel,
+        status: 'completed',
+        config: {},
+        challengeIds: scores.map(([challengeId]) => challengeId),
+        currentChallengeIndex: scores.length,
+        results: scores.map(([challengeId, score]) => createResult(id, challengeId, score)),
+        startedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+function createResult(sessionId: string, challengeId: string, score: number): ChallengeResult {
+    return {
+        challengeId,
+        sessionId,
+        solution: 'solution',
+        language: 'typescript',
+        score,
+        maxScore: 100,
+        breakdown: { correctness: score, efficiency: score, codeQuality: score, completeness: score, creativity: score },
+        testResults: [],
+        feedback: '',
+        suggestions: [],
+        passed: score >= 70,
+        timeTaken: 1,
+        submittedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
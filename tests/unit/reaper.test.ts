@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Unit tests for abandoning idle sessions
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionReaper, resolveReaperOptions } from '../../src/core/benchmark/reaper.js';
+import { lastActivityAt } from '../../src/core/benchmark/timing.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { SqliteLeaderboardStore } from '../../src/core/leaderboard/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import { ModelRegistry, resolveSessionModel } from '../../src/core/models/registry.js';
+import { HiddenTestRedactor } from '../../src/core/redaction/redactor.js';
+import type { ChallengeResult, Session } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+
+const START = new Date('2024-01-01T00:00:00.000Z');
+
+function at(seconds: number): string {
+    return new Date(START.getTime() + seconds * 1000).toISOString();
+}
+
+describe('lastActivityAt', () => {
+    it('should take the latest start, serve, attempt or answer, ignoring expiries', () => {
+        const session = {
+            startedAt: at(0),
+            servedAt: { a: at(10), b: at(50) },
+            results: [
+                { submittedAt: at(40) },
+                { submittedAt: at(90), expired: 'challenge_time_limit' },
+            ] as ChallengeResult[],
+        } as unknown as Session;
+
+        expect(lastActivityAt(session)).toBe(at(50));
+        expect(lastActivityAt({ ...session, servedAt: undefined, results: [] })).toBe(at(0));
+        expect(lastActivityAt({ ...session, attempts: [{ submittedAt: at(70) }] as Session['attempts'] })).toBe(at(70));
+    });
+});
+
+describe('resolveReaperOptions', () => {
+    it('should read the timeout and interval in seconds', () => {
+        expect(resolveReaperOptions({})).toEqual({ inactivityTimeout: 3600, interval: 60 });
+        expect(resolveReaperOptions({ SESSION_INACTIVITY_TIMEOUT: '0', SESSION_REAPER_INTERVAL: '5' })).toEqual({
+            inactivityTimeout: 0,
+            interval: 5,
+        });
+        expect(() => resolveReaperOptions({ SESSION_INACTIVITY_TIMEOUT: 'soon' })).toThrow(
+            'Invalid SESSION_INACTIVITY_TIMEOUT: soon (expected seconds, at least 0)'
+        );
+    });
+});
+
+describe('BenchmarkEngine abandoned sessions', () => {
+    let db: DatabaseManager;
+    let sessionManager: SessionManager;
+    let scoringEngine: ScoringEngine;
+    let engine: BenchmarkEngine;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(START);
+
+        db = new DatabaseManager(':memory:');
+        sessionManager = new SessionManager(new SqliteSessionStore(db));
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        scoringEngine = new ScoringEngine({ enableRealExecution: false });
+        engine = new BenchmarkEngine(
+            challengeRepository,
+            scoringEngine,
+            sessionManager,
+            new HiddenTestRedactor(),
+            new ModelRegistry(),
+            new SqliteLeaderboardStore(db)
+        );
+    });
+
+    afterEach(() => {
+        db.close();
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    async function start(modelName: string) {
+        return engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 3,
+            randomize: false,
+            model: resolveSessionModel({ name: modelName }),
+        });
+    }
+
+    it('should abandon idle sessions with partial results and keep active ones', async () => {
+        const idle = await start('idle-model');
+        await engine.skipChallenge(idle.id);
+        const active = await start('active-model');
+
+        vi.setSystemTime(new Date(at(3000)));
+        await engine.getCurrentChallenge(active.id);
+
+        vi.setSystemTime(new Date(at(3700)));
+        await expect(engine.abandonStaleSessions(3600)).resolves.toEqual([idle.id]);
+
+        const abandoned = (await sessionManager.getSession(idle.id))!;
+        expect(abandoned.status).toBe('abandoned');
+        expect(abandoned.abandonedAt).toBe(at(3700));
+        expect(abandoned.completedAt).toBeUndefined();
+        expect((await sessionManager.getSession(active.id))!.status).toBe('in_progress');
+
+        const results = await engine.getSessionResults(idle.id);
+        expect(results).toMatchObject({ completedChallenges: 1, totalChallenges: 3, abandonedAt: at(3700) });
+        await expect(engine.submitSolution(idle.id, idle.challengeIds[1]!, 'x', 'typescript')).rejects.toThrow(
+            'Session is not in progress: abandoned'
+        );
+        await expect(engine.getCurrentChallenge(idle.id)).resolves.toBeNull();
+        expect((await sessionManager.getSession(idle.id))!.status).toBe('abandoned');
+    });
+
+    it('should rank abandoned runs only when asked', async () => {
+        const session = await start('quitter');
+        await engine.skipChallenge(session.id);
+        await engine.abandonSession(session.id);
+
+        expect((await engine.getLeaderboard()).entries).toEqual([]);
+
+        const leaderboard = await engine.getLeaderboard({ includeAbandoned: true });
+        expect(leaderboard.includeAbandoned).toBe(true);
+        expect(leaderboard.entries).toMatchObject([
+            { aiModel: 'quitter', sessionId: session.id, challengesCompleted: 1, abandoned: true },
+        ]);
+        await expect(engine.getModelProfile('quitter')).resolves.toMatchObject({ totalSessions: 0 });
+    });
+
+    it('should keep a session under repair while its attempts continue', async () => {
+        const session = await engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 2,
+            randomize: false,
+            maxAttempts: 3,
+        });
+        const challenge = (await engine.getCurrentChallenge(session.id))!;
+        vi.spyOn(scoringEngine, 'scoreSolution').mockResolvedValue({
+            totalScore: 40,
+            maxScore: 100,
+            percentage: 40,
+            passed: false,
+            breakdown: { correctness: 40, efficiency: 0, codeQuality: 0, completeness: 0, creativity: 0 },
+            testResults: [],
+            gradingMode: 'static',
+            feedback: 'Some tests fail.',
+            suggestions: [],
+        });
+        const reaper = new SessionReaper(engine, { inactivityTimeout: 60, interval: 1 });
+
+        vi.setSystemTime(new Date(at(50)));
+        await engine.submitSolution(session.id, challenge.id, 'x', 'typescript');
+        expect((await sessionManager.getSession(session.id))!.results).toEqual([]);
+
+        vi.setSystemTime(new Date(at(100)));
+        await expect(reaper.sweep()).resolves.toEqual([]);
+
+        vi.setSystemTime(new Date(at(111)));
+        await expect(reaper.sweep()).resolves.toEqual([session.id]);
+    });
+
+    it('should abandon idle sessions once per sweep', async () => {
+        const session = await start('idle-model');
+        const reaper = new SessionReaper(engine, { inactivityTimeout: 60, interval: 1 });
+
+        vi.setSystemTime(new Date(at(61)));
+        await expect(reaper.sweep()).resolves.toEqual([session.id]);
+        await expect(reaper.sweep()).resolves.toEqual([]);
+    });
+});
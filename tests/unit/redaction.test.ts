@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Unit tests for hidden test redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HiddenTestRedactor, buildTestReports, redactChallenge } from '../../src/core/redaction/redactor.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import type { Challenge, TestCaseResult } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+const challenge: Challenge = {
+    id: 'algo_test',
+    title: 'Sum',
+    description: 'Sum the numbers',
+    category: ChallengeCategory.ALGORITHM_DESIGN,
+    difficulty: 2,
+    difficultyTier: Difficulty.EASY,
+    requirements: [],
+    templates: [{ language: 'typescript', template: '', signature: 'function main(xs)' }],
+    testCases: [
+        { id: 'tc1', name: 'Visible', input: [1, 2], expectedOutput: { sum: 3 }, isHidden: false, points: 50 },
+        { id: 'tc2', name: 'Hidden', input: [5, 5], expectedOutput: { sum: 10 }, isHidden: true, points: 50 },
+    ],
+    grader: { type: 'custom-checker-function', checker: '(a, e) => a.sum === e.sum' },
+    maxScore: 100,
+    timeLimit: 60,
+    memoryLimit: 128,
+    tags: [],
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const diff = {
+    path: '$.sum',
+    message: 'Numbers differ',
+    expected: 10,
+    actual: 11,
+    addedKeys: ['$.count'],
+    removedKeys: ['$.total'],
+    changedIndices: ['$.items[2]'],
+};
+
+const results: TestCaseResult[] = [
+    { testCaseId: 'tc1', passed: false, actualOutput: { sum: 4 }, expectedOutput: { sum: 3 }, verdict: 'wrong_answer', diff: { ...diff, expected: 3, actual: 4 } },
+    { testCaseId: 'tc2', passed: false, actualOutput: { sum: 11 }, expectedOutput: { sum: 10 }, error: 'Got [5,5]', verdict: 'wrong_answer', diff },
+];
+
+describe('redactChallenge', () => {
+    it('should show visible test data and hide hidden test data and grader internals', () => {
+        const view = redactChallenge(challenge);
+
+        expect(view.testCases).toEqual([
+            { id: 'tc1', name: 'Visible', hidden: false, points: 50, input: [1, 2], expectedOutput: { sum: 3 } },
+            { id: 'tc2', name: 'Hidden', hidden: true, points: 50 },
+        ]);
+        expect(view).not.toHaveProperty('grader');
+        expect(JSON.stringify(view)).not.toContain('checker');
+    });
+
+    it('should show hidden test data when revealed', () => {
+        expect(redactChallenge(challenge, true).testCases[1]).toMatchObject({ input: [5, 5], expectedOutput: { sum: 10 } });
+    });
+});
+
+describe('buildTestReports', () => {
+    it('should report hidden tests by outcome only', () => {
+        const [visible, hidden] = buildTestReports(challenge, results);
+
+        expect(visible).toMatchObject({ testCaseId: 'tc1', name: 'Visible', hidden: false, diff: { expected: 3, actual: 4 } });
+        expect(hidden).toMatchObject({ testCaseId: 'tc2', hidden: true, verdict: 'wrong_answer' });
+        expect(hidden?.error).toBeUndefined();
+        expect(JSON.stringify(hidden)).not.toMatch(/10|11|\[5,5\]/);
+    });
+
+    it('should keep no field derived from a hidden expected value', () => {
+        const [, hidden] = buildTestReports(challenge, results);
+
+        expect(hidden?.diff).toBeUndefined();
+        expect(JSON.stringify(hidden)).not.toMatch(/sum|total|count|items|Numbers differ/);
+    });
+
+    it('should never include raw outputs of visible tests', () => {
+        const [report] = buildTestReports(challenge, [{ testCaseId: 'tc1', passed: true, expectedOutput: { sum: 3 } }]);
+
+        expect(report).not.toHaveProperty('expectedOutput');
+        expect(report?.passed).toBe(true);
+    });
+
+    it('should include hidden inputs and expected outputs when revealed', () => {
+        const [, hidden] = buildTestReports(challenge, results, true);
+
+        expect(hidden).toMatchObject({ input: [5, 5], expectedOutput: { sum: 10 }, error: 'Got [5,5]', diff });
+    });
+});
+
+describe('HiddenTestRedactor', () => {
+    it('should apply the reveal policy to the session status', () => {
+        expect(new HiddenTestRedactor().canReveal('completed')).toBe(false);
+        expect(new HiddenTestRedactor('after_session').canReveal('in_progress')).toBe(false);
+        expect(new HiddenTestRedactor('after_session').canReveal('completed')).toBe(true);
+        expect(new HiddenTestRedactor('always').canReveal('in_progress')).toBe(true);
+        expect(() => new HiddenTestRedactor('sometimes')).toThrow('Unknown hidden test reveal policy: sometimes');
+    });
+
+    it('should strip hidden test data from raw results', () => {
+        const [visible, hidden] = new HiddenTestRedactor().testResults(challenge, results, 'in_progress');
+
+        expect(visible).toBe(results[0]);
+        expect(hidden).toEqual({ testCaseId: 'tc2', passed: false, verdict: 'wrong_answer' });
+    });
+});
+
+describe('BenchmarkEngine redaction', () => {
+    async function submitOnlyChallenge(redactor: HiddenTestRedactor) {
+        const repository = new ChallengeRepository();
+        await repository.initialize();
+        const engine = new BenchmarkEngine(
+            repository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore()),
+            redactor
+        );
+
+        const session = await engine.startSession({ maxChallenges: 1, randomize: false });
+        const view = await engine.getCurrentChallengeView(session.id);
+        const challengeId = session.challengeIds[0]!;
+        const submission = await engine.submitSolution(session.id, challengeId, 'function main() { return null; }', 'typescript');
+        const sessionResults = await engine.getSessionResults(session.id);
+        const challenge = (await repository.getChallenge(challengeId))!;
+
+        return { view, submission, sessionResults, challenge };
+    }
+
+    it('should keep hidden test data out of views, submissions and results', async () => {
+        const { view, submission, sessionResults, challenge } = await submitOnlyChallenge(new HiddenTestRedactor('never'));
+        const hiddenIds = new Set(challenge.testCases.filter((tc) => tc.isHidden).map((tc) => tc.id));
+        expect(hiddenIds.size).toBeGreaterThan(0);
+
+        expect(view?.testCases.filter((tc) => tc.hidden).every((tc) => !('expectedOutput' in tc))).toBe(true);
+        for (const result of submission.testResults.filter((r) => hiddenIds.has(r.testCaseId))) {
+            expect(result).not.toHaveProperty('expectedOutput');
+        }
+        const reports = sessionResults.testReports?.[0]?.tests ?? [];
+        expect(reports.filter((r) => r.hidden).every((r) => !('expectedOutput' in r))).toBe(true);
+    });
+
+    it('should reveal hidden tests once the session completes under after_session', async () => {
+        const { view, sessionResults } = await submitOnlyChallenge(new HiddenTestRedactor('after_session'));
+
+        expect(view?.testCases.filter((tc) => tc.hidden).every((tc) => !('expectedOutput' in tc))).toBe(true);
+        const hidden = sessionResults.testReports?.[0]?.tests.filter((r) => r.hidden) ?? [];
+        expect(hidden.length).toBeGreaterThan(0);
+        expect(hidden.every((r) => 'expectedOutput' in r)).toBe(true);
+    });
+});
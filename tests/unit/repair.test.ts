@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Unit tests for repair sessions with multiple attempts per challenge
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { buildRepairPrompt, runAutorun } from '../../src/core/benchmark/autorun.js';
+import { AnalyticsEngine } from '../../src/core/analytics/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine, type ScoringResult } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import type { Challenge, ChallengeResult } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+
+/** Whether a submission passes, and its score */
+type Verdict = [boolean, number];
+
+/**
+ * Scoring of one submission, failing the challenge's first visible test unless passed
+ */
+function scoring(challenge: Challenge, [passed, totalScore]: Verdict): ScoringResult {
+    return {
+        totalScore,
+        maxScore: 100,
+        percentage: totalScore,
+        passed,
+        breakdown: { correctness: totalScore, efficiency: 0, codeQuality: 0, completeness: 0, creativity: 0 },
+        testResults: [
+            {
+                testCaseId: challenge.testCases.find((tc) => !tc.isHidden)!.id,
+                passed,
+                ...(passed ? {} : { verdict: 'wrong_answer' as const, error: 'Expected 3, got 4' }),
+            },
+        ],
+        gradingMode: 'static',
+        feedback: passed ? 'All tests pass.' : 'Some tests fail.',
+        suggestions: [],
+    };
+}
+
+describe('BenchmarkEngine repair sessions', () => {
+    let db: DatabaseManager;
+    let sessionManager: SessionManager;
+    let scoringEngine: ScoringEngine;
+    let engine: BenchmarkEngine;
+    let verdicts: Verdict[];
+
+    beforeEach(async () => {
+        db = new DatabaseManager(':memory:');
+        sessionManager = new SessionManager(new SqliteSessionStore(db));
+        const challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        scoringEngine = new ScoringEngine({ enableRealExecution: false });
+        engine = new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager);
+
+        verdicts = [];
+        vi.spyOn(scoringEngine, 'scoreSolution').mockImplementation(async ({ challenge }) => scoring(challenge, verdicts.shift()!));
+    });
+
+    afterEach(() => {
+        db.close();
+        vi.restoreAllMocks();
+    });
+
+    async function start(maxAttempts?: number) {
+        return engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 2,
+            randomize: false,
+            maxAttempts,
+        });
+    }
+
+    it('should keep a failed challenge open and discount the repaired score', async () => {
+        const session = await start(3);
+        const challengeId = session.challengeIds[0]!;
+        verdicts.push([false, 40], [true, 90]);
+
+        const first = await engine.submitSolution(session.id, challengeId, 'v1', 'typescript');
+        expect(first).toMatchObject({ passed: false, attempts: 1, attemptsRemaining: 2, score: 40 });
+        expect((await sessionManager.getSession(session.id))!).toMatchObject({ currentChallengeIndex: 0, results: [] });
+
+        const second = await engine.submitSolution(session.id, challengeId, 'v2', 'typescript');
+        expect(second).toMatchObject({ passed: true, attempts: 2, attemptDiscount: 0.1, attemptsRemaining: 0, score: 81 });
+        expect(second.feedback).toContain('Attempt 2 of 3: 10% repair discount applied.');
+
+        const stored = (await sessionManager.getSession(session.id))!;
+        expect(stored.currentChallengeIndex).toBe(1);
+        expect(stored.results).toMatchObject([{ challengeId, solution: 'v2', score: 81, attempts: 2, attemptDiscount: 0.1 }]);
+        expect(stored.attempts!.map((a) => [a.attempt, a.solution, a.score, a.passed])).toEqual([
+            [1, 'v1', 40, false],
+            [2, 'v2', 90, true],
+        ]);
+    });
+
+    it('should record the last failure once the attempts run out', async () => {
+        const session = await start(2);
+        const challengeId = session.challengeIds[0]!;
+        verdicts.push([false, 40], [false, 50]);
+
+        await engine.submitSolution(session.id, challengeId, 'v1', 'typescript');
+        const last = await engine.submitSolution(session.id, challengeId, 'v2', 'typescript');
+
+        expect(last).toMatchObject({ passed: false, attempts: 2, attemptsRemaining: 0, score: 45 });
+        expect((await engine.getCurrentChallenge(session.id))!.id).toBe(session.challengeIds[1]);
+    });
+
+    it('should advance after one submission outside repair mode', async () => {
+        const session = await start();
+        verdicts.push([false, 40]);
+
+        const result = await engine.submitSolution(session.id, session.challengeIds[0]!, 'v1', 'typescript');
+
+        expect(session.config.maxAttempts).toBeUndefined();
+        expect(result.attempts).toBeUndefined();
+        expect(result.attemptsRemaining).toBeUndefined();
+        expect((await sessionManager.getSession(session.id))!.attempts).toBeUndefined();
+    });
+
+    it('should report attempt metrics in the session results', async () => {
+        const session = await start(3);
+        verdicts.push([false, 40], [true, 90], [true, 100]);
+
+        await engine.submitSolution(session.id, session.challengeIds[0]!, 'v1', 'typescript');
+        await engine.submitSolution(session.id, session.challengeIds[0]!, 'v2', 'typescript');
+        await engine.submitSolution(session.id, session.challengeIds[1]!, 'v1', 'typescript');
+
+        expect((await engine.getSessionResults(session.id)).humanEval).toEqual({
+            passAtK: { 1: 0.5 },
+            totalProblems: 2,
+            solvedProblems: 2,
+            avgAttempts: 1.5,
+            firstAttemptRate: 50,
+        });
+    });
+
+    it('should let autorun repair from the test feedback', async () => {
+        const session = await start(3);
+        verdicts.push([false, 40], [true, 90], [true, 100]);
+        const prompts: string[] = [];
+
+        const summary = await runAutorun(
+            engine,
+            session.id,
+            async (prompt) => {
+                prompts.push(prompt);
+                return `\`\`\`typescript\nfunction main() { return ${prompts.length}; }\n\`\`\``;
+            },
+            { language: 'typescript' }
+        );
+
+        expect(summary.challenges.map((c) => [c.attempts, c.passed])).toEqual([
+            [2, true],
+            [1, true],
+        ]);
+        expect(prompts[1]).toContain('## Your previous submission');
+        expect(prompts[1]).toContain('function main() { return 1; }');
+        expect(prompts[1]).toContain('Expected 3, got 4');
+        expect(prompts[1]).toContain('2 attempts left');
+    });
+});
+
+describe('buildRepairPrompt', () => {
+    it('should list only the failing tests and keep hidden ones marked', () => {
+        const prompt = buildRepairPrompt(
+            {
+                challengeId: 'algo_test',
+                title: 'Sum',
+                category: ChallengeCategory.ALGORITHM_DESIGN,
+                difficulty: 2,
+                description: 'Sum the numbers',
+                requirements: [],
+                timeLimit: 60,
+                maxScore: 100,
+                testCases: [],
+            },
+            'typescript',
+            'function main() {}',
+            {
+                feedback: 'Some tests fail.',
+                attemptsRemaining: 1,
+                testReports: [
+                    { testCaseId: 'tc1', name: 'Visible', hidden: false, passed: true },
+                    { testCaseId: 'tc2', hidden: true, passed: false, verdict: 'time_limit_exceeded' },
+                ],
+            } as unknown as Parameters<typeof buildRepairPrompt>[3]
+        );
+
+        expect(prompt).toContain('## Failing tests\n- tc2 (hidden): time_limit_exceeded');
+        expect(prompt).not.toContain('Visible');
+        expect(prompt).toContain('(1 attempt left)');
+    });
+});
+
+describe('AnalyticsEngine.calculateHumanEvalMetrics', () => {
+    it('should ignore skipped challenges and count unmarked results as one attempt', () => {
+        const result = (overrides: Partial<ChallengeResult>) => ({ solution: 'code', passed: true, ...overrides }) as ChallengeResult;
+
+        expect(
+            new AnalyticsEngine().calculateHumanEvalMetrics([
+                result({}),
+                result({ attempts: 3 }),
+                result({ passed: false, attempts: 2 }),
+                result({ solution: '', passed: false }),
+            ])
+        ).toEqual({
+            passAtK: { 1: 0.3333 },
+            totalProblems: 3,
+            solvedProblems: 2,
+            avgAttempts: 2,
+            firstAttemptRate: 33.33,
+        });
+    });
+});
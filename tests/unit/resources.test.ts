@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Unit tests for MCP resources
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { registerResources, type ResourceContext } from '../../src/server/resources/index.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { MCP_RESOURCES } from '../../src/shared/constants/index.js';
+
+async function setup(): Promise<{ client: Client; context: ResourceContext; clientSessionIds: Set<string> }> {
+    const challengeRepository = new ChallengeRepository();
+    await challengeRepository.initialize();
+    const sessionManager = new SessionManager(new InMemorySessionStore());
+    const clientSessionIds = new Set<string>();
+    const context: ResourceContext = {
+        benchmarkEngine: new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            sessionManager
+        ),
+        sessionManager,
+        challengeRepository,
+        clientSessionIds,
+    };
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerResources(server, context);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    return { client, context, clientSessionIds };
+}
+
+function parse(result: { contents: unknown[] }): Record<string, unknown> {
+    return JSON.parse((result.contents[0] as { text: string }).text) as Record<string, unknown>;
+}
+
+describe('MCP resources', () => {
+    it('should publish static resources and session templates', async () => {
+        const { client } = await setup();
+
+        const { resourceTemplates } = await client.listResourceTemplates();
+        expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+            `${MCP_RESOURCES.SESSIONS}/{sessionId}`,
+            `${MCP_RESOURCES.RESULTS}/{sessionId}`,
+        ]);
+
+        const challenges = parse(await client.readResource({ uri: MCP_RESOURCES.CHALLENGES }));
+        expect(challenges['totalChallenges']).toBeGreaterThan(0);
+    });
+
+    it('should list, complete and read session resources', async () => {
+        const { client, context, clientSessionIds } = await setup();
+        const session = await context.benchmarkEngine.startSession({ maxChallenges: 1 });
+        clientSessionIds.add(session.id);
+
+        const { resources } = await client.listResources();
+        expect(resources.map((r) => r.uri)).toContain(`${MCP_RESOURCES.SESSIONS}/${session.id}`);
+        // Results are only listed for completed sessions
+        expect(resources.map((r) => r.uri)).not.toContain(`${MCP_RESOURCES.RESULTS}/${session.id}`);
+
+        const completion = await client.complete({
+            ref: { type: 'ref/resource', uri: `${MCP_RESOURCES.SESSIONS}/{sessionId}` },
+            argument: { name: 'sessionId', value: session.id.slice(0, 4) },
+        });
+        expect(completion.completion.values).toEqual([session.id]);
+
+        const details = parse(await client.readResource({ uri: `${MCP_RESOURCES.SESSIONS}/${session.id}` }));
+        expect(details).toMatchObject({ id: session.id, status: 'in_progress', progress: { current: 1, total: 1 } });
+    });
+
+    it('should not offer the sessions of other clients', async () => {
+        const { client, context, clientSessionIds } = await setup();
+        const own = await context.benchmarkEngine.startSession({ maxChallenges: 1 });
+        const other = await context.benchmarkEngine.startSession({ maxChallenges: 1 });
+        clientSessionIds.add(own.id);
+        const listSessions = vi.spyOn(context.sessionManager, 'listSessions');
+
+        const { resources } = await client.listResources();
+        const completion = await client.complete({
+            ref: { type: 'ref/resource', uri: `${MCP_RESOURCES.SESSIONS}/{sessionId}` },
+            argument: { name: 'sessionId', value: '' },
+        });
+
+        expect(resources.map((r) => r.uri)).not.toContain(`${MCP_RESOURCES.SESSIONS}/${other.id}`);
+        expect(completion.completion.values).toEqual([own.id]);
+        // Listing loads IDs only, never whole sessions
+        expect(listSessions).not.toHaveBeenCalled();
+    });
+
+    it('should serve the latest calibration once one has run', async () => {
+        const { client, context } = await setup();
+
+        await expect(client.readResource({ uri: MCP_RESOURCES.CALIBRATION })).rejects.toThrow('No calibration has been run yet');
+
+        const calibration = await context.benchmarkEngine.calibrate();
+        expect(parse(await client.readResource({ uri: MCP_RESOURCES.CALIBRATION }))).toEqual(calibration);
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Unit Tests for Sandbox Backends
+ * @module @mcp/intellibench/tests/unit/sandbox
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    NsjailSandbox,
+    BubblewrapSandbox,
+    UlimitSandbox,
+    NoSandbox,
+    type SandboxLimits,
+} from '../../src/core/execution/sandbox.js';
+
+const limits: SandboxLimits = {
+    timeout: 5000,
+    memoryLimit: 256 * 1024 * 1024,
+    maxProcesses: 64,
+    maxFileSize: 16 * 1024 * 1024,
+};
+
+describe('Sandbox Backends', () => {
+    describe('UlimitSandbox', () => {
+        it('should apply rlimits before executing the command', () => {
+            const wrapped = new UlimitSandbox().wrap(['python3', 'Solution.py'], '/work', limits);
+
+            expect(wrapped.slice(0, 2)).toEqual(['bash', '-c']);
+            expect(wrapped[2]).toContain('ulimit -v 262144');
+            expect(wrapped[2]).toContain('ulimit -t 6');
+            expect(wrapped[2]).toContain('ulimit -f 16384');
+            expect(wrapped.slice(-2)).toEqual(['python3', 'Solution.py']);
+        });
+
+        it('should leave the address space unlimited without a memory limit', () => {
+            const wrapped = new UlimitSandbox().wrap(['java', 'Solution'], '/work', { ...limits, memoryLimit: undefined });
+
+            expect(wrapped[2]).not.toContain('ulimit -v');
+            expect(wrapped[2]).toContain('ulimit -t 6');
+        });
+
+        it('should not cap processes, which would count every process of the user', () => {
+            const wrapped = new UlimitSandbox().wrap(['python3', 'Solution.py'], '/work', limits);
+
+            expect(wrapped[2]).not.toContain('ulimit -u');
+        });
+    });
+
+    describe('BubblewrapSandbox', () => {
+        it('should mount the root read-only and the work directory writable', () => {
+            const wrapped = new BubblewrapSandbox().wrap(['./solution'], '/work', limits);
+
+            expect(wrapped[0]).toBe('bwrap');
+            expect(wrapped).toContain('--unshare-all');
+            expect(wrapped.join(' ')).toContain('--ro-bind / /');
+            expect(wrapped.join(' ')).toContain('--bind /work /work');
+            expect(wrapped.at(-1)).toBe('./solution');
+        });
+
+        it('should cap processes inside its own user namespace', () => {
+            const wrapped = new BubblewrapSandbox().wrap(['./solution'], '/work', limits);
+
+            expect(wrapped.join(' ')).toContain('ulimit -u 64');
+        });
+    });
+
+    describe('NsjailSandbox', () => {
+        it('should pass limits as nsjail rlimits', () => {
+            const wrapped = new NsjailSandbox().wrap(['./solution'], '/work', limits);
+            const joined = wrapped.join(' ');
+
+            expect(wrapped[0]).toBe('nsjail');
+            expect(joined).toContain('--rlimit_as 256');
+            expect(joined).toContain('--rlimit_nproc 64');
+            expect(joined).toContain('--bindmount /work');
+            expect(wrapped.at(-1)).toBe('./solution');
+        });
+
+        it('should keep the inherited address space limit without a memory limit', () => {
+            const wrapped = new NsjailSandbox().wrap(['./solution'], '/work', { ...limits, memoryLimit: undefined });
+
+            expect(wrapped.join(' ')).toContain('--rlimit_as hard');
+        });
+    });
+
+    describe('NoSandbox', () => {
+        it('should leave the command unchanged', () => {
+            expect(new NoSandbox().wrap(['node', 'x.js'])).toEqual(['node', 'x.js']);
+        });
+    });
+});
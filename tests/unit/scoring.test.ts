@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { analyzeSolution, gradeStatically, passProbability } from '../../src/core/scoring/static-grader.js';
 import type { Challenge, ProgrammingLanguage } from '../../src/shared/types/index.js';
 import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
 
@@ -117,4 +118,43 @@ describe('ScoringEngine', () => {
             expect(result.breakdown.codeQuality).toBeLessThanOrEqual(100);
         });
     });
+
+    describe('static grading', () => {
+        const solution = `function test(input: number[]): number {
+          if (!input) return 0;
+          return input.reduce((a, b) => a + b, 0);
+        }`;
+
+        it('should produce the same score for the same solution', async () => {
+            const staticEngine = new ScoringEngine({ enableRealExecution: false });
+            const input = { challenge: mockChallenge, solution, language: 'typescript' as ProgrammingLanguage, timeTaken: 60 };
+
+            const first = await staticEngine.scoreSolution(input);
+            const second = await staticEngine.scoreSolution(input);
+
+            expect(first.gradingMode).toBe('static');
+            expect(second.totalScore).toBe(first.totalScore);
+            expect(second.testResults).toEqual(first.testResults);
+        });
+
+        it('should fail every test when the entry point is missing', () => {
+            const results = gradeStatically(mockChallenge, 'const x = 1;', 'typescript');
+
+            expect(results.every(r => !r.passed)).toBe(true);
+            expect(passProbability(analyzeSolution(mockChallenge, 'const x = 1;', 'typescript'))).toBe(0);
+        });
+
+        it('should collect structural evidence', () => {
+            const evidence = analyzeSolution(mockChallenge, solution, 'typescript');
+
+            expect(evidence).toEqual({
+                definesEntryPoint: true,
+                hasReturn: true,
+                hasLogic: true,
+                isBalanced: true,
+                changedFromTemplate: true,
+            });
+            expect(analyzeSolution(mockChallenge, 'function test() { return (1;', 'typescript').isBalanced).toBe(false);
+        });
+    });
 });
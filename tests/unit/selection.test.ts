@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Unit tests for session challenge selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { selectChallenges } from '../../src/core/benchmark/selection.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import type { ChallengeSummary } from '../../src/shared/types/index.js';
+import { ChallengeCategory, Difficulty } from '../../src/shared/types/index.js';
+
+function summary(id: string, category: ChallengeCategory, difficultyTier: Difficulty): ChallengeSummary {
+    return { id, title: id, category, difficulty: difficultyTier * 2, difficultyTier, maxScore: 100, tags: [] };
+}
+
+const pool: ChallengeSummary[] = [
+    summary('sec_1', ChallengeCategory.SECURITY, Difficulty.EASY),
+    summary('sec_2', ChallengeCategory.SECURITY, Difficulty.EASY),
+    summary('sec_3', ChallengeCategory.SECURITY, Difficulty.MEDIUM),
+    summary('sec_4', ChallengeCategory.SECURITY, Difficulty.HARD),
+    summary('algo_1', ChallengeCategory.ALGORITHM_DESIGN, Difficulty.EASY),
+    summary('algo_2', ChallengeCategory.ALGORITHM_DESIGN, Difficulty.HARD),
+    summary('doc_1', ChallengeCategory.DOCUMENTATION, Difficulty.EASY),
+];
+
+const ids = (selected: ChallengeSummary[]): string[] => selected.map((c) => c.id);
+
+describe('selectChallenges', () => {
+    it('should take the first challenges up to the session size', () => {
+        expect(ids(selectChallenges(pool, { maxChallenges: 3, randomize: false }))).toEqual(['sec_1', 'sec_2', 'sec_3']);
+        expect(selectChallenges(pool, { randomize: false })).toHaveLength(pool.length);
+    });
+
+    it('should draw exactly the quota from each category', () => {
+        const selected = selectChallenges(pool, {
+            categoryQuotas: { [ChallengeCategory.SECURITY]: 3, [ChallengeCategory.ALGORITHM_DESIGN]: 2 },
+        });
+
+        expect(selected).toHaveLength(5);
+        expect(selected.filter((c) => c.category === ChallengeCategory.SECURITY)).toHaveLength(3);
+        expect(selected.filter((c) => c.category === ChallengeCategory.ALGORITHM_DESIGN)).toHaveLength(2);
+    });
+
+    it('should fill slots beyond the quotas from other categories', () => {
+        const selected = selectChallenges(pool, {
+            maxChallenges: 3,
+            categoryQuotas: { [ChallengeCategory.ALGORITHM_DESIGN]: 1 },
+            randomize: false,
+        });
+
+        expect(ids(selected)).toEqual(['algo_1', 'sec_1', 'sec_2']);
+    });
+
+    it('should reject quotas that cannot be met', () => {
+        expect(() => selectChallenges(pool, { categoryQuotas: { [ChallengeCategory.DOCUMENTATION]: 2 } }))
+            .toThrow('Not enough challenges for category documentation: requested 2, found 1');
+        expect(() => selectChallenges(pool, { maxChallenges: 2, categoryQuotas: { [ChallengeCategory.SECURITY]: 3 } }))
+            .toThrow('Category quotas total 3 but the session allows at most 2 challenges');
+    });
+
+    it('should spread picks across difficulty tiers when stratifying', () => {
+        const security = pool.filter((c) => c.category === ChallengeCategory.SECURITY);
+
+        expect(ids(selectChallenges(security, { maxChallenges: 3, stratifyByDifficulty: true, randomize: false })))
+            .toEqual(['sec_1', 'sec_3', 'sec_4']);
+
+        const tiers = selectChallenges(security, { maxChallenges: 3, stratifyByDifficulty: true }).map((c) => c.difficultyTier);
+        expect(new Set(tiers).size).toBe(3);
+    });
+});
+
+describe('BenchmarkEngine.startSession selection', () => {
+    async function createEngine(): Promise<BenchmarkEngine> {
+        const repository = new ChallengeRepository();
+        await repository.initialize();
+        return new BenchmarkEngine(
+            repository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore())
+        );
+    }
+
+    it('should select from every requested category', async () => {
+        const engine = await createEngine();
+        const session = await engine.startSession({
+            categories: [ChallengeCategory.SECURITY, ChallengeCategory.DOCUMENTATION],
+            maxChallenges: 13,
+        });
+
+        const prefixes = new Set(session.challengeIds.map((id) => id.split('_')[0]));
+        expect(prefixes).toEqual(new Set(['security', 'docs']));
+        expect(session.challengeIds).toHaveLength(13);
+    });
+
+    it('should apply quotas and record them on the session config', async () => {
+        const engine = await createEngine();
+        const categoryQuotas = { [ChallengeCategory.SECURITY]: 3, [ChallengeCategory.ALGORITHM_DESIGN]: 2 };
+        const session = await engine.startSession({ categoryQuotas });
+
+        expect(session.challengeIds.filter((id) => id.startsWith('security_'))).toHaveLength(3);
+        expect(session.challengeIds.filter((id) => id.startsWith('algo_'))).toHaveLength(2);
+        expect(session.config).toMatchObject({ categoryQuotas, maxChallenges: 5 });
+    });
+
+    it('should filter by any of the given tags', async () => {
+        const engine = await createEngine();
+        const session = await engine.startSession({ tags: ['graph', 'trie'], randomize: false });
+
+        expect(session.challengeIds.length).toBeGreaterThanOrEqual(2);
+        expect(session.config.tags).toEqual(['graph', 'trie']);
+    });
+});
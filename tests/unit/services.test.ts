@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Unit tests for the shared server wiring
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServices, createMcpServer, type ServerServices } from '../../src/server/services.js';
+import { MCP_RESOURCES, MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+async function connectClient(services: ServerServices): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer(services).connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+}
+
+describe('server services', () => {
+    it('should share the services between servers but keep sessions listed per client', async () => {
+        const services = createServices({ SESSION_STORE: 'memory' });
+        await services.challengeRepository.initialize();
+        const first = await connectClient(services);
+        const second = await connectClient(services);
+
+        const started = await first.callTool({ name: MCP_TOOLS.START_SESSION, arguments: { maxChallenges: 1 } });
+        const { sessionId } = started.structuredContent as { sessionId: string };
+        const uri = `${MCP_RESOURCES.SESSIONS}/${sessionId}`;
+
+        expect(await services.sessionManager.getSession(sessionId)).not.toBeNull();
+        expect((await first.listResources()).resources.map((r) => r.uri)).toContain(uri);
+        expect((await second.listResources()).resources.map((r) => r.uri)).not.toContain(uri);
+    });
+
+    it('should reject an unknown hidden test reveal policy', () => {
+        expect(() => createServices({ SESSION_STORE: 'memory', HIDDEN_TEST_REVEAL: 'sometimes' })).toThrow(
+            'Unknown hidden test reveal policy: sometimes'
+        );
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Unit Tests for Session Manager and Session Stores
+ * @module @mcp/intellibench/tests/unit/sessions
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { createSessionStore, InMemorySessionStore, SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { createModelStore } from '../../src/core/models/store.js';
+import { createLeaderboardStore } from '../../src/core/leaderboard/store.js';
+import { createCalibrationStore } from '../../src/core/calibration/store.js';
+import { DatabaseManager, openDatabase } from '../../src/core/persistence/database.js';
+import type { Session, ChallengeResult } from '../../src/shared/types/index.js';
+
+describe('SessionManager', () => {
+    describe.each([
+        ['memory', () => ({ store: new InMemorySessionStore(), close: () => {} })],
+        [
+            'sqlite',
+            () => {
+                const db = new DatabaseManager(':memory:');
+                return { store: new SqliteSessionStore(db), close: () => db.close() };
+            },
+        ],
+    ])('with %s store', (_kind, createStore) => {
+        let close: () => void = () => {};
+
+        afterEach(() => {
+            close();
+        });
+
+        function createManager(): SessionManager {
+            const created = createStore();
+            close = created.close;
+            return new SessionManager(created.store);
+        }
+
+        it('should save and load a session', async () => {
+            const manager = createManager();
+            await manager.saveSession(createMockSession());
+
+            const loaded = await manager.getSession('session_1');
+
+            expect(loaded?.name).toBe('Test Session');
+            expect(loaded?.challengeIds).toEqual(['algo_001', 'algo_002']);
+            expect(loaded?.results).toEqual([]);
+        });
+
+        it('should list only the most recently started sessions with a limit', async () => {
+            const manager = createManager();
+            for (const day of [1, 3, 2]) {
+                await manager.saveSession({
+                    ...createMockSession(),
+                    id: `session_${day}`,
+                    startedAt: `2024-01-0${day}T00:00:00.000Z`,
+                });
+            }
+
+            const recent = await manager.listSessions(['in_progress'], 2);
+
+            expect(recent.map((s) => s.id)).toEqual(['session_3', 'session_2']);
+            expect(await manager.listSessions(['in_progress'])).toHaveLength(3);
+        });
+
+        it('should list the IDs of the given sessions with a status, newest first', async () => {
+            const manager = createManager();
+            for (const [day, status] of [[1, 'in_progress'], [2, 'completed'], [3, 'in_progress'], [4, 'in_progress']] as const) {
+                await manager.saveSession({
+                    ...createMockSession(),
+                    id: `session_${day}`,
+                    status,
+                    startedAt: `2024-01-0${day}T00:00:00.000Z`,
+                });
+            }
+
+            const ids = ['session_1', 'session_2', 'session_3', 'missing'];
+
+            expect(await manager.listSessionIds(ids, ['in_progress'], 10)).toEqual(['session_3', 'session_1']);
+            expect(await manager.listSessionIds(ids, ['in_progress', 'completed'], 2)).toEqual(['session_3', 'session_2']);
+            expect(await manager.listSessionIds([], ['in_progress'], 10)).toEqual([]);
+        });
+
+        it('should return null for unknown sessions', async () => {
+            const manager = createManager();
+            expect(await manager.getSession('missing')).toBeNull();
+        });
+
+        it('should keep results and progress across reads', async () => {
+            const manager = createManager();
+            await manager.saveSession(createMockSession());
+
+            await manager.addResult('session_1', createMockResult('algo_001'));
+            await manager.advanceChallenge('session_1');
+
+            const loaded = await manager.getSession('session_1');
+
+            expect(loaded?.currentChallengeIndex).toBe(1);
+            expect(loaded?.results).toHaveLength(1);
+            expect(loaded?.results[0]?.challengeId).toBe('algo_001');
+            expect(loaded?.results[0]?.breakdown.correctness).toBe(80);
+        });
+
+        it('should report completed session scores', async () => {
+            const manager = createManager();
+            await manager.saveSession(createMockSession());
+            await manager.addResult('session_1', createMockResult('algo_001'));
+            await manager.updateSessionStatus('session_1', 'completed');
+
+            const loaded = await manager.getSession('session_1');
+
+            expect(loaded?.status).toBe('completed');
+            expect(loaded?.completedAt).toBeDefined();
+            expect(await manager.getAllSessionScores()).toEqual([75]);
+            expect(await manager.getCompletedSessions('all')).toHaveLength(1);
+        });
+
+        it('should store every change to a saved session', async () => {
+            const created = createStore();
+            close = created.close;
+            await created.store.save(createMockSession());
+
+            const changed: Session = {
+                ...createMockSession(),
+                name: 'Renamed',
+                aiModel: 'anthropic/claude',
+                config: { maxChallenges: 1, latePolicy: 'reject' },
+            };
+            await created.store.save(changed);
+
+            expect(await created.store.get('session_1')).toEqual(changed);
+        });
+
+        it('should reject results for unknown sessions', async () => {
+            const manager = createManager();
+            await expect(manager.addResult('missing', createMockResult('algo_001'))).rejects.toThrow(
+                'Session not found'
+            );
+        });
+    });
+
+    it('should resume sessions from the same database after a restart', async () => {
+        const db = new DatabaseManager(':memory:');
+
+        const first = new SessionManager(new SqliteSessionStore(db));
+        await first.saveSession(createMockSession());
+        await first.addResult('session_1', createMockResult('algo_001'));
+        await first.advanceChallenge('session_1');
+
+        const second = new SessionManager(new SqliteSessionStore(db));
+        const resumed = await second.getSession('session_1');
+
+        expect(resumed?.status).toBe('in_progress');
+        expect(resumed?.currentChallengeIndex).toBe(1);
+        expect(resumed?.results).toHaveLength(1);
+
+        db.close();
+    });
+
+    it('should create the directory of the database file', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'intellibench-'));
+        const db = new DatabaseManager(join(dir, 'nested', 'data', 'intellibench.db'));
+
+        expect(existsSync(join(dir, 'nested', 'data', 'intellibench.db'))).toBe(true);
+
+        db.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should back every store with one shared database', () => {
+        const db = openDatabase('sqlite', ':memory:');
+        const stores = [createSessionStore(db), createModelStore(db), createLeaderboardStore(db), createCalibrationStore(db)];
+
+        expect(db).toBeInstanceOf(DatabaseManager);
+        expect(stores.map((store) => store.kind)).toEqual(['sqlite', 'sqlite', 'sqlite', 'sqlite']);
+        expect(openDatabase('memory')).toBeUndefined();
+
+        db?.close();
+    });
+
+    it('should keep every store in memory when the database cannot be opened', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'intellibench-'));
+        writeFileSync(join(dir, 'file'), '');
+
+        const db = openDatabase('sqlite', join(dir, 'file', 'intellibench.db'));
+        const stores = [createSessionStore(db), createModelStore(db), createLeaderboardStore(db), createCalibrationStore(db)];
+
+        expect(db).toBeUndefined();
+        expect(stores.map((store) => store.kind)).toEqual(['memory', 'memory', 'memory', 'memory']);
+
+        rmSync(dir, { recursive: true, force: true });
+    });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function createMockSession(): Session {
+    return {
+        id: 'session_1',
+        name: 'Test Session',
+        status: 'in_progress',
+        config: { maxChallenges: 2 },
+        challengeIds: ['algo_001', 'algo_002'],
+        currentChallengeIndex: 0,
+        results: [],
+        startedAt: '2024-01-01T00:00:00.000Z',
+    };
+}
+
+function createMockResult(challengeId: string): ChallengeResult {
+    return {
+        challengeId,
+        sessionId: 'session_1',
+        solution: 'function main() { return 1; }',
+        language: 'typescript',
+        score: 75,
+        maxScore: 100,
+        breakdown: {
+            correctness: 80,
+            efficiency: 70,
+            codeQuality: 70,
+            completeness: 70,
+            creativity: 60,
+        },
+        testResults: [{ testCaseId: 'tc1', passed: true }],
+        feedback: 'Good effort!',
+        suggestions: [],
+        passed: true,
+        timeTaken: 30,
+        submittedAt: '2024-01-01T00:01:00.000Z',
+    };
+}
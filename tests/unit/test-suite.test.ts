@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Unit Tests for Test-Generation Grading
+ * @module @mcp/intellibench/tests/unit/test-suite
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    buildSuiteFiles,
+    parseSuiteReports,
+    splitSuiteImports,
+    SUITE_HARNESS_FILE,
+} from '../../src/core/execution/test-suite.js';
+import { generateMutants, findMutationSites } from '../../src/core/scoring/mutation.js';
+import { evaluateSuiteReports, gradeTestSuite } from '../../src/core/scoring/test-suite-grader.js';
+import { testGenerationChallenges } from '../../src/data/challenges/test-generation.js';
+import type { Challenge, TestSuiteSpec } from '../../src/shared/types/index.js';
+
+const calculator = testGenerationChallenges.find(c => c.id === 'test_001') as Challenge;
+const spec = calculator.testSuite as TestSuiteSpec;
+
+describe('Test-Generation Grading', () => {
+    describe('generateMutants', () => {
+        it('should apply every hand-written mutant', () => {
+            const mutants = generateMutants({ ...spec, generatedMutants: 0 });
+
+            expect(mutants.map(m => m.id)).toEqual(spec.mutants.map(m => m.id));
+            expect(mutants.every(m => m.code !== spec.reference)).toBe(true);
+        });
+
+        it('should generate the same operator mutants for the same seed', () => {
+            const first = generateMutants(spec).map(m => m.code);
+            const second = generateMutants(spec).map(m => m.code);
+
+            expect(first).toEqual(second);
+            expect(new Set(first).size).toBe(first.length);
+        });
+
+        it('should not mutate strings, comments or arrows', () => {
+            const sites = findMutationSites("const f = (a) => a + 1; // a - b\nconst s = 'x * y';");
+
+            expect(sites).toEqual([{ offset: 19, from: '+', to: '-' }]);
+        });
+    });
+
+    describe('splitSuiteImports', () => {
+        it('should drop framework and relative imports but keep libraries', () => {
+            const { imports, body } = splitSuiteImports([
+                "import { describe, it, expect } from 'vitest';",
+                "import { Calculator } from './calculator';",
+                "import * as fc from 'fast-check';",
+                "describe('x', () => {});",
+            ].join('\n'));
+
+            expect(imports).toEqual(["import * as fc from 'fast-check';"]);
+            expect(body.trim()).toBe("describe('x', () => {});");
+        });
+
+        it('should drop imports of URL schemes but keep node builtins', () => {
+            const { imports } = splitSuiteImports([
+                "import { readFileSync } from 'node:fs';",
+                "import 'data:text/javascript,console.log(1)';",
+                "import x from 'file:///tmp/x.mjs';",
+            ].join('\n'));
+
+            expect(imports).toEqual(["import { readFileSync } from 'node:fs';"]);
+        });
+    });
+
+    describe('harness', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'intellibench-suite-'));
+
+        afterAll(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        /** Run a suite against the reference and the given mutants */
+        function runHarness(suite: string, mutants: ReturnType<typeof generateMutants>, nonce = 'n0nce') {
+            const files = buildSuiteFiles(suite, [{ id: 'reference', code: spec.reference }, ...mutants], spec.exports, {
+                nonce,
+                timeout: 5000,
+            });
+            for (const [name, content] of Object.entries(files)) writeFileSync(join(dir, name), content);
+
+            const result = spawnSync(process.execPath, [join(dir, SUITE_HARNESS_FILE)], { encoding: 'utf-8', timeout: 20000 });
+            return parseSuiteReports(result.stdout, nonce);
+        }
+
+        it('should run a suite against the reference and mutants and report coverage', () => {
+            const suite = `
+                describe('Calculator', () => {
+                    it('adds', () => { expect(new Calculator().add(2, 3)).toBe(5); });
+                    it('rejects division by zero', () => {
+                        expect(() => new Calculator().divide(1, 0)).toThrow('Division by zero');
+                    });
+                });`;
+            const mutants = generateMutants({ ...spec, generatedMutants: 0 });
+            const reports = runHarness(suite, mutants);
+
+            expect(reports).toHaveLength(mutants.length + 1);
+
+            const evaluation = evaluateSuiteReports(reports ?? [], mutants);
+            const killed = evaluation.mutants.filter(m => m.killed).map(m => m.id);
+
+            expect(evaluation.passesOnReference).toBe(true);
+            expect(evaluation.testsRun).toBe(2);
+            expect(killed).toEqual(['add_subtracts', 'divide_no_zero_check']);
+            expect(evaluation.lineCoverage).toBeGreaterThan(0);
+            expect(evaluation.lineCoverage).toBeLessThan(1);
+        }, 30000);
+
+        it('should ignore reports printed by the suite itself', () => {
+            const fake = JSON.stringify([{ id: 'reference', tests: [{ name: 'fake', passed: true }] }]);
+            const suite = `
+                const marker = '__INTELLIBENCH_SUITE__';
+                console.log(marker + ${JSON.stringify(fake)});
+                process.on('exit', () => console.log(marker + 'n0nce' + ${JSON.stringify(fake)}));
+                describe('Calculator', () => {
+                    it('adds', () => { expect(new Calculator().add(2, 2)).toBe(5); });
+                });`;
+
+            const reports = runHarness(suite, [], 'f5e1c0a2');
+
+            expect(reports).toHaveLength(1);
+            expect(reports?.[0]?.tests).toEqual([expect.objectContaining({ name: 'Calculator > adds', passed: false })]);
+        }, 30000);
+
+        it('should give every implementation a fresh run the suite cannot tell apart', () => {
+            // Passes on the first run it sees and fails every later one, forging kills if runs shared state
+            const suite = `
+                globalThis.__runs = (globalThis.__runs ?? 0) + 1;
+                globalThis.__lineCoverage = () => ({ covered: 10, total: 10 });
+                describe('Calculator', () => {
+                    it('counts runs', () => { expect(globalThis.__runs).toBe(1); });
+                });`;
+            const mutants = generateMutants({ ...spec, generatedMutants: 0 });
+
+            const evaluation = evaluateSuiteReports(runHarness(suite, mutants) ?? [], mutants);
+
+            expect(evaluation.passesOnReference).toBe(true);
+            expect(evaluation.mutants.some(m => m.killed)).toBe(false);
+            expect(evaluation.lineCoverage).toBeLessThan(0.5);
+        }, 30000);
+
+        it('should report a suite that exits instead of losing the run', () => {
+            const suite = `
+                describe('Calculator', () => {
+                    it('exits', () => { process.exit(0); });
+                });`;
+
+            const reports = runHarness(suite, []);
+
+            expect(reports).toEqual([{ id: 'reference', tests: [], error: 'Suite exited before reporting' }]);
+        }, 30000);
+    });
+
+    describe('gradeTestSuite', () => {
+        it('should fail every check when the suite fails on the reference', () => {
+            const evaluation = evaluateSuiteReports(
+                [{ id: 'reference', tests: [{ name: 'adds', passed: false, error: 'boom' }] }],
+                []
+            );
+
+            const results = gradeTestSuite(calculator, evaluation);
+
+            expect(results.every(r => !r.passed)).toBe(true);
+            expect(results[0]?.error).toContain('Suite fails on the reference implementation');
+        });
+
+        it('should grade mutant, mutation score and coverage checks', () => {
+            const mutants = generateMutants(spec);
+            const reports = [
+                { id: 'reference', tests: [{ name: 't', passed: true }], coverage: { covered: 8, total: 8 } },
+                ...mutants.map(m => ({ id: m.id, tests: [{ name: 't', passed: m.id === 'power_zero_exponent' }] })),
+            ];
+
+            const results = gradeTestSuite(calculator, evaluateSuiteReports(reports, mutants));
+
+            expect(results.map(r => r.passed)).toEqual([true, true, true, true]);
+        });
+    });
+});
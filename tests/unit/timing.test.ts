@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Unit tests for challenge and session time limit enforcement
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { challengeClock, isSessionExpired } from '../../src/core/benchmark/timing.js';
+import { BenchmarkEngine, type StartSessionOptions } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore, SqliteSessionStore } from '../../src/core/sessions/store.js';
+import { DatabaseManager } from '../../src/core/persistence/database.js';
+import type { Session } from '../../src/shared/types/index.js';
+import { ChallengeCategory } from '../../src/shared/types/index.js';
+
+const START = new Date('2024-01-01T00:00:00.000Z');
+
+function at(seconds: number): string {
+    return new Date(START.getTime() + seconds * 1000).toISOString();
+}
+
+function session(overrides: Partial<Session> = {}): Session {
+    return {
+        id: 'session',
+        name: 'Session',
+        status: 'in_progress',
+        config: {},
+        challengeIds: ['a', 'b'],
+        currentChallengeIndex: 0,
+        results: [],
+        startedAt: at(0),
+        ...overrides,
+    };
+}
+
+describe('challengeClock', () => {
+    const challenge = { id: 'a', timeLimit: 100 };
+
+    it('should run from when the challenge was served, or from the session start', () => {
+        expect(challengeClock(session(), challenge, at(40))).toEqual({
+            startedAt: at(0),
+            elapsed: 40,
+            overtime: 0,
+            penalty: 0,
+            expired: false,
+        });
+        expect(challengeClock(session({ servedAt: { a: at(30) } }), challenge, at(40)).elapsed).toBe(10);
+    });
+
+    it('should penalize overtime until the late window closes', () => {
+        expect(challengeClock(session(), challenge, at(125))).toMatchObject({ overtime: 25, penalty: 0.25, expired: false });
+        expect(challengeClock(session(), challenge, at(200))).toMatchObject({ overtime: 100, penalty: 1, expired: true });
+    });
+
+    it('should expire at the time limit under the reject policy', () => {
+        const strict = session({ config: { latePolicy: 'reject' } });
+        expect(challengeClock(strict, challenge, at(100)).expired).toBe(false);
+        expect(challengeClock(strict, challenge, at(101))).toMatchObject({ overtime: 1, expired: true });
+    });
+});
+
+describe('isSessionExpired', () => {
+    it('should only expire sessions with a time budget', () => {
+        expect(isSessionExpired(session(), at(100000))).toBe(false);
+        expect(isSessionExpired(session({ config: { sessionTimeLimit: 60 } }), at(60))).toBe(false);
+        expect(isSessionExpired(session({ config: { sessionTimeLimit: 60 } }), at(61))).toBe(true);
+    });
+});
+
+describe('BenchmarkEngine time limits', () => {
+    let db: DatabaseManager;
+    let challengeRepository: ChallengeRepository;
+    let sessionManager: SessionManager;
+    let engine: BenchmarkEngine;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(START);
+
+        db = new DatabaseManager(':memory:');
+        sessionManager = new SessionManager(new SqliteSessionStore(db));
+        challengeRepository = new ChallengeRepository();
+        await challengeRepository.initialize();
+        engine = new BenchmarkEngine(challengeRepository, new ScoringEngine({ enableRealExecution: false }), sessionManager);
+    });
+
+    afterEach(() => {
+        db.close();
+        vi.useRealTimers();
+    });
+
+    async function start(options: StartSessionOptions = {}) {
+        return engine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            maxChallenges: 3,
+            randomize: false,
+            ...options,
+        });
+    }
+
+    it('should record when each challenge was first served', async () => {
+        const { id } = await start();
+
+        vi.setSystemTime(new Date(at(5)));
+        const challenge = (await engine.getCurrentChallenge(id))!;
+        vi.setSystemTime(new Date(at(10)));
+        await engine.getCurrentChallenge(id);
+
+        expect((await sessionManager.getSession(id))!.servedAt).toEqual({ [challenge.id]: at(5) });
+
+        vi.setSystemTime(new Date(at(25)));
+        const result = await engine.submitSolution(id, challenge.id, 'function solve() { return 1; }', 'typescript');
+        expect(result.timeTaken).toBe(20);
+        expect(result.overtime).toBeUndefined();
+    });
+
+    it('should deduct a late penalty from overtime submissions', async () => {
+        const { id } = await start();
+        const late = await start();
+        const challenge = (await engine.getCurrentChallenge(id))!;
+        const solution = 'function solve() { return 1; }';
+
+        // Same solution at the time limit, in the first session, for the unpenalized score
+        vi.setSystemTime(new Date(at(challenge.timeLimit)));
+        const onTime = await engine.submitSolution(id, challenge.id, solution, 'typescript');
+
+        vi.setSystemTime(new Date(at(challenge.timeLimit * 1.5)));
+        const result = await engine.submitSolution(late.id, challenge.id, solution, 'typescript');
+
+        expect(result.overtime).toBe(challenge.timeLimit / 2);
+        expect(result.latePenalty).toBe(0.5);
+        expect(result.score).toBe(Math.round(onTime.score * 0.5));
+        expect(result.timeTaken).toBe(challenge.timeLimit * 1.5);
+        expect(result.feedback).toContain('50% late penalty applied');
+
+        const stored = (await sessionManager.getSession(late.id))!.results[0]!;
+        expect(stored).toMatchObject({ overtime: challenge.timeLimit / 2, latePenalty: 0.5 });
+    });
+
+    it('should reject late submissions and skip the expired challenge', async () => {
+        const { id } = await start({ latePolicy: 'reject' });
+        const challenge = (await engine.getCurrentChallenge(id))!;
+
+        vi.setSystemTime(new Date(at(challenge.timeLimit + 1)));
+        await expect(
+            engine.submitSolution(id, challenge.id, 'function solve() {}', 'typescript')
+        ).rejects.toThrow(`Time limit of ${challenge.timeLimit}s exceeded for challenge ${challenge.id}; it was skipped`);
+
+        const stored = (await sessionManager.getSession(id))!;
+        expect(stored.currentChallengeIndex).toBe(1);
+        expect(stored.results[0]).toMatchObject({
+            challengeId: challenge.id,
+            score: 0,
+            expired: 'challenge_time_limit',
+            timeTaken: challenge.timeLimit + 1,
+        });
+
+        // The next challenge's clock starts from the expiry
+        const next = (await engine.getCurrentChallenge(id))!;
+        expect(next.id).not.toBe(challenge.id);
+        expect((await sessionManager.getSession(id))!.servedAt![next.id]).toBe(at(challenge.timeLimit + 1));
+    });
+
+    it('should skip an expired challenge when the next one is fetched', async () => {
+        const { id } = await start();
+        const first = (await engine.getCurrentChallenge(id))!;
+
+        vi.setSystemTime(new Date(at(first.timeLimit * 2 + 1)));
+        const next = await engine.getCurrentChallenge(id);
+
+        expect(next!.id).not.toBe(first.id);
+        expect((await sessionManager.getSession(id))!.results).toMatchObject([
+            { challengeId: first.id, expired: 'challenge_time_limit' },
+        ]);
+    });
+
+    it('should complete the session with zero results when its budget runs out', async () => {
+        const { id, challengeIds } = await start({ sessionTimeLimit: 60 });
+        await engine.getCurrentChallenge(id);
+
+        vi.setSystemTime(new Date(at(61)));
+        await expect(engine.enforceTimeLimits(id)).resolves.toBe('session_time_limit');
+
+        const stored = (await sessionManager.getSession(id))!;
+        expect(stored.status).toBe('completed');
+        expect(stored.results.map((r) => r.challengeId)).toEqual(challengeIds);
+        expect(stored.results.map((r) => [r.expired, r.timeTaken])).toEqual([
+            ['session_time_limit', 61],
+            ['session_time_limit', 0],
+            ['session_time_limit', 0],
+        ]);
+        await expect(engine.getCurrentChallenge(id)).resolves.toBeNull();
+        await expect(engine.enforceTimeLimits(id)).resolves.toBeNull();
+    });
+
+    it('should stop an adaptive session when its budget runs out', async () => {
+        const memoryEngine = new BenchmarkEngine(
+            challengeRepository,
+            new ScoringEngine({ enableRealExecution: false }),
+            new SessionManager(new InMemorySessionStore())
+        );
+        const { id } = await memoryEngine.startSession({
+            categories: [ChallengeCategory.ALGORITHM_DESIGN],
+            adaptive: true,
+            randomize: false,
+            sessionTimeLimit: 60,
+        });
+        const challenge = (await memoryEngine.getCurrentChallenge(id))!;
+
+        vi.setSystemTime(new Date(at(61)));
+        await expect(
+            memoryEngine.submitSolution(id, challenge.id, 'function solve() {}', 'typescript')
+        ).rejects.toThrow('Session time limit of 60s exceeded; the session was completed');
+
+        const results = await memoryEngine.getSessionResults(id);
+        expect(results.completedChallenges).toBe(1);
+        expect(results.adaptive!.stopReason).toBe('session_expired');
+        expect(results.adaptive!.ability).toBeLessThan(0);
+    });
+});
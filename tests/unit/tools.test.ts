@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Unit tests for the MCP tool registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { handleToolCall, registerTools, toolDefinitions, type ToolContext } from '../../src/server/tools/index.js';
+import { BenchmarkEngine } from '../../src/core/benchmark/engine.js';
+import { ChallengeRepository } from '../../src/core/challenges/repository.js';
+import { ScoringEngine } from '../../src/core/scoring/engine.js';
+import { SessionManager } from '../../src/core/sessions/manager.js';
+import { InMemorySessionStore } from '../../src/core/sessions/store.js';
+import { MCP_TOOLS } from '../../src/shared/constants/index.js';
+
+async function createContext(): Promise<ToolContext> {
+    const challengeRepository = new ChallengeRepository();
+    await challengeRepository.initialize();
+    const scoringEngine = new ScoringEngine({ enableRealExecution: false });
+    const sessionManager = new SessionManager(new InMemorySessionStore());
+
+    return {
+        benchmarkEngine: new BenchmarkEngine(challengeRepository, scoringEngine, sessionManager),
+        sessionManager,
+        challengeRepository,
+        scoringEngine,
+    };
+}
+
+async function connectClient(context: ToolContext): Promise<Client> {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    registerTools(server, context);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+}
+
+function parse(result: { content: unknown }): Record<string, unknown> {
+    const [block] = result.content as Array<{ text: string }>;
+    return JSON.parse(block!.text) as Record<string, unknown>;
+}
+
+describe('tool registry', () => {
+    it('should declare every MCP tool exactly once', () => {
+        const names = toolDefinitions.map((t) => t.name);
+
+        expect(new Set(names).size).toBe(names.length);
+        expect(new Set(names)).toEqual(new Set(Object.values(MCP_TOOLS)));
+    });
+
+    it('should expose the registry on a mounted server', async () => {
+        const client = await connectClient(await createContext());
+        const { tools } = await client.listTools();
+
+        expect(tools.map((t) => t.name)).toEqual(toolDefinitions.map((t) => t.name));
+        const startSession = tools.find((t) => t.name === MCP_TOOLS.START_SESSION);
+        expect(Object.keys(startSession?.inputSchema.properties ?? {})).toEqual(
+            Object.keys(toolDefinitions.find((t) => t.name === MCP_TOOLS.START_SESSION)!.inputSchema)
+        );
+    });
+
+    it('should run tools through a mounted server', async () => {
+        const client = await connectClient(await createContext());
+
+        const started = parse(await client.callTool({ name: MCP_TOOLS.START_SESSION, arguments: { maxChallenges: 2 } }));
+        expect(started['totalChallenges']).toBe(2);
+
+        const challenge = parse(await client.callTool({
+            name: MCP_TOOLS.GET_CHALLENGE,
+            arguments: { sessionId: started['sessionId'] },
+        }));
+        expect(challenge['challengeId']).toEqual(expect.any(String));
+    });
+
+    it('should publish an output schema and return matching structured content from every tool', async () => {
+        const client = await connectClient(await createContext());
+        // Listing tools makes the client validate structured content against the output schemas
+        const { tools } = await client.listTools();
+        expect(tools.every((t) => t.outputSchema?.type === 'object')).toBe(true);
+
+        const call = async (name: string, args: Record<string, unknown>) => {
+            const result = await client.callTool({ name, arguments: args });
+            expect(result.isError).toBeFalsy();
+            expect(result.structuredContent).toEqual(parse(result));
+            return result.structuredContent as Record<string, unknown>;
+        };
+
+        const { sessionId } = await call(MCP_TOOLS.START_SESSION, { maxChallenges: 2 });
+        const challenge = await call(MCP_TOOLS.GET_CHALLENGE, { sessionId });
+        expect(challenge['completed']).toBe(false);
+        await call(MCP_TOOLS.SUBMIT_SOLUTION, {
+            sessionId,
+            challengeId: challenge['challengeId'],
+            solution: 'function main() { return null; }',
+        });
+        await call(MCP_TOOLS.GET_SESSION_STATUS, { sessionId });
+        await call(MCP_TOOLS.RESUME_SESSION, { sessionId });
+        await call(MCP_TOOLS.SKIP_CHALLENGE, { sessionId, reason: 'test' });
+        expect(await call(MCP_TOOLS.GET_CHALLENGE, { sessionId })).toMatchObject({ completed: true });
+        await call(MCP_TOOLS.GET_RESULTS, { sessionId });
+        await call(MCP_TOOLS.GET_LEADERBOARD, {});
+        await call(MCP_TOOLS.LIST_CHALLENGES, { limit: 3 });
+        await call(MCP_TOOLS.GET_MODEL_PROFILES, {});
+        await call(MCP_TOOLS.CALIBRATE, { flaggedOnly: true });
+    });
+
+    it('should report handler failures as error results', async () => {
+        const client = await connectClient(await createContext());
+        const result = await client.callTool({ name: MCP_TOOLS.GET_RESULTS, arguments: { sessionId: 'missing' } });
+
+        expect(result.isError).toBe(true);
+        expect(parse(result)).toEqual({ error: 'Session not found: missing' });
+    });
+});
+
+describe('handleToolCall', () => {
+    it('should validate arguments against the tool schema', async () => {
+        const context = await createContext();
+
+        const unknown = await handleToolCall('intellibench_nope', {}, context);
+        expect(unknown.isError).toBe(true);
+
+        const invalid = await handleToolCall(MCP_TOOLS.START_SESSION, { maxChallenges: 0 }, context);
+        expect(invalid.isError).toBe(true);
+        expect(parse(invalid)['error']).toContain(`Invalid arguments for ${MCP_TOOLS.START_SESSION}`);
+
+        const valid = await handleToolCall(MCP_TOOLS.LIST_CHALLENGES, { category: 'security', limit: 2 }, context);
+        expect(parse(valid)['total']).toBe(2);
+    });
+});